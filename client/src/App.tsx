@@ -16,6 +16,9 @@ import { CreateCommunityPage } from './pages/CreateCommunityPage';
 import { CommunityDetailPage } from './pages/CommunityDetailPage';
 import { CourseDetailPage } from './pages/CourseDetailPage';
 import { FeedPage } from './pages/FeedPage';
+import { VerifyEmailPage } from './pages/VerifyEmailPage';
+import { ForgotPasswordPage } from './pages/ForgotPasswordPage';
+import { ResetPasswordPage } from './pages/ResetPasswordPage';
 import { useGlobalErrorHandler } from './hooks/useGlobalErrorHandler';
 import './App.css';
 
@@ -81,6 +84,9 @@ const AppContent = () => {
         <Route path="/" element={<Home />} />
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<RegisterPage />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
+        <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
         <Route path="/communities" element={<CommunitiesPage />} />
         <Route path="/communities/:id" element={<CommunityDetailPage />} />
         <Route path="/communities/:communityId/feed" element={<FeedPage />} />
@@ -11,6 +11,9 @@ interface MemberManagementProps {
   onUpdateMemberRole?: (memberId: string, role: 'member' | 'moderator' | 'admin') => Promise<void>;
   onUpdateMemberStatus?: (memberId: string, status: 'active' | 'suspended') => Promise<void>;
   onRemoveMember?: (memberId: string) => Promise<void>;
+  onBanMember?: (userId: string, reason?: string) => Promise<void>;
+  onMuteMember?: (userId: string, hours: number, reason?: string) => Promise<void>;
+  onWarnMember?: (userId: string, reason?: string) => Promise<void>;
   currentUserRole?: 'member' | 'moderator' | 'admin';
 }
 
@@ -20,6 +23,9 @@ export function MemberManagement({
   onUpdateMemberRole,
   onUpdateMemberStatus,
   onRemoveMember,
+  onBanMember,
+  onMuteMember,
+  onWarnMember,
   currentUserRole = 'member',
 }: MemberManagementProps) {
   const [searchTerm, setSearchTerm] = useState('');
@@ -142,6 +148,9 @@ export function MemberManagement({
                   onUpdateMemberRole={onUpdateMemberRole}
                   onUpdateMemberStatus={onUpdateMemberStatus}
                   onRemoveMember={onRemoveMember}
+                  onBanMember={onBanMember}
+                  onMuteMember={onMuteMember}
+                  onWarnMember={onWarnMember}
                 />
               ))}
             </div>
@@ -159,6 +168,9 @@ interface MemberCardProps {
   onUpdateMemberRole?: (memberId: string, role: 'member' | 'moderator' | 'admin') => Promise<void>;
   onUpdateMemberStatus?: (memberId: string, status: 'active' | 'suspended') => Promise<void>;
   onRemoveMember?: (memberId: string) => Promise<void>;
+  onBanMember?: (userId: string, reason?: string) => Promise<void>;
+  onMuteMember?: (userId: string, hours: number, reason?: string) => Promise<void>;
+  onWarnMember?: (userId: string, reason?: string) => Promise<void>;
 }
 
 function MemberCard({
@@ -168,6 +180,9 @@ function MemberCard({
   onUpdateMemberRole,
   onUpdateMemberStatus,
   onRemoveMember,
+  onBanMember,
+  onMuteMember,
+  onWarnMember,
 }: MemberCardProps) {
   const [isUpdating, setIsUpdating] = useState(false);
 
@@ -204,6 +219,43 @@ function MemberCard({
     }
   };
 
+  const handleWarn = async () => {
+    if (!onWarnMember) return;
+    const reason = window.prompt('Reason for the warning (sent to the member):');
+    if (reason === null) return;
+
+    setIsUpdating(true);
+    try {
+      await onWarnMember(member.user.id, reason || undefined);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleMute = async () => {
+    if (!onMuteMember) return;
+    const hours = Number(window.prompt('Mute for how many hours?', '24'));
+    if (!hours || hours <= 0) return;
+
+    setIsUpdating(true);
+    try {
+      await onMuteMember(member.user.id, hours);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleBan = async () => {
+    if (!onBanMember || !window.confirm('Ban this member? They will be removed and unable to rejoin.')) return;
+
+    setIsUpdating(true);
+    try {
+      await onBanMember(member.user.id);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const badges = {
       active: 'bg-green-100 text-green-800',
@@ -290,6 +342,26 @@ function MemberCard({
             </button>
           )}
 
+          {onWarnMember && (
+            <button
+              onClick={handleWarn}
+              disabled={isUpdating}
+              className="text-sm text-yellow-600 hover:text-yellow-500 disabled:opacity-50"
+            >
+              Warn
+            </button>
+          )}
+
+          {onMuteMember && (
+            <button
+              onClick={handleMute}
+              disabled={isUpdating}
+              className="text-sm text-orange-600 hover:text-orange-500 disabled:opacity-50"
+            >
+              Mute
+            </button>
+          )}
+
           <button
             onClick={handleRemove}
             disabled={isUpdating}
@@ -297,6 +369,16 @@ function MemberCard({
           >
             Remove
           </button>
+
+          {onBanMember && (
+            <button
+              onClick={handleBan}
+              disabled={isUpdating}
+              className="text-sm text-red-700 hover:text-red-600 disabled:opacity-50"
+            >
+              Ban
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { useToastContext } from '../contexts/ToastContext';
+import { ModerationAction, ModerationQueueItem, ReportReason, ReportStatus } from '../types';
+import apiService from '../services/api';
+
+interface ModerationQueueProps {
+  communityId: string;
+}
+
+export function ModerationQueue({ communityId }: ModerationQueueProps) {
+  const toast = useToastContext();
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<ReportStatus>('pending');
+  const [filterType, setFilterType] = useState<string>('all');
+  const [filterReason, setFilterReason] = useState<string>('all');
+
+  useEffect(() => {
+    loadQueue();
+  }, [communityId, filterStatus, filterType, filterReason]);
+
+  const loadQueue = async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiService.getModerationQueue(communityId, {
+        status: filterStatus,
+        contentType: filterType === 'all' ? undefined : (filterType as 'post' | 'comment'),
+        reason: filterReason === 'all' ? undefined : (filterReason as ReportReason),
+      });
+      if (response.data) {
+        setItems(response.data.items);
+        setHasMore(response.data.hasMore);
+      } else {
+        toast.error(response.error?.message || 'Failed to load moderation queue');
+      }
+    } catch (err) {
+      toast.error('An error occurred while loading the moderation queue');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResolve = async (item: ModerationQueueItem, action: ModerationAction, note: string) => {
+    const response = await apiService.resolveReports(communityId, item.contentType, item.contentId, action, note || undefined);
+    if (response.data) {
+      toast.success('Reports resolved');
+      await loadQueue();
+    } else {
+      toast.error(response.error?.message || 'Failed to resolve reports');
+    }
+  };
+
+  const handleDismiss = async (item: ModerationQueueItem, note: string) => {
+    const response = await apiService.dismissReports(communityId, item.contentType, item.contentId, note || undefined);
+    if (response.data) {
+      toast.success('Reports dismissed');
+      await loadQueue();
+    } else {
+      toast.error(response.error?.message || 'Failed to dismiss reports');
+    }
+  };
+
+  const isOpen = filterStatus === 'pending' || filterStatus === 'reviewed';
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white shadow rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="filterStatus" className="block text-sm font-medium text-gray-700 mb-1">
+              Status
+            </label>
+            <select
+              id="filterStatus"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value as ReportStatus)}
+            >
+              <option value="pending">Pending</option>
+              <option value="reviewed">Reviewed</option>
+              <option value="resolved">Resolved</option>
+              <option value="dismissed">Dismissed</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filterType" className="block text-sm font-medium text-gray-700 mb-1">
+              Content Type
+            </label>
+            <select
+              id="filterType"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              value={filterType}
+              onChange={(e) => setFilterType(e.target.value)}
+            >
+              <option value="all">All Content</option>
+              <option value="post">Posts</option>
+              <option value="comment">Comments</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filterReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select
+              id="filterReason"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              value={filterReason}
+              onChange={(e) => setFilterReason(e.target.value)}
+            >
+              <option value="all">All Reasons</option>
+              <option value="spam">Spam</option>
+              <option value="harassment">Harassment</option>
+              <option value="inappropriate">Inappropriate</option>
+              <option value="misinformation">Misinformation</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+
+          <div className="flex items-end">
+            <div className="text-sm text-gray-500">
+              {items.length}{hasMore ? '+' : ''} reported {items.length === 1 && !hasMore ? 'item' : 'items'}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
+            Moderation Queue
+          </h3>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="p-4 border border-gray-200 rounded-lg animate-pulse">
+                  <div className="h-4 bg-gray-200 rounded w-1/4 mb-2"></div>
+                  <div className="h-3 bg-gray-200 rounded w-2/3"></div>
+                </div>
+              ))}
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No reported content matches these filters.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {items.map((item) => (
+                <QueueItemCard
+                  key={`${item.contentType}-${item.contentId}`}
+                  item={item}
+                  canAct={isOpen}
+                  onResolve={handleResolve}
+                  onDismiss={handleDismiss}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface QueueItemCardProps {
+  item: ModerationQueueItem;
+  canAct: boolean;
+  onResolve: (item: ModerationQueueItem, action: ModerationAction, note: string) => Promise<void>;
+  onDismiss: (item: ModerationQueueItem, note: string) => Promise<void>;
+}
+
+function QueueItemCard({ item, canAct, onResolve, onDismiss }: QueueItemCardProps) {
+  const [note, setNote] = useState('');
+  const [showReports, setShowReports] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const handleResolve = async (action: ModerationAction) => {
+    if (action === 'delete' && !window.confirm(`Are you sure you want to delete this ${item.contentType}?`)) return;
+
+    setIsUpdating(true);
+    try {
+      await onResolve(item, action, note);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setIsUpdating(true);
+    try {
+      await onDismiss(item, note);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const author = item.content?.author;
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-x-2 mb-1">
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+              {item.contentType}
+            </span>
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+              {item.reportCount} {item.reportCount === 1 ? 'report' : 'reports'}
+            </span>
+            {Object.entries(item.reasons).map(([reason, count]) => (
+              <span
+                key={reason}
+                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+              >
+                {reason} × {count}
+              </span>
+            ))}
+          </div>
+
+          {item.content ? (
+            <>
+              {'title' in item.content && item.content.title && (
+                <p className="text-sm font-medium text-gray-900">{item.content.title}</p>
+              )}
+              {item.content.post && (
+                <p className="text-xs text-gray-500">On post: {item.content.post.title || 'Untitled post'}</p>
+              )}
+              <p className="text-sm text-gray-700 mt-1 whitespace-pre-line line-clamp-3">{item.content.content}</p>
+              {author && (
+                <p className="text-xs text-gray-500 mt-1">
+                  by {author.displayName || author.username}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 italic">This content has been deleted.</p>
+          )}
+
+          <p className="text-xs text-gray-400 mt-1">
+            First reported {new Date(item.firstReportedAt).toLocaleString()}
+          </p>
+        </div>
+
+        <button
+          onClick={() => setShowReports(!showReports)}
+          className="ml-4 text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          {showReports ? 'Hide reports' : 'Show reports'}
+        </button>
+      </div>
+
+      {showReports && (
+        <ul className="mt-3 space-y-2 border-t border-gray-100 pt-3">
+          {item.reports.map((report) => (
+            <li key={report.id} className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900">
+                {report.reporterId === null
+                  ? 'Content filter'
+                  : report.reporter?.displayName || report.reporter?.username || 'Unknown'}
+              </span>{' '}
+              reported for <span className="font-medium">{report.reason}</span>
+              {report.description && <>: {report.description}</>}
+              {report.moderatorNote && (
+                <span className="block text-xs text-gray-500">Moderator note: {report.moderatorNote}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAct && (
+        <div className="mt-4 flex flex-col md:flex-row md:items-center md:space-x-2 space-y-2 md:space-y-0">
+          <input
+            type="text"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            placeholder="Note for the audit log (sent to the author when warning)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={1000}
+          />
+          <button
+            onClick={handleDismiss}
+            disabled={isUpdating}
+            className="text-sm text-gray-600 hover:text-gray-500 disabled:opacity-50"
+          >
+            Dismiss
+          </button>
+          <button
+            onClick={() => handleResolve('none')}
+            disabled={isUpdating}
+            className="text-sm text-green-600 hover:text-green-500 disabled:opacity-50"
+          >
+            Resolve
+          </button>
+          <button
+            onClick={() => handleResolve('warn')}
+            disabled={isUpdating}
+            className="text-sm text-yellow-600 hover:text-yellow-500 disabled:opacity-50"
+          >
+            Warn
+          </button>
+          {item.content?.isHidden ? (
+            <button
+              onClick={() => handleResolve('approve')}
+              disabled={isUpdating}
+              className="text-sm text-green-600 hover:text-green-500 disabled:opacity-50"
+            >
+              Approve
+            </button>
+          ) : (
+            <button
+              onClick={() => handleResolve('hide')}
+              disabled={isUpdating}
+              className="text-sm text-orange-600 hover:text-orange-500 disabled:opacity-50"
+            >
+              Hide
+            </button>
+          )}
+          <button
+            onClick={() => handleResolve('delete')}
+            disabled={isUpdating}
+            className="text-sm text-red-600 hover:text-red-500 disabled:opacity-50"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -196,6 +196,8 @@ export function NotificationToast() {
         return '🏆';
       case 'LESSON_COMPLETED':
         return '🎓';
+      case 'MODERATION_WARNING':
+        return '⚠️';
       default:
         return '🔔';
     }
@@ -215,6 +217,8 @@ export function NotificationToast() {
         return 'bg-emerald-500';
       case 'ACHIEVEMENT_EARNED':
         return 'bg-yellow-500';
+      case 'MODERATION_WARNING':
+        return 'bg-red-500';
       default:
         return 'bg-gray-500';
     }
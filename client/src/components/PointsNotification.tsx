@@ -8,14 +8,26 @@ interface PointsAward {
   timestamp: string;
 }
 
+interface LevelUp {
+  communityId: string;
+  level: number;
+  name: string;
+  pointsRequired: number;
+  timestamp: string;
+}
+
+type PointsEvent =
+  | ({ kind: 'points' } & PointsAward)
+  | ({ kind: 'level' } & LevelUp);
+
 export function PointsNotification() {
-  const [pointsAwards, setPointsAwards] = useState<(PointsAward & { id: string; show: boolean })[]>([]);
+  const [pointsAwards, setPointsAwards] = useState<(PointsEvent & { id: string; show: boolean })[]>([]);
   const { on, off } = useSocket();
 
   useEffect(() => {
-    const handlePointsAwarded = (data: PointsAward) => {
+    const showEvent = (event: PointsEvent) => {
       const awardWithId = {
-        ...data,
+        ...event,
         id: `${Date.now()}-${Math.random()}`,
         show: true
       };
@@ -39,10 +51,15 @@ export function PointsNotification() {
       }, 4500);
     };
 
+    const handlePointsAwarded = (data: PointsAward) => showEvent({ kind: 'points', ...data });
+    const handleLevelUp = (data: LevelUp) => showEvent({ kind: 'level', ...data });
+
     on('user:points_awarded', handlePointsAwarded);
+    on('user:level_up', handleLevelUp);
 
     return () => {
       off('user:points_awarded', handlePointsAwarded);
+      off('user:level_up', handleLevelUp);
     };
   }, [on, off]);
 
@@ -68,25 +85,47 @@ export function PointsNotification() {
             }
           `}
         >
-          <div className="bg-gradient-to-r from-yellow-400 to-orange-500 text-white rounded-lg shadow-lg p-4 max-w-sm">
-            <div className="flex items-center space-x-3">
-              <div className="text-2xl">
-                {getPointsIcon(award.reason)}
-              </div>
-              <div className="flex-1">
-                <div className="flex items-center space-x-2">
-                  <span className="text-lg font-bold">+{award.points}</span>
-                  <span className="text-sm opacity-90">points</span>
+          {award.kind === 'level' ? (
+            <div className="bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-lg shadow-lg p-4 max-w-sm">
+              <div className="flex items-center space-x-3">
+                <div className="text-2xl">
+                  🚀
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-lg font-bold">Level {award.level}</span>
+                    <span className="text-sm opacity-90">reached</span>
+                  </div>
+                  <p className="text-sm opacity-90 mt-1">
+                    You are now a {award.name}
+                  </p>
+                </div>
+                <div className="text-xl">
+                  🎉
                 </div>
-                <p className="text-sm opacity-90 mt-1">
-                  {award.reason}
-                </p>
               </div>
-              <div className="text-xl">
-                🎉
+            </div>
+          ) : (
+            <div className="bg-gradient-to-r from-yellow-400 to-orange-500 text-white rounded-lg shadow-lg p-4 max-w-sm">
+              <div className="flex items-center space-x-3">
+                <div className="text-2xl">
+                  {getPointsIcon(award.reason)}
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-lg font-bold">+{award.points}</span>
+                    <span className="text-sm opacity-90">points</span>
+                  </div>
+                  <p className="text-sm opacity-90 mt-1">
+                    {award.reason}
+                  </p>
+                </div>
+                <div className="text-xl">
+                  🎉
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
       ))}
     </div>
@@ -1,7 +1,20 @@
-import React, { useState } from 'react';
-import { PostFormData } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { PollFormData, PostFormData, User } from '../types';
+import { apiService } from '../services/api';
+import { getMentionQuery } from '../utils/mentions';
+
+type MentionSuggestion = Pick<User, 'id' | 'username' | 'displayName' | 'avatarUrl'>;
+
+const MAX_POLL_OPTIONS = 10;
+
+const EMPTY_POLL: PollFormData = {
+  options: ['', ''],
+  multipleChoice: false,
+  isAnonymous: false,
+};
 
 interface PostFormProps {
+  communityId?: string; // Enables @mention autocomplete
   initialData?: Partial<PostFormData>;
   onSubmit: (data: PostFormData) => Promise<boolean>;
   onCancel?: () => void;
@@ -11,6 +24,7 @@ interface PostFormProps {
 }
 
 export function PostForm({
+  communityId,
   initialData = {},
   onSubmit,
   onCancel,
@@ -22,14 +36,73 @@ export function PostForm({
     title: initialData.title || '',
     content: initialData.content || '',
     postType: initialData.postType || 'discussion',
+    poll: initialData.poll,
   });
   const [error, setError] = useState('');
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  // Look up members as the user types an @mention
+  useEffect(() => {
+    if (!communityId || !mention || mention.query.length === 0) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const response = await apiService.getMentionSuggestions(communityId, mention.query);
+      if (!cancelled) {
+        setSuggestions(response.data || []);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [communityId, mention]);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
+
+    if (name === 'postType') {
+      setFormData(prev => ({ ...prev, poll: value === 'poll' ? prev.poll || EMPTY_POLL : undefined }));
+    }
+
+    if (name === 'content' && e.target instanceof HTMLTextAreaElement) {
+      setMention(getMentionQuery(value, e.target.selectionStart));
+    }
+  };
+
+  const handleSelectMention = (username: string) => {
+    if (!mention) return;
+
+    const before = formData.content.slice(0, mention.start);
+    const after = formData.content.slice(mention.start + mention.query.length + 1);
+    const inserted = `@${username} `;
+
+    setFormData(prev => ({ ...prev, content: before + inserted + after }));
+    setMention(null);
+
+    // Put the caret right after the inserted mention
+    requestAnimationFrame(() => {
+      const caret = before.length + inserted.length;
+      contentRef.current?.focus();
+      contentRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const updatePoll = (changes: Partial<PollFormData>) => {
+    setFormData(prev => ({ ...prev, poll: { ...(prev.poll || EMPTY_POLL), ...changes } }));
+  };
+
+  const handlePollOptionChange = (index: number, value: string) => {
+    updatePoll({ options: (formData.poll?.options || []).map((option, i) => (i === index ? value : option)) });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -52,8 +125,38 @@ export function PostForm({
       return;
     }
 
+    let submitted = formData;
+
+    if (formData.postType === 'poll' && formData.poll) {
+      const options = formData.poll.options.map(option => option.trim()).filter(Boolean);
+
+      if (options.length < 2) {
+        setError('A poll needs at least 2 options');
+        return;
+      }
+
+      if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+        setError('Poll options must be unique');
+        return;
+      }
+
+      if (formData.poll.closesAt && new Date(formData.poll.closesAt) <= new Date()) {
+        setError('Poll close time must be in the future');
+        return;
+      }
+
+      submitted = {
+        ...formData,
+        poll: {
+          ...formData.poll,
+          options,
+          closesAt: formData.poll.closesAt ? new Date(formData.poll.closesAt).toISOString() : undefined,
+        },
+      };
+    }
+
     try {
-      const success = await onSubmit(formData);
+      const success = await onSubmit(submitted);
       if (!success) {
         setError('Failed to create post. Please try again.');
       }
@@ -78,6 +181,7 @@ export function PostForm({
           >
             <option value="discussion">Discussion</option>
             <option value="announcement">Announcement</option>
+            <option value="poll">Poll</option>
           </select>
         </div>
       )}
@@ -99,21 +203,106 @@ export function PostForm({
         </div>
       )}
 
-      <div>
+      <div className="relative">
         <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-1">
           Content *
         </label>
         <textarea
+          ref={contentRef}
           id="content"
           name="content"
           rows={6}
           className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
           value={formData.content}
           onChange={handleChange}
+          onBlur={() => setTimeout(() => setMention(null), 150)}
           placeholder="What's on your mind?"
         />
+        {mention && suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-auto">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.id}>
+                <button
+                  type="button"
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => handleSelectMention(suggestion.username)}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-indigo-50"
+                >
+                  <span className="font-medium text-gray-900">@{suggestion.username}</span>
+                  {suggestion.displayName && (
+                    <span className="ml-2 text-gray-500">{suggestion.displayName}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
+      {formData.postType === 'poll' && formData.poll && (
+        <div className="space-y-3">
+          <span className="block text-sm font-medium text-gray-700">Options *</span>
+          {formData.poll.options.map((option, index) => (
+            <div key={index} className="flex space-x-2">
+              <input
+                type="text"
+                aria-label={`Option ${index + 1}`}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                value={option}
+                maxLength={200}
+                onChange={e => handlePollOptionChange(index, e.target.value)}
+                placeholder={`Option ${index + 1}`}
+              />
+              {formData.poll!.options.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => updatePoll({ options: formData.poll!.options.filter((_, i) => i !== index) })}
+                  className="px-3 text-sm text-gray-500 hover:text-red-600"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          {formData.poll.options.length < MAX_POLL_OPTIONS && (
+            <button
+              type="button"
+              onClick={() => updatePoll({ options: [...formData.poll!.options, ''] })}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              Add option
+            </button>
+          )}
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={formData.poll.multipleChoice}
+                onChange={e => updatePoll({ multipleChoice: e.target.checked })}
+              />
+              <span>Allow multiple choices</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={formData.poll.isAnonymous}
+                onChange={e => updatePoll({ isAnonymous: e.target.checked })}
+              />
+              <span>Anonymous votes</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Closes</span>
+              <input
+                type="datetime-local"
+                className="px-2 py-1 border border-gray-300 rounded-md sm:text-sm"
+                value={formData.poll.closesAt || ''}
+                onChange={e => updatePoll({ closesAt: e.target.value || undefined })}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="rounded-md bg-red-50 p-4">
           <div className="text-sm text-red-700">{error}</div>
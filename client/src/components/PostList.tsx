@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Post, Comment, User } from '../types';
+import { Post, Comment, Poll, User } from '../types';
+import { splitMentions } from '../utils/mentions';
 
 interface PostWithAuthor extends Post {
   author: User;
@@ -9,6 +10,7 @@ interface PostListProps {
   posts: PostWithAuthor[];
   isLoading?: boolean;
   onLikePost?: (postId: string) => Promise<void>;
+  onVotePoll?: (postId: string, optionIds: string[]) => Promise<void>; // Empty optionIds removes the vote
   onAddComment?: (postId: string, content: string) => Promise<void>;
   onLikeComment?: (commentId: string) => Promise<void>;
   currentUser?: User;
@@ -18,6 +20,7 @@ export function PostList({
   posts,
   isLoading = false,
   onLikePost,
+  onVotePoll,
   onAddComment,
   onLikeComment,
   currentUser,
@@ -62,6 +65,7 @@ export function PostList({
           key={post.id}
           post={post}
           onLikePost={onLikePost}
+          onVotePoll={onVotePoll}
           onAddComment={onAddComment}
           onLikeComment={onLikeComment}
           currentUser={currentUser}
@@ -74,6 +78,7 @@ export function PostList({
 interface PostCardProps {
   post: PostWithAuthor;
   onLikePost?: (postId: string) => Promise<void>;
+  onVotePoll?: (postId: string, optionIds: string[]) => Promise<void>; // Empty optionIds removes the vote
   onAddComment?: (postId: string, content: string) => Promise<void>;
   onLikeComment?: (commentId: string) => Promise<void>;
   currentUser?: User;
@@ -82,6 +87,7 @@ interface PostCardProps {
 function PostCard({
   post,
   onLikePost,
+  onVotePoll,
   onAddComment,
   onLikeComment,
   currentUser,
@@ -156,6 +162,26 @@ function PostCard({
                 Announcement
               </span>
             )}
+            {post.postType === 'poll' && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                Poll
+              </span>
+            )}
+            {post.isPinned && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                Pinned
+              </span>
+            )}
+            {post.isLocked && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                Locked
+              </span>
+            )}
+            {post.isHidden && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                Hidden
+              </span>
+            )}
           </div>
           <p className="text-sm text-gray-500">{formatTimeAgo(post.createdAt)}</p>
         </div>
@@ -166,7 +192,15 @@ function PostCard({
         {post.title && (
           <h3 className="text-lg font-semibold text-gray-900 mb-2">{post.title}</h3>
         )}
-        <div className="text-gray-700 whitespace-pre-wrap">{post.content}</div>
+        <div className="text-gray-700 whitespace-pre-wrap">
+          <MentionText content={post.content} />
+        </div>
+        {post.poll && (
+          <PollView
+            poll={post.poll}
+            onVote={currentUser && onVotePoll && !post.isLocked ? optionIds => onVotePoll(post.id, optionIds) : undefined}
+          />
+        )}
       </div>
 
       {/* Post Actions */}
@@ -199,7 +233,11 @@ function PostCard({
       {showComments && (
         <div className="mt-6 pt-6 border-t border-gray-200">
           {/* Add Comment Form */}
-          {currentUser && onAddComment && (
+          {post.isLocked && (
+            <p className="mb-6 text-sm text-gray-500">This post is locked. New comments are turned off.</p>
+          )}
+
+          {currentUser && onAddComment && !post.isLocked && (
             <form onSubmit={handleAddComment} className="mb-6">
               <div className="flex space-x-3">
                 <div className="flex-shrink-0">
@@ -273,4 +311,77 @@ function PostCard({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+function MentionText({ content }: { content: string }) {
+  return (
+    <>
+      {splitMentions(content).map((segment, index) =>
+        segment.type === 'mention' ? (
+          <span key={index} className="font-medium text-indigo-600" data-user-id={segment.userId}>
+            @{segment.username}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function PollView({ poll, onVote }: { poll: Poll; onVote?: (optionIds: string[]) => Promise<void> }) {
+  const [isVoting, setIsVoting] = useState(false);
+  const canVote = Boolean(onVote) && !poll.isClosed;
+
+  const handleToggle = async (optionId: string) => {
+    if (!onVote) return;
+
+    const selected = poll.userVotes.includes(optionId);
+    const optionIds = poll.multipleChoice
+      ? selected
+        ? poll.userVotes.filter(id => id !== optionId)
+        : [...poll.userVotes, optionId]
+      : selected ? [] : [optionId];
+
+    setIsVoting(true);
+    try {
+      await onVote(optionIds);
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-2">
+      {poll.options.map(option => {
+        const percent = poll.totalVotes > 0 ? Math.round((option.voteCount / poll.totalVotes) * 100) : 0;
+        const selected = poll.userVotes.includes(option.id);
+
+        return (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => handleToggle(option.id)}
+            disabled={!canVote || isVoting}
+            className={`relative w-full overflow-hidden rounded-md border text-left text-sm disabled:cursor-default ${
+              selected ? 'border-indigo-500' : 'border-gray-300 hover:border-indigo-300'
+            }`}
+          >
+            <div className="absolute inset-y-0 left-0 bg-indigo-50" style={{ width: `${percent}%` }} />
+            <div className="relative flex justify-between px-3 py-2">
+              <span className={selected ? 'font-medium text-indigo-700' : 'text-gray-700'}>{option.text}</span>
+              <span className="text-gray-500">{percent}%</span>
+            </div>
+          </button>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        {poll.voterCount} {poll.voterCount === 1 ? 'vote' : 'votes'}
+        {poll.multipleChoice && ' · Multiple choice'}
+        {poll.isAnonymous && ' · Anonymous'}
+        {poll.isClosed
+          ? ' · Closed'
+          : poll.closesAt && ` · Closes ${new Date(poll.closesAt).toLocaleString()}`}
+      </p>
+    </div>
+  );
+}
@@ -92,6 +92,31 @@ export function RealTimePostList({
     );
   }, []);
 
+  // Handle moderators hiding, locking or pinning posts
+  const handleContentModerated = useCallback((data: { contentType: 'post' | 'comment'; contentId: string; isHidden?: boolean; isLocked?: boolean; isPinned?: boolean }) => {
+    if (data.contentType !== 'post') {
+      return;
+    }
+
+    const { contentId } = data;
+    const changes: Partial<Pick<Post, 'isHidden' | 'isLocked' | 'isPinned'>> = {};
+    if (data.isHidden !== undefined) changes.isHidden = data.isHidden;
+    if (data.isLocked !== undefined) changes.isLocked = data.isLocked;
+    if (data.isPinned !== undefined) changes.isPinned = data.isPinned;
+
+    setPosts(prevPosts => {
+      const updated = prevPosts
+        // Hidden posts drop out of open feeds
+        .filter(post => !(post.id === contentId && changes.isHidden))
+        .map(post => (post.id === contentId ? { ...post, ...changes } : post));
+
+      // Keep pinned posts at the top
+      return changes.isPinned === undefined
+        ? updated
+        : [...updated.filter(post => post.isPinned), ...updated.filter(post => !post.isPinned)];
+    });
+  }, []);
+
   // Handle member joined
   const handleMemberJoined = useCallback((data: { member: User }) => {
     // You could show a toast notification here
@@ -108,16 +133,18 @@ export function RealTimePostList({
   useEffect(() => {
     on('community:new_post', handleNewPost);
     on('community:new_comment', handleNewComment);
+    on('community:content_moderated', handleContentModerated);
     on('community:member_joined', handleMemberJoined);
     on('community:member_left', handleMemberLeft);
 
     return () => {
       off('community:new_post', handleNewPost);
       off('community:new_comment', handleNewComment);
+      off('community:content_moderated', handleContentModerated);
       off('community:member_joined', handleMemberJoined);
       off('community:member_left', handleMemberLeft);
     };
-  }, [on, off, handleNewPost, handleNewComment, handleMemberJoined, handleMemberLeft]);
+  }, [on, off, handleNewPost, handleNewComment, handleContentModerated, handleMemberJoined, handleMemberLeft]);
 
   const handleShowNewPosts = () => {
     setNewPostsCount(0);
@@ -7,6 +7,15 @@ export interface SocketEvents {
   // Community events
   'community:new_post': (data: { post: any }) => void;
   'community:new_comment': (data: { postId: string; comment: any }) => void;
+  'community:content_moderated': (data: {
+    contentType: 'post' | 'comment';
+    contentId: string;
+    postId: string;
+    isHidden?: boolean;
+    isLocked?: boolean;
+    isPinned?: boolean;
+    timestamp: string;
+  }) => void;
   'community:member_joined': (data: { member: any }) => void;
   'community:member_left': (data: { member: any }) => void;
   'community:member_online': (data: { userId: string; username: string; displayName?: string }) => void;
@@ -26,8 +26,8 @@ export function CommunitiesPage() {
     try {
       const response = await apiService.getCommunities();
       if (response.data) {
-        // Handle the nested structure: response.data contains { communities: [], total: 0, hasMore: false }
-        setCommunities(Array.isArray(response.data.communities) ? response.data.communities : []);
+        // Handle the nested structure: response.data contains { items: [], nextCursor: null, hasMore: false }
+        setCommunities(Array.isArray(response.data.items) ? response.data.items : []);
       } else {
         setError(response.error?.message || 'Failed to load communities');
       }
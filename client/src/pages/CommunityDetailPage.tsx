@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { Navigation } from '../components/Navigation';
 import { MemberManagement } from '../components/MemberManagement';
+import { ModerationQueue } from '../components/ModerationQueue';
 import { useAuth } from '../contexts/AuthContext';
 import { useToastContext } from '../contexts/ToastContext';
 import { Community } from '../types';
@@ -15,7 +16,7 @@ export function CommunityDetailPage() {
   const [members, setMembers] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
-  const [activeTab, setActiveTab] = useState<'overview' | 'feed' | 'members' | 'courses'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'feed' | 'members' | 'courses' | 'moderation'>('overview');
 
   useEffect(() => {
     if (id) {
@@ -79,6 +80,41 @@ export function CommunityDetailPage() {
     }
   };
 
+  const handleBanMember = async (userId: string, reason?: string) => {
+    if (!id) return;
+
+    const response = await apiService.banMember(id, userId, { reason });
+    if (response.data) {
+      toast.success('Member banned');
+      await loadMembers();
+    } else {
+      toast.error(response.error?.message || 'Failed to ban member');
+    }
+  };
+
+  const handleMuteMember = async (userId: string, hours: number, reason?: string) => {
+    if (!id) return;
+
+    const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+    const response = await apiService.muteMember(id, userId, { reason, expiresAt });
+    if (response.data) {
+      toast.success(`Member muted for ${hours} ${hours === 1 ? 'hour' : 'hours'}`);
+    } else {
+      toast.error(response.error?.message || 'Failed to mute member');
+    }
+  };
+
+  const handleWarnMember = async (userId: string, reason?: string) => {
+    if (!id) return;
+
+    const response = await apiService.warnMember(id, userId, reason);
+    if (response.data) {
+      toast.success(response.data.escalatedMute ? 'Member warned and automatically muted' : 'Member warned');
+    } else {
+      toast.error(response.error?.message || 'Failed to warn member');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -118,6 +154,11 @@ export function CommunityDetailPage() {
     );
   }
 
+  const membership = community.memberships?.[0];
+  const currentUserRole = membership?.status === 'active' ? membership.role : undefined;
+  const canModerate = community.creatorId === user?.id || currentUserRole === 'moderator' || currentUserRole === 'admin';
+  const tabs = ['overview', 'feed', 'members', 'courses', ...(canModerate ? ['moderation'] : [])];
+
   const formatPrice = (price?: number) => {
     if (!price) return 'Free';
     return `$${price.toFixed(2)}`;
@@ -182,7 +223,7 @@ export function CommunityDetailPage() {
         {/* Tabs */}
         <div className="mb-8">
           <nav className="flex space-x-8">
-            {['overview', 'feed', 'members', 'courses'].map((tab) => (
+            {tabs.map((tab) => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab as any)}
@@ -240,10 +281,17 @@ export function CommunityDetailPage() {
             <MemberManagement
               members={members}
               isLoading={false}
-              currentUserRole="member" // This would come from the membership data
+              currentUserRole={currentUserRole || 'member'}
+              onBanMember={canModerate ? handleBanMember : undefined}
+              onMuteMember={canModerate ? handleMuteMember : undefined}
+              onWarnMember={canModerate ? handleWarnMember : undefined}
             />
           )}
 
+          {activeTab === 'moderation' && canModerate && (
+            <ModerationQueue communityId={community.id} />
+          )}
+
           {activeTab === 'courses' && (
             <div className="bg-white shadow rounded-lg p-6">
               <h2 className="text-lg font-medium text-gray-900 mb-4">Courses</h2>
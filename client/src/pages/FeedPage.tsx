@@ -4,7 +4,8 @@ import { Navigation } from '../components/Navigation';
 import { PostForm } from '../components/PostForm';
 import { PostList } from '../components/PostList';
 import { useAuth } from '../contexts/AuthContext';
-import { Post, User, PostFormData } from '../types';
+import { Post, User, PostFormData, PostType } from '../types';
+import { apiService } from '../services/api';
 
 interface PostWithAuthor extends Post {
   author: User;
@@ -17,7 +18,7 @@ export function FeedPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [showPostForm, setShowPostForm] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'discussion' | 'announcement'>('all');
+  const [filterType, setFilterType] = useState<'all' | PostType>('all');
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -116,6 +117,23 @@ export function FeedPage() {
         title: data.title,
         content: data.content,
         postType: data.postType,
+        poll: data.poll ? {
+          id: `poll-${Date.now()}`,
+          postId: `post-${Date.now()}`,
+          multipleChoice: data.poll.multipleChoice,
+          isAnonymous: data.poll.isAnonymous,
+          closesAt: data.poll.closesAt || null,
+          isClosed: false,
+          voterCount: 0,
+          totalVotes: 0,
+          options: data.poll.options.map((text, position) => ({
+            id: `option-${Date.now()}-${position}`,
+            text,
+            position,
+            voteCount: 0,
+          })),
+          userVotes: [],
+        } : null,
         likeCount: 0,
         commentCount: 0,
         createdAt: new Date().toISOString(),
@@ -151,6 +169,33 @@ export function FeedPage() {
     );
   };
 
+  const handleVotePoll = async (postId: string, optionIds: string[]) => {
+    const response = optionIds.length > 0
+      ? await apiService.votePoll(postId, optionIds)
+      : await apiService.removePollVote(postId);
+    const results = response.data;
+    if (!results) return;
+
+    setPosts(prev =>
+      prev.map(post =>
+        post.id === postId && post.poll
+          ? {
+              ...post,
+              poll: {
+                ...post.poll,
+                ...results,
+                userVotes: results.userVotes ?? post.poll.userVotes,
+                options: post.poll.options.map(option => ({
+                  ...option,
+                  voteCount: results.options.find(result => result.id === option.id)?.voteCount ?? option.voteCount,
+                })),
+              },
+            }
+          : post
+      )
+    );
+  };
+
   const handleAddComment = async (postId: string, content: string) => {
     // Mock implementation
     setPosts(prev => 
@@ -218,6 +263,7 @@ export function FeedPage() {
               <div className="bg-white shadow rounded-lg p-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Create New Post</h3>
                 <PostForm
+                  communityId={communityId}
                   onSubmit={handleCreatePost}
                   onCancel={() => setShowPostForm(false)}
                   submitLabel="Post"
@@ -252,11 +298,12 @@ export function FeedPage() {
                 id="filterType"
                 className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                 value={filterType}
-                onChange={(e) => setFilterType(e.target.value as 'all' | 'discussion' | 'announcement')}
+                onChange={(e) => setFilterType(e.target.value as 'all' | PostType)}
               >
                 <option value="all">All Posts</option>
                 <option value="discussion">Discussions</option>
                 <option value="announcement">Announcements</option>
+                <option value="poll">Polls</option>
               </select>
             </div>
           </div>
@@ -274,6 +321,7 @@ export function FeedPage() {
           posts={filteredPosts}
           isLoading={isLoading}
           onLikePost={user ? handleLikePost : undefined}
+          onVotePoll={user ? handleVotePoll : undefined}
           onAddComment={user ? handleAddComment : undefined}
           currentUser={user || undefined}
         />
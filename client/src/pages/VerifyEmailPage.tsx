@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { apiService } from '../services/api';
+
+type VerificationStatus = 'verifying' | 'success' | 'error';
+
+export function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'error');
+  const [error, setError] = useState(token ? '' : 'This verification link is missing its token.');
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so make sure we only redeem once
+    if (!token || hasSubmitted.current) {
+      return;
+    }
+    hasSubmitted.current = true;
+
+    apiService.confirmEmailVerification(token).then((response) => {
+      if (response.error) {
+        setError(response.error.message || 'This verification link is invalid or has expired.');
+        setStatus('error');
+      } else {
+        setStatus('success');
+      }
+    });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 text-center">
+        <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+          Email verification
+        </h2>
+
+        {status === 'verifying' && (
+          <p className="text-sm text-gray-600">Verifying your email address...</p>
+        )}
+
+        {status === 'success' && (
+          <div className="rounded-md bg-green-50 p-4">
+            <div className="text-sm text-green-700">
+              Your email address has been verified.
+            </div>
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        <Link
+          to="/communities"
+          className="font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          Continue to communities
+        </Link>
+      </div>
+    </div>
+  );
+}
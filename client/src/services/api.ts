@@ -1,4 +1,27 @@
 // API service for communicating with the backend
+import {
+  Comment,
+  CommentSort,
+  CommunityReaction,
+  ContentFilterAction,
+  ContentFilterRule,
+  ContentFilterType,
+  CursorPage,
+  MemberSanction,
+  MemberSanctionSummary,
+  ModerationAction,
+  ModerationQueueItem,
+  PollResults,
+  Post,
+  PostType,
+  ReactionToggleResult,
+  Reactor,
+  ReportReason,
+  ReportStatus,
+  SearchResponse,
+  SearchResultType,
+  User
+} from '../types';
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3000/api/v1';
 
 export interface ApiError {
@@ -36,6 +59,69 @@ export class ApiRequestError extends Error {
   }
 }
 
+export interface FeedQuery {
+  sortBy?: 'newest' | 'oldest' | 'popular';
+  postType?: PostType;
+  search?: string;
+  limit?: number;
+}
+
+/**
+ * Walks a cursor-paginated endpoint one page at a time for infinite scroll.
+ * Calls made while a page is loading share that request, so a scroll handler
+ * firing repeatedly never fetches the same page twice.
+ */
+export class CursorLoader<T> {
+  private nextCursor: string | undefined;
+  private pending: Promise<ApiResponse<T[]>> | null = null;
+  public hasMore = true;
+
+  constructor(private fetchPage: (cursor?: string) => Promise<ApiResponse<CursorPage<T>>>) {}
+
+  get isLoading(): boolean {
+    return this.pending !== null;
+  }
+
+  loadMore(): Promise<ApiResponse<T[]>> {
+    if (this.pending) {
+      return this.pending;
+    }
+
+    if (!this.hasMore) {
+      return Promise.resolve({ data: [] });
+    }
+
+    this.pending = this.fetchPage(this.nextCursor)
+      .then(response => {
+        if (!response.data) {
+          return { error: response.error };
+        }
+
+        this.nextCursor = response.data.nextCursor ?? undefined;
+        this.hasMore = response.data.hasMore;
+        return { data: response.data.items };
+      })
+      .finally(() => {
+        this.pending = null;
+      });
+
+    return this.pending;
+  }
+
+  reset() {
+    this.nextCursor = undefined;
+    this.hasMore = true;
+  }
+}
+
+export interface CommentThreadQuery {
+  sort?: CommentSort;
+  depth?: number;
+  replyLimit?: number;
+  cursor?: string;
+  limit?: number;
+}
+
 class ApiService {
   private baseUrl: string;
   private token: string | null = null;
@@ -141,6 +227,15 @@ class ApiService {
     }
   }
 
+  private toQueryString(options: object): string {
+    const params = new URLSearchParams();
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) params.append(key, String(value));
+    });
+    const query = params.toString();
+    return query ? `?${query}` : '';
+  }
+
   private shouldRetry(statusCode: number, errorCode: string): boolean {
     // Retry on server errors and specific client errors
     const retryableStatusCodes = [500, 502, 503, 504, 408, 429];
@@ -240,6 +335,41 @@ class ApiService {
     );
   }
 
+  async requestEmailVerification() {
+    return this.handleApiCall(() =>
+      this.request<{ alreadyVerified: boolean }>('/auth/verify-email/request', {
+        method: 'POST',
+      })
+    );
+  }
+
+  async confirmEmailVerification(token: string) {
+    return this.handleApiCall(() =>
+      this.request<{ user: any }>('/auth/verify-email/confirm', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+      })
+    );
+  }
+
+  async requestPasswordReset(email: string) {
+    return this.handleApiCall(() =>
+      this.request('/auth/password-reset/request', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      })
+    );
+  }
+
+  async confirmPasswordReset(token: string, password: string) {
+    return this.handleApiCall(() =>
+      this.request('/auth/password-reset/confirm', {
+        method: 'POST',
+        body: JSON.stringify({ token, password }),
+      })
+    );
+  }
+
   // User endpoints
   async getProfile() {
     return this.handleApiCall(() =>
@@ -259,7 +389,7 @@ class ApiService {
   // Communities endpoints
   async getCommunities() {
     return this.handleApiCall(() =>
-      this.request<{ communities: any[]; total: number; hasMore: boolean }>('/communities')
+      this.request<CursorPage<any>>('/communities')
     );
   }
 
@@ -302,6 +432,272 @@ class ApiService {
       })
     );
   }
+
+  // Posts endpoints
+  async getCommunityPosts(communityId: string, options: FeedQuery & { cursor?: string } = {}) {
+    return this.handleApiCall(() =>
+      this.request<CursorPage<Post>>(`/posts/community/${communityId}${this.toQueryString(options)}`)
+    );
+  }
+
+  createFeedLoader(communityId: string, options: FeedQuery = {}) {
+    return new CursorLoader<Post>(cursor => this.getCommunityPosts(communityId, { ...options, cursor }));
+  }
+
+  async getPostComments(postId: string, options: CommentThreadQuery = {}) {
+    return this.handleApiCall(() =>
+      this.request<CursorPage<Comment>>(`/posts/${postId}/comments${this.toQueryString(options)}`)
+    );
+  }
+
+  async getCommentReplies(commentId: string, options: CommentThreadQuery = {}) {
+    return this.handleApiCall(() =>
+      this.request<CursorPage<Comment>>(`/posts/comments/${commentId}/replies${this.toQueryString(options)}`)
+    );
+  }
+
+  // Poll endpoints
+  async votePoll(postId: string, optionIds: string[]) {
+    return this.handleApiCall(() =>
+      this.request<PollResults>(`/posts/${postId}/poll/votes`, {
+        method: 'POST',
+        body: JSON.stringify({ optionIds }),
+      })
+    );
+  }
+
+  async removePollVote(postId: string) {
+    return this.handleApiCall(() =>
+      this.request<PollResults>(`/posts/${postId}/poll/votes`, {
+        method: 'DELETE',
+      })
+    );
+  }
+
+  // Reactions endpoints
+  async getCommunityReactions(communityId: string) {
+    return this.handleApiCall(() =>
+      this.request<CommunityReaction[]>(`/communities/${communityId}/reactions`)
+    );
+  }
+
+  async setCommunityReactions(communityId: string, reactions: CommunityReaction[]) {
+    return this.handleApiCall(() =>
+      this.request<CommunityReaction[]>(`/communities/${communityId}/reactions`, {
+        method: 'PUT',
+        body: JSON.stringify({ reactions }),
+      })
+    );
+  }
+
+  async togglePostReaction(postId: string, reaction: string) {
+    return this.handleApiCall(() =>
+      this.request<ReactionToggleResult>(`/posts/${postId}/reactions`, {
+        method: 'POST',
+        body: JSON.stringify({ reaction }),
+      })
+    );
+  }
+
+  async toggleCommentReaction(commentId: string, reaction: string) {
+    return this.handleApiCall(() =>
+      this.request<ReactionToggleResult>(`/posts/comments/${commentId}/reactions`, {
+        method: 'POST',
+        body: JSON.stringify({ reaction }),
+      })
+    );
+  }
+
+  async getPostReactors(postId: string, options: { reaction?: string; cursor?: string; limit?: number } = {}) {
+    return this.handleApiCall(() =>
+      this.request<CursorPage<Reactor>>(`/posts/${postId}/reactions${this.toQueryString(options)}`)
+    );
+  }
+
+  async getCommentReactors(commentId: string, options: { reaction?: string; cursor?: string; limit?: number } = {}) {
+    return this.handleApiCall(() =>
+      this.request<CursorPage<Reactor>>(`/posts/comments/${commentId}/reactions${this.toQueryString(options)}`)
+    );
+  }
+
+  async getMentionSuggestions(communityId: string, query: string, limit?: number) {
+    return this.handleApiCall(() =>
+      this.request<Pick<User, 'id' | 'username' | 'displayName' | 'avatarUrl'>[]>(
+        `/communities/${communityId}/mentions${this.toQueryString({ q: query, limit })}`
+      )
+    );
+  }
+
+  // Moderation endpoints
+  async getModerationQueue(communityId: string, filters: {
+    status?: ReportStatus;
+    contentType?: 'post' | 'comment';
+    reason?: ReportReason;
+    limit?: number;
+    cursor?: string;
+  } = {}) {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) params.append(key, String(value));
+    });
+    const query = params.toString();
+
+    return this.handleApiCall(() =>
+      this.request<CursorPage<ModerationQueueItem>>(`/communities/${communityId}/moderation/queue${query ? `?${query}` : ''}`)
+    );
+  }
+
+  async resolveReports(communityId: string, contentType: 'post' | 'comment', contentId: string, action: ModerationAction, note?: string) {
+    return this.handleApiCall(() =>
+      this.request<any>(`/communities/${communityId}/moderation/${contentType}s/${contentId}/resolve`, {
+        method: 'POST',
+        body: JSON.stringify({ action, note }),
+      })
+    );
+  }
+
+  async updatePostModeration(communityId: string, postId: string, state: { isHidden?: boolean; isLocked?: boolean; isPinned?: boolean; reason?: string }) {
+    return this.handleApiCall(() =>
+      this.request<any>(`/communities/${communityId}/moderation/posts/${postId}`, {
+        method: 'PUT',
+        body: JSON.stringify(state),
+      })
+    );
+  }
+
+  async updateCommentModeration(communityId: string, commentId: string, state: { isHidden: boolean; reason?: string }) {
+    return this.handleApiCall(() =>
+      this.request<any>(`/communities/${communityId}/moderation/comments/${commentId}`, {
+        method: 'PUT',
+        body: JSON.stringify(state),
+      })
+    );
+  }
+
+  async dismissReports(communityId: string, contentType: 'post' | 'comment', contentId: string, note?: string) {
+    return this.handleApiCall(() =>
+      this.request<any>(`/communities/${communityId}/moderation/${contentType}s/${contentId}/dismiss`, {
+        method: 'POST',
+        body: JSON.stringify({ note }),
+      })
+    );
+  }
+
+  async search(query: string, options: {
+    type?: SearchResultType;
+    communityId?: string;
+    cursor?: string;
+    limit?: number;
+  } = {}) {
+    const params = new URLSearchParams({ q: query });
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) params.append(key, String(value));
+    });
+
+    return this.handleApiCall(() =>
+      this.request<SearchResponse>(`/search?${params.toString()}`)
+    );
+  }
+
+  async getContentFilterRules(communityId: string) {
+    return this.handleApiCall(() =>
+      this.request<{
+        rules: ContentFilterRule[];
+        availableTypes: ContentFilterType[];
+        availableActions: ContentFilterAction[];
+      }>(`/communities/${communityId}/content-filters`)
+    );
+  }
+
+  async createContentFilterRule(communityId: string, rule: Pick<ContentFilterRule, 'type' | 'action' | 'config'> & { isActive?: boolean }) {
+    return this.handleApiCall(() =>
+      this.request<ContentFilterRule>(`/communities/${communityId}/content-filters`, {
+        method: 'POST',
+        body: JSON.stringify(rule),
+      })
+    );
+  }
+
+  async updateContentFilterRule(
+    communityId: string,
+    ruleId: string,
+    rule: Pick<ContentFilterRule, 'type' | 'action' | 'config'> & { isActive?: boolean }
+  ) {
+    return this.handleApiCall(() =>
+      this.request<ContentFilterRule>(`/communities/${communityId}/content-filters/${ruleId}`, {
+        method: 'PUT',
+        body: JSON.stringify(rule),
+      })
+    );
+  }
+
+  async deleteContentFilterRule(communityId: string, ruleId: string) {
+    return this.handleApiCall(() =>
+      this.request<any>(`/communities/${communityId}/content-filters/${ruleId}`, {
+        method: 'DELETE',
+      })
+    );
+  }
+
+  async getMemberSanctions(communityId: string, userId: string) {
+    return this.handleApiCall(() =>
+      this.request<MemberSanctionSummary>(`/communities/${communityId}/moderation/members/${userId}/sanctions`)
+    );
+  }
+
+  async banMember(communityId: string, userId: string, data: { reason?: string; expiresAt?: string | null }) {
+    return this.handleApiCall(() =>
+      this.request<MemberSanction>(`/communities/${communityId}/moderation/members/${userId}/ban`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      })
+    );
+  }
+
+  async unbanMember(communityId: string, userId: string) {
+    return this.handleApiCall(() =>
+      this.request<MemberSanction>(`/communities/${communityId}/moderation/members/${userId}/ban`, {
+        method: 'DELETE',
+      })
+    );
+  }
+
+  async muteMember(communityId: string, userId: string, data: { reason?: string; expiresAt: string }) {
+    return this.handleApiCall(() =>
+      this.request<MemberSanction>(`/communities/${communityId}/moderation/members/${userId}/mute`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      })
+    );
+  }
+
+  async unmuteMember(communityId: string, userId: string) {
+    return this.handleApiCall(() =>
+      this.request<MemberSanction>(`/communities/${communityId}/moderation/members/${userId}/mute`, {
+        method: 'DELETE',
+      })
+    );
+  }
+
+  async warnMember(communityId: string, userId: string, reason?: string) {
+    return this.handleApiCall(() =>
+      this.request<{ warning: MemberSanction; escalatedMute: MemberSanction | null }>(
+        `/communities/${communityId}/moderation/members/${userId}/warnings`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ reason }),
+        }
+      )
+    );
+  }
+
+  async revokeWarning(communityId: string, userId: string, warningId: string) {
+    return this.handleApiCall(() =>
+      this.request<MemberSanction>(`/communities/${communityId}/moderation/members/${userId}/warnings/${warningId}`, {
+        method: 'DELETE',
+      })
+    );
+  }
 }
 
 export const apiService = new ApiService();
@@ -26,6 +26,7 @@ export interface Community {
   memberCount: number;
   createdAt: string;
   updatedAt: string;
+  memberships?: Pick<CommunityMembership, 'role' | 'status' | 'joinedAt'>[];
 }
 
 export interface CommunityMembership {
@@ -62,15 +63,53 @@ export interface Lesson {
   updatedAt: string;
 }
 
+export type PostType = 'discussion' | 'announcement' | 'poll';
+
+export interface PollOption {
+  id: string;
+  text: string;
+  position: number;
+  voteCount: number;
+}
+
+export interface Poll {
+  id: string;
+  postId: string;
+  multipleChoice: boolean;
+  isAnonymous: boolean; // Voters are never listed
+  closesAt?: string | null;
+  isClosed: boolean;
+  voterCount: number;
+  totalVotes: number;
+  options: PollOption[];
+  userVotes: string[]; // Option ids the current user voted for
+}
+
+// Live results, as returned by voting and the community:poll_updated socket event
+export interface PollResults {
+  postId: string;
+  totalVotes: number;
+  voterCount: number;
+  isClosed: boolean;
+  options: Pick<PollOption, 'id' | 'voteCount'>[];
+  userVotes?: string[];
+}
+
 export interface Post {
   id: string;
   communityId: string;
   authorId: string;
   title?: string;
   content: string;
-  postType: 'discussion' | 'announcement';
+  postType: PostType;
   likeCount: number;
   commentCount: number;
+  poll?: Poll | null; // Only on poll posts
+  reactionCounts?: ReactionCounts;
+  userReactions?: string[];
+  isHidden?: boolean;
+  isLocked?: boolean;
+  isPinned?: boolean;
   createdAt: string;
   updatedAt: string;
   author?: User;
@@ -79,14 +118,44 @@ export interface Post {
 export interface Comment {
   id: string;
   postId: string;
-  authorId: string;
+  authorId: string | null; // null once deleted
   parentId?: string;
-  content: string;
+  content: string | null; // null when hidden by a moderator or deleted
   likeCount: number;
+  reactionCounts?: ReactionCounts;
+  userReactions?: string[];
+  isHidden?: boolean;
+  isDeleted?: boolean; // Placeholder kept for its replies
   createdAt: string;
   updatedAt: string;
-  author?: User;
+  author?: User | null;
   replies?: Comment[];
+  replyCount?: number;
+  hasMoreReplies?: boolean; // Load the rest with getCommentReplies
+}
+
+export type CommentSort = 'top' | 'newest' | 'oldest';
+
+// Reaction key -> number of reactions
+export type ReactionCounts = Record<string, number>;
+
+export interface CommunityReaction {
+  key: string; // "like" is always present and maps to likeCount
+  emoji: string;
+  label: string;
+}
+
+export interface ReactionToggleResult {
+  reaction: string;
+  reacted: boolean;
+  reactionCounts: ReactionCounts;
+}
+
+export interface Reactor {
+  id: string;
+  reaction: string;
+  createdAt: string;
+  user: Pick<User, 'id' | 'username' | 'displayName' | 'avatarUrl'>;
 }
 
 export interface UserProgress {
@@ -119,6 +188,98 @@ export interface Subscription {
   updatedAt: string;
 }
 
+// Moderation types
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'misinformation' | 'other';
+export type ReportStatus = 'pending' | 'reviewed' | 'resolved' | 'dismissed';
+export type ModerationAction = 'none' | 'hide' | 'approve' | 'delete' | 'warn';
+
+export interface ContentReport {
+  id: string;
+  reporterId: string | null; // Null when raised by a content filter rule
+  filterRuleId?: string | null;
+  postId?: string;
+  commentId?: string;
+  reason: ReportReason;
+  description?: string;
+  status: ReportStatus;
+  resolution?: ModerationAction;
+  moderatorNote?: string;
+  resolvedById?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  reporter?: Pick<User, 'id' | 'username' | 'displayName'> | null;
+}
+
+export interface ModerationQueueItem {
+  contentType: 'post' | 'comment';
+  contentId: string;
+  content: ((Post | Comment) & { post?: Pick<Post, 'id' | 'title'> }) | null;
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  firstReportedAt: string;
+  lastReportedAt: string;
+  reports: ContentReport[];
+}
+
+// Envelope returned by every cursor-paginated list endpoint
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type SearchResultType = 'community' | 'post' | 'comment' | 'lesson';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string | null;
+  snippet: string; // HTML-escaped, with matches wrapped in <mark>
+  rank: number;
+  community: Pick<Community, 'id' | 'name' | 'slug'>;
+  postId: string | null;
+  courseId: string | null;
+  createdAt: string;
+}
+
+export type SearchResponse = CursorPage<SearchResult>;
+
+export type ContentFilterType = 'banned_words' | 'link_limit' | 'duplicate_content' | 'flood_limit';
+export type ContentFilterAction = 'reject' | 'hold' | 'report';
+
+export interface ContentFilterRule {
+  id: string;
+  communityId: string;
+  type: ContentFilterType;
+  action: ContentFilterAction;
+  config: Record<string, unknown>;
+  isActive: boolean;
+  createdById?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SanctionType = 'ban' | 'mute' | 'warning';
+
+export interface MemberSanction {
+  id: string;
+  communityId: string;
+  userId: string;
+  type: SanctionType;
+  reason?: string | null;
+  expiresAt?: string | null;
+  issuedBy?: Pick<User, 'id' | 'username' | 'displayName'> | null;
+  revokedAt?: string | null;
+  createdAt: string;
+}
+
+export interface MemberSanctionSummary {
+  sanctions: MemberSanction[];
+  activeBan: Pick<MemberSanction, 'id' | 'reason' | 'expiresAt'> | null;
+  activeMute: Pick<MemberSanction, 'id' | 'reason' | 'expiresAt'> | null;
+  activeWarnings: number;
+}
+
 // Auth types
 export interface LoginCredentials {
   email: string;
@@ -179,8 +340,16 @@ export interface LessonFormData {
   isFree: boolean;
 }
 
+export interface PollFormData {
+  options: string[];
+  multipleChoice: boolean;
+  isAnonymous: boolean;
+  closesAt?: string;
+}
+
 export interface PostFormData {
   title?: string;
   content: string;
-  postType: 'discussion' | 'announcement';
+  postType: PostType;
+  poll?: PollFormData; // Required when postType is poll
 }
\ No newline at end of file
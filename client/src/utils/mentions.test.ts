@@ -0,0 +1,27 @@
+import { splitMentions, getMentionQuery } from './mentions';
+
+describe('splitMentions', () => {
+  it('should split stored mention tokens from text', () => {
+    expect(splitMentions('Hi @[jane_doe](ck123), welcome!')).toEqual([
+      { type: 'text', text: 'Hi ' },
+      { type: 'mention', username: 'jane_doe', userId: 'ck123' },
+      { type: 'text', text: ', welcome!' },
+    ]);
+  });
+
+  it('should leave plain text alone', () => {
+    expect(splitMentions('Email me at jane@example.com')).toEqual([
+      { type: 'text', text: 'Email me at jane@example.com' },
+    ]);
+  });
+});
+
+describe('getMentionQuery', () => {
+  it('should find the mention being typed', () => {
+    expect(getMentionQuery('Thanks @ja', 10)).toEqual({ query: 'ja', start: 7 });
+  });
+
+  it('should ignore email addresses', () => {
+    expect(getMentionQuery('jane@exa', 8)).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Mentions are stored as @[username](userId). Split content into plain text and
+ * mention segments so they can be rendered as links.
+ */
+export type ContentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; username: string; userId: string };
+
+const MENTION_TOKEN = /@\[([^\]\n]{1,50})\]\(([A-Za-z0-9]{1,40})\)/g;
+
+export function splitMentions(content: string): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(content.matchAll(MENTION_TOKEN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', username: match[1], userId: match[2] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * The partial @username being typed just before the caret, if any
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|[^\w@.-])@([A-Za-z0-9_-]{0,50})$/.exec(text.slice(0, caret));
+  if (!match) {
+    return null;
+  }
+
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
@@ -340,9 +340,10 @@ async function main() {
   // Create post and comment likes
   await prisma.postLike.upsert({
     where: {
-      userId_postId: {
+      userId_postId_reaction: {
         userId: member2.id,
         postId: post1.id,
+        reaction: 'like',
       },
     },
     update: {},
@@ -354,9 +355,10 @@ async function main() {
 
   await prisma.commentLike.upsert({
     where: {
-      userId_commentId: {
+      userId_commentId_reaction: {
         userId: member1.id,
         commentId: comment1.id,
+        reaction: 'like',
       },
     },
     update: {},
@@ -0,0 +1,23 @@
+-- Full-text search indexes used by SearchService.
+-- Prisma can't express expression indexes, so these are applied after `prisma db push`
+-- (see the db:search-indexes script). The expressions must match searchService.ts exactly.
+
+CREATE INDEX IF NOT EXISTS communities_search_idx ON communities USING GIN (
+  (setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+   setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+   setweight(to_tsvector('english', coalesce(description, '')), 'C'))
+);
+
+CREATE INDEX IF NOT EXISTS posts_search_idx ON posts USING GIN (
+  (setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+   setweight(to_tsvector('english', content), 'B'))
+);
+
+CREATE INDEX IF NOT EXISTS comments_search_idx ON comments USING GIN (
+  to_tsvector('english', content)
+);
+
+CREATE INDEX IF NOT EXISTS lessons_search_idx ON lessons USING GIN (
+  (setweight(to_tsvector('english', title), 'A') ||
+   setweight(to_tsvector('english', coalesce(content, '')), 'B'))
+);
@@ -16,6 +16,12 @@ import { redisService } from './lib/redis';
 import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import communityRoutes from './routes/communities';
+import communityWebhookRoutes from './routes/communityWebhooks';
+import moderationRoutes from './routes/moderation';
+import contentFilterRoutes from './routes/contentFilters';
+import reactionRoutes from './routes/reactions';
+import couponRoutes from './routes/coupons';
+import tierRoutes from './routes/tiers';
 import courseRoutes from './routes/courses';
 import progressRoutes from './routes/progress';
 import postRoutes from './routes/posts';
@@ -26,10 +32,17 @@ import analyticsRoutes from './routes/analytics';
 import adminRoutes from './routes/admin';
 import notificationRoutes from './routes/notifications';
 import recommendationRoutes from './routes/recommendations';
+import searchRoutes from './routes/search';
 import JobScheduler from './lib/jobScheduler';
 import { SocketService } from './lib/socketService';
 import { setSocketService } from './lib/pointsService';
 import { setNotificationSocketService } from './lib/notificationService';
+import { setProgressSocketService } from './lib/progressService';
+import { setPublishingSocketService } from './lib/publishingService';
+import { setModerationSocketService } from './lib/moderationService';
+import { setSanctionSocketService } from './lib/memberSanctionService';
+import { setReactionSocketService } from './lib/reactionService';
+import { setPollSocketService } from './lib/pollService';
 
 const app = express();
 const server = createServer(app);
@@ -81,6 +94,12 @@ app.get('/health', (req, res) => {
 // API Routes
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/users', userRoutes);
+app.use('/api/v1/communities/:communityId/webhooks', communityWebhookRoutes);
+app.use('/api/v1/communities/:communityId/moderation', moderationRoutes);
+app.use('/api/v1/communities/:communityId/content-filters', contentFilterRoutes);
+app.use('/api/v1/communities/:communityId/reactions', reactionRoutes);
+app.use('/api/v1/communities/:communityId/coupons', couponRoutes);
+app.use('/api/v1/communities/:communityId/tiers', tierRoutes);
 app.use('/api/v1/communities', communityRoutes);
 app.use('/api/v1/courses', courseRoutes);
 app.use('/api/v1/progress', progressRoutes);
@@ -91,6 +110,7 @@ app.use('/api/v1/analytics', analyticsRoutes);
 app.use('/api/v1/admin', adminRoutes);
 app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1/recommendations', recommendationRoutes);
+app.use('/api/v1/search', searchRoutes);
 app.use('/webhooks', webhookRoutes);
 
 // WebSocket service initialization
@@ -99,6 +119,12 @@ const socketService = new SocketService(io);
 // Set socket service for other modules
 setSocketService(socketService);
 setNotificationSocketService(socketService);
+setProgressSocketService(socketService);
+setPublishingSocketService(socketService);
+setModerationSocketService(socketService);
+setSanctionSocketService(socketService);
+setReactionSocketService(socketService);
+setPollSocketService(socketService);
 
 // Store both io instance and socketService for use in other modules
 app.set('io', io);
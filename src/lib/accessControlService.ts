@@ -1,5 +1,9 @@
 import prisma from './prisma';
 import { auditLogger } from './auditLogger';
+import { LevelService } from './levelService';
+import { MemberSanctionService } from './memberSanctionService';
+import { TierService, MemberTier } from './tierService';
+import { CoursePurchaseService } from './coursePurchaseService';
 import { Permission, Role, hasPermission, getEffectiveRole } from '../middleware/accessControl';
 
 export interface AccessCheckResult {
@@ -8,10 +12,12 @@ export interface AccessCheckResult {
   role: Role;
   isCreator: boolean;
   membership?: any;
+  tier?: MemberTier | null;
   reason?: string;
 }
 
 export interface ContentAccessResult extends AccessCheckResult {
+  hasPurchased?: boolean;
   canView: boolean;
   canEdit: boolean;
   canDelete: boolean;
@@ -61,6 +67,20 @@ export class AccessControlService {
 
       const isCreator = community.creatorId === userId;
 
+      // Banned users lose all access, even to public communities
+      if (!isCreator) {
+        const { ban } = await MemberSanctionService.getActiveSanctions(communityId, userId);
+        if (ban) {
+          return {
+            hasAccess: false,
+            hasPaidAccess: false,
+            role: 'member',
+            isCreator: false,
+            reason: 'Banned from community'
+          };
+        }
+      }
+
       // Get user's membership
       const membership = await prisma.communityMembership.findUnique({
         where: {
@@ -84,24 +104,25 @@ export class AccessControlService {
         reason = 'Private community requires membership';
       }
 
-      // Determine paid access
+      // Determine paid access and the member's tier, which comes from their subscription
+      let tier: MemberTier | null = null;
+      const isPaidCommunity = !!community.priceMonthly || !!community.priceYearly ||
+        await TierService.hasPaidTiers(communityId);
+
       if (isCreator) {
         hasPaidAccess = true;
-      } else if (!community.priceMonthly && !community.priceYearly) {
-        // Free community - only active members get paid access
-        hasPaidAccess = hasAccess && membership !== null && membership.status === 'active';
       } else if (membership && membership.status === 'active') {
-        // Check for active subscription
-        const subscription = await prisma.subscription.findFirst({
-          where: {
-            userId,
-            communityId,
-            status: 'active'
+        const subscription = await TierService.getActiveSubscription(communityId, userId);
+        tier = await TierService.getMemberTier(communityId, subscription);
+
+        if (!isPaidCommunity) {
+          // Free community - only active members get paid access
+          hasPaidAccess = hasAccess;
+        } else {
+          hasPaidAccess = !!subscription;
+          if (!hasPaidAccess && hasAccess) {
+            reason = 'Paid subscription required for premium content';
           }
-        });
-        hasPaidAccess = !!subscription;
-        if (!hasPaidAccess && hasAccess) {
-          reason = 'Paid subscription required for premium content';
         }
       }
 
@@ -113,6 +134,7 @@ export class AccessControlService {
         role: effectiveRole,
         isCreator,
         membership,
+        tier,
         reason
       };
     } catch (error) {
@@ -149,6 +171,9 @@ export class AccessControlService {
             include: {
               course: {
                 include: {
+                  minTier: {
+                    select: { name: true, rank: true }
+                  },
                   community: {
                     select: {
                       id: true,
@@ -238,14 +263,39 @@ export class AccessControlService {
       let canDelete = false;
       let canModerate = false;
 
+      // A purchased course stands in for a subscription and its tier
+      const hasPurchased = contentType === 'lesson'
+        ? await CoursePurchaseService.hasPurchased(userId, content.courseId)
+        : false;
+
       // For premium lessons, check paid access
-      if (contentType === 'lesson' && isPremium && !communityAccess.hasPaidAccess) {
+      if (contentType === 'lesson' && isPremium && !communityAccess.hasPaidAccess && !hasPurchased) {
         // Allow creators, admins, and moderators to view premium content
         if (!['creator', 'admin', 'moderator'].includes(communityAccess.role)) {
           canView = false;
         }
       }
 
+      // Level-gated courses require the member to have reached the course's minimum level
+      let reason = communityAccess.reason;
+      const minLevel: number | null = contentType === 'lesson' ? content.course.minLevel : null;
+      if (canView && minLevel && !['creator', 'admin', 'moderator'].includes(communityAccess.role)) {
+        const userLevel = userId ? await LevelService.getUserLevel(userId, communityId) : null;
+        if (!userLevel?.current || userLevel.current.level < minLevel) {
+          canView = false;
+          reason = `Requires level ${minLevel}`;
+        }
+      }
+
+      // Tier-gated courses require a subscription at or above the course's minimum tier, or a purchase
+      const minTier: { name: string; rank: number } | null = contentType === 'lesson' ? content.course.minTier : null;
+      if (canView && minTier && !hasPurchased && !['creator', 'admin', 'moderator'].includes(communityAccess.role)) {
+        if (!TierService.meetsMinTier(communityAccess.tier, minTier)) {
+          canView = false;
+          reason = `Requires ${minTier.name} tier`;
+        }
+      }
+
       // Edit permissions
       if (isAuthor || communityAccess.isCreator) {
         canEdit = true;
@@ -269,10 +319,12 @@ export class AccessControlService {
 
       return {
         ...communityAccess,
+        hasPurchased,
         canView,
         canEdit,
         canDelete,
-        canModerate
+        canModerate,
+        reason
       };
     } catch (error) {
       console.error('Error checking content access:', error);
@@ -340,6 +392,25 @@ export class AccessControlService {
         };
       }
 
+      // Muted members can still read but not post or comment
+      if ((permission === 'post:write' || permission === 'comment:write') && !access.isCreator) {
+        const { mute } = await MemberSanctionService.getActiveSanctions(communityId, userId);
+        if (mute) {
+          await auditLogger.logSecurityEvent({
+            userId,
+            action: 'ACCESS_DENIED',
+            resource: permission,
+            reason: 'Member is muted',
+            communityId
+          });
+
+          return {
+            allowed: false,
+            reason: `Muted until ${mute.expiresAt!.toISOString()}`
+          };
+        }
+      }
+
       if (options.requirePaidAccess && !access.hasPaidAccess) {
         await auditLogger.logSecurityEvent({
           userId,
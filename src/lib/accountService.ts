@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import prisma from './prisma';
+import { emailService } from './emailService';
+import { auditLogger } from './auditLogger';
+import { SessionService } from './sessionService';
+import {
+  generateActionToken,
+  verifyActionToken,
+  getTokenExpiry,
+  hashPassword,
+  ActionTokenPurpose
+} from './auth';
+
+const EMAIL_VERIFICATION_EXPIRES_IN = process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h';
+const PASSWORD_RESET_EXPIRES_IN = process.env.PASSWORD_RESET_EXPIRES_IN || '1h';
+
+/**
+ * Email verification and password reset flows.
+ *
+ * Tokens are signed JWTs whose ID is persisted in `auth_tokens`, so each token
+ * can be redeemed exactly once and issuing a new one invalidates older ones.
+ */
+export class AccountService {
+  /**
+   * Send a verification link to the user's email address
+   */
+  static async requestEmailVerification(userId: string): Promise<{ alreadyVerified: boolean }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, displayName: true, username: true, emailVerified: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.emailVerified) {
+      return { alreadyVerified: true };
+    }
+
+    const token = await this.issueToken(user.id, 'email_verification', EMAIL_VERIFICATION_EXPIRES_IN);
+    const actionUrl = `${this.getFrontendUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await emailService.sendEmail({
+      to: user.email,
+      subject: 'Verify your email address',
+      html: emailService.generateActionEmail(
+        'Verify your email address',
+        `Hi ${user.displayName || user.username}, please confirm this is your email address to finish setting up your account.`,
+        'Verify Email',
+        actionUrl,
+        'If you did not create an account, you can safely ignore this email.'
+      )
+    });
+
+    return { alreadyVerified: false };
+  }
+
+  /**
+   * Redeem an email verification token
+   */
+  static async verifyEmail(token: string) {
+    const payload = verifyActionToken(token, 'email_verification');
+
+    await this.consumeToken(payload.tokenId, payload.userId, 'email_verification');
+
+    const user = await prisma.user.update({
+      where: { id: payload.userId },
+      data: { emailVerified: true },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        displayName: true,
+        emailVerified: true
+      }
+    });
+
+    return user;
+  }
+
+  /**
+   * Send a password reset link. Unknown addresses are ignored silently so the
+   * endpoint cannot be used to discover which emails are registered.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      select: { id: true, email: true, displayName: true, username: true }
+    });
+
+    if (!user) {
+      return;
+    }
+
+    const token = await this.issueToken(user.id, 'password_reset', PASSWORD_RESET_EXPIRES_IN);
+    const actionUrl = `${this.getFrontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await emailService.sendEmail({
+      to: user.email,
+      subject: 'Reset your password',
+      html: emailService.generateActionEmail(
+        'Reset your password',
+        `Hi ${user.displayName || user.username}, we received a request to reset your password. This link expires in ${PASSWORD_RESET_EXPIRES_IN}.`,
+        'Reset Password',
+        actionUrl,
+        'If you did not request a password reset, you can safely ignore this email.'
+      )
+    });
+
+    await auditLogger.logAuthEvent(user.id, 'PASSWORD_RESET', { stage: 'requested' });
+  }
+
+  /**
+   * Redeem a password reset token and set a new password
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    const payload = verifyActionToken(token, 'password_reset');
+
+    await this.consumeToken(payload.tokenId, payload.userId, 'password_reset');
+
+    const passwordHash = await hashPassword(newPassword);
+
+    await prisma.user.update({
+      where: { id: payload.userId },
+      // Receiving the reset link proves ownership of the address
+      data: { passwordHash, emailVerified: true }
+    });
+
+    // Anyone holding a session from before the reset is logged out
+    await SessionService.revokeAllUserSessions(payload.userId, 'password_change');
+
+    await auditLogger.logAuthEvent(payload.userId, 'PASSWORD_RESET', { stage: 'completed' });
+  }
+
+  /**
+   * Persist and sign a new single-use token, invalidating any outstanding ones for the same purpose
+   */
+  private static async issueToken(userId: string, purpose: ActionTokenPurpose, expiresIn: string): Promise<string> {
+    const tokenId = crypto.randomBytes(24).toString('hex');
+    const token = generateActionToken({ userId, purpose, tokenId }, expiresIn);
+    const expiresAt = getTokenExpiry(token) || new Date();
+
+    await prisma.$transaction([
+      prisma.authToken.updateMany({
+        where: { userId, purpose, usedAt: null },
+        data: { usedAt: new Date() }
+      }),
+      prisma.authToken.create({
+        data: { id: tokenId, userId, purpose, expiresAt }
+      })
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Atomically mark a token as used; fails if it was already used, superseded or expired
+   */
+  private static async consumeToken(tokenId: string, userId: string, purpose: ActionTokenPurpose): Promise<void> {
+    const result = await prisma.authToken.updateMany({
+      where: {
+        id: tokenId,
+        userId,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      data: { usedAt: new Date() }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Invalid or expired token');
+    }
+  }
+
+  private static getFrontendUrl(): string {
+    return process.env.FRONTEND_URL || 'http://localhost:3000';
+  }
+}
@@ -1,10 +1,16 @@
+import { Prisma } from '@prisma/client';
 import prisma from './prisma';
+import { redisService, CacheKeys, CacheTTL } from './redis';
+import { notificationService, NotificationType } from './notificationService';
+import { WebhookService } from './webhookService';
 import { DEFAULT_ACHIEVEMENTS, Achievement } from './pointsService';
 
 export interface UserAchievement {
   id: string;
   userId: string;
+  communityId: string;
   achievementId: string;
+  transactionId: string | null;
   earnedAt: Date;
   achievement: Achievement;
 }
@@ -16,58 +22,171 @@ export interface AchievementProgress {
   earnedAt?: Date;
 }
 
+export interface CommunityAchievementData {
+  key: string;
+  name: string;
+  description: string;
+  pointsRequired: number;
+  badgeIcon: string;
+}
+
 export class AchievementService {
   /**
-   * Check and award new achievements for a user based on their total points
+   * Get the achievements a community awards: its own badges, or the defaults if it has none
    */
-  static async checkAndAwardAchievements(userId: string): Promise<Achievement[]> {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { totalPoints: true }
+  static async getCommunityAchievements(communityId: string): Promise<Achievement[]> {
+    return redisService.cache(CacheKeys.communityAchievements(communityId), async () => {
+      const custom = await prisma.communityAchievement.findMany({
+        where: { communityId },
+        orderBy: { pointsRequired: 'asc' }
+      });
+
+      if (custom.length === 0) {
+        return DEFAULT_ACHIEVEMENTS;
+      }
+
+      return custom.map(achievement => ({
+        id: achievement.key,
+        name: achievement.name,
+        description: achievement.description,
+        pointsRequired: achievement.pointsRequired,
+        badgeIcon: achievement.badgeIcon
+      }));
+    }, CacheTTL.MEDIUM);
+  }
+
+  /**
+   * Define a new achievement for a community
+   */
+  static async createCommunityAchievement(communityId: string, data: CommunityAchievementData) {
+    try {
+      const achievement = await prisma.communityAchievement.create({
+        data: { communityId, ...data }
+      });
+
+      await redisService.del(CacheKeys.communityAchievements(communityId));
+
+      return achievement;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('Achievement key already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update one of a community's achievements
+   */
+  static async updateCommunityAchievement(
+    communityId: string,
+    key: string,
+    data: Partial<Omit<CommunityAchievementData, 'key'>>
+  ) {
+    const existing = await prisma.communityAchievement.findUnique({
+      where: { communityId_key: { communityId, key } }
     });
 
-    if (!user) {
-      throw new Error('User not found');
+    if (!existing) {
+      throw new Error('Achievement not found');
     }
 
-    // Get user's current achievements (we'll store these in a separate table in the future)
-    // For now, we'll determine achievements based on total points
-    const newAchievements: Achievement[] = [];
+    const achievement = await prisma.communityAchievement.update({
+      where: { id: existing.id },
+      data
+    });
+
+    await redisService.del(CacheKeys.communityAchievements(communityId));
+
+    return achievement;
+  }
 
-    for (const achievement of DEFAULT_ACHIEVEMENTS) {
-      if (user.totalPoints >= achievement.pointsRequired) {
-        // Check if user already has this achievement
-        // For now, we'll just return all eligible achievements
-        // In a full implementation, we'd store earned achievements in a database table
-        newAchievements.push(achievement);
+  /**
+   * Delete one of a community's achievements. Removing the last one restores the defaults.
+   */
+  static async deleteCommunityAchievement(communityId: string, key: string) {
+    const result = await prisma.communityAchievement.deleteMany({
+      where: { communityId, key }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Achievement not found');
+    }
+
+    await redisService.del(CacheKeys.communityAchievements(communityId));
+  }
+
+  /**
+   * Record any achievements the user has newly qualified for and return everything
+   * they have earned. Within a community, the community's achievements are measured
+   * against points earned there; without one, every community the user has points in
+   * is checked. Each achievement is recorded (and notified) at most once per community.
+   */
+  static async checkAndAwardAchievements(userId: string, communityId?: string, transactionId?: string): Promise<Achievement[]> {
+    if (communityId) {
+      await this.awardEligibleAchievements(userId, communityId, transactionId);
+    } else {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true }
+      });
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const communities = await prisma.pointsTransaction.groupBy({
+        by: ['communityId'],
+        where: { userId }
+      });
+
+      for (const community of communities) {
+        await this.awardEligibleAchievements(userId, community.communityId);
       }
     }
 
-    return newAchievements;
+    return this.getEarnedAchievements(userId, communityId);
   }
 
   /**
-   * Get all achievements with user's progress
+   * Get the achievements a user has earned, optionally within one community
    */
-  static async getUserAchievementProgress(userId: string): Promise<AchievementProgress[]> {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { totalPoints: true }
+  static async getEarnedAchievements(userId: string, communityId?: string): Promise<Achievement[]> {
+    const earned = await prisma.userAchievement.findMany({
+      where: {
+        userId,
+        ...(communityId && { communityId })
+      },
+      orderBy: [{ pointsRequired: 'asc' }, { earnedAt: 'asc' }]
     });
 
-    if (!user) {
-      throw new Error('User not found');
-    }
+    return earned.map(record => this.toAchievement(record));
+  }
 
-    return DEFAULT_ACHIEVEMENTS.map(achievement => {
-      const isEarned = user.totalPoints >= achievement.pointsRequired;
-      const progress = Math.min(user.totalPoints / achievement.pointsRequired, 1);
+  /**
+   * Get all achievements with user's progress
+   */
+  static async getUserAchievementProgress(userId: string, communityId?: string): Promise<AchievementProgress[]> {
+    const { points, achievements } = await this.getAchievementBasis(userId, communityId);
+
+    const earned = await prisma.userAchievement.findMany({
+      where: {
+        userId,
+        ...(communityId && { communityId })
+      },
+      orderBy: { earnedAt: 'asc' },
+      select: { achievementId: true, earnedAt: true }
+    });
+
+    return achievements.map(achievement => {
+      const record = earned.find(e => e.achievementId === achievement.id);
+      const progress = Math.min(points / achievement.pointsRequired, 1);
 
       return {
         achievement,
-        progress,
-        isEarned,
-        earnedAt: isEarned ? new Date() : undefined // In real implementation, this would come from database
+        progress: record ? 1 : progress,
+        isEarned: !!record,
+        earnedAt: record?.earnedAt
       };
     });
   }
@@ -88,10 +207,19 @@ export class AchievementService {
       }
     });
 
+    const earned = await prisma.userAchievement.findMany({
+      where: { userId: { in: users.map(user => user.id) } },
+      orderBy: { pointsRequired: 'asc' }
+    });
+
     return users.map((user, index) => {
-      const earnedAchievements = DEFAULT_ACHIEVEMENTS.filter(
-        achievement => user.totalPoints >= achievement.pointsRequired
-      );
+      // The same badge earned in several communities counts once
+      const earnedAchievements: Achievement[] = [];
+      for (const record of earned.filter(e => e.userId === user.id)) {
+        if (!earnedAchievements.some(a => a.id === record.achievementId)) {
+          earnedAchievements.push(this.toAchievement(record));
+        }
+      }
 
       return {
         rank: index + 1,
@@ -104,9 +232,12 @@ export class AchievementService {
   }
 
   /**
-   * Get milestone tracking for a user
+   * Get milestone tracking for a user: the achievements they have earned and the
+   * closest one still ahead. Within a community this uses its achievements and the
+   * points earned there; without one, every community the user has points in is
+   * considered and the next milestone is the one with the fewest points to go.
    */
-  static async getUserMilestones(userId: string) {
+  static async getUserMilestones(userId: string, communityId?: string) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
       select: { totalPoints: true }
@@ -116,63 +247,75 @@ export class AchievementService {
       throw new Error('User not found');
     }
 
-    const currentPoints = user.totalPoints;
-    const earnedAchievements = DEFAULT_ACHIEVEMENTS.filter(
-      achievement => currentPoints >= achievement.pointsRequired
-    );
+    const communityIds = communityId
+      ? [communityId]
+      : (await prisma.pointsTransaction.groupBy({ by: ['communityId'], where: { userId } })).map(c => c.communityId);
 
-    const nextAchievement = DEFAULT_ACHIEVEMENTS.find(
-      achievement => currentPoints < achievement.pointsRequired
-    );
+    const [earned, milestones] = await Promise.all([
+      this.getEarnedAchievements(userId, communityId),
+      Promise.all(communityIds.map(id => this.getNextMilestone(userId, id)))
+    ]);
 
-    // Calculate points needed for next milestone
-    const pointsToNext = nextAchievement 
-      ? nextAchievement.pointsRequired - currentPoints 
-      : 0;
+    // The same badge earned in several communities counts once
+    const earnedAchievements: Achievement[] = [];
+    for (const achievement of earned) {
+      if (!earnedAchievements.some(a => a.id === achievement.id)) {
+        earnedAchievements.push(achievement);
+      }
+    }
 
-    // Calculate progress to next milestone
-    const progressToNext = nextAchievement 
-      ? currentPoints / nextAchievement.pointsRequired 
-      : 1;
+    // Without points anywhere yet, the first default achievement is what's ahead
+    const next = communityIds.length > 0
+      ? milestones
+        .filter(milestone => milestone.achievement)
+        .sort((a, b) => a.pointsToNext - b.pointsToNext)[0]
+      : { communityId: undefined, points: 0, achievement: DEFAULT_ACHIEVEMENTS[0], pointsToNext: DEFAULT_ACHIEVEMENTS[0].pointsRequired };
 
     return {
-      currentPoints,
+      currentPoints: communityId ? milestones[0].points : user.totalPoints,
       earnedAchievements,
-      nextAchievement,
-      pointsToNext,
-      progressToNext: Math.min(progressToNext, 1)
+      nextAchievement: next?.achievement,
+      nextAchievementCommunityId: next?.communityId,
+      pointsToNext: next ? next.pointsToNext : 0,
+      progressToNext: next?.achievement ? Math.min(next.points / next.achievement.pointsRequired, 1) : 1
     };
   }
 
   /**
-   * Get achievement statistics
+   * Get achievement statistics from the recorded achievements. Within a community
+   * this covers its own achievements and members; otherwise every achievement any
+   * community awards, measured against all users.
    */
-  static async getAchievementStats() {
-    // Get total users
-    const totalUsers = await prisma.user.count();
-
-    // Calculate achievement distribution
-    const achievementStats = await Promise.all(
-      DEFAULT_ACHIEVEMENTS.map(async (achievement) => {
-        const usersWithAchievement = await prisma.user.count({
-          where: {
-            totalPoints: {
-              gte: achievement.pointsRequired
-            }
-          }
-        });
+  static async getAchievementStats(communityId?: string) {
+    const [totalUsers, achievements] = await Promise.all([
+      communityId
+        ? prisma.communityMembership.count({ where: { communityId, status: 'active' } })
+        : prisma.user.count(),
+      communityId ? this.getCommunityAchievements(communityId) : this.getAllAchievements()
+    ]);
 
-        return {
-          achievement,
-          usersEarned: usersWithAchievement,
-          percentage: totalUsers > 0 ? (usersWithAchievement / totalUsers) * 100 : 0
-        };
-      })
-    );
+    // One group per (achievement, user) pair, so each user counts once per achievement
+    const earners = await prisma.userAchievement.groupBy({
+      by: ['achievementId', 'userId'],
+      where: {
+        achievementId: { in: achievements.map(achievement => achievement.id) },
+        ...(communityId && { communityId })
+      }
+    });
+
+    const achievementStats = achievements.map(achievement => {
+      const usersWithAchievement = earners.filter(e => e.achievementId === achievement.id).length;
+
+      return {
+        achievement,
+        usersEarned: usersWithAchievement,
+        percentage: totalUsers > 0 ? (usersWithAchievement / totalUsers) * 100 : 0
+      };
+    });
 
     return {
       totalUsers,
-      totalAchievements: DEFAULT_ACHIEVEMENTS.length,
+      totalAchievements: achievements.length,
       achievementStats
     };
   }
@@ -181,36 +324,195 @@ export class AchievementService {
    * Get recent achievement earners
    */
   static async getRecentAchievementEarners(achievementId: string, limit: number = 10) {
-    const achievement = DEFAULT_ACHIEVEMENTS.find(a => a.id === achievementId);
-    
-    if (!achievement) {
+    const isKnown = DEFAULT_ACHIEVEMENTS.some(a => a.id === achievementId) ||
+      (await prisma.communityAchievement.count({ where: { key: achievementId } })) > 0;
+
+    if (!isKnown) {
       throw new Error('Achievement not found');
     }
 
-    // Get users who recently reached this achievement level
-    // This is a simplified implementation - in a real system, we'd track when achievements were earned
-    const users = await prisma.user.findMany({
-      where: {
-        totalPoints: {
-          gte: achievement.pointsRequired
-        }
-      },
-      orderBy: { updatedAt: 'desc' },
+    const earners = await prisma.userAchievement.findMany({
+      where: { achievementId },
+      orderBy: { earnedAt: 'desc' },
       take: limit,
-      select: {
-        id: true,
-        username: true,
-        displayName: true,
-        avatarUrl: true,
-        totalPoints: true,
-        updatedAt: true
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            displayName: true,
+            avatarUrl: true,
+            totalPoints: true
+          }
+        }
       }
     });
 
-    return users.map(user => ({
-      user,
-      achievement,
-      earnedAt: user.updatedAt // In real implementation, this would be the actual earned date
+    return earners.map(record => ({
+      user: record.user,
+      achievement: this.toAchievement(record),
+      communityId: record.communityId,
+      earnedAt: record.earnedAt
     }));
   }
-}
\ No newline at end of file
+
+  /**
+   * Record each achievement the user now qualifies for in a community. The unique
+   * (user, community, achievement) constraint decides the winner between concurrent
+   * checks, and only the check that inserted the row sends the notification.
+   */
+  private static async awardEligibleAchievements(userId: string, communityId: string, transactionId?: string) {
+    const { points, achievements } = await this.getAchievementBasis(userId, communityId);
+
+    const alreadyEarned = await prisma.userAchievement.findMany({
+      where: { userId, communityId },
+      select: { achievementId: true }
+    });
+    const earnedIds = new Set(alreadyEarned.map(e => e.achievementId));
+
+    for (const achievement of achievements) {
+      if (points < achievement.pointsRequired || earnedIds.has(achievement.id)) {
+        continue;
+      }
+
+      try {
+        await prisma.userAchievement.create({
+          data: {
+            userId,
+            communityId,
+            achievementId: achievement.id,
+            name: achievement.name,
+            description: achievement.description,
+            pointsRequired: achievement.pointsRequired,
+            badgeIcon: achievement.badgeIcon,
+            transactionId
+          }
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+
+      await this.notifyAchievementEarned(userId, communityId, achievement);
+
+      WebhookService.dispatch(communityId, 'achievement.earned', {
+        userId,
+        achievement: {
+          id: achievement.id,
+          name: achievement.name,
+          description: achievement.description,
+          pointsRequired: achievement.pointsRequired
+        }
+      });
+    }
+  }
+
+  private static async notifyAchievementEarned(userId: string, communityId: string, achievement: Achievement) {
+    try {
+      await notificationService.createNotification({
+        userId,
+        type: NotificationType.ACHIEVEMENT_EARNED,
+        title: `Achievement unlocked: ${achievement.name}`,
+        message: `${achievement.badgeIcon} ${achievement.description}`,
+        data: {
+          achievementId: achievement.id,
+          communityId
+        }
+      });
+    } catch (error) {
+      // The achievement is recorded either way; a failed notification is not retried
+      console.error('Failed to send achievement notification:', error);
+    }
+  }
+
+  /**
+   * The first achievement in a community the user hasn't earned yet, with the
+   * points they have there
+   */
+  private static async getNextMilestone(userId: string, communityId: string) {
+    const { points, achievements } = await this.getAchievementBasis(userId, communityId);
+
+    const earned = await prisma.userAchievement.findMany({
+      where: { userId, communityId },
+      select: { achievementId: true }
+    });
+
+    const achievement = achievements.find(a => !earned.some(e => e.achievementId === a.id));
+
+    return {
+      communityId,
+      points,
+      achievement,
+      pointsToNext: achievement ? Math.max(achievement.pointsRequired - points, 0) : 0
+    };
+  }
+
+  /**
+   * Every achievement awarded anywhere: the defaults plus each community's own.
+   * Communities that reuse a key share one entry.
+   */
+  private static async getAllAchievements(): Promise<Achievement[]> {
+    const custom = await prisma.communityAchievement.findMany({
+      where: { key: { notIn: DEFAULT_ACHIEVEMENTS.map(achievement => achievement.id) } },
+      distinct: ['key'],
+      orderBy: [{ key: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return [
+      ...DEFAULT_ACHIEVEMENTS,
+      ...custom.map(achievement => ({
+        id: achievement.key,
+        name: achievement.name,
+        description: achievement.description,
+        pointsRequired: achievement.pointsRequired,
+        badgeIcon: achievement.badgeIcon
+      }))
+    ].sort((a, b) => a.pointsRequired - b.pointsRequired);
+  }
+
+  private static toAchievement(record: {
+    achievementId: string;
+    name: string;
+    description: string;
+    pointsRequired: number;
+    badgeIcon: string;
+  }): Achievement {
+    return {
+      id: record.achievementId,
+      name: record.name,
+      description: record.description,
+      pointsRequired: record.pointsRequired,
+      badgeIcon: record.badgeIcon
+    };
+  }
+
+  /**
+   * Resolve the points total and achievement set to measure a user against
+   */
+  private static async getAchievementBasis(userId: string, communityId?: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totalPoints: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!communityId) {
+      return { points: user.totalPoints, achievements: DEFAULT_ACHIEVEMENTS };
+    }
+
+    const [communityPoints, achievements] = await Promise.all([
+      prisma.pointsTransaction.aggregate({
+        where: { userId, communityId },
+        _sum: { points: true }
+      }),
+      this.getCommunityAchievements(communityId)
+    ]);
+
+    return { points: communityPoints._sum.points || 0, achievements };
+  }
+}
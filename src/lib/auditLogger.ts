@@ -1,4 +1,5 @@
 import prisma from './prisma';
+import { paginate, CursorPage } from './pagination';
 
 export interface SecurityEvent {
   userId: string | null;
@@ -62,7 +63,7 @@ export class AuditLogger {
   /**
    * Log authentication events
    */
-  async logAuthEvent(userId: string | null, action: 'LOGIN' | 'LOGOUT' | 'LOGIN_FAILED' | 'REGISTER' | 'PASSWORD_RESET', metadata?: Record<string, any>): Promise<void> {
+  async logAuthEvent(userId: string | null, action: 'LOGIN' | 'LOGOUT' | 'LOGOUT_ALL' | 'LOGIN_FAILED' | 'REGISTER' | 'PASSWORD_RESET' | 'REFRESH_TOKEN_REUSE', metadata?: Record<string, any>): Promise<void> {
     await this.logSecurityEvent({
       userId,
       action,
@@ -152,9 +153,9 @@ export class AuditLogger {
     resource?: string;
     startDate?: Date;
     endDate?: Date;
+    cursor?: string;
     limit?: number;
-    offset?: number;
-  } = {}): Promise<{ logs: AuditLogEntry[]; total: number }> {
+  } = {}): Promise<CursorPage<AuditLogEntry>> {
     const {
       userId,
       communityId,
@@ -162,8 +163,8 @@ export class AuditLogger {
       resource,
       startDate,
       endDate,
-      limit = 50,
-      offset = 0
+      cursor,
+      limit = 50
     } = options;
 
     const where: any = {};
@@ -179,12 +180,11 @@ export class AuditLogger {
       if (endDate) where.createdAt.lte = endDate;
     }
 
-    const [logs, total] = await Promise.all([
+    const page = await paginate([{ field: 'createdAt', direction: 'desc' }], { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
       prisma.auditLog.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        skip: offset,
+        where: { AND: [where, cursorWhere] },
+        orderBy,
+        take,
         include: {
           user: {
             select: {
@@ -202,11 +202,10 @@ export class AuditLogger {
             }
           }
         }
-      }),
-      prisma.auditLog.count({ where })
-    ]);
+      })
+    );
 
-    return { logs: logs as any[], total };
+    return page as CursorPage<any>;
   }
 
   /**
@@ -7,11 +7,27 @@ const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+const JWT_ACTION_SECRET = process.env.JWT_ACTION_SECRET || 'your-action-secret-key';
 
 export interface JwtPayload {
   userId: string;
   email: string;
   username: string;
+  sessionId?: string; // refresh tokens only: the session (token family) they belong to
+  tokenId?: string;   // refresh tokens only: unique ID used for rotation and reuse detection
+}
+
+export type ActionTokenPurpose = 'email_verification' | 'password_reset';
+
+export interface ActionTokenPayload {
+  userId: string;
+  purpose: ActionTokenPurpose;
+  tokenId: string;
+}
+
+export interface RefreshTokenBinding {
+  sessionId: string;
+  tokenId: string;
 }
 
 export interface TokenPair {
@@ -57,9 +73,10 @@ export function generateRefreshToken(payload: JwtPayload): string {
 }
 
 /**
- * Generate both access and refresh tokens
+ * Generate both access and refresh tokens.
+ * Pass a session binding to issue a refresh token that can be rotated and revoked server-side.
  */
-export function generateTokenPair(user: User): TokenPair {
+export function generateTokenPair(user: User, binding?: RefreshTokenBinding): TokenPair {
   const payload: JwtPayload = {
     userId: user.id,
     email: user.email,
@@ -68,10 +85,18 @@ export function generateTokenPair(user: User): TokenPair {
 
   return {
     accessToken: generateAccessToken(payload),
-    refreshToken: generateRefreshToken(payload)
+    refreshToken: generateRefreshToken(binding ? { ...payload, ...binding } : payload)
   };
 }
 
+/**
+ * Read the expiry of a signed token without verifying it
+ */
+export function getTokenExpiry(token: string): Date | null {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return decoded?.exp ? new Date(decoded.exp * 1000) : null;
+}
+
 /**
  * Verify JWT access token
  */
@@ -100,6 +125,31 @@ export function verifyRefreshToken(token: string): JwtPayload {
   }
 }
 
+/**
+ * Generate a signed token for a one-off account action (email verification, password reset)
+ */
+export function generateActionToken(payload: ActionTokenPayload, expiresIn: string): string {
+  return jwt.sign(payload, JWT_ACTION_SECRET, {
+    expiresIn,
+    issuer: 'community-learning-platform',
+    audience: payload.purpose
+  } as jwt.SignOptions);
+}
+
+/**
+ * Verify an account action token was issued for the expected purpose
+ */
+export function verifyActionToken(token: string, purpose: ActionTokenPurpose): ActionTokenPayload {
+  try {
+    return jwt.verify(token, JWT_ACTION_SECRET, {
+      issuer: 'community-learning-platform',
+      audience: purpose
+    } as jwt.VerifyOptions) as ActionTokenPayload;
+  } catch (error) {
+    throw new Error('Invalid or expired token');
+  }
+}
+
 /**
  * Extract token from Authorization header
  */
@@ -3,6 +3,8 @@ import { Prisma } from '@prisma/client';
 import { PointsService } from './pointsService';
 import { notificationService, NotificationType } from './notificationService';
 import { RecommendationService } from './recommendationService';
+import { MemberSanctionService } from './memberSanctionService';
+import { paginate, CursorPageOptions, CursorSortKey } from './pagination';
 
 export interface CommunityCreateData {
   name: string;
@@ -23,11 +25,12 @@ export interface CommunityUpdateData {
   requiresApproval?: boolean;
   priceMonthly?: number;
   priceYearly?: number;
+  trialDays?: number | null;
+  warningEscalationThreshold?: number | null;
+  warningEscalationMuteHours?: number | null;
 }
 
-export interface CommunityQueryOptions {
-  limit?: number;
-  offset?: number;
+export interface CommunityQueryOptions extends CursorPageOptions {
   search?: string;
   isPublic?: boolean;
   userId?: string; // For filtering user's communities
@@ -37,16 +40,30 @@ export interface CommunityQueryOptions {
   sortBy?: 'newest' | 'oldest' | 'popular' | 'members' | 'name';
 }
 
-export interface CommunitySearchOptions {
+export interface CommunitySearchOptions extends CursorPageOptions {
   query: string;
-  limit?: number;
-  offset?: number;
   category?: string;
   priceRange?: 'free' | 'paid' | 'under-50' | '50-100' | 'over-100';
   memberCount?: 'small' | 'medium' | 'large';
   isPublic?: boolean;
 }
 
+type CommunitySort = NonNullable<CommunityQueryOptions['sortBy']>;
+
+const COMMUNITY_SORT_KEYS: Record<CommunitySort, CursorSortKey[]> = {
+  newest: [{ field: 'createdAt', direction: 'desc' }],
+  oldest: [{ field: 'createdAt', direction: 'asc' }],
+  popular: [{ field: 'memberCount', direction: 'desc' }, { field: 'createdAt', direction: 'desc' }],
+  members: [{ field: 'memberCount', direction: 'desc' }],
+  name: [{ field: 'name', direction: 'asc' }]
+};
+
+// Search prioritizes popular communities
+const COMMUNITY_SEARCH_SORT_KEYS: CursorSortKey[] = [
+  { field: 'memberCount', direction: 'desc' },
+  { field: 'createdAt', direction: 'desc' }
+];
+
 export interface CommunityDiscoveryOptions {
   limit?: number;
   type?: 'trending' | 'recommended' | 'popular' | 'new';
@@ -121,8 +138,8 @@ export class CommunityService {
    */
   static async getCommunities(options: CommunityQueryOptions = {}) {
     const {
-      limit = 20,
-      offset = 0,
+      cursor,
+      limit,
       search,
       isPublic,
       userId,
@@ -222,31 +239,11 @@ export class CommunityService {
       };
     }
 
-    // Determine sort order
-    let orderBy: any = { createdAt: 'desc' };
-    switch (sortBy) {
-      case 'oldest':
-        orderBy = { createdAt: 'asc' };
-        break;
-      case 'popular':
-        orderBy = [
-          { memberCount: 'desc' },
-          { createdAt: 'desc' }
-        ];
-        break;
-      case 'members':
-        orderBy = { memberCount: 'desc' };
-        break;
-      case 'name':
-        orderBy = { name: 'asc' };
-        break;
-      default:
-        orderBy = { createdAt: 'desc' };
-    }
+    const sortKeys = COMMUNITY_SORT_KEYS[sortBy] ?? COMMUNITY_SORT_KEYS.newest;
 
-    const [communities, total] = await Promise.all([
+    return paginate(sortKeys, { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
       prisma.community.findMany({
-        where,
+        where: { AND: [where, cursorWhere] },
         include: {
           creator: {
             select: {
@@ -265,17 +262,9 @@ export class CommunityService {
           }
         },
         orderBy,
-        take: limit,
-        skip: offset
-      }),
-      prisma.community.count({ where })
-    ]);
-
-    return {
-      communities,
-      total,
-      hasMore: offset + limit < total
-    };
+        take
+      })
+    );
   }
 
   /**
@@ -419,6 +408,11 @@ export class CommunityService {
       throw new Error('Community not found');
     }
 
+    const { ban } = await MemberSanctionService.getActiveSanctions(communityId, userId);
+    if (ban) {
+      throw new Error('Cannot join community - you are banned');
+    }
+
     // Check if user is already a member
     const existingMembership = await prisma.communityMembership.findUnique({
       where: {
@@ -571,7 +565,7 @@ export class CommunityService {
   /**
    * Get community members
    */
-  static async getCommunityMembers(communityId: string, userId: string, options: { limit?: number; offset?: number; role?: string; status?: string } = {}) {
+  static async getCommunityMembers(communityId: string, userId: string, options: CursorPageOptions & { role?: string; status?: string } = {}) {
     // Check if user has access to view members
     const userMembership = await prisma.communityMembership.findFirst({
       where: {
@@ -585,7 +579,7 @@ export class CommunityService {
       throw new Error('Access denied - not a member of this community');
     }
 
-    const { limit = 20, offset = 0, role, status } = options;
+    const { cursor, limit, role, status } = options;
 
     const where: any = {
       communityId
@@ -599,9 +593,14 @@ export class CommunityService {
       where.status = status as any;
     }
 
-    const [members, total] = await Promise.all([
+    const sortKeys = [
+      { field: 'role', direction: 'asc' as const }, // admins first, then moderators, then members
+      { field: 'joinedAt', direction: 'asc' as const }
+    ];
+
+    return paginate(sortKeys, { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
       prisma.communityMembership.findMany({
-        where,
+        where: { AND: [where, cursorWhere] },
         include: {
           user: {
             select: {
@@ -613,21 +612,10 @@ export class CommunityService {
             }
           }
         },
-        orderBy: [
-          { role: 'asc' }, // admins first, then moderators, then members
-          { joinedAt: 'asc' }
-        ],
-        take: limit,
-        skip: offset
-      }),
-      prisma.communityMembership.count({ where })
-    ]);
-
-    return {
-      members,
-      total,
-      hasMore: offset + limit < total
-    };
+        orderBy,
+        take
+      })
+    );
   }
 
   /**
@@ -839,8 +827,8 @@ export class CommunityService {
   static async searchCommunities(options: CommunitySearchOptions) {
     const {
       query,
-      limit = 20,
-      offset = 0,
+      cursor,
+      limit,
       category,
       priceRange,
       memberCount,
@@ -944,9 +932,9 @@ export class CommunityService {
       where.AND = andConditions;
     }
 
-    const [communities, total] = await Promise.all([
+    const page = await paginate(COMMUNITY_SEARCH_SORT_KEYS, { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
       prisma.community.findMany({
-        where,
+        where: { AND: [where, cursorWhere] },
         include: {
           creator: {
             select: {
@@ -964,22 +952,12 @@ export class CommunityService {
             }
           }
         },
-        orderBy: [
-          { memberCount: 'desc' }, // Prioritize popular communities in search
-          { createdAt: 'desc' }
-        ],
-        take: limit,
-        skip: offset
-      }),
-      prisma.community.count({ where })
-    ]);
+        orderBy,
+        take
+      })
+    );
 
-    return {
-      communities,
-      total,
-      hasMore: offset + limit < total,
-      query
-    };
+    return { ...page, query };
   }
 
   /**
@@ -1187,12 +1165,10 @@ export class CommunityService {
   /**
    * Get user's bookmarked communities
    */
-  static async getUserBookmarks(userId: string, options: { limit?: number; offset?: number } = {}) {
-    const { limit = 20, offset = 0 } = options;
-
-    const [bookmarks, total] = await Promise.all([
+  static async getUserBookmarks(userId: string, options: CursorPageOptions = {}) {
+    const page = await paginate([{ field: 'createdAt', direction: 'desc' }], options, ({ cursorWhere, orderBy, take }) =>
       prisma.userBookmark.findMany({
-        where: { userId },
+        where: { userId, ...cursorWhere },
         include: {
           community: {
             include: {
@@ -1214,17 +1190,14 @@ export class CommunityService {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        skip: offset
-      }),
-      prisma.userBookmark.count({ where: { userId } })
-    ]);
+        orderBy,
+        take
+      })
+    );
 
     return {
-      bookmarks: bookmarks.map((b: any) => b.community),
-      total,
-      hasMore: offset + limit < total
+      ...page,
+      items: page.items.map((b: any) => b.community)
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,356 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { MentionService } from './mentionService';
+
+export const CONTENT_FILTER_TYPES = ['banned_words', 'link_limit', 'duplicate_content', 'flood_limit'] as const;
+export const CONTENT_FILTER_ACTIONS = ['reject', 'hold', 'report'] as const;
+
+export type ContentFilterType = typeof CONTENT_FILTER_TYPES[number];
+export type ContentFilterAction = typeof CONTENT_FILTER_ACTIONS[number];
+export type FilteredContentType = 'post' | 'comment';
+
+export interface BannedWordsConfig {
+  words: string[];
+}
+
+export interface LinkLimitConfig {
+  maxLinks: number;
+  memberDays: number; // Only members who joined within this many days are limited
+}
+
+export interface DuplicateContentConfig {
+  windowHours: number;
+}
+
+export interface FloodLimitConfig {
+  maxItems: number; // Posts and comments combined
+  windowMinutes: number;
+}
+
+export type ContentFilterRuleData = { action: ContentFilterAction; isActive?: boolean } & (
+  | { type: 'banned_words'; config: BannedWordsConfig }
+  | { type: 'link_limit'; config: LinkLimitConfig }
+  | { type: 'duplicate_content'; config: DuplicateContentConfig }
+  | { type: 'flood_limit'; config: FloodLimitConfig }
+);
+
+export interface ContentToScreen {
+  communityId: string;
+  authorId: string;
+  contentType: FilteredContentType;
+  text: string;
+  contentId?: string; // Set when screening an edit
+}
+
+export interface ScreenedPost {
+  title?: string | null;
+  content: string;
+  pollOptions?: string[];
+}
+
+export interface FilterViolation {
+  ruleId: string;
+  type: ContentFilterType;
+  action: ContentFilterAction;
+  detail: string;
+}
+
+export interface ScreeningResult {
+  hold: boolean;
+  violations: FilterViolation[];
+}
+
+// Most severe first
+const ACTION_SEVERITY: ContentFilterAction[] = ['reject', 'hold', 'report'];
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+// Report reason recorded for each rule type's automatic reports
+const REPORT_REASONS: Record<ContentFilterType, string> = {
+  banned_words: 'inappropriate',
+  link_limit: 'spam',
+  duplicate_content: 'spam',
+  flood_limit: 'spam'
+};
+
+/**
+ * Per-community rules that screen posts and comments as they are created or edited.
+ * Each rule rejects the content outright, holds it (hidden) for moderator review, or
+ * lets it through with an automatic report in the moderation queue. Moderators,
+ * admins and the community creator are never filtered.
+ */
+export class ContentFilterService {
+  /**
+   * List a community's rules
+   */
+  static async getRules(communityId: string) {
+    return prisma.contentFilterRule.findMany({
+      where: { communityId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Add a rule
+   */
+  static async createRule(communityId: string, userId: string, data: ContentFilterRuleData) {
+    return prisma.contentFilterRule.create({
+      data: {
+        communityId,
+        type: data.type,
+        action: data.action,
+        config: this.normalizeConfig(data) as Prisma.InputJsonValue,
+        isActive: data.isActive ?? true,
+        createdById: userId
+      }
+    });
+  }
+
+  /**
+   * Replace a rule's type, action and settings
+   */
+  static async updateRule(communityId: string, ruleId: string, data: ContentFilterRuleData) {
+    await this.findRule(communityId, ruleId);
+
+    return prisma.contentFilterRule.update({
+      where: { id: ruleId },
+      data: {
+        type: data.type,
+        action: data.action,
+        config: this.normalizeConfig(data) as Prisma.InputJsonValue,
+        ...(data.isActive !== undefined && { isActive: data.isActive })
+      }
+    });
+  }
+
+  /**
+   * Delete a rule. Reports it raised stay in the queue.
+   */
+  static async deleteRule(communityId: string, ruleId: string) {
+    await this.findRule(communityId, ruleId);
+    await prisma.contentFilterRule.delete({ where: { id: ruleId } });
+  }
+
+  /**
+   * Run a community's active rules against new or edited content. Throws if a
+   * rule rejects it; otherwise says whether to hold it and which rules matched.
+   */
+  static async screen(content: ContentToScreen): Promise<ScreeningResult> {
+    const rules = await prisma.contentFilterRule.findMany({
+      where: { communityId: content.communityId, isActive: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    if (rules.length === 0 || await this.isExempt(content.communityId, content.authorId)) {
+      return { hold: false, violations: [] };
+    }
+
+    const violations: FilterViolation[] = [];
+
+    for (const rule of rules) {
+      const detail = await this.checkRule(rule.type as ContentFilterType, rule.config, content);
+      if (detail) {
+        violations.push({
+          ruleId: rule.id,
+          type: rule.type as ContentFilterType,
+          action: rule.action as ContentFilterAction,
+          detail
+        });
+      }
+    }
+
+    violations.sort((a, b) => ACTION_SEVERITY.indexOf(a.action) - ACTION_SEVERITY.indexOf(b.action));
+
+    if (violations[0]?.action === 'reject') {
+      throw new Error(`Content rejected: ${violations[0].detail}`);
+    }
+
+    return {
+      hold: violations.some(violation => violation.action === 'hold'),
+      violations
+    };
+  }
+
+  /**
+   * The text a post is screened as: its title, body and poll options
+   */
+  static postText(post: ScreenedPost): string {
+    return [post.title, post.content, ...(post.pollOptions || [])].filter(Boolean).join('\n');
+  }
+
+  /**
+   * File an automatic report for each held or reported violation so it shows up
+   * in the moderation queue
+   */
+  static async recordViolations(contentType: FilteredContentType, contentId: string, postId: string, violations: FilterViolation[]) {
+    if (violations.length === 0) {
+      return;
+    }
+
+    await prisma.contentReport.createMany({
+      data: violations.map(violation => ({
+        postId,
+        commentId: contentType === 'comment' ? contentId : null,
+        filterRuleId: violation.ruleId,
+        reason: REPORT_REASONS[violation.type],
+        description: `${violation.action === 'hold' ? 'Held for review' : 'Flagged'} by content filter: ${violation.detail}`
+      }))
+    });
+  }
+
+  private static async checkRule(type: ContentFilterType, config: Prisma.JsonValue, content: ContentToScreen): Promise<string | null> {
+    switch (type) {
+      case 'banned_words':
+        return this.checkBannedWords(config as unknown as BannedWordsConfig, content);
+      case 'link_limit':
+        return this.checkLinkLimit(config as unknown as LinkLimitConfig, content);
+      case 'duplicate_content':
+        return this.checkDuplicateContent(config as unknown as DuplicateContentConfig, content);
+      case 'flood_limit':
+        return this.checkFloodLimit(config as unknown as FloodLimitConfig, content);
+      default:
+        return null;
+    }
+  }
+
+  private static checkBannedWords(config: BannedWordsConfig, content: ContentToScreen): string | null {
+    const matched = config.words.filter(word => {
+      const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(content.text);
+    });
+
+    return matched.length > 0 ? `Contains banned words: ${matched.join(', ')}` : null;
+  }
+
+  private static async checkLinkLimit(config: LinkLimitConfig, content: ContentToScreen): Promise<string | null> {
+    const links = content.text.match(LINK_PATTERN)?.length || 0;
+    if (links <= config.maxLinks) {
+      return null;
+    }
+
+    const membership = await prisma.communityMembership.findUnique({
+      where: { userId_communityId: { userId: content.authorId, communityId: content.communityId } },
+      select: { joinedAt: true }
+    });
+
+    const newMemberSince = new Date(Date.now() - config.memberDays * 24 * 60 * 60 * 1000);
+    if (membership && membership.joinedAt < newMemberSince) {
+      return null;
+    }
+
+    return `New members can include at most ${config.maxLinks} ${config.maxLinks === 1 ? 'link' : 'links'}`;
+  }
+
+  private static async checkDuplicateContent(config: DuplicateContentConfig, content: ContentToScreen): Promise<string | null> {
+    const since = new Date(Date.now() - config.windowHours * 60 * 60 * 1000);
+    const text = this.normalizeText(content.text);
+
+    const [posts, comments] = await Promise.all([
+      prisma.post.findMany({
+        where: {
+          communityId: content.communityId,
+          authorId: content.authorId,
+          createdAt: { gte: since },
+          ...(content.contentType === 'post' && content.contentId && { id: { not: content.contentId } })
+        },
+        select: {
+          title: true,
+          content: true,
+          poll: {
+            select: {
+              options: { select: { text: true }, orderBy: { position: 'asc' } }
+            }
+          }
+        }
+      }),
+      prisma.comment.findMany({
+        where: {
+          authorId: content.authorId,
+          post: { communityId: content.communityId },
+          createdAt: { gte: since },
+          ...(content.contentType === 'comment' && content.contentId && { id: { not: content.contentId } })
+        },
+        select: { content: true }
+      })
+    ]);
+
+    const previous = [
+      ...posts.map(post => this.normalizeText(this.postText({
+        title: post.title,
+        content: post.content,
+        pollOptions: post.poll?.options.map(option => option.text)
+      }))),
+      ...comments.map(comment => this.normalizeText(comment.content))
+    ];
+
+    return previous.includes(text) ? 'Duplicate of content you posted recently' : null;
+  }
+
+  private static async checkFloodLimit(config: FloodLimitConfig, content: ContentToScreen): Promise<string | null> {
+    // Edits don't add to the flood
+    if (content.contentId) {
+      return null;
+    }
+
+    const since = new Date(Date.now() - config.windowMinutes * 60 * 1000);
+
+    const [posts, comments] = await Promise.all([
+      prisma.post.count({
+        where: { communityId: content.communityId, authorId: content.authorId, createdAt: { gte: since } }
+      }),
+      prisma.comment.count({
+        where: { authorId: content.authorId, post: { communityId: content.communityId }, createdAt: { gte: since } }
+      })
+    ]);
+
+    if (posts + comments < config.maxItems) {
+      return null;
+    }
+
+    return `Posting too fast: at most ${config.maxItems} posts and comments per ${config.windowMinutes} minutes`;
+  }
+
+  private static async isExempt(communityId: string, userId: string): Promise<boolean> {
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: {
+        creatorId: true,
+        memberships: {
+          where: { userId, status: 'active', role: { in: ['moderator', 'admin'] } },
+          select: { id: true }
+        }
+      }
+    });
+
+    return Boolean(community && (community.creatorId === userId || community.memberships.length > 0));
+  }
+
+  private static normalizeConfig(data: ContentFilterRuleData) {
+    if (data.type === 'banned_words') {
+      // Matching is case-insensitive, so store each word once
+      return { words: [...new Set(data.config.words.map(word => word.trim().toLowerCase()))] };
+    }
+
+    return data.config;
+  }
+
+  /**
+   * Submitted text may have plain @username mentions where stored content has tokens,
+   * so both are compared with mentions as plain text
+   */
+  private static normalizeText(text: string): string {
+    return MentionService.toPlainText(text).toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  private static async findRule(communityId: string, ruleId: string) {
+    const rule = await prisma.contentFilterRule.findFirst({
+      where: { id: ruleId, communityId }
+    });
+
+    if (!rule) {
+      throw new Error('Content filter rule not found');
+    }
+
+    return rule;
+  }
+}
@@ -0,0 +1,217 @@
+import { CommunityCoupon } from '@prisma/client';
+import prisma from './prisma';
+
+export const COUPON_DISCOUNT_TYPES = ['percent', 'fixed'] as const;
+export const COUPON_DURATIONS = ['once', 'repeating', 'forever'] as const;
+export const MAX_TRIAL_DAYS = 90;
+
+export type CouponDiscountType = typeof COUPON_DISCOUNT_TYPES[number];
+export type CouponDuration = typeof COUPON_DURATIONS[number];
+
+export interface CreateCouponData {
+  code: string;
+  discountType: CouponDiscountType;
+  percentOff?: number;
+  amountOff?: number;
+  currency?: string;
+  duration?: CouponDuration;
+  durationInMonths?: number;
+  maxRedemptions?: number | null;
+  expiresAt?: Date | null;
+}
+
+export interface UpdateCouponData {
+  maxRedemptions?: number | null;
+  expiresAt?: Date | null;
+  isActive?: boolean;
+}
+
+/**
+ * Creator-managed coupon codes. The discount terms are fixed once a coupon is created
+ * because its Stripe coupon is created from them on first use (see StripeService);
+ * only the cap, expiry and active flag can change afterwards.
+ */
+export class CouponService {
+  /**
+   * List a community's coupons, newest first
+   */
+  static async getCommunityCoupons(communityId: string) {
+    return prisma.communityCoupon.findMany({
+      where: { communityId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Create a coupon code for a community
+   */
+  static async createCoupon(communityId: string, data: CreateCouponData) {
+    const code = this.normalizeCode(data.code);
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new Error('Coupon expiry must be in the future');
+    }
+
+    const existing = await prisma.communityCoupon.findUnique({
+      where: { communityId_code: { communityId, code } }
+    });
+
+    if (existing) {
+      throw new Error('Coupon code already exists');
+    }
+
+    const duration = data.duration ?? 'once';
+
+    return prisma.communityCoupon.create({
+      data: {
+        communityId,
+        code,
+        discountType: data.discountType,
+        percentOff: data.discountType === 'percent' ? data.percentOff : null,
+        amountOff: data.discountType === 'fixed' ? data.amountOff : null,
+        currency: data.currency?.toLowerCase() ?? 'usd',
+        duration,
+        durationInMonths: duration === 'repeating' ? data.durationInMonths : null,
+        maxRedemptions: data.maxRedemptions ?? null,
+        expiresAt: data.expiresAt ?? null
+      }
+    });
+  }
+
+  /**
+   * Change a coupon's cap, expiry or active flag
+   */
+  static async updateCoupon(communityId: string, couponId: string, data: UpdateCouponData) {
+    const coupon = await this.getCoupon(communityId, couponId);
+
+    if (data.maxRedemptions != null && data.maxRedemptions < coupon.redemptionCount) {
+      throw new Error('Redemption cap is below current redemptions');
+    }
+
+    return prisma.communityCoupon.update({
+      where: { id: coupon.id },
+      data
+    });
+  }
+
+  /**
+   * Delete a coupon. Subscriptions that used it keep their Stripe discount.
+   */
+  static async deleteCoupon(communityId: string, couponId: string) {
+    const coupon = await this.getCoupon(communityId, couponId);
+
+    await prisma.communityCoupon.delete({ where: { id: coupon.id } });
+  }
+
+  /**
+   * Look up a code at checkout and throw unless it can still be redeemed
+   */
+  static async validateCoupon(communityId: string, code: string) {
+    const coupon = await prisma.communityCoupon.findUnique({
+      where: { communityId_code: { communityId, code: this.normalizeCode(code) } }
+    });
+
+    if (!coupon || !coupon.isActive) {
+      throw new Error('Coupon not found');
+    }
+
+    if (coupon.expiresAt && coupon.expiresAt <= new Date()) {
+      throw new Error('Coupon has expired');
+    }
+
+    if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+      throw new Error('Coupon has reached its redemption limit');
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Count a redemption, unless the cap was reached in the meantime
+   */
+  static async redeem(couponId: string) {
+    const { count } = await prisma.communityCoupon.updateMany({
+      where: {
+        id: couponId,
+        OR: [
+          { maxRedemptions: null },
+          { redemptionCount: { lt: prisma.communityCoupon.fields.maxRedemptions } }
+        ]
+      },
+      data: { redemptionCount: { increment: 1 } }
+    });
+
+    if (count === 0) {
+      throw new Error('Coupon has reached its redemption limit');
+    }
+  }
+
+  /**
+   * Give back a redemption when checkout fails after redeem()
+   */
+  static async release(couponId: string) {
+    await prisma.communityCoupon.updateMany({
+      where: { id: couponId, redemptionCount: { gt: 0 } },
+      data: { redemptionCount: { decrement: 1 } }
+    });
+  }
+
+  /**
+   * Per-coupon redemptions within a period, for creator analytics
+   */
+  static async getCouponUsage(communityId: string, startDate: Date, endDate: Date) {
+    const coupons = await prisma.communityCoupon.findMany({
+      where: { communityId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        subscriptions: {
+          where: { createdAt: { gte: startDate, lte: endDate } },
+          select: { status: true }
+        }
+      }
+    });
+
+    return coupons.map(({ subscriptions, ...coupon }) => ({
+      couponId: coupon.id,
+      code: coupon.code,
+      discountType: coupon.discountType,
+      percentOff: coupon.percentOff,
+      amountOff: coupon.amountOff,
+      redemptions: subscriptions.length,
+      activeSubscriptions: subscriptions.filter(sub => ['active', 'trialing'].includes(sub.status)).length,
+      totalRedemptions: coupon.redemptionCount
+    }));
+  }
+
+  /**
+   * Coupon terms that are safe to show a subscriber
+   */
+  static toPublicTerms(coupon: CommunityCoupon) {
+    return {
+      code: coupon.code,
+      discountType: coupon.discountType,
+      percentOff: coupon.percentOff,
+      amountOff: coupon.amountOff,
+      currency: coupon.currency,
+      duration: coupon.duration,
+      durationInMonths: coupon.durationInMonths,
+      expiresAt: coupon.expiresAt
+    };
+  }
+
+  private static async getCoupon(communityId: string, couponId: string) {
+    const coupon = await prisma.communityCoupon.findFirst({
+      where: { id: couponId, communityId }
+    });
+
+    if (!coupon) {
+      throw new Error('Coupon not found');
+    }
+
+    return coupon;
+  }
+
+  private static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+}
@@ -0,0 +1,164 @@
+import prisma from './prisma';
+import { WebhookService } from './webhookService';
+
+export interface PaymentIntentDetails {
+  id: string;
+  amount: number;
+  currency: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * One-time course purchases. Stripe calls go through StripeService; this service
+ * keeps the purchase records that grant access, driven by Stripe webhooks.
+ */
+export class CoursePurchaseService {
+  /**
+   * Whether the user owns the course through a purchase
+   */
+  static async hasPurchased(userId: string | undefined, courseId: string): Promise<boolean> {
+    if (!userId) {
+      return false;
+    }
+
+    const purchase = await prisma.coursePurchase.findFirst({
+      where: { userId, courseId, status: 'succeeded' },
+      select: { id: true }
+    });
+
+    return !!purchase;
+  }
+
+  /**
+   * A user's completed and refunded purchases, newest first
+   */
+  static async getUserPurchases(userId: string) {
+    return prisma.coursePurchase.findMany({
+      where: { userId, status: { in: ['succeeded', 'refunded'] } },
+      include: {
+        course: {
+          select: {
+            id: true,
+            title: true,
+            communityId: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Record a PaymentIntent created at checkout
+   */
+  static async createPending(userId: string, course: { id: string; communityId: string }, paymentIntent: PaymentIntentDetails) {
+    return prisma.coursePurchase.create({
+      data: {
+        userId,
+        courseId: course.id,
+        communityId: course.communityId,
+        stripePaymentIntentId: paymentIntent.id,
+        amount: paymentIntent.amount / 100, // Convert from cents
+        currency: paymentIntent.currency
+      }
+    });
+  }
+
+  /**
+   * Grant access once Stripe reports the payment succeeded. Safe to call again for
+   * the same PaymentIntent.
+   */
+  static async recordSucceeded(paymentIntent: PaymentIntentDetails) {
+    const { userId, courseId, communityId } = paymentIntent.metadata;
+
+    const existing = await prisma.coursePurchase.findUnique({
+      where: { stripePaymentIntentId: paymentIntent.id }
+    });
+
+    if (existing?.status === 'succeeded' || existing?.status === 'refunded') {
+      return existing;
+    }
+
+    const purchase = existing
+      ? await prisma.coursePurchase.update({
+          where: { id: existing.id },
+          data: { status: 'succeeded', purchasedAt: new Date() }
+        })
+      : await prisma.coursePurchase.create({
+          data: {
+            userId,
+            courseId,
+            communityId,
+            stripePaymentIntentId: paymentIntent.id,
+            amount: paymentIntent.amount / 100,
+            currency: paymentIntent.currency,
+            status: 'succeeded',
+            purchasedAt: new Date()
+          }
+        });
+
+    WebhookService.dispatch(purchase.communityId, 'course.purchased', {
+      purchaseId: purchase.id,
+      courseId: purchase.courseId,
+      userId: purchase.userId,
+      amount: Number(purchase.amount),
+      currency: purchase.currency
+    });
+
+    return purchase;
+  }
+
+  /**
+   * Mark a checkout as failed
+   */
+  static async recordFailed(paymentIntentId: string) {
+    await prisma.coursePurchase.updateMany({
+      where: { stripePaymentIntentId: paymentIntentId, status: 'pending' },
+      data: { status: 'failed' }
+    });
+  }
+
+  /**
+   * Track a refund. A full refund revokes access; partial refunds only reduce the
+   * purchase's revenue.
+   */
+  static async recordRefund(paymentIntentId: string, amountRefunded: number) {
+    const purchase = await prisma.coursePurchase.findUnique({
+      where: { stripePaymentIntentId: paymentIntentId }
+    });
+
+    if (!purchase) {
+      return null;
+    }
+
+    const refunded = amountRefunded / 100;
+    const fullyRefunded = refunded >= Number(purchase.amount);
+
+    return prisma.coursePurchase.update({
+      where: { id: purchase.id },
+      data: {
+        amountRefunded: refunded,
+        ...(fullyRefunded && { status: 'refunded', refundedAt: new Date() })
+      }
+    });
+  }
+
+  /**
+   * Net one-time revenue for a community over a period, after refunds
+   */
+  static async getOneTimeRevenue(communityId: string, startDate: Date, endDate: Date): Promise<number> {
+    const totals = await prisma.coursePurchase.aggregate({
+      where: {
+        communityId,
+        status: { in: ['succeeded', 'refunded'] },
+        purchasedAt: { gte: startDate, lte: endDate }
+      },
+      _sum: {
+        amount: true,
+        amountRefunded: true
+      }
+    });
+
+    return Number(totals._sum.amount ?? 0) - Number(totals._sum.amountRefunded ?? 0);
+  }
+}
@@ -1,10 +1,18 @@
 import prisma from './prisma';
+import { LevelService } from './levelService';
+import { TierService, MemberTier } from './tierService';
+import { CoursePurchaseService } from './coursePurchaseService';
+import { DripService, DripType, LessonLockState } from './dripService';
 import { notificationService, NotificationType } from './notificationService';
+import { paginate } from './pagination';
 
 export interface CourseCreateData {
   title: string;
   description?: string;
   sortOrder?: number;
+  minLevel?: number | null;
+  minTierId?: string | null;
+  price?: number | null;
 }
 
 export interface CourseUpdateData {
@@ -12,6 +20,9 @@ export interface CourseUpdateData {
   description?: string;
   isPublished?: boolean;
   sortOrder?: number;
+  minLevel?: number | null;
+  minTierId?: string | null;
+  price?: number | null;
 }
 
 export interface LessonCreateData {
@@ -22,6 +33,9 @@ export interface LessonCreateData {
   fileUrl?: string;
   isFree?: boolean;
   sortOrder?: number;
+  dripType?: DripType | null;
+  dripDays?: number | null;
+  dripDate?: Date | null;
 }
 
 export interface LessonUpdateData {
@@ -32,11 +46,14 @@ export interface LessonUpdateData {
   fileUrl?: string;
   isFree?: boolean;
   sortOrder?: number;
+  dripType?: DripType | null;
+  dripDays?: number | null;
+  dripDate?: Date | null;
 }
 
 export interface CourseQueryOptions {
   limit?: string | number;
-  offset?: string | number;
+  cursor?: string;
   includeUnpublished?: string | boolean;
 }
 
@@ -66,6 +83,10 @@ export class CourseService {
       throw new Error('Insufficient permissions to create courses in this community');
     }
 
+    if (data.minTierId) {
+      await TierService.getTier(communityId, data.minTierId);
+    }
+
     // Get the next sort order if not provided
     let sortOrder = data.sortOrder;
     if (sortOrder === undefined) {
@@ -107,13 +128,12 @@ export class CourseService {
   static async getCourses(communityId: string, userId?: string, options: CourseQueryOptions = {}) {
     const {
       limit = 20,
-      offset = 0,
+      cursor,
       includeUnpublished = false
     } = options;
 
     // Convert string values to appropriate types
     const numLimit = typeof limit === 'string' ? parseInt(limit) : limit;
-    const numOffset = typeof offset === 'string' ? parseInt(offset) : offset;
     const boolIncludeUnpublished = typeof includeUnpublished === 'string' ? includeUnpublished === 'true' : includeUnpublished;
 
     // Check if user has access to the community
@@ -163,9 +183,9 @@ export class CourseService {
       where.isPublished = true;
     }
 
-    const [courses, total] = await Promise.all([
+    return paginate([{ field: 'sortOrder', direction: 'asc' }], { cursor, limit: numLimit }, ({ cursorWhere, orderBy, take }) =>
       prisma.course.findMany({
-        where,
+        where: { AND: [where, cursorWhere] },
         include: {
           _count: {
             select: {
@@ -173,18 +193,10 @@ export class CourseService {
             }
           }
         },
-        orderBy: { sortOrder: 'asc' },
-        take: numLimit,
-        skip: numOffset
-      }),
-      prisma.course.count({ where })
-    ]);
-
-    return {
-      courses,
-      total,
-      hasMore: numOffset + numLimit < total
-    };
+        orderBy,
+        take
+      })
+    );
   }
 
   /**
@@ -205,6 +217,9 @@ export class CourseService {
             priceYearly: true
           }
         },
+        minTier: {
+          select: { id: true, name: true, rank: true }
+        },
         lessons: {
           orderBy: { sortOrder: 'asc' }
         }
@@ -219,6 +234,9 @@ export class CourseService {
     let hasAccess = false;
     let userRole = null;
     let hasPaidAccess = false;
+    let tier: MemberTier | null = null;
+    // A purchased course stands in for a subscription and its tier
+    const hasPurchased = await CoursePurchaseService.hasPurchased(userId, courseId);
 
     if (userId) {
       const membership = await prisma.communityMembership.findFirst({
@@ -233,18 +251,14 @@ export class CourseService {
         hasAccess = true;
         userRole = membership.role;
         
-        // Check if user has paid access (subscription or free community)
-        if (!course.community.priceMonthly && !course.community.priceYearly) {
+        // Check if user has paid access (subscription or free community) and which tier they're on
+        const subscription = await TierService.getActiveSubscription(course.community.id, userId);
+        tier = await TierService.getMemberTier(course.community.id, subscription);
+
+        if (!course.community.priceMonthly && !course.community.priceYearly &&
+          !await TierService.hasPaidTiers(course.community.id)) {
           hasPaidAccess = true; // Free community
         } else {
-          // Check for active subscription
-          const subscription = await prisma.subscription.findFirst({
-            where: {
-              userId,
-              communityId: course.community.id,
-              status: 'active'
-            }
-          });
           hasPaidAccess = !!subscription;
         }
       } else {
@@ -275,17 +289,45 @@ export class CourseService {
         return true;
       }
       
-      // Premium lessons require paid access
-      return hasPaidAccess;
+      // Premium lessons require paid access or a purchase
+      return hasPaidAccess || hasPurchased;
     });
 
+    const isStaff = userRole === 'admin' || userRole === 'moderator' || course.community.creatorId === userId;
+    const meetsMinTier = !course.minTier || isStaff || hasPurchased || TierService.meetsMinTier(tier, course.minTier);
+
+    let meetsMinLevel = true;
+    if (course.minLevel && !isStaff) {
+      const userLevel = userId ? await LevelService.getUserLevel(userId, course.community.id) : null;
+      meetsMinLevel = !!userLevel?.current && userLevel.current.level >= course.minLevel;
+    }
+
+    // Members below the course's minimum level or tier get every lesson back locked
+    let gateLock: LessonLockState | null = null;
+    if (!meetsMinLevel) {
+      gateLock = { isLocked: true, unlocksAt: null, lockReason: `Requires level ${course.minLevel}` };
+    } else if (!meetsMinTier) {
+      gateLock = { isLocked: true, unlocksAt: null, lockReason: `Requires ${course.minTier!.name} tier` };
+    }
+
+    // Staff see every lesson; members get dripped lessons back locked until they unlock
+    const locks = isStaff || gateLock
+      ? null
+      : await DripService.getLessonLocks(course.lessons, course.community.id, userId);
+
     return {
       ...course,
-      lessons: filteredLessons,
+      lessons: filteredLessons.map(lesson =>
+        DripService.redactLockedLesson(lesson, gateLock || locks?.get(lesson.id) || { isLocked: false, unlocksAt: null })
+      ),
       userAccess: {
         hasAccess,
         hasPaidAccess,
-        role: userRole
+        role: userRole,
+        tier,
+        hasPurchased,
+        meetsMinLevel,
+        meetsMinTier
       }
     };
   }
@@ -323,9 +365,14 @@ export class CourseService {
       throw new Error('Insufficient permissions to update course');
     }
 
+    if (data.minTierId) {
+      await TierService.getTier(course.communityId, data.minTierId);
+    }
+
     const updatedCourse = await prisma.course.update({
       where: { id: courseId },
-      data,
+      // Publishing directly replaces any pending schedule
+      data: data.isPublished === undefined ? data : { ...data, publishAt: null },
       include: {
         community: {
           select: {
@@ -344,35 +391,7 @@ export class CourseService {
 
     // Send notifications if course was just published
     if (data.isPublished === true && !course.isPublished) {
-      try {
-        // Get all active community members
-        const memberships = await prisma.communityMembership.findMany({
-          where: {
-            communityId: course.communityId,
-            status: 'active',
-            userId: { not: userId } // Don't notify the course creator
-          },
-          select: { userId: true }
-        });
-
-        // Create notifications for all members
-        const notifications = memberships.map(membership => ({
-          userId: membership.userId,
-          type: NotificationType.COURSE_UPDATE,
-          title: 'New Course Available!',
-          message: `A new course "${updatedCourse.title}" has been published in ${course.community.name}`,
-          data: {
-            courseId,
-            communityId: course.communityId,
-            courseName: updatedCourse.title,
-            communityName: course.community.name
-          }
-        }));
-
-        await notificationService.createBulkNotifications(notifications);
-      } catch (error) {
-        console.error('Failed to send course publication notifications:', error);
-      }
+      await this.notifyCoursePublished(updatedCourse, userId);
     }
 
     return updatedCourse;
@@ -450,6 +469,8 @@ export class CourseService {
       throw new Error('Insufficient permissions to create lessons in this course');
     }
 
+    DripService.validateSchedule(data);
+
     // Get the next sort order if not provided
     let sortOrder = data.sortOrder;
     if (sortOrder === undefined) {
@@ -490,15 +511,10 @@ export class CourseService {
    * Get lessons for a course
    */
   static async getLessons(courseId: string, userId?: string) {
-    // First check if course exists and user has access
+    // The course already comes with premium lessons filtered and gated or dripped ones locked
     const course = await this.getCourse(courseId, userId);
 
-    const lessons = await prisma.lesson.findMany({
-      where: { courseId },
-      orderBy: { sortOrder: 'asc' }
-    });
-
-    return lessons;
+    return course.lessons;
   }
 
   /**
@@ -536,7 +552,7 @@ export class CourseService {
     // Check if user has access to this specific lesson
     let hasLessonAccess = false;
     let userRole = courseAccess.userAccess?.role;
-    let hasPaidAccess = courseAccess.userAccess?.hasPaidAccess;
+    let hasPaidAccess = courseAccess.userAccess?.hasPaidAccess || courseAccess.userAccess?.hasPurchased;
 
     // Admins, moderators, and creators can access all lessons
     if (userRole === 'admin' || userRole === 'moderator' || lesson.course.community.creatorId === userId) {
@@ -555,8 +571,29 @@ export class CourseService {
       throw new Error('Access denied to lesson - premium content requires subscription');
     }
 
+    // Level-gated courses require the member to have reached the minimum community level
+    const isStaff = userRole === 'admin' || userRole === 'moderator' || lesson.course.community.creatorId === userId;
+    if (lesson.course.minLevel && !isStaff) {
+      const userLevel = userId
+        ? await LevelService.getUserLevel(userId, lesson.course.community.id)
+        : null;
+
+      if (!userLevel?.current || userLevel.current.level < lesson.course.minLevel) {
+        throw new Error(`Access denied to lesson - requires level ${lesson.course.minLevel}`);
+      }
+    }
+
+    // Tier-gated courses require a subscription at or above the course's minimum tier
+    if (!isStaff && courseAccess.userAccess?.meetsMinTier === false) {
+      throw new Error(`Access denied to lesson - requires ${courseAccess.minTier!.name} tier`);
+    }
+
+    const lock = isStaff
+      ? { isLocked: false, unlocksAt: null }
+      : await DripService.getLessonLock(lesson, lesson.course.community.id, userId);
+
     return {
-      ...lesson,
+      ...DripService.redactLockedLesson(lesson, lock),
       userAccess: {
         hasAccess: hasLessonAccess,
         hasPaidAccess,
@@ -603,6 +640,12 @@ export class CourseService {
       throw new Error('Insufficient permissions to update lesson');
     }
 
+    DripService.validateSchedule({
+      dripType: data.dripType !== undefined ? data.dripType : lesson.dripType,
+      dripDays: data.dripDays !== undefined ? data.dripDays : lesson.dripDays,
+      dripDate: data.dripDate !== undefined ? data.dripDate : lesson.dripDate
+    });
+
     const updatedLesson = await prisma.lesson.update({
       where: { id: lessonId },
       data,
@@ -670,9 +713,48 @@ export class CourseService {
   }
 
   /**
-   * Publish or unpublish a course
+   * Notify community members that a course went live
+   */
+  static async notifyCoursePublished(
+    course: { id: string; title: string; community: { id: string; name: string } },
+    publisherId?: string
+  ) {
+    try {
+      // Get all active community members
+      const memberships = await prisma.communityMembership.findMany({
+        where: {
+          communityId: course.community.id,
+          status: 'active',
+          ...(publisherId && { userId: { not: publisherId } }) // Don't notify the course creator
+        },
+        select: { userId: true }
+      });
+
+      // Create notifications for all members
+      const notifications = memberships.map(membership => ({
+        userId: membership.userId,
+        type: NotificationType.COURSE_UPDATE,
+        title: 'New Course Available!',
+        message: `A new course "${course.title}" has been published in ${course.community.name}`,
+        data: {
+          courseId: course.id,
+          communityId: course.community.id,
+          courseName: course.title,
+          communityName: course.community.name
+        }
+      }));
+
+      await notificationService.createBulkNotifications(notifications);
+    } catch (error) {
+      console.error('Failed to send course publication notifications:', error);
+    }
+  }
+
+  /**
+   * Publish or unpublish a course. Publishing with a future `publishAt` schedules
+   * the course instead; it goes live when the scheduled publishing job runs.
    */
-  static async publishCourse(courseId: string, userId: string, isPublished: boolean) {
+  static async publishCourse(courseId: string, userId: string, isPublished: boolean, publishAt?: Date | null) {
     // Check if user has permission to publish courses
     const course = await prisma.course.findUnique({
       where: { id: courseId },
@@ -707,9 +789,13 @@ export class CourseService {
       throw new Error('Cannot publish course without lessons');
     }
 
+    const isScheduled = isPublished && !!publishAt && publishAt > new Date();
+
     const updatedCourse = await prisma.course.update({
       where: { id: courseId },
-      data: { isPublished },
+      data: isScheduled
+        ? { isPublished: false, publishAt }
+        : { isPublished, publishAt: null },
       include: {
         community: {
           select: {
@@ -726,6 +812,10 @@ export class CourseService {
       }
     });
 
+    if (updatedCourse.isPublished && !course.isPublished) {
+      await this.notifyCoursePublished(updatedCourse, userId);
+    }
+
     return updatedCourse;
   }
 
@@ -777,7 +867,7 @@ export class CourseService {
 
         const updatedCourse = await tx.course.update({
           where: { id: courseId },
-          data: { isPublished }
+          data: { isPublished, publishAt: null }
         });
 
         courses.push(updatedCourse);
@@ -849,6 +939,8 @@ export class CourseService {
       courseId: course.id,
       title: course.title,
       isPublished: course.isPublished,
+      isScheduled: !course.isPublished && !!course.publishAt,
+      publishAt: course.publishAt,
       canPublish,
       publishingIssues,
       lessonCount: course.lessons.length,
@@ -0,0 +1,135 @@
+/**
+ * Minimal five-field cron expressions: minute hour day-of-month month day-of-week.
+ * Supports `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`0-30/10`).
+ * Times are evaluated in UTC.
+ */
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 6 }   // day of week (0 = Sunday)
+];
+
+// Give up searching after this many minutes (a little over four years)
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, either may match
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+function parseField(value: string, field: CronField): Set<number> {
+  const result = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const [range, stepValue] = part.split('/');
+    const step = stepValue === undefined ? 1 : Number(stepValue);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression: bad step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepValue === undefined ? start : field.max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid cron expression: "${part}" is out of range`);
+    }
+
+    for (let i = start; i <= end; i += step) {
+      result.add(i);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a cron expression, throwing if it is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error('Invalid cron expression: expected 5 fields');
+  }
+
+  // Accept 7 as Sunday, as most cron implementations do
+  const dayOfWeek = parts[4].replace(/\b7\b/g, '0');
+
+  return {
+    minutes: parseField(parts[0], FIELDS[0]),
+    hours: parseField(parts[1], FIELDS[1]),
+    daysOfMonth: parseField(parts[2], FIELDS[2]),
+    months: parseField(parts[3], FIELDS[3]),
+    daysOfWeek: parseField(dayOfWeek, FIELDS[4]),
+    restrictedDayOfMonth: parts[2] !== '*',
+    restrictedDayOfWeek: parts[4] !== '*'
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the first time strictly after `from` that matches the expression
+ */
+export function getNextCronTime(expression: string, from: Date = new Date()): Date {
+  const schedule = parseCron(expression);
+  const next = new Date(from.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!schedule.months.has(next.getUTCMonth() + 1) || !matchesDay(schedule, next)) {
+      // Skip to the start of the next day
+      next.setUTCHours(0, 0, 0, 0);
+      next.setUTCDate(next.getUTCDate() + 1);
+      continue;
+    }
+
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCMinutes(0, 0, 0);
+      next.setUTCHours(next.getUTCHours() + 1);
+      continue;
+    }
+
+    if (schedule.minutes.has(next.getUTCMinutes())) {
+      return next;
+    }
+
+    next.setUTCMinutes(next.getUTCMinutes() + 1);
+  }
+
+  throw new Error(`Invalid cron expression: "${expression}" never matches`);
+}
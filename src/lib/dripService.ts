@@ -0,0 +1,259 @@
+import { Lesson } from '@prisma/client';
+import prisma from './prisma';
+import { notificationService, NotificationType } from './notificationService';
+import { AccessControlService } from './accessControlService';
+
+export type DripType = 'days_after_join' | 'fixed_date' | 'after_previous';
+
+export interface DripSchedule {
+  dripType?: string | null;
+  dripDays?: number | null;
+  dripDate?: Date | null;
+}
+
+export interface LessonLockState {
+  isLocked: boolean;
+  unlocksAt: Date | null;
+  lockReason?: string;
+}
+
+// How far back the unlock job looks for lessons that became available
+const UNLOCK_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Drip scheduling: lessons that unlock some days after a member joins, on a fixed
+ * date, or once the previous lesson in the course is completed.
+ */
+export class DripService {
+  /**
+   * Validate that a drip schedule has the fields its type needs
+   */
+  static validateSchedule(schedule: DripSchedule) {
+    switch (schedule.dripType) {
+      case 'days_after_join':
+        if (schedule.dripDays === null || schedule.dripDays === undefined) {
+          throw new Error('Invalid drip schedule: dripDays is required for days_after_join');
+        }
+        break;
+      case 'fixed_date':
+        if (!schedule.dripDate) {
+          throw new Error('Invalid drip schedule: dripDate is required for fixed_date');
+        }
+        break;
+      case 'after_previous':
+      case null:
+      case undefined:
+        break;
+      default:
+        throw new Error(`Invalid drip schedule: unknown drip type ${schedule.dripType}`);
+    }
+  }
+
+  /**
+   * Work out which lessons of a course are still locked for a member.
+   * Lessons must be ordered by sortOrder.
+   */
+  static async getLessonLocks(
+    lessons: Pick<Lesson, 'id' | 'dripType' | 'dripDays' | 'dripDate'>[],
+    communityId: string,
+    userId?: string
+  ): Promise<Map<string, LessonLockState>> {
+    const locks = new Map<string, LessonLockState>();
+
+    if (!lessons.some(lesson => lesson.dripType)) {
+      lessons.forEach(lesson => locks.set(lesson.id, { isLocked: false, unlocksAt: null }));
+      return locks;
+    }
+
+    const [membership, completed] = userId
+      ? await Promise.all([
+          prisma.communityMembership.findUnique({
+            where: { userId_communityId: { userId, communityId } },
+            select: { joinedAt: true }
+          }),
+          prisma.userProgress.findMany({
+            where: {
+              userId,
+              lessonId: { in: lessons.map(lesson => lesson.id) },
+              completedAt: { not: null }
+            },
+            select: { lessonId: true }
+          })
+        ])
+      : [null, []];
+
+    const completedIds = new Set(completed.map(progress => progress.lessonId));
+    const now = new Date();
+
+    lessons.forEach((lesson, index) => {
+      locks.set(lesson.id, this.getLockState(lesson, {
+        now,
+        joinedAt: membership?.joinedAt,
+        previousCompleted: index === 0 || completedIds.has(lessons[index - 1].id)
+      }));
+    });
+
+    return locks;
+  }
+
+  /**
+   * Lock state of a single lesson for a member
+   */
+  static async getLessonLock(
+    lesson: Pick<Lesson, 'id' | 'courseId' | 'dripType' | 'dripDays' | 'dripDate'>,
+    communityId: string,
+    userId?: string
+  ): Promise<LessonLockState> {
+    if (!lesson.dripType) {
+      return { isLocked: false, unlocksAt: null };
+    }
+
+    const lessons = await prisma.lesson.findMany({
+      where: { courseId: lesson.courseId },
+      orderBy: { sortOrder: 'asc' },
+      select: { id: true, dripType: true, dripDays: true, dripDate: true }
+    });
+
+    const locks = await this.getLessonLocks(lessons, communityId, userId);
+    return locks.get(lesson.id) || { isLocked: false, unlocksAt: null };
+  }
+
+  /**
+   * Hide the content of a locked lesson, keeping its outline and unlock time
+   */
+  static redactLockedLesson<T extends { content: string | null; videoUrl: string | null; fileUrl: string | null }>(
+    lesson: T,
+    lock: LessonLockState
+  ) {
+    if (!lock.isLocked) {
+      return { ...lesson, ...lock };
+    }
+
+    return {
+      ...lesson,
+      content: null,
+      videoUrl: null,
+      fileUrl: null,
+      ...lock
+    };
+  }
+
+  /**
+   * Notify members about dripped lessons that unlocked recently. Each member is
+   * notified at most once per lesson. Lessons unlocked by completing the previous
+   * lesson are not notified, since the member unlocked them themselves.
+   */
+  static async notifyUnlockedLessons(): Promise<number> {
+    const now = new Date();
+    const since = new Date(now.getTime() - UNLOCK_LOOKBACK_MS);
+
+    const lessons = await prisma.lesson.findMany({
+      where: {
+        course: { isPublished: true },
+        OR: [
+          { dripType: 'days_after_join' },
+          { dripType: 'fixed_date', dripDate: { gt: since, lte: now } }
+        ]
+      },
+      include: {
+        course: {
+          select: { id: true, title: true, communityId: true }
+        }
+      }
+    });
+
+    let notified = 0;
+
+    for (const lesson of lessons) {
+      const members = await prisma.communityMembership.findMany({
+        where: {
+          communityId: lesson.course.communityId,
+          status: 'active',
+          // Members whose unlock time falls inside the lookback window
+          ...(lesson.dripType === 'days_after_join' && {
+            joinedAt: {
+              gt: new Date(since.getTime() - (lesson.dripDays || 0) * DAY_MS),
+              lte: new Date(now.getTime() - (lesson.dripDays || 0) * DAY_MS)
+            }
+          }),
+          // Members who joined after a fixed date saw the lesson unlocked already
+          ...(lesson.dripType === 'fixed_date' && {
+            joinedAt: { lt: lesson.dripDate! }
+          }),
+          user: {
+            lessonUnlocks: { none: { lessonId: lesson.id } }
+          }
+        },
+        select: { userId: true }
+      });
+
+      for (const member of members) {
+        // Skip members the course's tier, level or price still keeps out; they are
+        // picked up on a later run if they gain access within the lookback window
+        const access = await AccessControlService.checkContentAccess('lesson', lesson.id, member.userId);
+        if (!access.canView) {
+          continue;
+        }
+
+        const recorded = await prisma.lessonUnlock.createMany({
+          data: [{ userId: member.userId, lessonId: lesson.id }],
+          skipDuplicates: true
+        });
+
+        // Another run already claimed this unlock
+        if (recorded.count === 0) {
+          continue;
+        }
+
+        try {
+          await notificationService.createNotification({
+            userId: member.userId,
+            type: NotificationType.COURSE_UPDATE,
+            title: 'New lesson unlocked',
+            message: `"${lesson.title}" in ${lesson.course.title} is now available`,
+            data: {
+              courseId: lesson.course.id,
+              lessonId: lesson.id,
+              communityId: lesson.course.communityId
+            }
+          });
+          notified++;
+        } catch (error) {
+          console.error('Failed to send lesson unlock notification:', error);
+        }
+      }
+    }
+
+    return notified;
+  }
+
+  private static getLockState(
+    lesson: Pick<Lesson, 'dripType' | 'dripDays' | 'dripDate'>,
+    context: { now: Date; joinedAt?: Date; previousCompleted: boolean }
+  ): LessonLockState {
+    switch (lesson.dripType) {
+      case 'days_after_join': {
+        if (!context.joinedAt) {
+          return { isLocked: true, unlocksAt: null, lockReason: 'Join the community to unlock this lesson' };
+        }
+        const unlocksAt = new Date(context.joinedAt.getTime() + (lesson.dripDays || 0) * DAY_MS);
+        return unlocksAt > context.now
+          ? { isLocked: true, unlocksAt, lockReason: `Unlocks ${lesson.dripDays} days after joining` }
+          : { isLocked: false, unlocksAt };
+      }
+      case 'fixed_date': {
+        const unlocksAt = lesson.dripDate;
+        return unlocksAt && unlocksAt > context.now
+          ? { isLocked: true, unlocksAt, lockReason: 'Unlocks on a scheduled date' }
+          : { isLocked: false, unlocksAt };
+      }
+      case 'after_previous':
+        return context.previousCompleted
+          ? { isLocked: false, unlocksAt: null }
+          : { isLocked: true, unlocksAt: null, lockReason: 'Complete the previous lesson to unlock' };
+      default:
+        return { isLocked: false, unlocksAt: null };
+    }
+  }
+}
@@ -7,6 +7,18 @@ export interface EmailOptions {
   text?: string;
 }
 
+/**
+ * Escape text so it renders literally inside HTML element content or attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 class EmailService {
   private transporter: nodemailer.Transporter;
 
@@ -117,6 +129,56 @@ class EmailService {
     `;
   }
 
+  /**
+   * Email with a single call-to-action button. Every argument is plain text, so
+   * user-supplied values such as display names can't inject markup.
+   */
+  generateActionEmail(title: string, message: string, actionLabel: string, actionUrl: string, footerNote: string): string {
+    const safe = {
+      title: escapeHtml(title),
+      message: escapeHtml(message),
+      actionLabel: escapeHtml(actionLabel),
+      actionUrl: escapeHtml(actionUrl),
+      footerNote: escapeHtml(footerNote)
+    };
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${safe.title}</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #4f46e5; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .button { display: inline-block; padding: 12px 24px; background: #4f46e5; color: white; text-decoration: none; border-radius: 4px; margin: 20px 0; }
+            .link { word-break: break-all; color: #4f46e5; font-size: 12px; }
+            .footer { padding: 20px; text-align: center; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Community Learning Platform</h1>
+            </div>
+            <div class="content">
+              <h2>${safe.title}</h2>
+              <p>${safe.message}</p>
+              <a href="${safe.actionUrl}" class="button">${safe.actionLabel}</a>
+              <p>If the button doesn't work, copy this link into your browser:</p>
+              <p class="link">${safe.actionUrl}</p>
+            </div>
+            <div class="footer">
+              <p>${safe.footerNote}</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
   generateDigestEmail(notifications: Array<{ title: string; message: string; createdAt: Date }>): string {
     const notificationItems = notifications.map(n => `
       <div style="border-bottom: 1px solid #eee; padding: 15px 0;">
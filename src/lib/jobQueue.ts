@@ -0,0 +1,461 @@
+import os from 'os';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { getNextCronTime, parseCron } from './cron';
+import { paginate, CursorPageOptions } from './pagination';
+
+export interface JobDefinition {
+  name: string;
+  cron: string;
+  handler: () => Promise<unknown>;
+  maxAttempts?: number;
+  // How long a run may hold its lock before another instance treats it as crashed
+  timeoutMs?: number;
+}
+
+export type JobRunStatus = 'pending' | 'running' | 'succeeded' | 'dead';
+
+export interface JobRunQueryOptions extends CursorPageOptions {
+  status?: JobRunStatus;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Persistent job queue backed by Postgres.
+ *
+ * Schedules live in `scheduled_jobs` and every execution is recorded in `job_runs`.
+ * All claims are conditional updates, so any number of instances can poll the same
+ * database and each due run still executes exactly once. Each job works through its
+ * own due runs, so a slow job only holds up its own runs. Failed runs are retried
+ * with exponential backoff; runs that exhaust their attempts are marked `dead` and
+ * form the dead-letter list.
+ */
+export class JobQueue {
+  private static definitions: Map<string, JobDefinition> = new Map();
+  private static pollTimer: NodeJS.Timeout | null = null;
+  private static currentEnqueue: Promise<void> | null = null;
+  private static drainingJobs: Map<string, Promise<void>> = new Map();
+  private static readonly instanceId = `${os.hostname()}:${process.pid}`;
+
+  /**
+   * Register a job handler and its schedule
+   */
+  static register(definition: JobDefinition) {
+    parseCron(definition.cron);
+    this.definitions.set(definition.name, definition);
+  }
+
+  /**
+   * Sync registered schedules to the database and start polling for due runs
+   */
+  static async start(pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS) {
+    if (this.pollTimer) {
+      return;
+    }
+
+    await this.syncSchedules();
+
+    this.pollTimer = setInterval(async () => {
+      await this.tick();
+    }, pollIntervalMs);
+
+    console.log(`Job queue started on ${this.instanceId} with ${this.definitions.size} jobs`);
+  }
+
+  /**
+   * Stop polling. Runs already in progress finish on their own.
+   */
+  static stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      console.log('Job queue stopped');
+    }
+  }
+
+  /**
+   * Enqueue due scheduled runs and execute whatever is ready
+   */
+  static tick(): Promise<void> {
+    // Share the in-flight enqueue rather than overlapping with it
+    if (!this.currentEnqueue) {
+      this.currentEnqueue = this.enqueueDueJobs()
+        .catch((error) => {
+          console.error('Job queue tick failed:', error);
+        })
+        .finally(() => {
+          this.currentEnqueue = null;
+        });
+    }
+
+    return this.currentEnqueue.then(() => this.processDueRuns());
+  }
+
+  /**
+   * Queue a run of a job right away
+   */
+  static async trigger(name: string, triggeredBy?: string) {
+    const definition = this.definitions.get(name);
+
+    if (!definition) {
+      throw new Error('Job not found');
+    }
+
+    await this.syncSchedule(definition);
+
+    const run = await prisma.jobRun.create({
+      data: {
+        jobName: name,
+        trigger: 'manual',
+        maxAttempts: definition.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        triggeredBy
+      }
+    });
+
+    // Start it now instead of waiting for the next poll
+    this.tick();
+
+    return run;
+  }
+
+  /**
+   * Queue a dead run again with a fresh set of attempts
+   */
+  static async retryRun(runId: string, triggeredBy?: string) {
+    const run = await prisma.jobRun.findUnique({ where: { id: runId } });
+
+    if (!run) {
+      throw new Error('Job run not found');
+    }
+
+    if (run.status !== 'dead') {
+      throw new Error('Only dead job runs can be retried');
+    }
+
+    const retry = await prisma.jobRun.create({
+      data: {
+        jobName: run.jobName,
+        trigger: 'retry',
+        maxAttempts: run.maxAttempts,
+        triggeredBy
+      }
+    });
+
+    this.tick();
+
+    return retry;
+  }
+
+  /**
+   * Enable or pause a job's schedule
+   */
+  static async setEnabled(name: string, enabled: boolean) {
+    const job = await prisma.scheduledJob.findUnique({ where: { name } });
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    return prisma.scheduledJob.update({
+      where: { name },
+      data: {
+        enabled,
+        // Resuming shouldn't fire a backlog of missed runs
+        ...(enabled && { nextRunAt: getNextCronTime(job.cron) })
+      }
+    });
+  }
+
+  /**
+   * List all jobs with their most recent run
+   */
+  static async listJobs() {
+    const jobs = await prisma.scheduledJob.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        runs: {
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        },
+        _count: {
+          select: { runs: { where: { status: 'dead' } } }
+        }
+      }
+    });
+
+    return jobs.map(({ runs, _count, ...job }) => ({
+      ...job,
+      registered: this.definitions.has(job.name),
+      lastRun: runs[0] || null,
+      deadRuns: _count.runs
+    }));
+  }
+
+  /**
+   * Get run history, optionally for a single job
+   */
+  static async getRuns(jobName?: string, options: JobRunQueryOptions = {}) {
+    const { status, cursor, limit } = options;
+
+    const where: Prisma.JobRunWhereInput = {
+      ...(jobName && { jobName }),
+      ...(status && { status })
+    };
+
+    return paginate([{ field: 'createdAt', direction: 'desc' }], { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
+      prisma.jobRun.findMany({
+        where: { AND: [where, cursorWhere] },
+        orderBy,
+        take
+      })
+    );
+  }
+
+  /**
+   * Get a single run
+   */
+  static async getRun(runId: string) {
+    const run = await prisma.jobRun.findUnique({ where: { id: runId } });
+
+    if (!run) {
+      throw new Error('Job run not found');
+    }
+
+    return run;
+  }
+
+  /**
+   * Delete succeeded runs that finished before the retention period. Dead runs
+   * are kept so they can still be inspected and retried.
+   */
+  static async pruneRuns(retentionDays: number) {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await prisma.jobRun.deleteMany({
+      where: {
+        status: 'succeeded',
+        finishedAt: { lt: cutoff }
+      }
+    });
+
+    return result.count;
+  }
+
+  private static async syncSchedules() {
+    for (const definition of this.definitions.values()) {
+      await this.syncSchedule(definition);
+    }
+  }
+
+  private static async syncSchedule(definition: JobDefinition) {
+    const existing = await prisma.scheduledJob.findUnique({ where: { name: definition.name } });
+
+    if (!existing) {
+      await prisma.scheduledJob.upsert({
+        where: { name: definition.name },
+        create: {
+          name: definition.name,
+          cron: definition.cron,
+          nextRunAt: getNextCronTime(definition.cron)
+        },
+        update: {}
+      });
+    } else if (existing.cron !== definition.cron) {
+      await prisma.scheduledJob.update({
+        where: { name: definition.name },
+        data: {
+          cron: definition.cron,
+          nextRunAt: getNextCronTime(definition.cron)
+        }
+      });
+    }
+  }
+
+  private static async enqueueDueJobs() {
+    const now = new Date();
+    const dueJobs = await prisma.scheduledJob.findMany({
+      where: {
+        enabled: true,
+        nextRunAt: { lte: now },
+        name: { in: Array.from(this.definitions.keys()) }
+      }
+    });
+
+    for (const job of dueJobs) {
+      const definition = this.definitions.get(job.name)!;
+
+      // Advancing nextRunAt is the claim: only one instance moves it off the old value
+      const claimed = await prisma.scheduledJob.updateMany({
+        where: { name: job.name, nextRunAt: job.nextRunAt },
+        data: { nextRunAt: getNextCronTime(job.cron, now) }
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      await prisma.jobRun.create({
+        data: {
+          jobName: job.name,
+          trigger: 'schedule',
+          runAt: job.nextRunAt,
+          maxAttempts: definition.maxAttempts || DEFAULT_MAX_ATTEMPTS
+        }
+      });
+    }
+  }
+
+  private static async processDueRuns() {
+    await Promise.all(Array.from(this.definitions.keys()).map(name => this.drainJob(name)));
+  }
+
+  /**
+   * Start working through a job's due runs, or join the pass already in progress
+   */
+  private static drainJob(name: string): Promise<void> {
+    let draining = this.drainingJobs.get(name);
+
+    if (!draining) {
+      draining = this.processJobRuns(name)
+        .catch((error) => {
+          console.error(`Job queue failed to process ${name}:`, error);
+        })
+        .finally(() => {
+          this.drainingJobs.delete(name);
+        });
+      this.drainingJobs.set(name, draining);
+    }
+
+    return draining;
+  }
+
+  /**
+   * Claim and execute a job's due runs one at a time until none are left
+   */
+  private static async processJobRuns(name: string) {
+    // Each run is tried at most once per pass, even if its claim loses a race
+    const attempted: string[] = [];
+
+    for (;;) {
+      const now = new Date();
+      const run = await prisma.jobRun.findFirst({
+        where: {
+          jobName: name,
+          id: { notIn: attempted },
+          OR: [
+            { status: 'pending', runAt: { lte: now } },
+            // Runs whose instance died while holding the lock
+            { status: 'running', lockedUntil: { lt: now } }
+          ]
+        },
+        orderBy: { runAt: 'asc' }
+      });
+
+      if (!run) {
+        return;
+      }
+
+      attempted.push(run.id);
+      await this.executeRun(run.id, run.status, run.lockedUntil);
+    }
+  }
+
+  private static async executeRun(runId: string, status: string, lockedUntil: Date | null) {
+    const run = await prisma.jobRun.findUnique({ where: { id: runId } });
+    const definition = run && this.definitions.get(run.jobName);
+
+    if (!run || !definition) {
+      return;
+    }
+
+    const startedAt = new Date();
+    const timeoutMs = definition.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+    // A stale run counts its crashed attempt before being picked up again
+    const attempt = status === 'running' ? run.attempt + 1 : run.attempt;
+
+    if (attempt > run.maxAttempts) {
+      await prisma.jobRun.updateMany({
+        where: { id: runId, status, lockedUntil },
+        data: {
+          status: 'dead',
+          finishedAt: startedAt,
+          lockedBy: null,
+          lockedUntil: null,
+          error: run.error || 'Job run timed out'
+        }
+      });
+      return;
+    }
+
+    const claimed = await prisma.jobRun.updateMany({
+      where: { id: runId, status, lockedUntil },
+      data: {
+        status: 'running',
+        attempt,
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(startedAt.getTime() + timeoutMs),
+        startedAt
+      }
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    // If the handler outlives its lease another instance may reclaim the run, so
+    // results are only written while this instance still holds the lock
+    const ownLock = { id: runId, lockedBy: this.instanceId };
+
+    try {
+      const result = await definition.handler();
+
+      await prisma.jobRun.updateMany({
+        where: ownLock,
+        data: {
+          status: 'succeeded',
+          finishedAt: new Date(),
+          lockedBy: null,
+          lockedUntil: null,
+          result: result === undefined ? Prisma.JsonNull : (result as Prisma.InputJsonValue),
+          error: null
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempt >= run.maxAttempts;
+
+      console.error(`Job ${run.jobName} failed (attempt ${attempt}/${run.maxAttempts}):`, error);
+
+      await prisma.jobRun.updateMany({
+        where: ownLock,
+        data: exhausted
+          ? {
+              status: 'dead',
+              finishedAt: new Date(),
+              lockedBy: null,
+              lockedUntil: null,
+              error: message
+            }
+          : {
+              status: 'pending',
+              attempt: attempt + 1,
+              // Exponential backoff: 1 min, 2 min, 4 min, ...
+              runAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)),
+              lockedBy: null,
+              lockedUntil: null,
+              error: message
+            }
+      });
+    }
+
+    await prisma.scheduledJob.update({
+      where: { name: run.jobName },
+      data: { lastRunAt: startedAt }
+    });
+  }
+}
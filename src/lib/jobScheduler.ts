@@ -1,64 +1,189 @@
 import { notificationService } from './notificationService';
+import { DripService } from './dripService';
+import { PublishingService } from './publishingService';
+import { RecommendationService } from './recommendationService';
+import { WebhookService } from './webhookService';
+import { StripeWebhookService } from './stripeWebhookService';
+import { PayoutService } from './payoutService';
+import { auditLogger } from './auditLogger';
+import { JobQueue } from './jobQueue';
 import prisma from './prisma';
 
+const AUDIT_LOG_RETENTION_DAYS = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '365');
+const JOB_RUN_RETENTION_DAYS = parseInt(process.env.JOB_RUN_RETENTION_DAYS || '7');
+const INTEREST_DECAY_RATE = 0.05;
+
+/**
+ * Background jobs. Schedules, locking, retries and run history are handled by
+ * the persistent JobQueue; this class defines what each job does.
+ */
 export class JobScheduler {
-  private static intervals: Map<string, NodeJS.Timeout> = new Map();
+  /**
+   * Register every job with the queue
+   */
+  static registerJobs() {
+    // Sundays at 9 AM
+    JobQueue.register({
+      name: 'weeklyDigest',
+      cron: '0 9 * * 0',
+      handler: () => this.runWeeklyDigestJob(),
+      // Don't resend to everyone who already received it
+      maxAttempts: 1,
+      timeoutMs: 60 * 60 * 1000
+    });
+
+    JobQueue.register({
+      name: 'lessonUnlock',
+      cron: '0 * * * *',
+      handler: () => this.runLessonUnlockJob()
+    });
+
+    JobQueue.register({
+      name: 'scheduledPublishing',
+      cron: '* * * * *',
+      handler: () => this.runScheduledPublishingJob()
+    });
+
+    JobQueue.register({
+      name: 'webhookDeliveries',
+      cron: '* * * * *',
+      handler: () => this.runWebhookDeliveryJob()
+    });
+
+    JobQueue.register({
+      name: 'stripeEventRetries',
+      cron: '* * * * *',
+      handler: () => this.runStripeEventRetryJob()
+    });
+
+    // 1st of the month at 2 AM, once last month's period has ended
+    JobQueue.register({
+      name: 'payoutPeriodClose',
+      cron: '0 2 1 * *',
+      handler: () => this.runPayoutPeriodCloseJob()
+    });
+
+    JobQueue.register({
+      name: 'auditLogCleanup',
+      cron: '0 3 * * *',
+      handler: () => this.runAuditLogCleanupJob()
+    });
+
+    JobQueue.register({
+      name: 'jobRunCleanup',
+      cron: '30 3 * * *',
+      handler: () => this.runJobRunCleanupJob()
+    });
+
+    JobQueue.register({
+      name: 'interestDecay',
+      cron: '0 4 * * *',
+      handler: () => this.runInterestDecayJob()
+    });
+  }
 
   /**
-   * Start the weekly digest job
+   * Start processing scheduled jobs on this instance
    */
-  static startWeeklyDigestJob() {
-    // Run every Sunday at 9 AM (in production, use a proper cron job)
-    const interval = setInterval(async () => {
-      await this.runWeeklyDigestJob();
-    }, 7 * 24 * 60 * 60 * 1000); // 7 days in milliseconds
-
-    this.intervals.set('weeklyDigest', interval);
-    console.log('Weekly digest job started');
+  static async startAllJobs() {
+    await JobQueue.start();
   }
 
   /**
-   * Stop all scheduled jobs
+   * Stop processing scheduled jobs on this instance
    */
   static stopAllJobs() {
-    this.intervals.forEach((interval, name) => {
-      clearInterval(interval);
-      console.log(`Stopped job: ${name}`);
-    });
-    this.intervals.clear();
+    JobQueue.stop();
   }
 
   /**
-   * Run the weekly digest job manually
+   * Send the weekly digest to everyone who has it enabled
    */
   static async runWeeklyDigestJob() {
-    try {
-      console.log('Starting weekly digest job...');
-
-      // Get all users who have weekly digest enabled
-      const users = await prisma.user.findMany({
-        where: {
-          notificationPreferences: {
-            emailEnabled: true,
-            weeklyDigest: true
-          }
-        },
-        select: { id: true }
-      });
-
-      const userIds = users.map((user: any) => user.id);
-      
-      if (userIds.length === 0) {
-        console.log('No users found for weekly digest');
-        return;
-      }
-
-      const result = await notificationService.sendBulkDigests(userIds);
-      
-      console.log(`Weekly digest job completed: ${result.sent} sent, ${result.failed} failed`);
-    } catch (error) {
-      console.error('Weekly digest job failed:', error);
+    console.log('Starting weekly digest job...');
+
+    // Get all users who have weekly digest enabled
+    const users = await prisma.user.findMany({
+      where: {
+        notificationPreferences: {
+          emailEnabled: true,
+          weeklyDigest: true
+        }
+      },
+      select: { id: true }
+    });
+
+    const userIds = users.map((user: any) => user.id);
+
+    if (userIds.length === 0) {
+      console.log('No users found for weekly digest');
+      return { sent: 0, failed: 0 };
     }
+
+    const result = await notificationService.sendBulkDigests(userIds);
+
+    console.log(`Weekly digest job completed: ${result.sent} sent, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Notify members about dripped lessons that have unlocked
+   */
+  static async runLessonUnlockJob() {
+    const notified = await DripService.notifyUnlockedLessons();
+    return { notified };
+  }
+
+  /**
+   * Publish posts and courses whose scheduled time has passed
+   */
+  static async runScheduledPublishingJob() {
+    return PublishingService.publishDueContent();
+  }
+
+  /**
+   * Retry outbound webhook deliveries that are due
+   */
+  static async runWebhookDeliveryJob() {
+    return WebhookService.processDueDeliveries();
+  }
+
+  /**
+   * Retry inbound Stripe events whose handler failed
+   */
+  static async runStripeEventRetryJob() {
+    return StripeWebhookService.processDueEvents();
+  }
+
+  /**
+   * Freeze the payout ledger for billing periods that have ended
+   */
+  static async runPayoutPeriodCloseJob() {
+    return PayoutService.closeEndedPeriods();
+  }
+
+  /**
+   * Delete audit logs past the retention period
+   */
+  static async runAuditLogCleanupJob() {
+    const deletedCount = await auditLogger.cleanupOldLogs(AUDIT_LOG_RETENTION_DAYS);
+    return { deletedCount, retentionDays: AUDIT_LOG_RETENTION_DAYS };
+  }
+
+  /**
+   * Delete succeeded job runs past the retention period
+   */
+  static async runJobRunCleanupJob() {
+    const deletedCount = await JobQueue.pruneRuns(JOB_RUN_RETENTION_DAYS);
+    return { deletedCount, retentionDays: JOB_RUN_RETENTION_DAYS };
+  }
+
+  /**
+   * Let old recommendation interests fade
+   */
+  static async runInterestDecayJob() {
+    const removed = await RecommendationService.decayUserInterests(INTEREST_DECAY_RATE);
+    return { decayRate: INTEREST_DECAY_RATE, removed };
   }
 
   /**
@@ -75,9 +200,13 @@ export class JobScheduler {
   }
 }
 
+JobScheduler.registerJobs();
+
 // Auto-start jobs in production
 if (process.env.NODE_ENV === 'production') {
-  JobScheduler.startWeeklyDigestJob();
+  JobScheduler.startAllJobs().catch((error) => {
+    console.error('Failed to start job queue:', error);
+  });
 }
 
 // Graceful shutdown
@@ -89,4 +218,4 @@ process.on('SIGINT', () => {
   JobScheduler.stopAllJobs();
 });
 
-export default JobScheduler;
\ No newline at end of file
+export default JobScheduler;
@@ -0,0 +1,116 @@
+import prisma from './prisma';
+import { redisService, CacheKeys, CacheTTL } from './redis';
+
+export interface CommunityLevel {
+  level: number;
+  name: string;
+  pointsRequired: number;
+}
+
+export interface UserLevel {
+  points: number;
+  current: CommunityLevel | null;
+  next: CommunityLevel | null;
+  pointsToNext: number;
+}
+
+// Default level ladder used until a community defines its own
+export const DEFAULT_LEVELS: CommunityLevel[] = [
+  { level: 1, name: 'Newcomer', pointsRequired: 0 },
+  { level: 2, name: 'Regular', pointsRequired: 50 },
+  { level: 3, name: 'Contributor', pointsRequired: 200 },
+  { level: 4, name: 'Expert', pointsRequired: 500 },
+  { level: 5, name: 'Master', pointsRequired: 1000 }
+];
+
+/**
+ * Community levels computed from the points a member has earned inside the community
+ */
+export class LevelService {
+  /**
+   * Get a community's level ladder, or the defaults if it has none
+   */
+  static async getCommunityLevels(communityId: string): Promise<CommunityLevel[]> {
+    return redisService.cache(CacheKeys.communityLevels(communityId), async () => {
+      const levels = await prisma.communityLevel.findMany({
+        where: { communityId },
+        orderBy: { level: 'asc' },
+        select: { level: true, name: true, pointsRequired: true }
+      });
+
+      return levels.length > 0 ? levels : DEFAULT_LEVELS;
+    }, CacheTTL.MEDIUM);
+  }
+
+  /**
+   * Replace a community's level ladder
+   */
+  static async setCommunityLevels(communityId: string, levels: CommunityLevel[]): Promise<CommunityLevel[]> {
+    const sorted = [...levels].sort((a, b) => a.level - b.level);
+
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].level === sorted[i - 1].level) {
+        throw new Error('Level numbers must be unique');
+      }
+      if (sorted[i].pointsRequired <= sorted[i - 1].pointsRequired) {
+        throw new Error('Higher levels must require more points');
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.communityLevel.deleteMany({ where: { communityId } }),
+      prisma.communityLevel.createMany({
+        data: sorted.map(level => ({ communityId, ...level }))
+      })
+    ]);
+
+    await redisService.del(CacheKeys.communityLevels(communityId));
+
+    return sorted;
+  }
+
+  /**
+   * Remove a community's ladder so it falls back to the defaults
+   */
+  static async resetCommunityLevels(communityId: string) {
+    await prisma.communityLevel.deleteMany({ where: { communityId } });
+    await redisService.del(CacheKeys.communityLevels(communityId));
+  }
+
+  /**
+   * Get a user's level in a community
+   */
+  static async getUserLevel(userId: string, communityId: string): Promise<UserLevel> {
+    const [communityPoints, levels] = await Promise.all([
+      prisma.pointsTransaction.aggregate({
+        where: { userId, communityId },
+        _sum: { points: true }
+      }),
+      this.getCommunityLevels(communityId)
+    ]);
+
+    const points = communityPoints._sum.points || 0;
+    const current = this.getLevelForPoints(levels, points);
+    const next = levels.find(level => level.pointsRequired > points) || null;
+
+    return {
+      points,
+      current,
+      next,
+      pointsToNext: next ? next.pointsRequired - points : 0
+    };
+  }
+
+  /**
+   * Find the highest level reached with the given points
+   */
+  static getLevelForPoints(levels: CommunityLevel[], points: number): CommunityLevel | null {
+    let reached: CommunityLevel | null = null;
+    for (const level of levels) {
+      if (points >= level.pointsRequired) {
+        reached = level;
+      }
+    }
+    return reached;
+  }
+}
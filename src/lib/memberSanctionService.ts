@@ -0,0 +1,427 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { auditLogger } from './auditLogger';
+import { notificationService, NotificationType } from './notificationService';
+import { WebhookService } from './webhookService';
+import { StripeService } from './stripeService';
+
+export type SanctionType = 'ban' | 'mute' | 'warning';
+
+export interface BanData {
+  reason?: string;
+  expiresAt?: Date | null;
+}
+
+export interface MuteData {
+  reason?: string;
+  expiresAt: Date;
+}
+
+export interface WarningData {
+  reason?: string;
+}
+
+export interface ActiveSanctions {
+  ban: { id: string; reason: string | null; expiresAt: Date | null } | null;
+  mute: { id: string; reason: string | null; expiresAt: Date | null } | null;
+}
+
+// Forward declaration to avoid circular dependency
+interface ISocketService {
+  removeUserFromCommunity(userId: string, communityId: string): Promise<void>;
+}
+
+let socketServiceInstance: ISocketService | null = null;
+
+export function setSanctionSocketService(socketService: ISocketService) {
+  socketServiceInstance = socketService;
+}
+
+const sanctionInclude = {
+  issuedBy: {
+    select: { id: true, username: true, displayName: true }
+  }
+} satisfies Prisma.MemberSanctionInclude;
+
+/**
+ * Bans, timed mutes and the warnings ledger. Sanctions are never deleted, only
+ * revoked, so a member's full history stays available to moderators. Mutes and
+ * timed bans lift themselves once `expiresAt` passes.
+ */
+export class MemberSanctionService {
+  /**
+   * Get a member's ban and mute currently in force
+   */
+  static async getActiveSanctions(communityId: string, userId: string): Promise<ActiveSanctions> {
+    const now = new Date();
+
+    const sanctions = await prisma.memberSanction.findMany({
+      where: {
+        communityId,
+        userId,
+        type: { in: ['ban', 'mute'] },
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, type: true, reason: true, expiresAt: true }
+    });
+
+    const pick = (type: SanctionType) => {
+      const sanction = sanctions.find(s => s.type === type);
+      return sanction ? { id: sanction.id, reason: sanction.reason, expiresAt: sanction.expiresAt } : null;
+    };
+
+    return { ban: pick('ban'), mute: pick('mute') };
+  }
+
+  /**
+   * Throw if a member may not post, comment or otherwise write in a community
+   */
+  static async assertCanParticipate(communityId: string, userId: string): Promise<void> {
+    const { ban, mute } = await this.getActiveSanctions(communityId, userId);
+
+    if (ban) {
+      throw new Error('You are banned from this community');
+    }
+
+    if (mute) {
+      throw new Error(`You are muted in this community until ${mute.expiresAt!.toISOString()}`);
+    }
+  }
+
+  /**
+   * Get a member's sanction history, newest first
+   */
+  static async getMemberSanctions(communityId: string, userId: string) {
+    const sanctions = await prisma.memberSanction.findMany({
+      where: { communityId, userId },
+      orderBy: { createdAt: 'desc' },
+      include: sanctionInclude
+    });
+
+    const active = await this.getActiveSanctions(communityId, userId);
+
+    return {
+      sanctions,
+      activeBan: active.ban,
+      activeMute: active.mute,
+      activeWarnings: sanctions.filter(s => s.type === 'warning' && !s.revokedAt).length
+    };
+  }
+
+  /**
+   * Ban a member: removes their membership and blocks them from rejoining
+   */
+  static async banMember(communityId: string, moderatorId: string, userId: string, data: BanData) {
+    await this.assertCanSanction(communityId, moderatorId, userId);
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const { ban } = await this.getActiveSanctions(communityId, userId);
+    if (ban) {
+      throw new Error('Member is already banned');
+    }
+
+    const membership = await prisma.communityMembership.findUnique({
+      where: { userId_communityId: { userId, communityId } }
+    });
+
+    const sanction = await prisma.$transaction(async (tx) => {
+      if (membership) {
+        await tx.communityMembership.delete({ where: { id: membership.id } });
+
+        if (membership.status === 'active') {
+          await tx.community.update({
+            where: { id: communityId },
+            data: { memberCount: { decrement: 1 } }
+          });
+        }
+      }
+
+      return tx.memberSanction.create({
+        data: {
+          communityId,
+          userId,
+          type: 'ban',
+          reason: data.reason,
+          expiresAt: data.expiresAt ?? null,
+          issuedById: moderatorId
+        },
+        include: sanctionInclude
+      });
+    });
+
+    await auditLogger.logModerationEvent(moderatorId, 'MEMBER_BANNED', 'user', userId, communityId, data.reason);
+
+    if (membership?.status === 'active') {
+      WebhookService.dispatch(communityId, 'member.left', { user: { id: userId }, reason: 'banned' });
+    }
+
+    await socketServiceInstance?.removeUserFromCommunity(userId, communityId);
+
+    await this.cancelSubscriptions(communityId, userId);
+
+    return sanction;
+  }
+
+  /**
+   * Lift a member's ban so they can rejoin
+   */
+  static async unbanMember(communityId: string, moderatorId: string, userId: string) {
+    return this.revokeActive(communityId, moderatorId, userId, 'ban');
+  }
+
+  /**
+   * Stop a member from posting and commenting until the given time
+   */
+  static async muteMember(communityId: string, moderatorId: string, userId: string, data: MuteData) {
+    await this.assertCanSanction(communityId, moderatorId, userId);
+
+    const membership = await prisma.communityMembership.findUnique({
+      where: { userId_communityId: { userId, communityId } }
+    });
+
+    if (!membership) {
+      throw new Error('Member not found');
+    }
+
+    if (data.expiresAt <= new Date()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const mute = await this.createMute(communityId, userId, data.expiresAt, data.reason, moderatorId);
+
+    await auditLogger.logModerationEvent(moderatorId, 'MEMBER_MUTED', 'user', userId, communityId, data.reason);
+
+    return mute;
+  }
+
+  /**
+   * Lift a member's mute early
+   */
+  static async unmuteMember(communityId: string, moderatorId: string, userId: string) {
+    return this.revokeActive(communityId, moderatorId, userId, 'mute');
+  }
+
+  /**
+   * Record a warning against a member and notify them. When the community has an
+   * escalation threshold, every Nth active warning mutes the member automatically.
+   */
+  static async warnMember(communityId: string, moderatorId: string, userId: string, data: WarningData) {
+    await this.assertCanSanction(communityId, moderatorId, userId);
+
+    const warning = await prisma.memberSanction.create({
+      data: {
+        communityId,
+        userId,
+        type: 'warning',
+        reason: data.reason,
+        issuedById: moderatorId
+      },
+      include: sanctionInclude
+    });
+
+    await auditLogger.logModerationEvent(moderatorId, 'MEMBER_WARNED', 'user', userId, communityId, data.reason);
+
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: communityId },
+      select: {
+        name: true,
+        warningEscalationThreshold: true,
+        warningEscalationMuteHours: true
+      }
+    });
+
+    try {
+      await notificationService.createNotification({
+        userId,
+        type: NotificationType.MODERATION_WARNING,
+        title: 'Moderator warning',
+        message: data.reason
+          ? `A moderator in "${community.name}" warned you: ${data.reason}`
+          : `A moderator in "${community.name}" warned you about your activity.`,
+        data: { communityId, warningId: warning.id }
+      });
+    } catch (error) {
+      console.error('Failed to send moderation warning notification:', error);
+    }
+
+    const escalatedMute = await this.escalateWarnings(communityId, moderatorId, userId, community);
+
+    return { warning, escalatedMute };
+  }
+
+  /**
+   * Revoke a warning so it no longer counts towards escalation
+   */
+  static async revokeWarning(communityId: string, moderatorId: string, userId: string, warningId: string) {
+    const warning = await prisma.memberSanction.findFirst({
+      where: { id: warningId, communityId, userId, type: 'warning', revokedAt: null }
+    });
+
+    if (!warning) {
+      throw new Error('Warning not found');
+    }
+
+    const revoked = await prisma.memberSanction.update({
+      where: { id: warningId },
+      data: { revokedAt: new Date(), revokedById: moderatorId },
+      include: sanctionInclude
+    });
+
+    await auditLogger.logModerationEvent(moderatorId, 'WARNING_REVOKED', 'user', userId, communityId);
+
+    return revoked;
+  }
+
+  private static async escalateWarnings(
+    communityId: string,
+    moderatorId: string,
+    userId: string,
+    community: { warningEscalationThreshold: number | null; warningEscalationMuteHours: number | null }
+  ) {
+    const { warningEscalationThreshold: threshold, warningEscalationMuteHours: muteHours } = community;
+
+    if (!threshold || !muteHours) {
+      return null;
+    }
+
+    const activeWarnings = await prisma.memberSanction.count({
+      where: { communityId, userId, type: 'warning', revokedAt: null }
+    });
+
+    if (activeWarnings % threshold !== 0) {
+      return null;
+    }
+
+    const reason = `Automatic mute after ${activeWarnings} warnings`;
+    const mute = await this.createMute(communityId, userId, new Date(Date.now() + muteHours * 60 * 60 * 1000), reason, null);
+
+    await auditLogger.logModerationEvent(moderatorId, 'MEMBER_MUTED', 'user', userId, communityId, reason);
+
+    return mute;
+  }
+
+  /**
+   * Create a mute, replacing any mute already in force
+   */
+  private static async createMute(communityId: string, userId: string, expiresAt: Date, reason: string | undefined, issuedById: string | null) {
+    return prisma.$transaction(async (tx) => {
+      await tx.memberSanction.updateMany({
+        where: {
+          communityId,
+          userId,
+          type: 'mute',
+          revokedAt: null,
+          expiresAt: { gt: new Date() }
+        },
+        data: { revokedAt: new Date(), revokedById: issuedById }
+      });
+
+      return tx.memberSanction.create({
+        data: {
+          communityId,
+          userId,
+          type: 'mute',
+          reason,
+          expiresAt,
+          issuedById
+        },
+        include: sanctionInclude
+      });
+    });
+  }
+
+  /**
+   * Stop billing a banned member. The ban stands even if Stripe can't be reached,
+   * and the webhook handlers won't restore access while it does.
+   */
+  private static async cancelSubscriptions(communityId: string, userId: string) {
+    const subscriptions = await prisma.subscription.findMany({
+      where: {
+        communityId,
+        userId,
+        stripeSubscriptionId: { not: null },
+        status: { notIn: ['canceled', 'incomplete_expired'] }
+      },
+      select: { stripeSubscriptionId: true }
+    });
+
+    for (const { stripeSubscriptionId } of subscriptions) {
+      try {
+        await StripeService.cancelSubscription(stripeSubscriptionId!);
+      } catch (error) {
+        console.error(`Failed to cancel subscription ${stripeSubscriptionId} for banned member:`, error);
+      }
+    }
+  }
+
+  private static async revokeActive(communityId: string, moderatorId: string, userId: string, type: 'ban' | 'mute') {
+    const active = (await this.getActiveSanctions(communityId, userId))[type];
+
+    if (!active) {
+      throw new Error(type === 'ban' ? 'Member is not banned' : 'Member is not muted');
+    }
+
+    const revoked = await prisma.memberSanction.update({
+      where: { id: active.id },
+      data: { revokedAt: new Date(), revokedById: moderatorId },
+      include: sanctionInclude
+    });
+
+    await auditLogger.logModerationEvent(
+      moderatorId,
+      type === 'ban' ? 'MEMBER_UNBANNED' : 'MEMBER_UNMUTED',
+      'user',
+      userId,
+      communityId
+    );
+
+    return revoked;
+  }
+
+  /**
+   * Moderators can sanction regular members, admins can also sanction moderators
+   * and only the creator can sanction admins. Nobody can sanction the creator.
+   */
+  private static async assertCanSanction(communityId: string, moderatorId: string, userId: string) {
+    if (moderatorId === userId) {
+      throw new Error('You cannot sanction yourself');
+    }
+
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: {
+        creatorId: true,
+        memberships: {
+          where: { userId: { in: [moderatorId, userId] } },
+          select: { userId: true, role: true, status: true }
+        }
+      }
+    });
+
+    if (!community) {
+      throw new Error('Community not found');
+    }
+
+    if (community.creatorId === userId) {
+      throw new Error('Cannot sanction the community creator');
+    }
+
+    const moderatorRole = community.creatorId === moderatorId
+      ? 'creator'
+      : community.memberships.find(m => m.userId === moderatorId && m.status === 'active')?.role;
+    const targetRole = community.memberships.find(m => m.userId === userId)?.role || 'member';
+
+    if (targetRole !== 'member' && moderatorRole !== 'admin' && moderatorRole !== 'creator') {
+      throw new Error('Moderators can only sanction regular members');
+    }
+
+    if (targetRole === 'admin' && moderatorRole !== 'creator') {
+      throw new Error('Only the community creator can sanction admins');
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import prisma from './prisma';
+import { notificationService, NotificationType } from './notificationService';
+
+// Stored form of a mention: @[username](userId). The id keeps the link working
+// after a rename; the username is refreshed whenever the content is saved again.
+const MENTION_TOKEN = /@\[([^\]\n]{1,50})\]\(([A-Za-z0-9]{1,40})\)/g;
+
+// Either a stored token or a plain @username typed by the author. The lookbehind
+// skips email addresses and the like.
+const MENTION_SOURCE = /@\[([^\]\n]{1,50})\]\(([A-Za-z0-9]{1,40})\)|(?<![\w@.-])@([A-Za-z0-9_-]{3,50})/g;
+
+// Mentions beyond this are kept as plain text so one post can't notify a whole community
+export const MAX_MENTIONS = 20;
+
+export interface ResolvedMentions {
+  content: string;
+  userIds: string[];
+}
+
+export interface MentionContext {
+  communityId: string;
+  authorId: string;
+  postId: string;
+  commentId?: string;
+  postTitle?: string | null;
+}
+
+/**
+ * @username mentions in posts and comments. Mentions resolve to community members
+ * only and are stored as structured tokens.
+ */
+export class MentionService {
+  /**
+   * Rewrite @username mentions of community members into stored tokens. Unknown
+   * users, non-members and stale tokens are left as plain @username text.
+   */
+  static async resolve(communityId: string, content: string): Promise<ResolvedMentions> {
+    const usernames = new Set<string>();
+    const ids = new Set<string>();
+
+    for (const match of content.matchAll(MENTION_SOURCE)) {
+      if (match[2]) {
+        ids.add(match[2]);
+      } else {
+        usernames.add(match[3].toLowerCase());
+      }
+    }
+
+    if (usernames.size === 0 && ids.size === 0) {
+      return { content, userIds: [] };
+    }
+
+    const members = await prisma.user.findMany({
+      where: {
+        OR: [
+          { id: { in: [...ids] } },
+          { username: { in: [...usernames], mode: 'insensitive' } }
+        ],
+        AND: [{
+          OR: [
+            { memberships: { some: { communityId, status: 'active' } } },
+            { createdCommunities: { some: { id: communityId } } }
+          ]
+        }]
+      },
+      select: { id: true, username: true }
+    });
+
+    const byId = new Map(members.map(member => [member.id, member]));
+    const byUsername = new Map(members.map(member => [member.username.toLowerCase(), member]));
+    const userIds: string[] = [];
+
+    const resolved = content.replace(MENTION_SOURCE, (source, tokenName: string, tokenId: string, username: string) => {
+      const member = tokenId ? byId.get(tokenId) : byUsername.get(username.toLowerCase());
+
+      if (!member || (!userIds.includes(member.id) && userIds.length >= MAX_MENTIONS)) {
+        return tokenId ? `@${tokenName}` : source;
+      }
+
+      if (!userIds.includes(member.id)) {
+        userIds.push(member.id);
+      }
+
+      return `@[${member.username}](${member.id})`;
+    });
+
+    return { content: resolved, userIds };
+  }
+
+  /**
+   * Stored content with its mention tokens shown as plain @username text
+   */
+  static toPlainText(content: string): string {
+    return content.replace(MENTION_TOKEN, (_token, name: string) => `@${name}`);
+  }
+
+  /**
+   * Ids of the users mentioned in stored content
+   */
+  static extractUserIds(content: string): string[] {
+    const ids = [...content.matchAll(MENTION_TOKEN)].map(match => match[2]);
+    return [...new Set(ids)];
+  }
+
+  /**
+   * Send a MENTION notification to each mentioned user, skipping the author and
+   * anyone already mentioned before an edit
+   */
+  static async notifyMentioned(context: MentionContext, userIds: string[], previousUserIds: string[] = []) {
+    const recipients = userIds.filter(userId => userId !== context.authorId && !previousUserIds.includes(userId));
+
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const author = await prisma.user.findUnique({
+      where: { id: context.authorId },
+      select: { username: true, displayName: true }
+    });
+    const authorName = author?.displayName || author?.username || 'Someone';
+    const where = context.commentId ? 'a comment on' : 'the post';
+
+    for (const userId of recipients) {
+      try {
+        await notificationService.createNotification({
+          userId,
+          type: NotificationType.MENTION,
+          title: 'You were mentioned',
+          message: `${authorName} mentioned you in ${where} "${context.postTitle || 'Untitled'}"`,
+          data: {
+            postId: context.postId,
+            ...(context.commentId && { commentId: context.commentId }),
+            communityId: context.communityId,
+            mentionedById: context.authorId
+          }
+        });
+      } catch (error) {
+        // One failed notification shouldn't stop the rest
+        console.error('Failed to send mention notification:', error);
+      }
+    }
+  }
+
+  /**
+   * Community members whose username or display name starts with the query, for
+   * mention autocomplete
+   */
+  static async suggest(communityId: string, userId: string, query: string, limit = 8) {
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: {
+        creatorId: true,
+        memberships: { where: { userId, status: 'active' }, select: { id: true } }
+      }
+    });
+
+    if (!community) {
+      throw new Error('Community not found');
+    }
+
+    if (community.creatorId !== userId && community.memberships.length === 0) {
+      throw new Error('Access denied - not a member of this community');
+    }
+
+    return prisma.user.findMany({
+      where: {
+        OR: [
+          { username: { startsWith: query, mode: 'insensitive' } },
+          { displayName: { startsWith: query, mode: 'insensitive' } }
+        ],
+        AND: [{
+          OR: [
+            { memberships: { some: { communityId, status: 'active' } } },
+            { createdCommunities: { some: { id: communityId } } }
+          ]
+        }]
+      },
+      select: {
+        id: true,
+        username: true,
+        displayName: true,
+        avatarUrl: true
+      },
+      orderBy: { username: 'asc' },
+      take: limit
+    });
+  }
+}
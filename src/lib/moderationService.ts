@@ -0,0 +1,420 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { auditLogger } from './auditLogger';
+import { MemberSanctionService } from './memberSanctionService';
+import { PostService } from './postService';
+import { paginateRows, CursorPageOptions, CursorSortKey } from './pagination';
+
+export type ModerationContentType = 'post' | 'comment';
+export type ModerationAction = 'none' | 'hide' | 'approve' | 'delete' | 'warn';
+export type ReportStatus = 'pending' | 'reviewed' | 'resolved' | 'dismissed';
+
+export interface ModerationQueueOptions extends CursorPageOptions {
+  status?: ReportStatus;
+  contentType?: ModerationContentType;
+  reason?: 'spam' | 'harassment' | 'inappropriate' | 'misinformation' | 'other';
+}
+
+export interface ResolveReportsData {
+  action: ModerationAction;
+  note?: string;
+}
+
+export interface PostModerationState {
+  isHidden?: boolean;
+  isLocked?: boolean;
+  isPinned?: boolean;
+  reason?: string;
+}
+
+export interface CommentModerationState {
+  isHidden: boolean;
+  reason?: string;
+}
+
+// Forward declaration to avoid circular dependency
+interface ISocketService {
+  broadcastContentModerated(communityId: string, update: {
+    contentType: ModerationContentType;
+    contentId: string;
+    postId: string;
+    isHidden?: boolean;
+    isLocked?: boolean;
+    isPinned?: boolean;
+  }): void;
+}
+
+let socketServiceInstance: ISocketService | null = null;
+
+export function setModerationSocketService(socketService: ISocketService) {
+  socketServiceInstance = socketService;
+}
+
+// Reports that still need a decision
+const OPEN_STATUSES: ReportStatus[] = ['pending', 'reviewed'];
+
+const authorSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true
+} satisfies Prisma.UserSelect;
+
+// Most reported first, then longest waiting
+const QUEUE_SORT_KEYS: CursorSortKey[] = [
+  { field: 'reportCount', direction: 'desc' },
+  { field: 'firstReportedAt', direction: 'asc' }
+];
+
+/**
+ * Moderation queue for reported posts and comments. Reports are grouped per piece
+ * of content so moderators make one decision for all of its open reports.
+ */
+export class ModerationService {
+  /**
+   * Get reported content for a community, most reported first
+   */
+  static async getQueue(communityId: string, options: ModerationQueueOptions = {}) {
+    const { status = 'pending', contentType, reason, cursor, limit } = options;
+
+    const where: Prisma.ContentReportWhereInput = {
+      status,
+      ...(reason && { reason }),
+      OR: [
+        ...(contentType !== 'comment' ? [{ post: { communityId } }] : []),
+        ...(contentType !== 'post' ? [{ comment: { post: { communityId } } }] : [])
+      ]
+    };
+
+    const groups = await prisma.contentReport.groupBy({
+      by: ['postId', 'commentId'],
+      where,
+      _count: { id: true },
+      _min: { createdAt: true },
+      _max: { createdAt: true }
+    });
+
+    // Groups are counted in the database but paged here, keyed by their content id
+    const page = paginateRows(
+      groups.map(group => ({
+        id: group.commentId || group.postId!,
+        reportCount: group._count.id,
+        firstReportedAt: group._min.createdAt,
+        group
+      })),
+      QUEUE_SORT_KEYS,
+      { cursor, limit }
+    );
+    const postIds = page.items.filter(({ group }) => !group.commentId).map(({ group }) => group.postId!);
+    const commentIds = page.items.filter(({ group }) => group.commentId).map(({ group }) => group.commentId!);
+
+    const [posts, comments, reports] = await Promise.all([
+      prisma.post.findMany({
+        where: { id: { in: postIds } },
+        include: { author: { select: authorSelect } }
+      }),
+      prisma.comment.findMany({
+        where: { id: { in: commentIds } },
+        include: {
+          author: { select: authorSelect },
+          post: { select: { id: true, title: true } }
+        }
+      }),
+      prisma.contentReport.findMany({
+        where: {
+          status,
+          ...(reason && { reason }),
+          OR: [
+            { postId: { in: postIds }, commentId: null },
+            { commentId: { in: commentIds } }
+          ]
+        },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          reporter: {
+            select: { id: true, username: true, displayName: true }
+          }
+        }
+      })
+    ]);
+
+    const items = page.items.map(({ group }) => {
+      const isComment = Boolean(group.commentId);
+      const contentId = isComment ? group.commentId! : group.postId!;
+      const contentReports = reports.filter(report =>
+        isComment ? report.commentId === contentId : report.postId === contentId && !report.commentId
+      );
+
+      const reasons = contentReports.reduce<Record<string, number>>((counts, report) => {
+        counts[report.reason] = (counts[report.reason] || 0) + 1;
+        return counts;
+      }, {});
+
+      return {
+        contentType: (isComment ? 'comment' : 'post') as ModerationContentType,
+        contentId,
+        content: isComment
+          ? comments.find(comment => comment.id === contentId) || null
+          : posts.find(post => post.id === contentId) || null,
+        reportCount: group._count.id,
+        reasons,
+        firstReportedAt: group._min.createdAt,
+        lastReportedAt: group._max.createdAt,
+        reports: contentReports
+      };
+    });
+
+    return {
+      ...page,
+      items
+    };
+  }
+
+  /**
+   * Resolve every open report for a piece of content, optionally acting on it
+   */
+  static async resolveReports(
+    communityId: string,
+    moderatorId: string,
+    contentType: ModerationContentType,
+    contentId: string,
+    data: ResolveReportsData
+  ) {
+    const content = await this.findContent(communityId, contentType, contentId);
+    const reportIds = await this.findOpenReportIds(contentType, contentId);
+
+    // Warn first: it's the only action that can be refused (e.g. warning an admin)
+    if (data.action === 'warn') {
+      await MemberSanctionService.warnMember(communityId, moderatorId, content.authorId, {
+        reason: data.note || `Your ${contentType} was reported and reviewed by a moderator`
+      });
+    }
+
+    await prisma.contentReport.updateMany({
+      where: { id: { in: reportIds } },
+      data: {
+        status: 'resolved',
+        resolution: data.action,
+        moderatorNote: data.note,
+        resolvedById: moderatorId,
+        resolvedAt: new Date()
+      }
+    });
+
+    if (data.action === 'hide' || data.action === 'approve') {
+      // Audited and broadcast the same way as a direct hide; approving releases content held by a filter
+      const state = { isHidden: data.action === 'hide', reason: data.note };
+      if (contentType === 'post') {
+        await this.updatePostState(communityId, moderatorId, contentId, state);
+      } else {
+        await this.updateCommentState(communityId, moderatorId, contentId, state);
+      }
+    } else {
+      if (data.action === 'delete') {
+        // Deleting the content also removes its reports; the audit log keeps the record
+        await this.deleteContent(contentType, contentId);
+      }
+
+      await auditLogger.logModerationEvent(
+        moderatorId,
+        this.getAuditAction(data.action),
+        contentType,
+        contentId,
+        communityId,
+        data.note
+      );
+    }
+
+    return {
+      contentType,
+      contentId,
+      action: data.action,
+      resolvedReports: reportIds.length
+    };
+  }
+
+  /**
+   * Dismiss every open report for a piece of content without acting on it
+   */
+  static async dismissReports(
+    communityId: string,
+    moderatorId: string,
+    contentType: ModerationContentType,
+    contentId: string,
+    note?: string
+  ) {
+    await this.findContent(communityId, contentType, contentId);
+    const reportIds = await this.findOpenReportIds(contentType, contentId);
+
+    await prisma.contentReport.updateMany({
+      where: { id: { in: reportIds } },
+      data: {
+        status: 'dismissed',
+        resolution: 'none',
+        moderatorNote: note,
+        resolvedById: moderatorId,
+        resolvedAt: new Date()
+      }
+    });
+
+    await auditLogger.logModerationEvent(moderatorId, 'REPORTS_DISMISSED', contentType, contentId, communityId, note);
+
+    return {
+      contentType,
+      contentId,
+      dismissedReports: reportIds.length
+    };
+  }
+
+  /**
+   * Hide, lock or pin a post. Only actual changes are audited and broadcast.
+   */
+  static async updatePostState(communityId: string, moderatorId: string, postId: string, state: PostModerationState) {
+    const post = await prisma.post.findFirst({
+      where: { id: postId, communityId },
+      select: { id: true, isHidden: true, isLocked: true, isPinned: true }
+    });
+
+    if (!post) {
+      throw new Error('Post not found');
+    }
+
+    const changes: Pick<PostModerationState, 'isHidden' | 'isLocked' | 'isPinned'> = {};
+    if (state.isHidden !== undefined && state.isHidden !== post.isHidden) changes.isHidden = state.isHidden;
+    if (state.isLocked !== undefined && state.isLocked !== post.isLocked) changes.isLocked = state.isLocked;
+    if (state.isPinned !== undefined && state.isPinned !== post.isPinned) changes.isPinned = state.isPinned;
+
+    if (Object.keys(changes).length === 0) {
+      return post;
+    }
+
+    const updated = await prisma.post.update({
+      where: { id: postId },
+      data: changes,
+      select: { id: true, isHidden: true, isLocked: true, isPinned: true }
+    });
+
+    const auditActions = [
+      changes.isHidden !== undefined && (changes.isHidden ? 'CONTENT_HIDDEN' : 'CONTENT_UNHIDDEN'),
+      changes.isLocked !== undefined && (changes.isLocked ? 'POST_LOCKED' : 'POST_UNLOCKED'),
+      changes.isPinned !== undefined && (changes.isPinned ? 'POST_PINNED' : 'POST_UNPINNED')
+    ].filter((action): action is string => Boolean(action));
+
+    for (const action of auditActions) {
+      await auditLogger.logModerationEvent(moderatorId, action, 'post', postId, communityId, state.reason);
+    }
+
+    socketServiceInstance?.broadcastContentModerated(communityId, {
+      contentType: 'post',
+      contentId: postId,
+      postId,
+      ...changes
+    });
+
+    return updated;
+  }
+
+  /**
+   * Hide or restore a comment. Replies stay attached either way.
+   */
+  static async updateCommentState(communityId: string, moderatorId: string, commentId: string, state: CommentModerationState) {
+    const comment = await prisma.comment.findFirst({
+      where: { id: commentId, post: { communityId } },
+      select: { id: true, postId: true, isHidden: true }
+    });
+
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    if (comment.isHidden === state.isHidden) {
+      return comment;
+    }
+
+    const updated = await prisma.comment.update({
+      where: { id: commentId },
+      data: { isHidden: state.isHidden },
+      select: { id: true, postId: true, isHidden: true }
+    });
+
+    await auditLogger.logModerationEvent(
+      moderatorId,
+      state.isHidden ? 'CONTENT_HIDDEN' : 'CONTENT_UNHIDDEN',
+      'comment',
+      commentId,
+      communityId,
+      state.reason
+    );
+
+    socketServiceInstance?.broadcastContentModerated(communityId, {
+      contentType: 'comment',
+      contentId: commentId,
+      postId: comment.postId,
+      isHidden: state.isHidden
+    });
+
+    return updated;
+  }
+
+  private static async findContent(communityId: string, contentType: ModerationContentType, contentId: string) {
+    if (contentType === 'post') {
+      const post = await prisma.post.findFirst({
+        where: { id: contentId, communityId },
+        select: { id: true, authorId: true, title: true, content: true }
+      });
+
+      if (!post) {
+        throw new Error('Post not found');
+      }
+
+      return post;
+    }
+
+    const comment = await prisma.comment.findFirst({
+      where: { id: contentId, post: { communityId } },
+      select: { id: true, authorId: true, content: true }
+    });
+
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    return comment;
+  }
+
+  private static async findOpenReportIds(contentType: ModerationContentType, contentId: string) {
+    const reports = await prisma.contentReport.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        ...(contentType === 'post' ? { postId: contentId, commentId: null } : { commentId: contentId })
+      },
+      select: { id: true }
+    });
+
+    if (reports.length === 0) {
+      throw new Error('No open reports for this content');
+    }
+
+    return reports.map(report => report.id);
+  }
+
+  private static async deleteContent(contentType: ModerationContentType, contentId: string) {
+    if (contentType === 'post') {
+      await prisma.post.delete({ where: { id: contentId } });
+      return;
+    }
+
+    await PostService.removeComment(contentId);
+  }
+
+  private static getAuditAction(action: ModerationAction): string {
+    switch (action) {
+      case 'delete':
+        return 'CONTENT_DELETED';
+      case 'warn':
+        return 'AUTHOR_WARNED';
+      default:
+        return 'REPORTS_RESOLVED';
+    }
+  }
+}
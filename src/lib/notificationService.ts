@@ -1,5 +1,6 @@
 import prisma from './prisma';
 import { emailService, EmailOptions } from './emailService';
+import { paginate, CursorPageOptions } from './pagination';
 
 // Forward declaration to avoid circular dependency
 interface ISocketService {
@@ -31,6 +32,9 @@ export enum NotificationType {
   ACHIEVEMENT_EARNED = 'ACHIEVEMENT_EARNED',
   LESSON_COMPLETED = 'LESSON_COMPLETED',
   WEEKLY_DIGEST = 'WEEKLY_DIGEST',
+  MODERATION_WARNING = 'MODERATION_WARNING',
+  MENTION = 'MENTION',
+  TRIAL_ENDING = 'TRIAL_ENDING',
 }
 
 class NotificationService {
@@ -89,23 +93,23 @@ class NotificationService {
 
   async getUserNotifications(
     userId: string,
-    options: {
-      limit?: number;
-      offset?: number;
+    options: CursorPageOptions & {
       unreadOnly?: boolean;
     } = {}
   ) {
-    const { limit = 20, offset = 0, unreadOnly = false } = options;
+    const { cursor, limit, unreadOnly = false } = options;
 
-    return prisma.notification.findMany({
-      where: {
-        userId,
-        ...(unreadOnly && { isRead: false }),
-      },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset,
-    });
+    return paginate([{ field: 'createdAt', direction: 'desc' }], { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(unreadOnly && { isRead: false }),
+          ...cursorWhere,
+        },
+        orderBy,
+        take,
+      })
+    );
   }
 
   async markAsRead(notificationId: string, userId: string): Promise<boolean> {
@@ -235,6 +239,8 @@ class NotificationService {
         return prefs.postLikes;
       case NotificationType.COMMENT_REPLY:
         return prefs.commentReplies;
+      case NotificationType.MENTION:
+        return prefs.mentions;
       case NotificationType.COURSE_UPDATE:
         return prefs.courseUpdates;
       case NotificationType.COMMUNITY_ANNOUNCEMENT:
@@ -252,10 +258,13 @@ class NotificationService {
     switch (type) {
       case NotificationType.POST_LIKE:
       case NotificationType.COMMENT_REPLY:
+      case NotificationType.MENTION:
         return data.postId ? `${baseUrl}/posts/${data.postId}` : undefined;
       case NotificationType.COURSE_UPDATE:
         return data.courseId ? `${baseUrl}/courses/${data.courseId}` : undefined;
       case NotificationType.COMMUNITY_ANNOUNCEMENT:
+      case NotificationType.MODERATION_WARNING:
+      case NotificationType.TRIAL_ENDING:
         return data.communityId ? `${baseUrl}/communities/${data.communityId}` : undefined;
       default:
         return undefined;
@@ -283,6 +292,7 @@ class NotificationService {
     inAppEnabled: boolean;
     postLikes: boolean;
     commentReplies: boolean;
+    mentions: boolean;
     courseUpdates: boolean;
     communityAnnouncements: boolean;
     weeklyDigest: boolean;
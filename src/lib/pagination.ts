@@ -0,0 +1,231 @@
+/**
+ * Shared keyset (cursor) pagination for list endpoints.
+ *
+ * Cursors are opaque base64url tokens holding the sort key values of the last item
+ * on a page. Every sort ends with `id` as a tiebreaker, so pages stay stable while
+ * new rows are inserted and no item is skipped or repeated.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface CursorSortKey {
+  field: string;
+  direction: SortDirection;
+  // Set on nullable fields so rows without a value sort after all the others
+  nulls?: 'last';
+}
+
+export interface CursorPageOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+type CursorValue = string | number | boolean | Date | null;
+
+type CursorOrderBy = Record<string, SortDirection | { sort: SortDirection; nulls: 'last' }>;
+
+interface CursorQuery {
+  cursorWhere: Record<string, unknown>;
+  orderBy: CursorOrderBy[];
+  take: number;
+}
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Fetch one page of rows sorted by `sortKeys`. The query callback must apply
+ * `cursorWhere` (alongside its own filters), `orderBy` and `take`.
+ */
+export async function paginate<T extends Record<string, any>>(
+  sortKeys: CursorSortKey[],
+  options: CursorPageOptions,
+  query: (args: CursorQuery) => Promise<T[]>
+): Promise<CursorPage<T>> {
+  const keys = withIdTiebreaker(sortKeys);
+  const limit = options.limit || DEFAULT_LIMIT;
+  const after = options.cursor ? decodeCursor(options.cursor, keys) : null;
+
+  const rows = await query({
+    cursorWhere: after ? buildCursorWhere(keys, after) : {},
+    orderBy: buildOrderBy(keys),
+    take: limit + 1
+  });
+
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(keys, items[items.length - 1]) : null,
+    hasMore
+  };
+}
+
+/**
+ * One page of rows that are already loaded, such as grouped results that can't be
+ * filtered in the database. Rows are sorted here, and cursors work as in `paginate`.
+ */
+export function paginateRows<T extends Record<string, any>>(
+  rows: T[],
+  sortKeys: CursorSortKey[],
+  options: CursorPageOptions
+): CursorPage<T> {
+  const keys = withIdTiebreaker(sortKeys);
+  const limit = options.limit || DEFAULT_LIMIT;
+  const after = options.cursor ? decodeCursor(options.cursor, keys) : null;
+  const valuesOf = (row: T) => keys.map(key => row[key.field] as CursorValue);
+
+  const sorted = [...rows].sort((a, b) => compareValues(keys, valuesOf(a), valuesOf(b)));
+  const remaining = after ? sorted.filter(row => compareValues(keys, valuesOf(row), after) > 0) : sorted;
+
+  const hasMore = remaining.length > limit;
+  const items = remaining.slice(0, limit);
+
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(keys, items[items.length - 1]) : null,
+    hasMore
+  };
+}
+
+/**
+ * Prisma orderBy for the sort keys, including the id tiebreaker
+ */
+export function buildOrderBy(sortKeys: CursorSortKey[]): CursorOrderBy[] {
+  return withIdTiebreaker(sortKeys).map(key => ({
+    [key.field]: key.nulls ? { sort: key.direction, nulls: key.nulls } : key.direction
+  }));
+}
+
+/**
+ * Encode the position just after `row`
+ */
+export function encodeCursor(sortKeys: CursorSortKey[], row: Record<string, any>): string {
+  const keys = withIdTiebreaker(sortKeys);
+  const payload = {
+    s: signature(keys),
+    v: keys.map(key => {
+      const value = row[key.field] as CursorValue;
+      return value instanceof Date ? { d: value.toISOString() } : value;
+    })
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor made for the same sort keys, or throw 'Invalid cursor'
+ */
+export function decodeCursor(cursor: string, sortKeys: CursorSortKey[]): CursorValue[] {
+  const keys = withIdTiebreaker(sortKeys);
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    // A cursor from a different sort order would silently skip rows
+    if (decoded.s !== signature(keys) || !Array.isArray(decoded.v) || decoded.v.length !== keys.length) {
+      throw new Error('Invalid cursor');
+    }
+
+    return decoded.v.map((value: any) => {
+      if (value && typeof value === 'object') {
+        const date = new Date(value.d);
+        if (isNaN(date.getTime())) {
+          throw new Error('Invalid cursor');
+        }
+        return date;
+      }
+      return value;
+    });
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
+
+function withIdTiebreaker(sortKeys: CursorSortKey[]): CursorSortKey[] {
+  if (sortKeys.some(key => key.field === 'id')) {
+    return sortKeys;
+  }
+
+  const last = sortKeys[sortKeys.length - 1];
+  return [...sortKeys, { field: 'id', direction: last?.direction ?? 'asc' }];
+}
+
+function signature(keys: CursorSortKey[]): string {
+  return keys.map(key => `${key.field}:${key.direction}${key.nulls ? ':nulls-last' : ''}`).join(',');
+}
+
+/**
+ * Order of two rows' sort key values; rows without a value sort last, as with `nulls: 'last'`
+ */
+function compareValues(keys: CursorSortKey[], left: CursorValue[], right: CursorValue[]): number {
+  for (let index = 0; index < keys.length; index++) {
+    const a = left[index] instanceof Date ? (left[index] as Date).getTime() : left[index];
+    const b = right[index] instanceof Date ? (right[index] as Date).getTime() : right[index];
+
+    if (a === b) {
+      continue;
+    }
+    if (a === null || b === null) {
+      return a === null ? 1 : -1;
+    }
+
+    const order = a < b ? -1 : 1;
+    return keys[index].direction === 'desc' ? -order : order;
+  }
+
+  return 0;
+}
+
+/**
+ * Rows after the cursor: equal on every earlier key and strictly past it on one
+ */
+function buildCursorWhere(keys: CursorSortKey[], values: CursorValue[]): Record<string, unknown> {
+  const branches: Record<string, unknown>[] = [];
+
+  keys.forEach((key, index) => {
+    const past = pastValue(key, values[index]);
+    if (!past) {
+      return;
+    }
+
+    const equalPrefix = keys.slice(0, index).map((prefixKey, prefixIndex) => ({
+      [prefixKey.field]: values[prefixIndex]
+    }));
+
+    // Rows without a value come after every row that has one
+    const pastCondition = key.nulls && values[index] !== null
+      ? { OR: [{ [key.field]: past }, { [key.field]: null }] }
+      : { [key.field]: past };
+
+    branches.push({ AND: [...equalPrefix, pastCondition] });
+  });
+
+  // Nothing can come after the last row of the last page
+  return branches.length > 0 ? { OR: branches } : { id: { in: [] } };
+}
+
+/**
+ * Filter for values strictly past `value`. Prisma booleans have no lt/gt, so
+ * they're handled as the one remaining value, or nothing.
+ */
+function pastValue(key: CursorSortKey, value: CursorValue): unknown {
+  if (typeof value === 'boolean') {
+    if (key.direction === 'desc') {
+      return value ? { equals: false } : null;
+    }
+    return value ? null : { equals: true };
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  return key.direction === 'desc' ? { lt: value } : { gt: value };
+}
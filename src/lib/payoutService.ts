@@ -0,0 +1,419 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { RevenueService, PayoutStatus } from './revenueService';
+import { paginate, CursorPageOptions } from './pagination';
+
+export const PAYOUT_STATUSES = ['pending', 'paid', 'held'] as const;
+export const STATEMENT_FORMATS = ['csv', 'pdf'] as const;
+
+export type LedgerEntryType = 'earning' | 'refund' | 'chargeback' | 'chargeback_reversal';
+export type LedgerEntrySource = 'subscription' | 'course_purchase';
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+export interface LedgerEntryData {
+  communityId: string;
+  type: LedgerEntryType;
+  source: LedgerEntrySource;
+  amount: number;
+  currency: string;
+  stripeObjectId: string;
+  description?: string;
+  occurredAt?: Date;
+}
+
+export interface PayoutPeriodQueryOptions extends CursorPageOptions {
+  creatorId?: string;
+  communityId?: string;
+  status?: PayoutStatus;
+  closed?: boolean;
+}
+
+export interface PayoutStatement {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const periodInclude = {
+  community: { select: { id: true, name: true, creatorId: true } },
+  entries: { orderBy: { occurredAt: 'asc' } }
+} satisfies Prisma.PayoutPeriodInclude;
+
+// Page layout for PDF statements, in points (US Letter)
+const PDF_PAGE_WIDTH = 612;
+const PDF_PAGE_HEIGHT = 792;
+const PDF_MARGIN = 50;
+const PDF_LINE_HEIGHT = 14;
+const PDF_LINES_PER_PAGE = Math.floor((PDF_PAGE_HEIGHT - PDF_MARGIN * 2) / PDF_LINE_HEIGHT);
+
+/**
+ * Creator payout ledger.
+ *
+ * Stripe webhooks record earnings, refunds and chargebacks as ledger entries in the
+ * community's payout period for the month they happened, with one period per currency.
+ * Closing a period freezes its totals; anything that arrives for a closed period is
+ * booked into the current one instead. Booking and closing both lock the period row,
+ * so an entry can't slip into a period between its totals being summed and frozen.
+ * Fees are worked out by RevenueService.summarizePayoutPeriod.
+ */
+export class PayoutService {
+  /**
+   * Book a money movement. Entries are unique per Stripe object, so recording the
+   * same one again is a no-op.
+   */
+  static async recordEntry(data: LedgerEntryData) {
+    if (data.amount <= 0) {
+      return null;
+    }
+
+    const occurredAt = data.occurredAt ?? new Date();
+    const currency = data.currency.toLowerCase();
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        let period = await this.lockPeriodFor(tx, data.communityId, occurredAt, currency);
+
+        if (period.closedAt) {
+          period = await this.lockPeriodFor(tx, data.communityId, new Date(), currency);
+        }
+
+        return tx.payoutLedgerEntry.create({
+          data: {
+            periodId: period.id,
+            type: data.type,
+            source: data.source,
+            amount: data.amount,
+            currency,
+            stripeObjectId: data.stripeObjectId,
+            description: data.description,
+            occurredAt
+          }
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Total already booked for a type against Stripe objects sharing a prefix, used to
+   * turn Stripe's cumulative refund amounts into increments
+   */
+  static async getRecordedAmount(type: LedgerEntryType, stripeObjectIdPrefix: string): Promise<number> {
+    const totals = await prisma.payoutLedgerEntry.aggregate({
+      where: { type, stripeObjectId: { startsWith: stripeObjectIdPrefix } },
+      _sum: { amount: true }
+    });
+
+    return Number(totals._sum.amount ?? 0);
+  }
+
+  /**
+   * The community a ledger entry was booked for, looked up by its Stripe object
+   */
+  static async getEntryCommunityId(type: LedgerEntryType, stripeObjectId: string): Promise<string | null> {
+    const entry = await prisma.payoutLedgerEntry.findUnique({
+      where: { type_stripeObjectId: { type, stripeObjectId } },
+      select: { period: { select: { communityId: true } } }
+    });
+
+    return entry?.period.communityId ?? null;
+  }
+
+  /**
+   * List payout periods with their totals, newest first
+   */
+  static async getPeriods(options: PayoutPeriodQueryOptions = {}) {
+    const { creatorId, communityId, status, closed, cursor, limit } = options;
+
+    const where: Prisma.PayoutPeriodWhereInput = {
+      ...(creatorId && { community: { creatorId } }),
+      ...(communityId && { communityId }),
+      ...(status && { status }),
+      ...(closed !== undefined && { closedAt: closed ? { not: null } : null })
+    };
+
+    const page = await paginate([{ field: 'periodStart', direction: 'desc' }], { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
+      prisma.payoutPeriod.findMany({
+        where: { AND: [where, cursorWhere] },
+        include: {
+          community: { select: { id: true, name: true, creatorId: true } },
+          entries: { select: { type: true, amount: true } }
+        },
+        orderBy,
+        take
+      })
+    );
+
+    return {
+      ...page,
+      items: page.items.map(period => ({
+        ...RevenueService.summarizePayoutPeriod(period),
+        communityName: period.community.name,
+        currency: period.currency,
+        holdReason: period.holdReason,
+        paidAt: period.paidAt
+      }))
+    };
+  }
+
+  /**
+   * Get a period with its ledger entries
+   */
+  static async getPeriod(periodId: string) {
+    const period = await prisma.payoutPeriod.findUnique({
+      where: { id: periodId },
+      include: periodInclude
+    });
+
+    if (!period) {
+      throw new Error('Payout period not found');
+    }
+
+    return {
+      ...period,
+      summary: RevenueService.summarizePayoutPeriod(period)
+    };
+  }
+
+  /**
+   * Freeze a finished period's totals. Later activity goes into the current period.
+   */
+  static async closePeriod(periodId: string) {
+    await prisma.$transaction(async (tx) => {
+      await this.lockPeriod(tx, periodId);
+
+      const period = await tx.payoutPeriod.findUnique({
+        where: { id: periodId },
+        include: periodInclude
+      });
+
+      if (!period) {
+        throw new Error('Payout period not found');
+      }
+
+      if (period.closedAt) {
+        throw new Error('Payout period is already closed');
+      }
+
+      if (period.periodEnd > new Date()) {
+        throw new Error('Payout period has not ended yet');
+      }
+
+      const summary = RevenueService.summarizePayoutPeriod(period);
+
+      await tx.payoutPeriod.update({
+        where: { id: periodId },
+        data: {
+          grossRevenue: summary.grossRevenue,
+          refunds: summary.refunds,
+          chargebacks: summary.chargebacks,
+          platformFee: summary.platformFee,
+          netPayout: summary.creatorEarnings,
+          closedAt: new Date()
+        }
+      });
+    });
+
+    return this.getPeriod(periodId);
+  }
+
+  /**
+   * Close every period that has ended. Run by the job queue.
+   */
+  static async closeEndedPeriods(): Promise<{ closed: number }> {
+    const ended = await prisma.payoutPeriod.findMany({
+      where: { closedAt: null, periodEnd: { lte: new Date() } },
+      select: { id: true }
+    });
+
+    let closed = 0;
+
+    for (const period of ended) {
+      try {
+        await this.closePeriod(period.id);
+        closed++;
+      } catch (error) {
+        console.error(`Failed to close payout period ${period.id}:`, error);
+      }
+    }
+
+    return { closed };
+  }
+
+  /**
+   * Mark a closed period's payout as pending, paid or held
+   */
+  static async updateStatus(periodId: string, status: PayoutStatus, holdReason?: string) {
+    const period = await prisma.payoutPeriod.findUnique({ where: { id: periodId } });
+
+    if (!period) {
+      throw new Error('Payout period not found');
+    }
+
+    if (!period.closedAt) {
+      throw new Error('Payout period is still open');
+    }
+
+    await prisma.payoutPeriod.update({
+      where: { id: periodId },
+      data: {
+        status,
+        holdReason: status === 'held' ? holdReason ?? null : null,
+        paidAt: status === 'paid' ? period.paidAt ?? new Date() : null
+      }
+    });
+
+    return this.getPeriod(periodId);
+  }
+
+  /**
+   * Render a period's statement for download
+   */
+  static async getStatement(periodId: string, format: StatementFormat): Promise<PayoutStatement> {
+    const period = await this.getPeriod(periodId);
+    const month = period.periodStart.toISOString().slice(0, 7);
+    const filename = `payout-statement-${period.community.id}-${month}.${format}`;
+
+    if (format === 'csv') {
+      return { filename, contentType: 'text/csv', body: Buffer.from(this.renderCsv(period)) };
+    }
+
+    return { filename, contentType: 'application/pdf', body: this.renderPdf(this.statementLines(period)) };
+  }
+
+  /**
+   * Get or create the period a date falls in and lock it for the rest of the transaction
+   */
+  private static async lockPeriodFor(tx: Prisma.TransactionClient, communityId: string, date: Date, currency: string) {
+    const periodStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    const periodEnd = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+    const { id } = await tx.payoutPeriod.upsert({
+      where: { communityId_periodStart_currency: { communityId, periodStart, currency } },
+      create: { communityId, periodStart, periodEnd, currency },
+      update: {},
+      select: { id: true }
+    });
+
+    await this.lockPeriod(tx, id);
+
+    // Re-read under the lock: the period may have closed since the upsert
+    return tx.payoutPeriod.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, closedAt: true }
+    });
+  }
+
+  private static async lockPeriod(tx: Prisma.TransactionClient, periodId: string) {
+    await tx.$queryRaw`SELECT id FROM payout_periods WHERE id = ${periodId} FOR UPDATE`;
+  }
+
+  private static renderCsv(period: Awaited<ReturnType<typeof PayoutService.getPeriod>>): string {
+    const { summary } = period;
+    const rows: (string | number)[][] = [
+      ['Community', period.community.name],
+      ['Period start', period.periodStart.toISOString()],
+      ['Period end', period.periodEnd.toISOString()],
+      ['Currency', period.currency.toUpperCase()],
+      ['Status', period.closedAt ? summary.status : 'open'],
+      [],
+      ['Date', 'Type', 'Source', 'Description', 'Amount', 'Stripe reference'],
+      ...period.entries.map(entry => [
+        entry.occurredAt.toISOString(),
+        entry.type,
+        entry.source,
+        entry.description ?? '',
+        (entry.type === 'earning' || entry.type === 'chargeback_reversal' ? 1 : -1) * Number(entry.amount),
+        entry.stripeObjectId
+      ]),
+      [],
+      ['Gross revenue', summary.grossRevenue.toFixed(2)],
+      ['Refunds', summary.refunds.toFixed(2)],
+      ['Chargebacks', summary.chargebacks.toFixed(2)],
+      ['Platform fee', summary.platformFee.toFixed(2)],
+      ['Net payout', summary.creatorEarnings.toFixed(2)]
+    ];
+
+    return rows.map(row => row.map(cell => this.csvCell(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private static csvCell(value: string | number): string {
+    const text = String(value);
+    // Quote anything with separators, and neutralise spreadsheet formulas (but not negative amounts)
+    const safe = /^[=+\-@]/.test(text) && isNaN(Number(text)) ? `'${text}` : text;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private static statementLines(period: Awaited<ReturnType<typeof PayoutService.getPeriod>>): string[] {
+    const { summary } = period;
+    const currency = period.currency.toUpperCase();
+    const money = (amount: number) => `${amount.toFixed(2)} ${currency}`;
+
+    return [
+      'Payout statement',
+      '',
+      `Community: ${period.community.name}`,
+      `Period: ${period.periodStart.toISOString().slice(0, 10)} to ${period.periodEnd.toISOString().slice(0, 10)}`,
+      `Status: ${period.closedAt ? summary.status : 'open'}`,
+      '',
+      ...period.entries.map(entry =>
+        `${entry.occurredAt.toISOString().slice(0, 10)}  ${entry.type.padEnd(20)} ${entry.source.padEnd(16)} ${money(Number(entry.amount))}`
+      ),
+      '',
+      `Gross revenue: ${money(summary.grossRevenue)}`,
+      `Refunds: ${money(summary.refunds)}`,
+      `Chargebacks: ${money(summary.chargebacks)}`,
+      `Platform fee (${RevenueService.PLATFORM_FEE_PERCENTAGE * 100}%): ${money(summary.platformFee)}`,
+      `Net payout: ${money(summary.creatorEarnings)}`
+    ];
+  }
+
+  /**
+   * Minimal text-only PDF: one Courier content stream per page
+   */
+  private static renderPdf(lines: string[]): Buffer {
+    const pages: string[][] = [];
+    for (let i = 0; i < lines.length; i += PDF_LINES_PER_PAGE) {
+      pages.push(lines.slice(i, i + PDF_LINES_PER_PAGE));
+    }
+
+    // Objects 1-3 are the catalog, page tree and font; each page adds a page and its content
+    const objects: string[] = [];
+    const pageIds = pages.map((_, index) => 4 + index * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>');
+
+    pages.forEach((pageLines, index) => {
+      const text = pageLines
+        .map(line => `(${line.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1')}) Tj T*`)
+        .join('\n');
+      const stream = `BT /F1 10 Tf ${PDF_LINE_HEIGHT} TL ${PDF_MARGIN} ${PDF_PAGE_HEIGHT - PDF_MARGIN} Td\n${text}\nET`;
+
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`);
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+      const offset = Buffer.byteLength(pdf);
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = Buffer.byteLength(pdf);
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+  }
+}
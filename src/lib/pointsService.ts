@@ -1,9 +1,14 @@
 import { PrismaClient } from '@prisma/client';
 import prisma from './prisma';
+import { redisService, CacheKeys, CacheTTL } from './redis';
+import { AchievementService } from './achievementService';
+import { LevelService, CommunityLevel } from './levelService';
+import { paginate, CursorPageOptions } from './pagination';
 
 // Forward declaration to avoid circular dependency
 interface ISocketService {
   broadcastPointsAwarded(userId: string, communityId: string, points: number, reason: string): void;
+  broadcastLevelUp(userId: string, communityId: string, level: CommunityLevel): void;
 }
 
 // Store socket service instance
@@ -19,17 +24,26 @@ export interface PointsRule {
   description: string;
 }
 
+export interface CommunityPointsRule extends PointsRule {
+  enabled: boolean;
+  isCustom: boolean;
+}
+
+export interface UpdatePointsRuleData {
+  points?: number;
+  enabled?: boolean;
+}
+
 export interface CreatePointsTransactionData {
   userId: string;
   communityId: string;
   points: number;
   reason: string;
+  action?: string;
   referenceId?: string;
 }
 
-export interface PointsQueryOptions {
-  limit?: number;
-  offset?: number;
+export interface PointsQueryOptions extends CursorPageOptions {
   userId?: string;
   communityId?: string;
   startDate?: Date;
@@ -96,6 +110,11 @@ export const DEFAULT_POINT_RULES: Record<string, PointsRule> = {
     action: 'COMMUNITY_JOINED',
     points: 5,
     description: 'Joined a community'
+  },
+  POLL_VOTED: {
+    action: 'POLL_VOTED',
+    points: 1,
+    description: 'Voted in a poll'
   }
 };
 
@@ -151,6 +170,7 @@ export class PointsService {
           communityId: data.communityId,
           points: data.points,
           reason: data.reason,
+          action: data.action,
           referenceId: data.referenceId
         },
         include: {
@@ -202,9 +222,47 @@ export class PointsService {
       );
     }
 
+    try {
+      await this.checkLevelUp(data.userId, data.communityId, data.points);
+    } catch (error) {
+      // Log error but don't fail the points award
+      console.error('Failed to check level up:', error);
+    }
+
+    try {
+      await AchievementService.checkAndAwardAchievements(
+        data.userId,
+        data.communityId,
+        transaction.transaction.id
+      );
+    } catch (error) {
+      // Log error but don't fail the points award
+      console.error('Failed to check achievements:', error);
+    }
+
     return transaction;
   }
 
+  /**
+   * Broadcast a level-up if the points just awarded moved the user to a higher community level
+   */
+  private static async checkLevelUp(userId: string, communityId: string, pointsAwarded: number) {
+    if (!socketServiceInstance || pointsAwarded <= 0) {
+      return;
+    }
+
+    const [userLevel, levels] = await Promise.all([
+      LevelService.getUserLevel(userId, communityId),
+      LevelService.getCommunityLevels(communityId)
+    ]);
+
+    const previous = LevelService.getLevelForPoints(levels, userLevel.points - pointsAwarded);
+
+    if (userLevel.current && userLevel.current.level > (previous?.level || 0)) {
+      socketServiceInstance.broadcastLevelUp(userId, communityId, userLevel.current);
+    }
+  }
+
   /**
    * Award points based on predefined rules
    */
@@ -215,11 +273,17 @@ export class PointsService {
     referenceId?: string,
     customPoints?: number
   ) {
-    const rule = DEFAULT_POINT_RULES[action];
+    const rules = await this.getCommunityPointRules(communityId);
+    const rule = rules[action];
     if (!rule && !customPoints) {
       throw new Error(`Unknown action: ${action}`);
     }
 
+    // The community has switched this action off
+    if (rule && !rule.enabled && !customPoints) {
+      return null;
+    }
+
     const points = customPoints || rule.points;
     const reason = rule?.description || `Custom action: ${action}`;
 
@@ -228,17 +292,89 @@ export class PointsService {
       communityId,
       points,
       reason,
+      action,
       referenceId
     });
   }
 
+  /**
+   * Get the effective point rules for a community: its overrides merged over the defaults
+   */
+  static async getCommunityPointRules(communityId: string): Promise<Record<string, CommunityPointsRule>> {
+    return redisService.cache(CacheKeys.pointsRules(communityId), async () => {
+      const overrides = await prisma.communityPointsRule.findMany({
+        where: { communityId }
+      });
+
+      const rules: Record<string, CommunityPointsRule> = {};
+      for (const [action, rule] of Object.entries(DEFAULT_POINT_RULES)) {
+        const override = overrides.find(o => o.action === action);
+        rules[action] = {
+          ...rule,
+          points: override ? override.points : rule.points,
+          enabled: override ? override.enabled : true,
+          isCustom: !!override
+        };
+      }
+
+      return rules;
+    }, CacheTTL.MEDIUM);
+  }
+
+  /**
+   * Override the point value of an action for a community, or switch it on/off
+   */
+  static async updateCommunityPointRule(communityId: string, action: string, data: UpdatePointsRuleData) {
+    const defaultRule = DEFAULT_POINT_RULES[action];
+    if (!defaultRule) {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    const rule = await prisma.communityPointsRule.upsert({
+      where: {
+        communityId_action: { communityId, action }
+      },
+      update: {
+        ...(data.points !== undefined && { points: data.points }),
+        ...(data.enabled !== undefined && { enabled: data.enabled })
+      },
+      create: {
+        communityId,
+        action,
+        points: data.points ?? defaultRule.points,
+        enabled: data.enabled ?? true
+      }
+    });
+
+    await redisService.del(CacheKeys.pointsRules(communityId));
+
+    return rule;
+  }
+
+  /**
+   * Remove a community's override so the action falls back to the default rule
+   */
+  static async resetCommunityPointRule(communityId: string, action: string) {
+    if (!DEFAULT_POINT_RULES[action]) {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    const result = await prisma.communityPointsRule.deleteMany({
+      where: { communityId, action }
+    });
+
+    await redisService.del(CacheKeys.pointsRules(communityId));
+
+    return { reset: result.count > 0 };
+  }
+
   /**
    * Get user's points history with filtering
    */
   static async getUserPointsHistory(userId: string, options: PointsQueryOptions = {}) {
     const {
+      cursor,
       limit = 50,
-      offset = 0,
       communityId,
       startDate,
       endDate
@@ -256,12 +392,11 @@ export class PointsService {
       if (endDate) where.createdAt.lte = endDate;
     }
 
-    const [transactions, total] = await Promise.all([
+    return paginate([{ field: 'createdAt', direction: 'desc' }], { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
       prisma.pointsTransaction.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        skip: offset,
-        take: limit,
+        where: { AND: [where, cursorWhere] },
+        orderBy,
+        take,
         include: {
           community: {
             select: {
@@ -271,19 +406,8 @@ export class PointsService {
             }
           }
         }
-      }),
-      prisma.pointsTransaction.count({ where })
-    ]);
-
-    return {
-      transactions,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
-    };
+      })
+    );
   }
 
   /**
@@ -493,6 +617,11 @@ export class PointsService {
    * Award daily login bonus (only once per day)
    */
   static async awardDailyLoginBonus(userId: string, communityId: string) {
+    const rules = await this.getCommunityPointRules(communityId);
+    if (!rules.DAILY_LOGIN.enabled) {
+      throw new Error('Daily login bonus is disabled for this community');
+    }
+
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
@@ -504,7 +633,7 @@ export class PointsService {
       where: {
         userId,
         communityId,
-        reason: DEFAULT_POINT_RULES.DAILY_LOGIN.description,
+        action: 'DAILY_LOGIN',
         createdAt: {
           gte: today,
           lt: tomorrow
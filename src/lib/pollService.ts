@@ -0,0 +1,171 @@
+import prisma from './prisma';
+import { paginate, CursorPageOptions } from './pagination';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+export interface CreatePollData {
+  options: string[];
+  multipleChoice?: boolean;
+  isAnonymous?: boolean;
+  closesAt?: Date | null;
+}
+
+export interface PollVoterOptions extends CursorPageOptions {
+  optionId?: string;
+}
+
+export interface PollResults {
+  postId: string;
+  totalVotes: number;
+  voterCount: number;
+  isClosed: boolean;
+  options: { id: string; voteCount: number }[];
+}
+
+// Forward declaration to avoid circular dependency
+interface ISocketService {
+  broadcastPollUpdated(communityId: string, results: PollResults): void;
+}
+
+let socketServiceInstance: ISocketService | null = null;
+
+export function setPollSocketService(socketService: ISocketService) {
+  socketServiceInstance = socketService;
+}
+
+type PollWithOptions = {
+  id: string;
+  postId: string;
+  multipleChoice: boolean;
+  isAnonymous: boolean;
+  closesAt: Date | null;
+  voterCount: number;
+  options: { id: string; text: string; position: number; voteCount: number }[];
+  votes?: { optionId: string }[];
+};
+
+/**
+ * Polls attached to posts of type "poll". Voting itself goes through PostService,
+ * which owns the post access checks.
+ */
+export class PollService {
+  /**
+   * Nested create for a new poll post
+   */
+  static buildCreate(data: CreatePollData) {
+    if (data.closesAt && data.closesAt <= new Date()) {
+      throw new Error('Poll close time must be in the future');
+    }
+
+    return {
+      multipleChoice: data.multipleChoice ?? false,
+      isAnonymous: data.isAnonymous ?? false,
+      closesAt: data.closesAt ?? null,
+      options: {
+        create: data.options.map((text, position) => ({ text, position }))
+      }
+    };
+  }
+
+  /**
+   * Prisma include for a post's poll, with the caller's own votes
+   */
+  static buildInclude(userId?: string) {
+    return {
+      include: {
+        options: {
+          orderBy: { position: 'asc' as const }
+        },
+        votes: userId ? {
+          where: { userId },
+          select: { optionId: true }
+        } : false
+      }
+    };
+  }
+
+  /**
+   * Poll as returned with its post
+   */
+  static format(poll: PollWithOptions | null | undefined) {
+    if (!poll) {
+      return null;
+    }
+
+    const { votes, ...rest } = poll;
+
+    return {
+      ...rest,
+      totalVotes: poll.options.reduce((sum, option) => sum + option.voteCount, 0),
+      isClosed: this.isClosed(poll),
+      userVotes: (votes || []).map(vote => vote.optionId)
+    };
+  }
+
+  static isClosed(poll: { closesAt: Date | null }): boolean {
+    return poll.closesAt !== null && poll.closesAt <= new Date();
+  }
+
+  /**
+   * Current counts for a poll, safe to send to everyone
+   */
+  static async getResults(pollId: string): Promise<PollResults> {
+    const poll = await prisma.poll.findUniqueOrThrow({
+      where: { id: pollId },
+      include: {
+        options: {
+          orderBy: { position: 'asc' },
+          select: { id: true, voteCount: true }
+        }
+      }
+    });
+
+    return {
+      postId: poll.postId,
+      totalVotes: poll.options.reduce((sum, option) => sum + option.voteCount, 0),
+      voterCount: poll.voterCount,
+      isClosed: this.isClosed(poll),
+      options: poll.options
+    };
+  }
+
+  /**
+   * Page through who voted in a poll, newest first. Anonymous polls never list voters.
+   */
+  static async getVoters(poll: { id: string; isAnonymous: boolean }, options: PollVoterOptions = {}) {
+    if (poll.isAnonymous) {
+      throw new Error('Poll is anonymous');
+    }
+
+    const { optionId, ...pageOptions } = options;
+
+    return paginate([{ field: 'createdAt', direction: 'desc' }], pageOptions, ({ cursorWhere, orderBy, take }) =>
+      prisma.pollVote.findMany({
+        where: { pollId: poll.id, ...(optionId && { optionId }), ...cursorWhere },
+        orderBy,
+        take,
+        select: {
+          id: true,
+          optionId: true,
+          createdAt: true,
+          user: {
+            select: {
+              id: true,
+              username: true,
+              displayName: true,
+              avatarUrl: true
+            }
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * Push new results to the community room
+   */
+  static broadcast(communityId: string, results: PollResults) {
+    socketServiceInstance?.broadcastPollUpdated(communityId, results);
+  }
+}
@@ -1,19 +1,28 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import prisma from './prisma';
 import { PointsService } from './pointsService';
 import { notificationService, NotificationType } from './notificationService';
 import { RecommendationService } from './recommendationService';
+import { MemberSanctionService } from './memberSanctionService';
+import { ContentFilterService } from './contentFilterService';
+import { MentionService } from './mentionService';
+import { ReactionService, ReactionListOptions, LIKE_REACTION } from './reactionService';
+import { PollService, CreatePollData, PollVoterOptions } from './pollService';
+import { paginate, buildOrderBy, CursorPageOptions, CursorSortKey } from './pagination';
 
 export interface CreatePostData {
   title?: string;
   content: string;
-  postType?: 'discussion' | 'announcement';
+  postType?: 'discussion' | 'announcement' | 'poll';
+  publishAt?: Date | null;
+  poll?: CreatePollData; // Required for poll posts
 }
 
 export interface UpdatePostData {
   title?: string;
   content?: string;
   postType?: 'discussion' | 'announcement';
+  publishAt?: Date | null;
 }
 
 export interface CreateCommentData {
@@ -30,14 +39,73 @@ export interface ReportContentData {
   description?: string;
 }
 
-export interface PostQueryOptions {
-  limit?: number;
-  offset?: number;
+export interface PostQueryOptions extends CursorPageOptions {
   search?: string;
-  postType?: 'discussion' | 'announcement';
+  postType?: 'discussion' | 'announcement' | 'poll';
   sortBy?: 'newest' | 'oldest' | 'popular';
 }
 
+export const COMMENT_SORTS = ['top', 'newest', 'oldest'] as const;
+export const MAX_COMMENT_DEPTH = 8;
+
+export type CommentSort = typeof COMMENT_SORTS[number];
+
+export interface CommentTreeOptions extends CursorPageOptions {
+  sort?: CommentSort;
+  depth?: number; // Levels returned, counting the listed comments themselves
+  replyLimit?: number; // Replies included per comment below the first level
+}
+
+const DEFAULT_COMMENT_DEPTH = 3;
+const DEFAULT_REPLY_LIMIT = 3;
+
+const COMMENT_SORT_KEYS: Record<CommentSort, CursorSortKey[]> = {
+  top: [{ field: 'likeCount', direction: 'desc' }, { field: 'createdAt', direction: 'desc' }],
+  newest: [{ field: 'createdAt', direction: 'desc' }],
+  oldest: [{ field: 'createdAt', direction: 'asc' }]
+};
+
+// What each level of a comment tree loads; see buildCommentInclude
+const commentNodeInclude = {
+  author: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      avatarUrl: true
+    }
+  },
+  _count: {
+    select: {
+      replies: true,
+      likes: true
+    }
+  },
+  likes: {
+    select: { reaction: true }
+  }
+} satisfies Prisma.CommentInclude;
+
+type CommentRecord = Prisma.CommentGetPayload<{ include: typeof commentNodeInclude }>;
+
+// Likes are only loaded for signed-in users, and replies only above the deepest level
+type CommentNodeRecord = Omit<CommentRecord, 'likes'> & {
+  likes?: CommentRecord['likes'];
+  replies?: CommentNodeRecord[];
+};
+
+export interface CommentTreeNode extends Omit<CommentRecord, 'content' | 'authorId' | 'author' | 'likes'> {
+  content: string | null;
+  authorId: string | null;
+  author: CommentRecord['author'] | null;
+  isLiked: boolean;
+  userReactions: string[];
+  reactionCounts: Record<string, number>;
+  replyCount: number;
+  replies: CommentTreeNode[];
+  hasMoreReplies: boolean;
+}
+
 export class PostService {
   /**
    * Create a new post in a community
@@ -56,18 +124,46 @@ export class PostService {
       throw new Error('Access denied - not a member of this community');
     }
 
+    await MemberSanctionService.assertCanParticipate(communityId, authorId);
+
     // Only moderators and admins can create announcements
     if (data.postType === 'announcement' && !['moderator', 'admin'].includes(membership.role)) {
       throw new Error('Insufficient permissions to create announcements');
     }
 
+    if (data.publishAt && data.publishAt <= new Date()) {
+      throw new Error('Publish time must be in the future');
+    }
+
+    if ((data.postType === 'poll') !== Boolean(data.poll)) {
+      throw new Error('Poll posts need poll options, and only poll posts can have them');
+    }
+
+    const screening = await ContentFilterService.screen({
+      communityId,
+      authorId,
+      contentType: 'post',
+      text: ContentFilterService.postText({ title: data.title, content: data.content, pollOptions: data.poll?.options })
+    });
+
+    const mentions = await MentionService.resolve(communityId, data.content);
+
     const post = await prisma.post.create({
       data: {
         communityId,
         authorId,
         title: data.title,
-        content: data.content,
-        postType: data.postType || 'discussion'
+        content: mentions.content,
+        postType: data.postType || 'discussion',
+        // Held posts stay hidden until a moderator approves them
+        isHidden: screening.hold,
+        // Scheduled posts are dated to their go-live time so they sort correctly in the feed
+        ...(data.publishAt && {
+          isPublished: false,
+          publishAt: data.publishAt,
+          createdAt: data.publishAt
+        }),
+        ...(data.poll && { poll: { create: PollService.buildCreate(data.poll) } })
       },
       include: {
         author: {
@@ -90,10 +186,21 @@ export class PostService {
             comments: true,
             likes: true
           }
-        }
+        },
+        poll: PollService.buildInclude()
       }
     });
 
+    await ContentFilterService.recordViolations('post', post.id, post.id, screening.violations);
+
+    // Scheduled posts notify when they go live; held posts never reach anyone
+    if (post.isPublished && !post.isHidden) {
+      await MentionService.notifyMentioned(
+        { communityId, authorId, postId: post.id, postTitle: post.title },
+        mentions.userIds
+      );
+    }
+
     // Award points for creating a post
     try {
       // Check if this is user's first post in the community
@@ -112,7 +219,7 @@ export class PostService {
       console.error('Failed to award points or track interests for post creation:', error);
     }
 
-    return post;
+    return { ...post, poll: PollService.format(post.poll) };
   }
 
   /**
@@ -120,8 +227,8 @@ export class PostService {
    */
   static async getCommunityPosts(communityId: string, userId?: string, options: PostQueryOptions = {}) {
     const {
-      limit = 20,
-      offset = 0,
+      cursor,
+      limit,
       search,
       postType,
       sortBy = 'newest'
@@ -148,9 +255,16 @@ export class PostService {
       }
     }
 
-    // Build where clause
+    // Moderators keep seeing hidden posts so they can review and restore them
+    const isModerator = await this.isCommunityModerator(communityId, userId);
+
+    // Build where clause - scheduled posts are only visible to their author
     const where: any = {
-      communityId
+      communityId,
+      ...(!isModerator && { isHidden: false }),
+      AND: [
+        { OR: [{ isPublished: true }, ...(userId ? [{ authorId: userId }] : [])] }
+      ]
     };
 
     if (postType) {
@@ -164,31 +278,30 @@ export class PostService {
       ];
     }
 
-    // Build order by clause
-    let orderBy: any = {};
+    // Build sort keys - pinned posts always come first
+    const sortKeys: CursorSortKey[] = [{ field: 'isPinned', direction: 'desc' }];
     switch (sortBy) {
       case 'oldest':
-        orderBy = { createdAt: 'asc' };
+        sortKeys.push({ field: 'createdAt', direction: 'asc' });
         break;
       case 'popular':
-        orderBy = [
-          { likeCount: 'desc' },
-          { commentCount: 'desc' },
-          { createdAt: 'desc' }
-        ];
+        sortKeys.push(
+          { field: 'likeCount', direction: 'desc' },
+          { field: 'commentCount', direction: 'desc' },
+          { field: 'createdAt', direction: 'desc' }
+        );
         break;
       case 'newest':
       default:
-        orderBy = { createdAt: 'desc' };
+        sortKeys.push({ field: 'createdAt', direction: 'desc' });
         break;
     }
 
-    const [posts, total] = await Promise.all([
+    const page = await paginate(sortKeys, { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
       prisma.post.findMany({
-        where,
+        where: { ...where, AND: [...where.AND, cursorWhere] },
         orderBy,
-        skip: offset,
-        take: limit,
+        take,
         include: {
           author: {
             select: {
@@ -206,28 +319,25 @@ export class PostService {
           },
           likes: userId ? {
             where: { userId },
-            select: { id: true }
-          } : false
+            select: { reaction: true }
+          } : false,
+          poll: PollService.buildInclude(userId)
         }
-      }),
-      prisma.post.count({ where })
-    ]);
+      })
+    );
 
-    // Add isLiked flag for authenticated users
-    const postsWithLikeStatus = posts.map(post => ({
-      ...post,
-      isLiked: userId && post.likes && post.likes.length > 0,
-      likes: undefined // Remove likes array from response
-    }));
+    const reactionCounts = await ReactionService.getReactionCounts('post', page.items.map(post => post.id));
 
+    // Add reaction counts, plus the caller's own reactions when authenticated
     return {
-      posts: postsWithLikeStatus,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
+      ...page,
+      items: page.items.map(post => ({
+        ...post,
+        ...this.formatReactions(post.likes, userId),
+        reactionCounts: reactionCounts.get(post.id),
+        poll: PollService.format(post.poll),
+        likes: undefined // Remove likes array from response
+      }))
     };
   }
 
@@ -262,8 +372,9 @@ export class PostService {
         },
         likes: userId ? {
           where: { userId },
-          select: { id: true }
-        } : false
+          select: { reaction: true }
+        } : false,
+        poll: PollService.buildInclude(userId)
       }
     });
 
@@ -271,6 +382,16 @@ export class PostService {
       throw new Error('Post not found');
     }
 
+    // Scheduled posts stay hidden from everyone but their author until they go live
+    if (!post.isPublished && post.authorId !== userId) {
+      throw new Error('Post not found');
+    }
+
+    // Hidden posts are kept for moderators but gone for everyone else
+    if (post.isHidden && !(await this.isCommunityModerator(post.communityId, userId))) {
+      throw new Error('Post not found');
+    }
+
     // Check access permissions
     if (!post.community.isPublic && userId) {
       const membership = await prisma.communityMembership.findFirst({
@@ -288,9 +409,13 @@ export class PostService {
       throw new Error('Access denied to private community');
     }
 
+    const reactionCounts = await ReactionService.getReactionCounts('post', [post.id]);
+
     return {
       ...post,
-      isLiked: userId && post.likes && post.likes.length > 0,
+      ...this.formatReactions(post.likes, userId),
+      reactionCounts: reactionCounts.get(post.id)!,
+      poll: PollService.format(post.poll),
       likes: undefined // Remove likes array from response
     };
   }
@@ -308,6 +433,11 @@ export class PostService {
               where: { userId, status: 'active' }
             }
           }
+        },
+        poll: {
+          select: {
+            options: { select: { text: true }, orderBy: { position: 'asc' } }
+          }
         }
       }
     });
@@ -325,6 +455,11 @@ export class PostService {
       throw new Error('Insufficient permissions to edit this post');
     }
 
+    // A poll's votes would be orphaned, so polls keep their type
+    if (data.postType && post.postType === 'poll') {
+      throw new Error('Poll posts cannot change type');
+    }
+
     // Only moderators and admins can change post type to announcement
     if (data.postType === 'announcement' && post.authorId !== userId) {
       if (!membership || !['moderator', 'admin'].includes(membership.role)) {
@@ -332,12 +467,46 @@ export class PostService {
       }
     }
 
+    if (data.publishAt !== undefined) {
+      if (post.isPublished) {
+        throw new Error('Post is already published');
+      }
+      if (data.publishAt && data.publishAt <= new Date()) {
+        throw new Error('Publish time must be in the future');
+      }
+    }
+
+    const screening = data.title !== undefined || data.content !== undefined
+      ? await ContentFilterService.screen({
+          communityId: post.communityId,
+          authorId: userId,
+          contentType: 'post',
+          contentId: postId,
+          text: ContentFilterService.postText({
+            title: data.title ?? post.title,
+            content: data.content ?? post.content,
+            pollOptions: post.poll?.options.map(option => option.text)
+          })
+        })
+      : { hold: false, violations: [] };
+
+    const mentions = data.content !== undefined
+      ? await MentionService.resolve(post.communityId, data.content)
+      : null;
+
     const updatedPost = await prisma.post.update({
       where: { id: postId },
       data: {
         title: data.title,
-        content: data.content,
-        postType: data.postType
+        content: mentions?.content,
+        postType: data.postType,
+        ...(screening.hold && { isHidden: true }),
+        // Rescheduling moves the post; clearing the schedule publishes it right away
+        ...(data.publishAt !== undefined && {
+          isPublished: data.publishAt === null,
+          publishAt: data.publishAt,
+          createdAt: data.publishAt || new Date()
+        })
       },
       include: {
         author: {
@@ -360,11 +529,23 @@ export class PostService {
             comments: true,
             likes: true
           }
-        }
+        },
+        poll: PollService.buildInclude(userId)
       }
     });
 
-    return updatedPost;
+    await ContentFilterService.recordViolations('post', postId, postId, screening.violations);
+
+    // Edits only notify newly added mentions; a scheduled post published early notifies everyone
+    if ((mentions || !post.isPublished) && updatedPost.isPublished && !updatedPost.isHidden) {
+      await MentionService.notifyMentioned(
+        { communityId: post.communityId, authorId: userId, postId, postTitle: updatedPost.title },
+        mentions?.userIds ?? MentionService.extractUserIds(updatedPost.content),
+        post.isPublished ? MentionService.extractUserIds(post.content) : []
+      );
+    }
+
+    return { ...updatedPost, poll: PollService.format(updatedPost.poll) };
   }
 
   /**
@@ -405,70 +586,279 @@ export class PostService {
   }
 
   /**
-   * Toggle like on a post
+   * Toggle like on a post. Likes are the "like" reaction.
    */
   static async togglePostLike(postId: string, userId: string) {
+    const { reacted } = await this.togglePostReaction(postId, userId, LIKE_REACTION);
+
+    return reacted
+      ? { liked: true, message: 'Post liked successfully' }
+      : { liked: false, message: 'Post unliked successfully' };
+  }
+
+  /**
+   * Add or take back one of the caller's reactions on a post
+   */
+  static async togglePostReaction(postId: string, userId: string, reaction: string) {
     // Verify post exists and user has access
     const post = await this.getPost(postId, userId);
+    const isLike = reaction === LIKE_REACTION;
 
-    const existingLike = await prisma.postLike.findUnique({
+    const existingReaction = await prisma.postLike.findUnique({
       where: {
-        userId_postId: {
+        userId_postId_reaction: {
           userId,
-          postId
+          postId,
+          reaction
         }
       }
     });
 
-    if (existingLike) {
-      // Unlike the post
+    if (existingReaction) {
       await prisma.$transaction([
         prisma.postLike.delete({
-          where: { id: existingLike.id }
+          where: { id: existingReaction.id }
         }),
-        prisma.post.update({
+        ...(isLike ? [prisma.post.update({
           where: { id: postId },
           data: { likeCount: { decrement: 1 } }
-        })
+        })] : [])
       ]);
-
-      return { liked: false, message: 'Post unliked successfully' };
     } else {
-      // Like the post
+      await ReactionService.assertAvailable(post.communityId, reaction);
+
       await prisma.$transaction([
         prisma.postLike.create({
-          data: { userId, postId }
+          data: { userId, postId, reaction }
         }),
-        prisma.post.update({
+        ...(isLike ? [prisma.post.update({
           where: { id: postId },
           data: { likeCount: { increment: 1 } }
-        })
+        })] : [])
       ]);
 
       // Award points to post author for receiving a like
+      if (isLike) {
+        try {
+          await PointsService.awardPointsForAction(post.authorId, post.communityId, 'POST_LIKED', postId);
+
+          // Send notification to post author (if not liking their own post)
+          if (post.authorId !== userId) {
+            await notificationService.createNotification({
+              userId: post.authorId,
+              type: NotificationType.POST_LIKE,
+              title: 'Your post was liked!',
+              message: `Someone liked your post: "${post.title || 'Untitled'}"`,
+              data: {
+                postId,
+                communityId: post.communityId,
+                likerId: userId
+              }
+            });
+          }
+        } catch (error) {
+          console.error('Failed to award points for post like:', error);
+        }
+      }
+    }
+
+    const reactionCounts = (await ReactionService.getReactionCounts('post', [postId])).get(postId)!;
+
+    ReactionService.broadcast(post.communityId, {
+      contentType: 'post',
+      contentId: postId,
+      postId,
+      userId,
+      reaction,
+      reacted: !existingReaction,
+      reactionCounts
+    });
+
+    return { reaction, reacted: !existingReaction, reactionCounts };
+  }
+
+  /**
+   * Page through who reacted to a post, optionally for one reaction only
+   */
+  static async getPostReactions(postId: string, userId: string | undefined, options: ReactionListOptions = {}) {
+    // Verify post exists and user has access
+    await this.getPost(postId, userId);
+
+    return ReactionService.getReactors('post', postId, options);
+  }
+
+  /**
+   * Set the caller's choices in a poll, replacing any earlier vote
+   */
+  static async votePoll(postId: string, userId: string, optionIds: string[]) {
+    const { poll, communityId } = await this.getVotablePoll(postId, userId);
+    const choices = [...new Set(optionIds)];
+
+    if (!poll.multipleChoice && choices.length > 1) {
+      throw new Error('This poll allows only one choice');
+    }
+
+    if (choices.some(optionId => !poll.options.some(option => option.id === optionId))) {
+      throw new Error('Invalid poll option');
+    }
+
+    const previous = await prisma.$transaction(async (tx) => {
+      const previous = await this.lockPollVotes(tx, poll.id, userId);
+      const added = choices.filter(optionId => !previous.includes(optionId));
+      const removed = previous.filter(optionId => !choices.includes(optionId));
+
+      await tx.pollVote.deleteMany({
+        where: { pollId: poll.id, userId, optionId: { in: removed } }
+      });
+      await tx.pollVote.createMany({
+        data: added.map(optionId => ({ pollId: poll.id, optionId, userId }))
+      });
+
+      for (const optionId of removed) {
+        await tx.pollOption.update({
+          where: { id: optionId },
+          data: { voteCount: { decrement: 1 } }
+        });
+      }
+      for (const optionId of added) {
+        await tx.pollOption.update({
+          where: { id: optionId },
+          data: { voteCount: { increment: 1 } }
+        });
+      }
+
+      if (previous.length === 0) {
+        await tx.poll.update({
+          where: { id: poll.id },
+          data: { voterCount: { increment: 1 } }
+        });
+      }
+
+      return previous;
+    });
+
+    // Points are awarded once per poll, so unvoting and voting again earns nothing
+    if (previous.length === 0) {
       try {
-        await PointsService.awardPointsForAction(post.authorId, post.communityId, 'POST_LIKED', postId);
-        
-        // Send notification to post author (if not liking their own post)
-        if (post.authorId !== userId) {
-          await notificationService.createNotification({
-            userId: post.authorId,
-            type: NotificationType.POST_LIKE,
-            title: 'Your post was liked!',
-            message: `Someone liked your post: "${post.title || 'Untitled'}"`,
-            data: {
-              postId,
-              communityId: post.communityId,
-              likerId: userId
-            }
-          });
+        const alreadyAwarded = await prisma.pointsTransaction.findFirst({
+          where: { userId, communityId, referenceId: poll.id }
+        });
+
+        if (!alreadyAwarded) {
+          await PointsService.awardPointsForAction(userId, communityId, 'POLL_VOTED', poll.id);
         }
       } catch (error) {
-        console.error('Failed to award points for post like:', error);
+        console.error('Failed to award points for poll vote:', error);
+      }
+    }
+
+    const results = await PollService.getResults(poll.id);
+    PollService.broadcast(communityId, results);
+
+    return { ...results, userVotes: choices };
+  }
+
+  /**
+   * Take back all of the caller's votes in a poll
+   */
+  static async removePollVote(postId: string, userId: string) {
+    const { poll, communityId } = await this.getVotablePoll(postId, userId);
+
+    const previous = await prisma.$transaction(async (tx) => {
+      const previous = await this.lockPollVotes(tx, poll.id, userId);
+
+      if (previous.length > 0) {
+        await tx.pollVote.deleteMany({
+          where: { pollId: poll.id, userId }
+        });
+
+        for (const optionId of previous) {
+          await tx.pollOption.update({
+            where: { id: optionId },
+            data: { voteCount: { decrement: 1 } }
+          });
+        }
+
+        await tx.poll.update({
+          where: { id: poll.id },
+          data: { voterCount: { decrement: 1 } }
+        });
       }
 
-      return { liked: true, message: 'Post liked successfully' };
+      return previous;
+    });
+
+    const results = await PollService.getResults(poll.id);
+
+    if (previous.length > 0) {
+      PollService.broadcast(communityId, results);
+    }
+
+    return { ...results, userVotes: [] as string[] };
+  }
+
+  /**
+   * Page through a poll's voters, unless the poll is anonymous
+   */
+  static async getPollVoters(postId: string, userId: string | undefined, options: PollVoterOptions = {}) {
+    const post = await this.getPost(postId, userId);
+
+    if (!post.poll) {
+      throw new Error('Post is not a poll');
     }
+
+    return PollService.getVoters(post.poll, options);
+  }
+
+  /**
+   * Lock the poll and read the caller's current votes. Concurrent votes from the
+   * same member then apply one after another instead of both starting from no
+   * votes and counting the voter twice.
+   */
+  private static async lockPollVotes(tx: Prisma.TransactionClient, pollId: string, userId: string) {
+    await tx.$queryRaw`SELECT id FROM polls WHERE id = ${pollId} FOR UPDATE`;
+
+    const votes = await tx.pollVote.findMany({
+      where: { pollId, userId },
+      select: { optionId: true }
+    });
+
+    return votes.map(vote => vote.optionId);
+  }
+
+  /**
+   * Load a poll the caller may vote in right now
+   */
+  private static async getVotablePoll(postId: string, userId: string) {
+    // Verify post exists and user has access
+    const post = await this.getPost(postId, userId);
+
+    if (!post.poll) {
+      throw new Error('Post is not a poll');
+    }
+
+    await MemberSanctionService.assertCanParticipate(post.communityId, userId);
+
+    if (post.isLocked && !(await this.isCommunityModerator(post.communityId, userId))) {
+      throw new Error('Post is locked');
+    }
+
+    if (!post.isPublished) {
+      throw new Error('Poll is not open yet');
+    }
+
+    const poll = await prisma.poll.findUniqueOrThrow({
+      where: { id: post.poll.id },
+      include: {
+        options: { select: { id: true } }
+      }
+    });
+
+    if (PollService.isClosed(poll)) {
+      throw new Error('Poll is closed');
+    }
+
+    return { poll, communityId: post.communityId };
   }
 
   /**
@@ -478,17 +868,32 @@ export class PostService {
     // Verify post exists and user has access
     const post = await this.getPost(postId, authorId);
 
+    await MemberSanctionService.assertCanParticipate(post.communityId, authorId);
+
+    if (post.isLocked && !(await this.isCommunityModerator(post.communityId, authorId))) {
+      throw new Error('Post is locked');
+    }
+
     // If replying to a comment, verify parent comment exists and belongs to this post
     if (data.parentId) {
       const parentComment = await prisma.comment.findUnique({
         where: { id: data.parentId }
       });
 
-      if (!parentComment || parentComment.postId !== postId) {
+      if (!parentComment || parentComment.postId !== postId || parentComment.isDeleted) {
         throw new Error('Parent comment not found or does not belong to this post');
       }
     }
 
+    const screening = await ContentFilterService.screen({
+      communityId: post.communityId,
+      authorId,
+      contentType: 'comment',
+      text: data.content
+    });
+
+    const mentions = await MentionService.resolve(post.communityId, data.content);
+
     const comment = await prisma.$transaction(async (tx) => {
       // Create the comment
       const newComment = await tx.comment.create({
@@ -496,7 +901,9 @@ export class PostService {
           postId,
           authorId,
           parentId: data.parentId,
-          content: data.content
+          content: mentions.content,
+          // Held comments stay hidden until a moderator approves them
+          isHidden: screening.hold
         },
         include: {
           author: {
@@ -525,6 +932,15 @@ export class PostService {
       return newComment;
     });
 
+    await ContentFilterService.recordViolations('comment', comment.id, postId, screening.violations);
+
+    if (!comment.isHidden) {
+      await MentionService.notifyMentioned(
+        { communityId: post.communityId, authorId, postId, commentId: comment.id, postTitle: post.title },
+        mentions.userIds
+      );
+    }
+
     // Award points for creating a comment
     try {
       await PointsService.awardPointsForAction(authorId, post.communityId, 'COMMENT_CREATED', comment.id);
@@ -577,75 +993,143 @@ export class PostService {
   }
 
   /**
-   * Get comments for a post with threading
+   * Get a page of top-level comments for a post, each with its replies nested
+   * down to `depth` levels. Deeper replies are loaded with getCommentReplies.
    */
-  static async getPostComments(postId: string, userId?: string) {
+  static async getPostComments(postId: string, userId?: string, options: CommentTreeOptions = {}) {
     // Verify post exists and user has access
-    await this.getPost(postId, userId);
+    const post = await this.getPost(postId, userId);
+    const isModerator = await this.isCommunityModerator(post.communityId, userId);
 
-    const comments = await prisma.comment.findMany({
-      where: { 
-        postId,
-        parentId: null // Only get top-level comments
-      },
-      orderBy: { createdAt: 'asc' },
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true
-          }
-        },
-        replies: {
-          orderBy: { createdAt: 'asc' },
-          include: {
-            author: {
-              select: {
-                id: true,
-                username: true,
-                displayName: true,
-                avatarUrl: true
-              }
-            },
-            _count: {
-              select: {
-                likes: true
-              }
-            },
-            likes: userId ? {
-              where: { userId },
-              select: { id: true }
-            } : false
-          }
-        },
-        _count: {
-          select: {
-            replies: true,
-            likes: true
-          }
-        },
-        likes: userId ? {
-          where: { userId },
-          select: { id: true }
-        } : false
-      }
+    return this.getCommentTree({ postId, parentId: null }, userId, isModerator, options);
+  }
+
+  /**
+   * Get a page of replies to one comment, nested down to `depth` levels
+   */
+  static async getCommentReplies(commentId: string, userId?: string, options: CommentTreeOptions = {}) {
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { postId: true }
     });
 
-    // Add isLiked flag for authenticated users
-    const commentsWithLikeStatus = comments.map(comment => ({
-      ...comment,
-      isLiked: userId && comment.likes && comment.likes.length > 0,
-      likes: undefined,
-      replies: comment.replies.map(reply => ({
-        ...reply,
-        isLiked: userId && reply.likes && reply.likes.length > 0,
-        likes: undefined
-      }))
-    }));
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    // Verify user has access to the post
+    const post = await this.getPost(comment.postId, userId);
+    const isModerator = await this.isCommunityModerator(post.communityId, userId);
+
+    return this.getCommentTree({ parentId: commentId }, userId, isModerator, options);
+  }
+
+  private static async getCommentTree(
+    where: { postId?: string; parentId: string | null },
+    userId: string | undefined,
+    isModerator: boolean,
+    options: CommentTreeOptions
+  ) {
+    const {
+      cursor,
+      limit,
+      sort = 'oldest',
+      depth = DEFAULT_COMMENT_DEPTH,
+      replyLimit = DEFAULT_REPLY_LIMIT
+    } = options;
+
+    const sortKeys = COMMENT_SORT_KEYS[sort];
+    const include = this.buildCommentInclude(userId, buildOrderBy(sortKeys), Math.min(depth, MAX_COMMENT_DEPTH), replyLimit);
+
+    const page = await paginate(sortKeys, { cursor, limit }, ({ cursorWhere, orderBy, take }): Promise<CommentNodeRecord[]> =>
+      prisma.comment.findMany({
+        where: { ...where, ...cursorWhere },
+        orderBy,
+        take,
+        // Replies nest to a depth chosen at runtime, which Prisma can't infer;
+        // CommentNodeRecord describes them instead
+        include: include as typeof commentNodeInclude
+      })
+    );
+
+    const reactionCounts = await ReactionService.getReactionCounts('comment', this.collectCommentIds(page.items));
+
+    return {
+      ...page,
+      items: page.items.map(comment => this.formatCommentNode(comment, userId, isModerator, reactionCounts))
+    };
+  }
+
+  private static collectCommentIds(comments: CommentNodeRecord[]): string[] {
+    return comments.flatMap(comment => [comment.id, ...this.collectCommentIds(comment.replies || [])]);
+  }
 
-    return commentsWithLikeStatus;
+  /**
+   * Prisma include that nests replies `depth - 1` levels below each comment
+   */
+  private static buildCommentInclude(
+    userId: string | undefined,
+    orderBy: Prisma.CommentOrderByWithRelationInput[],
+    depth: number,
+    replyLimit: number
+  ): Prisma.CommentInclude {
+    return {
+      author: commentNodeInclude.author,
+      _count: commentNodeInclude._count,
+      likes: userId ? {
+        where: { userId },
+        select: commentNodeInclude.likes.select
+      } : false,
+      ...(depth > 1 && {
+        replies: {
+          orderBy,
+          take: replyLimit,
+          include: this.buildCommentInclude(userId, orderBy, depth - 1, replyLimit)
+        }
+      })
+    };
+  }
+
+  private static formatCommentNode(
+    comment: CommentNodeRecord,
+    userId: string | undefined,
+    isModerator: boolean,
+    reactionCounts: Map<string, Record<string, number>>
+  ): CommentTreeNode {
+    const { likes, replies: childComments = [], ...fields } = comment;
+    const replies = childComments.map(reply =>
+      this.formatCommentNode(reply, userId, isModerator, reactionCounts)
+    );
+
+    // Deleted comments with replies stay as placeholders so threads hold together,
+    // without their author, text or reactions.
+    if (comment.isDeleted) {
+      return {
+        ...fields,
+        content: null,
+        authorId: null,
+        author: null,
+        likeCount: 0,
+        _count: { ...comment._count, likes: 0 },
+        isLiked: false,
+        userReactions: [],
+        reactionCounts: {},
+        replyCount: comment._count.replies,
+        replies,
+        hasMoreReplies: comment._count.replies > replies.length
+      };
+    }
+
+    return {
+      ...fields,
+      // Hidden comments stay in place too, but only moderators can read them
+      ...(comment.isHidden && !isModerator && { content: null }),
+      ...this.formatReactions(likes, userId),
+      reactionCounts: reactionCounts.get(comment.id) || {},
+      replyCount: comment._count.replies,
+      replies,
+      hasMoreReplies: comment._count.replies > replies.length
+    };
   }
 
   /**
@@ -669,7 +1153,7 @@ export class PostService {
       }
     });
 
-    if (!comment) {
+    if (!comment || comment.isDeleted) {
       throw new Error('Comment not found');
     }
 
@@ -682,9 +1166,22 @@ export class PostService {
       throw new Error('Insufficient permissions to edit this comment');
     }
 
+    const screening = await ContentFilterService.screen({
+      communityId: comment.post.communityId,
+      authorId: userId,
+      contentType: 'comment',
+      contentId: commentId,
+      text: data.content
+    });
+
+    const mentions = await MentionService.resolve(comment.post.communityId, data.content);
+
     const updatedComment = await prisma.comment.update({
       where: { id: commentId },
-      data: { content: data.content },
+      data: {
+        content: mentions.content,
+        ...(screening.hold && { isHidden: true })
+      },
       include: {
         author: {
           select: {
@@ -703,6 +1200,16 @@ export class PostService {
       }
     });
 
+    await ContentFilterService.recordViolations('comment', commentId, comment.postId, screening.violations);
+
+    if (!updatedComment.isHidden) {
+      await MentionService.notifyMentioned(
+        { communityId: comment.post.communityId, authorId: userId, postId: comment.postId, commentId, postTitle: comment.post.title },
+        mentions.userIds,
+        MentionService.extractUserIds(comment.content)
+      );
+    }
+
     return updatedComment;
   }
 
@@ -732,7 +1239,7 @@ export class PostService {
       }
     });
 
-    if (!comment) {
+    if (!comment || comment.isDeleted) {
       throw new Error('Comment not found');
     }
 
@@ -745,100 +1252,182 @@ export class PostService {
       throw new Error('Insufficient permissions to delete this comment');
     }
 
+    await this.removeComment(commentId);
+
+    return { message: 'Comment deleted successfully' };
+  }
+
+  /**
+   * Delete a comment without permission checks. A comment with replies becomes a
+   * "deleted" placeholder so its replies aren't orphaned.
+   */
+  static async removeComment(commentId: string) {
     await prisma.$transaction(async (tx) => {
-      // Delete the comment (cascade will handle replies)
-      await tx.comment.delete({
-        where: { id: commentId }
+      const comment = await tx.comment.findUniqueOrThrow({
+        where: { id: commentId },
+        select: { postId: true, parentId: true, _count: { select: { replies: true } } }
       });
 
-      // Update post comment count (including replies)
-      const totalCommentsDeleted = 1 + comment._count.replies;
+      if (comment._count.replies > 0) {
+        await tx.comment.update({
+          where: { id: commentId },
+          data: { isDeleted: true, content: '' }
+        });
+      } else {
+        await tx.comment.delete({
+          where: { id: commentId }
+        });
+
+        await this.pruneDeletedAncestors(tx, comment.parentId);
+      }
+
+      // Placeholders don't count towards the post's comments
       await tx.post.update({
         where: { id: comment.postId },
-        data: { commentCount: { decrement: totalCommentsDeleted } }
+        data: { commentCount: { decrement: 1 } }
       });
     });
-
-    return { message: 'Comment deleted successfully' };
   }
 
   /**
-   * Toggle like on a comment
+   * Remove deleted placeholders left with no replies, walking up the thread
    */
-  static async toggleCommentLike(commentId: string, userId: string) {
-    const comment = await prisma.comment.findUnique({
-      where: { id: commentId },
-      include: {
-        post: {
-          include: {
-            community: true
-          }
-        }
+  private static async pruneDeletedAncestors(tx: Prisma.TransactionClient, parentId: string | null) {
+    while (parentId) {
+      const parent = await tx.comment.findUnique({
+        where: { id: parentId },
+        select: { parentId: true, isDeleted: true, _count: { select: { replies: true } } }
+      });
+
+      if (!parent || !parent.isDeleted || parent._count.replies > 0) {
+        return;
       }
-    });
 
-    if (!comment) {
-      throw new Error('Comment not found');
+      await tx.comment.delete({ where: { id: parentId } });
+      parentId = parent.parentId;
     }
+  }
 
-    // Verify user has access to the community
-    if (!comment.post.community.isPublic) {
-      const membership = await prisma.communityMembership.findFirst({
-        where: {
-          communityId: comment.post.communityId,
-          userId,
-          status: 'active'
-        }
-      });
+  /**
+   * Toggle like on a comment. Likes are the "like" reaction.
+   */
+  static async toggleCommentLike(commentId: string, userId: string) {
+    const { reacted } = await this.toggleCommentReaction(commentId, userId, LIKE_REACTION);
 
-      if (!membership) {
-        throw new Error('Access denied to private community');
-      }
-    }
+    return reacted
+      ? { liked: true, message: 'Comment liked successfully' }
+      : { liked: false, message: 'Comment unliked successfully' };
+  }
+
+  /**
+   * Add or take back one of the caller's reactions on a comment
+   */
+  static async toggleCommentReaction(commentId: string, userId: string, reaction: string) {
+    const comment = await this.getAccessibleComment(commentId, userId);
+    const isLike = reaction === LIKE_REACTION;
 
-    const existingLike = await prisma.commentLike.findUnique({
+    const existingReaction = await prisma.commentLike.findUnique({
       where: {
-        userId_commentId: {
+        userId_commentId_reaction: {
           userId,
-          commentId
+          commentId,
+          reaction
         }
       }
     });
 
-    if (existingLike) {
-      // Unlike the comment
+    if (existingReaction) {
       await prisma.$transaction([
         prisma.commentLike.delete({
-          where: { id: existingLike.id }
+          where: { id: existingReaction.id }
         }),
-        prisma.comment.update({
+        ...(isLike ? [prisma.comment.update({
           where: { id: commentId },
           data: { likeCount: { decrement: 1 } }
-        })
+        })] : [])
       ]);
-
-      return { liked: false, message: 'Comment unliked successfully' };
     } else {
-      // Like the comment
+      await ReactionService.assertAvailable(comment.post.communityId, reaction);
+
       await prisma.$transaction([
         prisma.commentLike.create({
-          data: { userId, commentId }
+          data: { userId, commentId, reaction }
         }),
-        prisma.comment.update({
+        ...(isLike ? [prisma.comment.update({
           where: { id: commentId },
           data: { likeCount: { increment: 1 } }
-        })
+        })] : [])
       ]);
 
       // Award points to comment author for receiving a like
-      try {
-        await PointsService.awardPointsForAction(comment.authorId, comment.post.communityId, 'COMMENT_LIKED', commentId);
-      } catch (error) {
-        console.error('Failed to award points for comment like:', error);
+      if (isLike) {
+        try {
+          await PointsService.awardPointsForAction(comment.authorId, comment.post.communityId, 'COMMENT_LIKED', commentId);
+        } catch (error) {
+          console.error('Failed to award points for comment like:', error);
+        }
       }
+    }
+
+    const reactionCounts = (await ReactionService.getReactionCounts('comment', [commentId])).get(commentId)!;
+
+    ReactionService.broadcast(comment.post.communityId, {
+      contentType: 'comment',
+      contentId: commentId,
+      postId: comment.postId,
+      userId,
+      reaction,
+      reacted: !existingReaction,
+      reactionCounts
+    });
+
+    return { reaction, reacted: !existingReaction, reactionCounts };
+  }
+
+  /**
+   * Page through who reacted to a comment, optionally for one reaction only
+   */
+  static async getCommentReactions(commentId: string, userId: string | undefined, options: ReactionListOptions = {}) {
+    await this.getAccessibleComment(commentId, userId);
+
+    return ReactionService.getReactors('comment', commentId, options);
+  }
 
-      return { liked: true, message: 'Comment liked successfully' };
+  /**
+   * Load a live comment, checking the caller can see its community
+   */
+  private static async getAccessibleComment(commentId: string, userId?: string) {
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: {
+        post: {
+          include: {
+            community: true
+          }
+        }
+      }
+    });
+
+    if (!comment || comment.isDeleted) {
+      throw new Error('Comment not found');
+    }
+
+    // Verify user has access to the community
+    if (!comment.post.community.isPublic) {
+      const membership = userId ? await prisma.communityMembership.findFirst({
+        where: {
+          communityId: comment.post.communityId,
+          userId,
+          status: 'active'
+        }
+      }) : null;
+
+      if (!membership) {
+        throw new Error('Access denied to private community');
+      }
     }
+
+    return comment;
   }
 
   /**
@@ -911,7 +1500,7 @@ export class PostService {
       }
     });
 
-    if (!comment) {
+    if (!comment || comment.isDeleted) {
       throw new Error('Comment not found');
     }
 
@@ -976,4 +1565,43 @@ export class PostService {
 
     return report;
   }
-}
\ No newline at end of file
+
+  /**
+   * The caller's own reactions, with isLiked kept for clients that only know likes
+   */
+  private static formatReactions(likes: { reaction: string }[] | undefined, userId?: string) {
+    const userReactions = userId && likes ? likes.map(like => like.reaction) : [];
+
+    return {
+      isLiked: userReactions.includes(LIKE_REACTION),
+      userReactions
+    };
+  }
+
+  /**
+   * Check whether a user can moderate content in a community
+   */
+  private static async isCommunityModerator(communityId: string, userId?: string): Promise<boolean> {
+    if (!userId) {
+      return false;
+    }
+
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: {
+        creatorId: true,
+        memberships: {
+          where: { userId, status: 'active' },
+          select: { role: true }
+        }
+      }
+    });
+
+    if (!community) {
+      return false;
+    }
+
+    return community.creatorId === userId ||
+      ['moderator', 'admin'].includes(community.memberships[0]?.role);
+  }
+}
@@ -1,38 +1,513 @@
+import { Prisma } from '@prisma/client';
 import prisma from './prisma';
+import { PointsService } from './pointsService';
+import { AccessControlService } from './accessControlService';
+import { DripService } from './dripService';
+import { WebhookService } from './webhookService';
+import { paginate, CursorPageOptions, CursorSortKey } from './pagination';
+
+// Forward declaration to avoid circular dependency
+interface ISocketService {
+  broadcastLessonCompleted(userId: string, communityId: string, lessonId: string, courseId: string): void;
+}
+
+// Store socket service instance
+let socketServiceInstance: ISocketService | null = null;
+
+export function setProgressSocketService(socketService: ISocketService) {
+  socketServiceInstance = socketService;
+}
 
 export interface UpdateProgressData {
   timeSpent?: number;
   completed?: boolean;
 }
 
+export interface ProgressQueryOptions extends CursorPageOptions {
+  courseId?: string;
+  communityId?: string;
+}
+
+// Most recently completed first; lessons still in progress come last
+const PROGRESS_ACTIVITY_SORT_KEYS: CursorSortKey[] = [
+  { field: 'completedAt', direction: 'desc', nulls: 'last' }
+];
+
 export class ProgressService {
+  /**
+   * Record time spent on a lesson and optionally mark it as completed
+   */
   static async updateLessonProgress(lessonId: string, userId: string, data: UpdateProgressData) {
-    // Basic implementation - will be completed in a later task
-    throw new Error('Progress service not yet implemented');
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        course: {
+          select: { communityId: true }
+        }
+      }
+    });
+
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    // Same rules as viewing the lesson: paid access or a purchase, minimum level and minimum tier
+    const access = await AccessControlService.checkContentAccess('lesson', lessonId, userId);
+
+    if (!access.hasAccess) {
+      throw new Error('Access denied to lesson');
+    }
+
+    if (!access.canView) {
+      const needsPayment = !lesson.isFree && !access.hasPaidAccess && !access.hasPurchased;
+      throw new Error(needsPayment ? 'Premium lesson requires active subscription' : 'Access denied to lesson');
+    }
+
+    if (!['creator', 'admin', 'moderator'].includes(access.role)) {
+      const lock = await DripService.getLessonLock(lesson, lesson.course.communityId, userId);
+      if (lock.isLocked) {
+        throw new Error('Lesson is locked');
+      }
+    }
+
+    const timeSpent = data.timeSpent || 0;
+
+    // Upsert with an increment so concurrent updates accumulate instead of overwriting
+    await prisma.userProgress.upsert({
+      where: {
+        userId_lessonId: { userId, lessonId }
+      },
+      create: {
+        userId,
+        lessonId,
+        timeSpent
+      },
+      update: {
+        timeSpent: { increment: timeSpent }
+      }
+    });
+
+    // Only the update that actually flips completedAt counts as a completion
+    let justCompleted = false;
+    if (data.completed) {
+      const claimed = await prisma.userProgress.updateMany({
+        where: { userId, lessonId, completedAt: null },
+        data: { completedAt: new Date() }
+      });
+      justCompleted = claimed.count > 0;
+    }
+
+    if (justCompleted) {
+      await this.handleLessonCompleted(userId, lesson.course.communityId, lesson.id, lesson.courseId);
+    }
+
+    return prisma.userProgress.findUniqueOrThrow({
+      where: {
+        userId_lessonId: { userId, lessonId }
+      }
+    });
+  }
+
+  /**
+   * Get user's progress for a single lesson
+   */
+  static async getLessonProgress(lessonId: string, userId: string) {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        course: {
+          select: { communityId: true }
+        }
+      }
+    });
+
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    const access = await AccessControlService.checkCommunityAccess(lesson.course.communityId, userId);
+
+    if (!access.hasAccess) {
+      throw new Error('Access denied to lesson');
+    }
+
+    const progress = await prisma.userProgress.findUnique({
+      where: {
+        userId_lessonId: { userId, lessonId }
+      }
+    });
+
+    return progress || {
+      id: null,
+      userId,
+      lessonId,
+      completedAt: null,
+      timeSpent: 0
+    };
   }
 
+  /**
+   * Get user's progress for a specific course
+   */
   static async getCourseProgress(courseId: string, userId: string) {
-    // Basic implementation - will be completed in a later task
-    throw new Error('Progress service not yet implemented');
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      include: {
+        lessons: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            progress: {
+              where: { userId }
+            }
+          }
+        }
+      }
+    });
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    const access = await AccessControlService.checkCommunityAccess(course.communityId, userId);
+
+    if (!access.hasAccess) {
+      throw new Error('Access denied to course');
+    }
+
+    return this.summarizeCourse(course);
   }
 
+  /**
+   * Get user's progress across all published courses in a community
+   */
   static async getCommunityProgress(communityId: string, userId: string) {
-    // Basic implementation - will be completed in a later task
-    throw new Error('Progress service not yet implemented');
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: {
+        id: true,
+        name: true
+      }
+    });
+
+    if (!community) {
+      throw new Error('Access denied to community');
+    }
+
+    const access = await AccessControlService.checkCommunityAccess(community.id, userId);
+
+    if (!access.hasAccess) {
+      throw new Error('Access denied to community');
+    }
+
+    const courses = await prisma.course.findMany({
+      where: {
+        communityId,
+        isPublished: true
+      },
+      orderBy: { sortOrder: 'asc' },
+      include: {
+        lessons: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            progress: {
+              where: { userId }
+            }
+          }
+        }
+      }
+    });
+
+    const courseSummaries = courses.map(course => this.summarizeCourse(course));
+
+    const totalLessons = courseSummaries.reduce((sum, c) => sum + c.totalLessons, 0);
+    const completedLessons = courseSummaries.reduce((sum, c) => sum + c.completedLessons, 0);
+    const totalTimeSpent = courseSummaries.reduce((sum, c) => sum + c.totalTimeSpent, 0);
+
+    return {
+      communityId: community.id,
+      communityName: community.name,
+      totalCourses: courseSummaries.length,
+      completedCourses: courseSummaries.filter(c => c.isCompleted).length,
+      totalLessons,
+      completedLessons,
+      completionPercentage: totalLessons > 0 ? Math.round((completedLessons / totalLessons) * 100) : 0,
+      totalTimeSpent,
+      courses: courseSummaries.map(({ lessons, ...summary }) => summary)
+    };
   }
 
-  static async getUserProgressAnalytics(userId: string, options: any) {
-    // Basic implementation - will be completed in a later task
-    throw new Error('Progress service not yet implemented');
+  /**
+   * Get user's overall progress analytics with optional course/community filtering
+   */
+  static async getUserProgressAnalytics(userId: string, options: ProgressQueryOptions = {}) {
+    const {
+      cursor,
+      limit,
+      courseId,
+      communityId
+    } = options;
+
+    const where: Prisma.UserProgressWhereInput = { userId };
+
+    if (courseId) {
+      where.lesson = { courseId };
+    } else if (communityId) {
+      where.lesson = { course: { communityId } };
+    }
+
+    const [totals, completedLessons, page] = await Promise.all([
+      prisma.userProgress.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { timeSpent: true }
+      }),
+      prisma.userProgress.count({
+        where: {
+          ...where,
+          completedAt: { not: null }
+        }
+      }),
+      paginate(PROGRESS_ACTIVITY_SORT_KEYS, { cursor, limit }, ({ cursorWhere, orderBy, take }) => prisma.userProgress.findMany({
+        where: { AND: [where, cursorWhere] },
+        orderBy,
+        take,
+        include: {
+          lesson: {
+            select: {
+              id: true,
+              title: true,
+              course: {
+                select: {
+                  id: true,
+                  title: true,
+                  communityId: true
+                }
+              }
+            }
+          }
+        }
+      }))
+    ]);
+
+    const totalProgress = totals._count._all;
+    const totalTimeSpent = totals._sum.timeSpent || 0;
+
+    return {
+      totalProgress,
+      completedLessons,
+      totalTimeSpent,
+      averageTimePerLesson: totalProgress > 0 ? Math.round(totalTimeSpent / totalProgress) : 0,
+      ...page,
+      items: page.items.map(progress => ({
+        lessonId: progress.lessonId,
+        lessonTitle: progress.lesson.title,
+        courseId: progress.lesson.course.id,
+        courseTitle: progress.lesson.course.title,
+        communityId: progress.lesson.course.communityId,
+        timeSpent: progress.timeSpent,
+        completedAt: progress.completedAt,
+        isCompleted: !!progress.completedAt
+      }))
+    };
   }
 
+  /**
+   * Get community leaderboard ranked by completed lessons, then time spent
+   */
   static async getCommunityLeaderboard(communityId: string, userId: string, limit: number) {
-    // Basic implementation - will be completed in a later task
-    throw new Error('Progress service not yet implemented');
+    const access = await AccessControlService.checkCommunityAccess(communityId, userId);
+
+    if (!access.hasAccess) {
+      throw new Error('Access denied to community leaderboard');
+    }
+
+    const leaderboardData = await prisma.userProgress.groupBy({
+      by: ['userId'],
+      where: {
+        lesson: { course: { communityId } }
+      },
+      _count: { completedAt: true },
+      _sum: { timeSpent: true },
+      orderBy: [
+        { _count: { completedAt: 'desc' } },
+        { _sum: { timeSpent: 'desc' } }
+      ],
+      take: limit
+    });
+
+    const userIds = leaderboardData.map(entry => entry.userId);
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        username: true,
+        displayName: true,
+        avatarUrl: true
+      }
+    });
+
+    return leaderboardData.map((entry, index) => {
+      const user = users.find(u => u.id === entry.userId);
+      return {
+        rank: index + 1,
+        userId: entry.userId,
+        username: user?.username,
+        displayName: user?.displayName,
+        avatarUrl: user?.avatarUrl,
+        completedLessons: entry._count.completedAt,
+        totalTimeSpent: entry._sum.timeSpent || 0
+      };
+    });
   }
 
+  /**
+   * Reset a user's progress on a lesson (admins, moderators and the creator only)
+   */
   static async resetLessonProgress(lessonId: string, targetUserId: string, adminUserId: string) {
-    // Basic implementation - will be completed in a later task
-    return { message: 'Progress service not yet implemented' };
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        course: {
+          include: {
+            community: true
+          }
+        }
+      }
+    });
+
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    const membership = await prisma.communityMembership.findFirst({
+      where: {
+        communityId: lesson.course.communityId,
+        userId: adminUserId,
+        status: 'active',
+        OR: [
+          { role: 'admin' },
+          { role: 'moderator' },
+          { community: { creatorId: adminUserId } }
+        ]
+      }
+    });
+
+    if (!membership && lesson.course.community.creatorId !== adminUserId) {
+      throw new Error('Insufficient permissions to reset progress');
+    }
+
+    const result = await prisma.userProgress.deleteMany({
+      where: {
+        lessonId,
+        userId: targetUserId
+      }
+    });
+
+    return {
+      message: result.count > 0
+        ? 'Lesson progress reset successfully'
+        : 'No progress found for this lesson'
+    };
+  }
+
+  /**
+   * Award completion points and broadcast events after a lesson is completed
+   */
+  private static async handleLessonCompleted(userId: string, communityId: string, lessonId: string, courseId: string) {
+    try {
+      // Lessons can be reset and completed again, so only award each lesson and course once
+      if (!await this.hasCompletionAward(userId, communityId, 'LESSON_COMPLETED', lessonId)) {
+        await PointsService.awardPointsForAction(userId, communityId, 'LESSON_COMPLETED', lessonId);
+      }
+
+      const [totalLessons, completedLessons] = await Promise.all([
+        prisma.lesson.count({ where: { courseId } }),
+        prisma.userProgress.count({
+          where: {
+            userId,
+            completedAt: { not: null },
+            lesson: { courseId }
+          }
+        })
+      ]);
+
+      if (totalLessons > 0 && completedLessons >= totalLessons &&
+          !await this.hasCompletionAward(userId, communityId, 'COURSE_COMPLETED', courseId)) {
+        await PointsService.awardPointsForAction(userId, communityId, 'COURSE_COMPLETED', courseId);
+      }
+    } catch (error) {
+      // Log error but don't fail the progress update
+      console.error('Failed to award points for lesson completion:', error);
+    }
+
+    if (socketServiceInstance) {
+      socketServiceInstance.broadcastLessonCompleted(userId, communityId, lessonId, courseId);
+    }
+
+    WebhookService.dispatch(communityId, 'lesson.completed', { userId, lessonId, courseId });
   }
-}
\ No newline at end of file
+
+  /**
+   * Check whether points were already awarded for completing a lesson or course
+   */
+  private static async hasCompletionAward(
+    userId: string,
+    communityId: string,
+    action: 'LESSON_COMPLETED' | 'COURSE_COMPLETED',
+    referenceId: string
+  ) {
+    const existingAward = await prisma.pointsTransaction.findFirst({
+      where: {
+        userId,
+        communityId,
+        action,
+        referenceId
+      },
+      select: { id: true }
+    });
+
+    return !!existingAward;
+  }
+
+  /**
+   * Build per-lesson and aggregate progress for a course loaded with the user's progress rows
+   */
+  private static summarizeCourse(course: {
+    id: string;
+    title: string;
+    lessons: Array<{
+      id: string;
+      title: string;
+      sortOrder: number;
+      isFree: boolean;
+      progress: Array<{ completedAt: Date | null; timeSpent: number }>;
+    }>;
+  }) {
+    const lessons = course.lessons.map(lesson => {
+      const progress = lesson.progress[0];
+      return {
+        lessonId: lesson.id,
+        title: lesson.title,
+        sortOrder: lesson.sortOrder,
+        isFree: lesson.isFree,
+        isCompleted: !!progress?.completedAt,
+        completedAt: progress?.completedAt || null,
+        timeSpent: progress?.timeSpent || 0
+      };
+    });
+
+    const totalLessons = lessons.length;
+    const completedLessons = lessons.filter(lesson => lesson.isCompleted).length;
+
+    return {
+      courseId: course.id,
+      courseTitle: course.title,
+      totalLessons,
+      completedLessons,
+      completionPercentage: totalLessons > 0 ? Math.round((completedLessons / totalLessons) * 100) : 0,
+      totalTimeSpent: lessons.reduce((sum, lesson) => sum + lesson.timeSpent, 0),
+      isCompleted: totalLessons > 0 && completedLessons === totalLessons,
+      lessons
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import prisma from './prisma';
+import { CourseService } from './courseService';
+import { WebhookService } from './webhookService';
+import { MentionService } from './mentionService';
+
+// Forward declaration to avoid circular dependency
+interface ISocketService {
+  broadcastNewPost(communityId: string, post: any): void;
+}
+
+let socketServiceInstance: ISocketService | null = null;
+
+export function setPublishingSocketService(socketService: ISocketService) {
+  socketServiceInstance = socketService;
+}
+
+/**
+ * Takes scheduled posts and courses live once their `publishAt` time has passed
+ */
+export class PublishingService {
+  /**
+   * Publish every post and course whose scheduled time has passed
+   */
+  static async publishDueContent(): Promise<{ posts: number; courses: number }> {
+    const [posts, courses] = await Promise.all([
+      this.publishDuePosts(),
+      this.publishDueCourses()
+    ]);
+
+    return { posts, courses };
+  }
+
+  private static async publishDuePosts(): Promise<number> {
+    const duePosts = await prisma.post.findMany({
+      where: {
+        isPublished: false,
+        publishAt: { lte: new Date() }
+      },
+      select: { id: true }
+    });
+
+    let published = 0;
+
+    for (const { id } of duePosts) {
+      // Claim the post so overlapping runs don't broadcast it twice
+      const claimed = await prisma.post.updateMany({
+        where: { id, isPublished: false },
+        data: { isPublished: true }
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const post = await prisma.post.findUnique({
+        where: { id },
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              displayName: true,
+              avatarUrl: true
+            }
+          }
+        }
+      });
+
+      // Posts held by a content filter go live once a moderator approves them
+      if (post && !post.isHidden) {
+        socketServiceInstance?.broadcastNewPost(post.communityId, post);
+        WebhookService.dispatchPostCreated(post);
+        await MentionService.notifyMentioned(
+          { communityId: post.communityId, authorId: post.authorId, postId: post.id, postTitle: post.title },
+          MentionService.extractUserIds(post.content)
+        );
+      }
+
+      published++;
+    }
+
+    return published;
+  }
+
+  private static async publishDueCourses(): Promise<number> {
+    const dueCourses = await prisma.course.findMany({
+      where: {
+        isPublished: false,
+        publishAt: { lte: new Date() }
+      },
+      select: { id: true }
+    });
+
+    let published = 0;
+
+    for (const { id } of dueCourses) {
+      const claimed = await prisma.course.updateMany({
+        where: { id, isPublished: false, publishAt: { not: null } },
+        data: { isPublished: true }
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const course = await prisma.course.findUnique({
+        where: { id },
+        include: {
+          community: {
+            select: { id: true, name: true, creatorId: true }
+          }
+        }
+      });
+
+      if (course) {
+        await CourseService.notifyCoursePublished(course, course.community.creatorId);
+      }
+
+      published++;
+    }
+
+    return published;
+  }
+}
@@ -169,7 +169,7 @@ export class QueryOptimizer {
         const skip = (page - 1) * limit;
         
         return this.prisma.post.findMany({
-          where: { communityId },
+          where: { communityId, isPublished: true, isHidden: false },
           include: {
             author: {
               select: {
@@ -188,6 +188,7 @@ export class QueryOptimizer {
             }
           },
           orderBy: [
+            { isPinned: 'desc' },
             { createdAt: 'desc' }
           ],
           skip,
@@ -0,0 +1,188 @@
+import prisma from './prisma';
+import { redisService, CacheKeys, CacheTTL } from './redis';
+import { paginate, CursorPageOptions } from './pagination';
+
+export type ReactionTargetType = 'post' | 'comment';
+
+export interface CommunityReaction {
+  key: string;
+  emoji: string;
+  label: string;
+}
+
+export interface ReactionListOptions extends CursorPageOptions {
+  reaction?: string;
+}
+
+export interface ReactionUpdate {
+  contentType: ReactionTargetType;
+  contentId: string;
+  postId: string;
+  userId: string;
+  reaction: string;
+  reacted: boolean;
+  reactionCounts: Record<string, number>;
+}
+
+// The reaction that existing likes were migrated to. It keeps likeCount and the
+// POST_LIKED / COMMENT_LIKED points rules working, so every set must include it.
+export const LIKE_REACTION = 'like';
+export const MAX_REACTIONS = 12;
+
+// Reaction set used until a community defines its own
+export const DEFAULT_REACTIONS: CommunityReaction[] = [
+  { key: LIKE_REACTION, emoji: '👍', label: 'Like' },
+  { key: 'love', emoji: '❤️', label: 'Love' },
+  { key: 'laugh', emoji: '😂', label: 'Haha' },
+  { key: 'wow', emoji: '😮', label: 'Wow' },
+  { key: 'celebrate', emoji: '🎉', label: 'Celebrate' },
+  { key: 'insightful', emoji: '💡', label: 'Insightful' }
+];
+
+// Forward declaration to avoid circular dependency
+interface ISocketService {
+  broadcastReactionUpdated(communityId: string, update: ReactionUpdate): void;
+}
+
+let socketServiceInstance: ISocketService | null = null;
+
+export function setReactionSocketService(socketService: ISocketService) {
+  socketServiceInstance = socketService;
+}
+
+const reactorSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true
+};
+
+/**
+ * Community reaction sets and per-reaction counts for posts and comments
+ */
+export class ReactionService {
+  /**
+   * Get a community's reaction set, or the defaults if it has none
+   */
+  static async getCommunityReactions(communityId: string): Promise<CommunityReaction[]> {
+    return redisService.cache(CacheKeys.communityReactions(communityId), async () => {
+      const reactions = await prisma.communityReaction.findMany({
+        where: { communityId },
+        orderBy: { position: 'asc' },
+        select: { key: true, emoji: true, label: true }
+      });
+
+      return reactions.length > 0 ? reactions : DEFAULT_REACTIONS;
+    }, CacheTTL.MEDIUM);
+  }
+
+  /**
+   * Replace a community's reaction set. Reactions already given with a removed key
+   * are kept and can still be taken back, but no new ones can be added.
+   */
+  static async setCommunityReactions(communityId: string, reactions: CommunityReaction[]): Promise<CommunityReaction[]> {
+    const keys = new Set(reactions.map(reaction => reaction.key));
+
+    if (keys.size !== reactions.length) {
+      throw new Error('Reaction keys must be unique');
+    }
+
+    if (!keys.has(LIKE_REACTION)) {
+      throw new Error('Reaction set must include the like reaction');
+    }
+
+    await prisma.$transaction([
+      prisma.communityReaction.deleteMany({ where: { communityId } }),
+      prisma.communityReaction.createMany({
+        data: reactions.map((reaction, position) => ({ communityId, ...reaction, position }))
+      })
+    ]);
+
+    await redisService.del(CacheKeys.communityReactions(communityId));
+
+    return reactions;
+  }
+
+  /**
+   * Remove a community's reaction set so it falls back to the defaults
+   */
+  static async resetCommunityReactions(communityId: string) {
+    await prisma.communityReaction.deleteMany({ where: { communityId } });
+    await redisService.del(CacheKeys.communityReactions(communityId));
+  }
+
+  /**
+   * Throw unless `reaction` is in the community's reaction set
+   */
+  static async assertAvailable(communityId: string, reaction: string) {
+    const reactions = await this.getCommunityReactions(communityId);
+
+    if (!reactions.some(available => available.key === reaction)) {
+      throw new Error('Reaction not available in this community');
+    }
+  }
+
+  /**
+   * Per-reaction counts for each of the given posts or comments
+   */
+  static async getReactionCounts(targetType: ReactionTargetType, ids: string[]): Promise<Map<string, Record<string, number>>> {
+    const counts = new Map<string, Record<string, number>>(ids.map(id => [id, {}]));
+
+    if (ids.length === 0) {
+      return counts;
+    }
+
+    const groups = targetType === 'post'
+      ? (await prisma.postLike.groupBy({
+          by: ['postId', 'reaction'],
+          where: { postId: { in: ids } },
+          _count: { _all: true }
+        })).map(group => ({ id: group.postId, reaction: group.reaction, count: group._count._all }))
+      : (await prisma.commentLike.groupBy({
+          by: ['commentId', 'reaction'],
+          where: { commentId: { in: ids } },
+          _count: { _all: true }
+        })).map(group => ({ id: group.commentId, reaction: group.reaction, count: group._count._all }));
+
+    for (const group of groups) {
+      counts.get(group.id)![group.reaction] = group.count;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Page through who reacted to a post or comment, newest first
+   */
+  static async getReactors(targetType: ReactionTargetType, targetId: string, options: ReactionListOptions = {}) {
+    const { reaction, ...pageOptions } = options;
+    const sortKeys = [{ field: 'createdAt', direction: 'desc' as const }];
+
+    if (targetType === 'post') {
+      return paginate(sortKeys, pageOptions, ({ cursorWhere, orderBy, take }) =>
+        prisma.postLike.findMany({
+          where: { postId: targetId, ...(reaction && { reaction }), ...cursorWhere },
+          orderBy,
+          take,
+          select: { id: true, reaction: true, createdAt: true, user: { select: reactorSelect } }
+        })
+      );
+    }
+
+    return paginate(sortKeys, pageOptions, ({ cursorWhere, orderBy, take }) =>
+      prisma.commentLike.findMany({
+        where: { commentId: targetId, ...(reaction && { reaction }), ...cursorWhere },
+        orderBy,
+        take,
+        select: { id: true, reaction: true, createdAt: true, user: { select: reactorSelect } }
+      })
+    );
+  }
+
+  /**
+   * Tell the community room that a post's or comment's reactions changed
+   */
+  static broadcast(communityId: string, update: ReactionUpdate) {
+    socketServiceInstance?.broadcastReactionUpdated(communityId, update);
+  }
+}
@@ -263,25 +263,24 @@ export class RecommendationService {
   }
 
   /**
-   * Decay user interests over time (should be run periodically)
+   * Decay user interests over time (run daily by the job queue).
+   * Returns the number of interests removed after decaying away.
    */
-  static async decayUserInterests(decayRate: number = 0.05) {
-    try {
-      await prisma.$executeRaw`
-        UPDATE user_interests 
-        SET score = GREATEST(score * ${1 - decayRate}, 0.01)
-        WHERE score > 0.01
-      `;
-      
-      // Remove interests that have decayed too much
-      await prisma.userInterest.deleteMany({
-        where: {
-          score: { lte: 0.01 }
-        }
-      });
-    } catch (error) {
-      console.error('Failed to decay user interests:', error);
-    }
+  static async decayUserInterests(decayRate: number = 0.05): Promise<number> {
+    await prisma.$executeRaw`
+      UPDATE user_interests 
+      SET score = GREATEST(score * ${1 - decayRate}, 0.01)
+      WHERE score > 0.01
+    `;
+
+    // Remove interests that have decayed too much
+    const removed = await prisma.userInterest.deleteMany({
+      where: {
+        score: { lte: 0.01 }
+      }
+    });
+
+    return removed.count;
   }
 
   /**
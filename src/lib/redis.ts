@@ -235,6 +235,10 @@ export const CacheKeys = {
   posts: (communityId: string, page: number = 1) => `posts:${communityId}:page:${page}`,
   leaderboard: (communityId: string) => `leaderboard:${communityId}`,
   userPoints: (userId: string) => `points:${userId}`,
+  pointsRules: (communityId: string) => `points:rules:${communityId}`,
+  communityAchievements: (communityId: string) => `achievements:${communityId}`,
+  communityLevels: (communityId: string) => `levels:${communityId}`,
+  communityReactions: (communityId: string) => `reactions:${communityId}`,
   searchResults: (query: string, filters: string) => `search:${query}:${filters}`,
   notifications: (userId: string) => `notifications:${userId}`,
   rateLimit: (ip: string, endpoint: string) => `rate_limit:${ip}:${endpoint}`
@@ -1,5 +1,7 @@
+import { Prisma } from '@prisma/client';
 import prisma from './prisma';
 import { stripe } from './stripeService';
+import { CoursePurchaseService } from './coursePurchaseService';
 
 export interface RevenueMetrics {
   totalRevenue: number;
@@ -8,25 +10,47 @@ export interface RevenueMetrics {
   churnRate: number;
   averageRevenuePerUser: number;
   monthlyRecurringRevenue: number;
+  grossRevenue: number;
+  totalDiscounts: number;
 }
 
+export type PayoutStatus = 'pending' | 'paid' | 'held';
+
 export interface CreatorPayout {
   creatorId: string;
   communityId: string;
-  totalRevenue: number;
+  periodId: string;
+  currency: string;
+  grossRevenue: number;
+  refunds: number;
+  chargebacks: number;
+  totalRevenue: number; // Gross revenue less refunds and chargebacks
   platformFee: number;
   creatorEarnings: number;
+  status: PayoutStatus;
+  closedAt: Date | null;
   period: {
     start: Date;
     end: Date;
   };
 }
 
+const payoutPeriodInclude = {
+  community: { select: { creatorId: true } },
+  entries: { select: { type: true, amount: true } }
+} satisfies Prisma.PayoutPeriodInclude;
+
+type PayoutPeriodWithEntries = Prisma.PayoutPeriodGetPayload<{ include: typeof payoutPeriodInclude }>;
+
 export interface SubscriptionAnalytics {
   newSubscriptions: number;
   canceledSubscriptions: number;
   netGrowth: number;
   churnRate: number;
+  discountedSubscriptions: number;
+  trialsStarted: number;
+  trialsConverted: number;
+  trialConversionRate: number;
   period: {
     start: Date;
     end: Date;
@@ -34,7 +58,7 @@ export interface SubscriptionAnalytics {
 }
 
 export class RevenueService {
-  private static readonly PLATFORM_FEE_PERCENTAGE = 0.05; // 5% platform fee
+  static readonly PLATFORM_FEE_PERCENTAGE = 0.05; // 5% platform fee
 
   /**
    * Calculate revenue metrics for a specific period
@@ -68,8 +92,8 @@ export class RevenueService {
       },
     });
 
-    // Calculate total revenue from Stripe
-    const totalRevenue = await this.calculateStripeRevenue(startDate, endDate, communityId);
+    // Calculate total revenue, after coupon discounts, from Stripe
+    const { revenue: totalRevenue, discounts: totalDiscounts } = await this.getStripeInvoiceTotals(startDate, endDate, communityId);
 
     // Calculate active subscriptions
     const activeSubscriptions = await prisma.subscription.count({
@@ -100,69 +124,82 @@ export class RevenueService {
       churnRate,
       averageRevenuePerUser,
       monthlyRecurringRevenue,
+      grossRevenue: totalRevenue + totalDiscounts,
+      totalDiscounts,
     };
   }
 
   /**
-   * Calculate creator payouts for a specific period
+   * Creator payouts from the ledger, one per community, billing period and currency
+   * that overlaps the range. Closed periods report their frozen totals.
    */
   static async calculateCreatorPayouts(
     startDate: Date,
     endDate: Date,
     creatorId?: string
   ): Promise<CreatorPayout[]> {
-    const whereClause: any = {
-      createdAt: {
-        gte: startDate,
-        lte: endDate,
-      },
-    };
-
-    if (creatorId) {
-      whereClause.creatorId = creatorId;
-    }
-
-    // Get communities and their revenue
-    const communities = await prisma.community.findMany({
-      where: whereClause,
-      include: {
-        subscriptions: {
-          where: {
-            status: { in: ['active', 'trialing'] },
-            createdAt: {
-              gte: startDate,
-              lte: endDate,
-            },
-          },
-        },
+    const periods = await prisma.payoutPeriod.findMany({
+      where: {
+        periodStart: { lte: endDate },
+        periodEnd: { gt: startDate },
+        ...(creatorId && { community: { creatorId } }),
       },
+      include: payoutPeriodInclude,
+      orderBy: [{ periodStart: 'asc' }, { communityId: 'asc' }],
     });
 
-    const payouts: CreatorPayout[] = [];
-
-    for (const community of communities) {
-      // Calculate revenue for this community from Stripe
-      const totalRevenue = await this.calculateStripeRevenue(startDate, endDate, community.id);
-
-      if (totalRevenue > 0) {
-        const platformFee = totalRevenue * this.PLATFORM_FEE_PERCENTAGE;
-        const creatorEarnings = totalRevenue - platformFee;
+    return periods.map(period => this.summarizePayoutPeriod(period));
+  }
 
-        payouts.push({
-          creatorId: community.creatorId,
-          communityId: community.id,
-          totalRevenue,
-          platformFee,
-          creatorEarnings,
-          period: {
-            start: startDate,
-            end: endDate,
-          },
-        });
-      }
+  /**
+   * Totals for a payout period. The platform fee is taken from revenue after refunds
+   * and chargebacks, so the creator never pays a fee on money that was returned.
+   */
+  static summarizePayoutPeriod(period: PayoutPeriodWithEntries): CreatorPayout {
+    let grossRevenue: number;
+    let refunds: number;
+    let chargebacks: number;
+    let platformFee: number;
+    let creatorEarnings: number;
+
+    if (period.closedAt) {
+      grossRevenue = Number(period.grossRevenue ?? 0);
+      refunds = Number(period.refunds ?? 0);
+      chargebacks = Number(period.chargebacks ?? 0);
+      platformFee = Number(period.platformFee ?? 0);
+      creatorEarnings = Number(period.netPayout ?? 0);
+    } else {
+      const sumOf = (type: string) => period.entries
+        .filter(entry => entry.type === type)
+        .reduce((sum, entry) => sum + Number(entry.amount), 0);
+
+      grossRevenue = sumOf('earning');
+      refunds = sumOf('refund');
+      chargebacks = sumOf('chargeback') - sumOf('chargeback_reversal');
+
+      const netRevenue = grossRevenue - refunds - chargebacks;
+      platformFee = Math.max(0, Math.round(netRevenue * this.PLATFORM_FEE_PERCENTAGE * 100) / 100);
+      creatorEarnings = netRevenue - platformFee;
     }
 
-    return payouts;
+    return {
+      creatorId: period.community.creatorId,
+      communityId: period.communityId,
+      periodId: period.id,
+      currency: period.currency,
+      grossRevenue,
+      refunds,
+      chargebacks,
+      totalRevenue: grossRevenue - refunds - chargebacks,
+      platformFee,
+      creatorEarnings,
+      status: period.status as PayoutStatus,
+      closedAt: period.closedAt,
+      period: {
+        start: period.periodStart,
+        end: period.periodEnd,
+      },
+    };
   }
 
   /**
@@ -200,11 +237,29 @@ export class RevenueService {
     const netGrowth = newSubscriptions - canceledSubscriptions;
     const churnRate = await this.calculateChurnRate(startDate, endDate, communityId);
 
+    // New subscriptions that used a coupon code
+    const discountedSubscriptions = await prisma.subscription.count({
+      where: {
+        ...whereClause,
+        couponId: { not: null },
+      },
+    });
+
+    const { trialsStarted, trialsConverted, trialConversionRate } = await this.calculateTrialConversion(
+      startDate,
+      endDate,
+      communityId
+    );
+
     return {
       newSubscriptions,
       canceledSubscriptions,
       netGrowth,
       churnRate,
+      discountedSubscriptions,
+      trialsStarted,
+      trialsConverted,
+      trialConversionRate,
       period: {
         start: startDate,
         end: endDate,
@@ -223,6 +278,8 @@ export class RevenueService {
     communityId: string;
     communityName: string;
     revenue: number;
+    subscriptionRevenue: number;
+    oneTimeRevenue: number;
     subscriptions: number;
     averageRevenuePerUser: number;
   }>> {
@@ -246,14 +303,18 @@ export class RevenueService {
     const breakdown = [];
 
     for (const community of communities) {
-      const revenue = await this.calculateStripeRevenue(startDate, endDate, community.id);
+      const subscriptionRevenue = await this.calculateStripeRevenue(startDate, endDate, community.id);
+      const oneTimeRevenue = await CoursePurchaseService.getOneTimeRevenue(community.id, startDate, endDate);
       const subscriptions = community.subscriptions.length;
-      const averageRevenuePerUser = subscriptions > 0 ? revenue / subscriptions : 0;
+      // ARPU is per subscriber, so it only counts subscription revenue
+      const averageRevenuePerUser = subscriptions > 0 ? subscriptionRevenue / subscriptions : 0;
 
       breakdown.push({
         communityId: community.id,
         communityName: community.name,
-        revenue,
+        revenue: subscriptionRevenue + oneTimeRevenue,
+        subscriptionRevenue,
+        oneTimeRevenue,
         subscriptions,
         averageRevenuePerUser,
       });
@@ -270,6 +331,19 @@ export class RevenueService {
     endDate: Date,
     communityId?: string
   ): Promise<number> {
+    const { revenue } = await this.getStripeInvoiceTotals(startDate, endDate, communityId);
+    return revenue;
+  }
+
+  /**
+   * Sum paid Stripe invoices for a period: revenue actually collected, and the
+   * amount coupons took off it
+   */
+  private static async getStripeInvoiceTotals(
+    startDate: Date,
+    endDate: Date,
+    communityId?: string
+  ): Promise<{ revenue: number; discounts: number }> {
     try {
       // Get all subscriptions for the period
       const whereClause: any = {
@@ -297,6 +371,7 @@ export class RevenueService {
       });
 
       let totalRevenue = 0;
+      let totalDiscounts = 0;
 
       // For each subscription, get the actual revenue from Stripe
       for (const subscription of subscriptions) {
@@ -313,23 +388,64 @@ export class RevenueService {
 
             for (const invoice of invoices.data) {
               totalRevenue += invoice.amount_paid / 100; // Convert from cents
+
+              for (const discount of invoice.total_discount_amounts || []) {
+                totalDiscounts += discount.amount / 100;
+              }
             }
           } catch (error) {
             console.error(`Error fetching invoices for subscription ${subscription.stripeSubscriptionId}:`, error);
-            // Fallback to estimated revenue based on subscription price
-            const monthlyPrice = subscription.community.priceMonthly || 0;
-            totalRevenue += Number(monthlyPrice);
+            // Fallback to estimated revenue based on subscription price; trials haven't paid yet
+            if (subscription.status !== 'trialing') {
+              const monthlyPrice = subscription.community.priceMonthly || 0;
+              totalRevenue += Number(monthlyPrice);
+            }
           }
         }
       }
 
-      return totalRevenue;
+      return { revenue: totalRevenue, discounts: totalDiscounts };
     } catch (error) {
       console.error('Error calculating Stripe revenue:', error);
-      return 0;
+      return { revenue: 0, discounts: 0 };
     }
   }
 
+  /**
+   * Of the trials started in a period that have finished, how many became paid
+   * subscriptions. Trials still running are left out of the rate.
+   */
+  private static async calculateTrialConversion(
+    startDate: Date,
+    endDate: Date,
+    communityId?: string
+  ): Promise<{ trialsStarted: number; trialsConverted: number; trialConversionRate: number }> {
+    const trials = await prisma.subscription.findMany({
+      where: {
+        createdAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+        trialEnd: { not: null },
+        ...(communityId && { communityId }),
+      },
+      select: {
+        status: true,
+        trialEnd: true,
+      },
+    });
+
+    const now = new Date();
+    const endedTrials = trials.filter(trial => trial.trialEnd! <= now && trial.status !== 'trialing');
+    const trialsConverted = endedTrials.filter(trial => ['active', 'past_due'].includes(trial.status)).length;
+
+    return {
+      trialsStarted: trials.length,
+      trialsConverted,
+      trialConversionRate: endedTrials.length > 0 ? (trialsConverted / endedTrials.length) * 100 : 0,
+    };
+  }
+
   /**
    * Calculate churn rate for a specific period
    */
@@ -389,14 +505,19 @@ export class RevenueService {
             priceYearly: true,
           },
         },
+        tier: {
+          select: {
+            priceMonthly: true,
+          },
+        },
       },
     });
 
     let mrr = 0;
 
     for (const subscription of subscriptions) {
-      // Assume monthly pricing for MRR calculation
-      const monthlyPrice = subscription.community.priceMonthly || 0;
+      // Assume monthly pricing for MRR calculation, at the subscriber's tier if they have one
+      const monthlyPrice = subscription.tier?.priceMonthly || subscription.community.priceMonthly || 0;
       mrr += Number(monthlyPrice);
     }
 
@@ -0,0 +1,303 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { AccessControlService } from './accessControlService';
+import { DripService } from './dripService';
+import { CursorPage } from './pagination';
+
+export const SEARCH_TYPES = ['community', 'post', 'comment', 'lesson'] as const;
+
+export type SearchResultType = typeof SEARCH_TYPES[number];
+
+export interface SearchOptions {
+  q: string;
+  type?: SearchResultType;
+  communityId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string | null;
+  snippet: string;
+  rank: number;
+  community: {
+    id: string;
+    name: string;
+    slug: string;
+  };
+  postId: string | null;
+  courseId: string | null;
+  createdAt: Date;
+}
+
+interface SearchRow {
+  type: SearchResultType;
+  id: string;
+  key: string;
+  title: string | null;
+  snippet: string;
+  rank: number;
+  community_id: string;
+  community_name: string;
+  community_slug: string;
+  post_id: string | null;
+  course_id: string | null;
+  created_at: Date;
+}
+
+interface SearchCursor {
+  rank: number;
+  key: string;
+}
+
+// Must match prisma/sql/search_indexes.sql so Postgres can use the GIN indexes
+const SEARCH_VECTORS: Record<SearchResultType, Prisma.Sql> = {
+  community: Prisma.raw(`(setweight(to_tsvector('english', coalesce(c.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(c.category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(c.description, '')), 'C'))`),
+  post: Prisma.raw(`(setweight(to_tsvector('english', coalesce(p.title, '')), 'A') ||
+    setweight(to_tsvector('english', p.content), 'B'))`),
+  comment: Prisma.raw(`to_tsvector('english', cm.content)`),
+  lesson: Prisma.raw(`(setweight(to_tsvector('english', l.title), 'A') ||
+    setweight(to_tsvector('english', coalesce(l.content, '')), 'B'))`)
+};
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2';
+
+// Stored mention tokens (@[name](userId), see mentionService) are shown as @name in snippets
+const MENTION_TOKEN_PATTERN = '@\\[([^]]{1,50})\\]\\(([A-Za-z0-9]{1,40})\\)';
+
+function stripMentions(column: string): Prisma.Sql {
+  return Prisma.sql`regexp_replace(${Prisma.raw(column)}, ${MENTION_TOKEN_PATTERN}, ${'@\\1'}, 'g')`;
+}
+
+// Rows scanned per round trip are limit + 1; stop after this many rounds of inaccessible lessons
+const MAX_SCAN_ROUNDS = 5;
+
+/**
+ * Ranked full-text search over communities, posts, comments and lessons.
+ *
+ * Only content in communities the caller can see is searched: public communities
+ * plus those they belong to, minus any they're banned from. Lessons additionally go
+ * through `AccessControlService.checkContentAccess` and the drip schedule, so paid,
+ * level-gated or still-locked lessons never appear for members who can't open them.
+ */
+export class SearchService {
+  /**
+   * Search everything the caller can access, best matches first
+   */
+  static async search(options: SearchOptions, userId?: string): Promise<CursorPage<SearchResult>> {
+    const limit = options.limit || 20;
+    let scanCursor = options.cursor ? this.decodeCursor(options.cursor) : null;
+
+    const items: SearchResult[] = [];
+    let lastReturned: SearchRow | null = null;
+
+    for (let round = 0; round < MAX_SCAN_ROUNDS; round++) {
+      const rows = await this.fetchRows(options, userId, scanCursor, limit + 1);
+
+      for (const row of rows) {
+        scanCursor = { rank: row.rank, key: row.key };
+
+        if (!(await this.canView(row, userId))) {
+          continue;
+        }
+
+        if (items.length === limit) {
+          return { items, nextCursor: this.encodeCursor(lastReturned!), hasMore: true };
+        }
+
+        items.push(this.toResult(row));
+        lastReturned = row;
+      }
+
+      if (rows.length <= limit) {
+        return { items, nextCursor: null, hasMore: false };
+      }
+    }
+
+    // Too many inaccessible lessons in a row; let the client carry on from where we stopped
+    return { items, nextCursor: scanCursor ? this.encodeCursor(scanCursor) : null, hasMore: true };
+  }
+
+  private static async fetchRows(
+    options: SearchOptions,
+    userId: string | undefined,
+    cursor: SearchCursor | null,
+    take: number
+  ): Promise<SearchRow[]> {
+    const types = options.type ? [options.type] : [...SEARCH_TYPES];
+    const viewerId = userId ?? null;
+
+    const subqueries = types.map(type => this.buildSubquery(type));
+
+    return prisma.$queryRaw<SearchRow[]>`
+      WITH search_query AS (
+        SELECT websearch_to_tsquery('english', ${options.q}) AS q
+      ),
+      accessible AS (
+        SELECT c.id, c.name, c.slug
+        FROM communities c
+        WHERE (
+          c.is_public
+          OR c.creator_id = ${viewerId}
+          OR EXISTS (
+            SELECT 1 FROM community_memberships m
+            WHERE m.community_id = c.id AND m.user_id = ${viewerId} AND m.status = 'active'
+          )
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM member_sanctions s
+          WHERE s.community_id = c.id AND s.user_id = ${viewerId} AND s.type = 'ban'
+            AND s.revoked_at IS NULL AND (s.expires_at IS NULL OR s.expires_at > now())
+        )
+        ${options.communityId ? Prisma.sql`AND c.id = ${options.communityId}` : Prisma.empty}
+      ),
+      results AS (
+        ${Prisma.join(subqueries, ' UNION ALL ')}
+      )
+      SELECT * FROM results
+      ${cursor
+        ? Prisma.sql`WHERE rank < ${cursor.rank}::real OR (rank = ${cursor.rank}::real AND key > ${cursor.key})`
+        : Prisma.empty}
+      ORDER BY rank DESC, key ASC
+      LIMIT ${take}
+    `;
+  }
+
+  private static buildSubquery(type: SearchResultType): Prisma.Sql {
+    const vector = SEARCH_VECTORS[type];
+
+    switch (type) {
+      case 'community':
+        return Prisma.sql`
+          SELECT 'community'::text AS type, c.id, 'community:' || c.id AS key, c.name AS title,
+            ts_headline('english', coalesce(c.description, c.name), sq.q, ${HEADLINE_OPTIONS}) AS snippet,
+            ts_rank(${vector}, sq.q, 32) AS rank,
+            a.id AS community_id, a.name AS community_name, a.slug AS community_slug,
+            NULL::text AS post_id, NULL::text AS course_id, c.created_at
+          FROM communities c
+          JOIN accessible a ON a.id = c.id
+          CROSS JOIN search_query sq
+          WHERE ${vector} @@ sq.q`;
+
+      case 'post':
+        return Prisma.sql`
+          SELECT 'post'::text AS type, p.id, 'post:' || p.id AS key, p.title,
+            ts_headline('english', ${stripMentions('p.content')}, sq.q, ${HEADLINE_OPTIONS}) AS snippet,
+            ts_rank(${vector}, sq.q, 32) AS rank,
+            a.id AS community_id, a.name AS community_name, a.slug AS community_slug,
+            p.id AS post_id, NULL::text AS course_id, p.created_at
+          FROM posts p
+          JOIN accessible a ON a.id = p.community_id
+          CROSS JOIN search_query sq
+          WHERE p.is_published AND NOT p.is_hidden AND ${vector} @@ sq.q`;
+
+      case 'comment':
+        return Prisma.sql`
+          SELECT 'comment'::text AS type, cm.id, 'comment:' || cm.id AS key, p.title,
+            ts_headline('english', ${stripMentions('cm.content')}, sq.q, ${HEADLINE_OPTIONS}) AS snippet,
+            ts_rank(${vector}, sq.q, 32) AS rank,
+            a.id AS community_id, a.name AS community_name, a.slug AS community_slug,
+            p.id AS post_id, NULL::text AS course_id, cm.created_at
+          FROM comments cm
+          JOIN posts p ON p.id = cm.post_id
+          JOIN accessible a ON a.id = p.community_id
+          CROSS JOIN search_query sq
+          WHERE p.is_published AND NOT p.is_hidden AND NOT cm.is_hidden AND ${vector} @@ sq.q`;
+
+      case 'lesson':
+        return Prisma.sql`
+          SELECT 'lesson'::text AS type, l.id, 'lesson:' || l.id AS key, l.title,
+            ts_headline('english', coalesce(l.content, l.title), sq.q, ${HEADLINE_OPTIONS}) AS snippet,
+            ts_rank(${vector}, sq.q, 32) AS rank,
+            a.id AS community_id, a.name AS community_name, a.slug AS community_slug,
+            NULL::text AS post_id, co.id AS course_id, l.created_at
+          FROM lessons l
+          JOIN courses co ON co.id = l.course_id
+          JOIN accessible a ON a.id = co.community_id
+          CROSS JOIN search_query sq
+          WHERE co.is_published AND ${vector} @@ sq.q`;
+    }
+  }
+
+  /**
+   * Lessons can be paid, level-gated or not dripped yet; everything else was already filtered in SQL
+   */
+  private static async canView(row: SearchRow, userId?: string): Promise<boolean> {
+    if (row.type !== 'lesson') {
+      return true;
+    }
+
+    const access = await AccessControlService.checkContentAccess('lesson', row.id, userId);
+    if (!access.canView) {
+      return false;
+    }
+
+    if (['creator', 'admin', 'moderator'].includes(access.role)) {
+      return true;
+    }
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: row.id },
+      select: { id: true, courseId: true, dripType: true, dripDays: true, dripDate: true }
+    });
+
+    if (!lesson) {
+      return false;
+    }
+
+    const lock = await DripService.getLessonLock(lesson, row.community_id, userId);
+    return !lock.isLocked;
+  }
+
+  private static toResult(row: SearchRow): SearchResult {
+    return {
+      type: row.type,
+      id: row.id,
+      title: row.title,
+      snippet: this.sanitizeSnippet(row.snippet),
+      rank: row.rank,
+      community: {
+        id: row.community_id,
+        name: row.community_name,
+        slug: row.community_slug
+      },
+      postId: row.post_id,
+      courseId: row.course_id,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Escape the snippet so it's safe to render as HTML, keeping only the <mark> highlights
+   */
+  private static sanitizeSnippet(snippet: string): string {
+    return snippet
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/&lt;(\/?)mark&gt;/g, '<$1mark>');
+  }
+
+  private static encodeCursor(position: SearchCursor): string {
+    return Buffer.from(JSON.stringify({ rank: position.rank, key: position.key })).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): SearchCursor {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+      if (typeof decoded.rank !== 'number' || typeof decoded.key !== 'string') {
+        throw new Error('Invalid cursor');
+      }
+
+      return { rank: decoded.rank, key: decoded.key };
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+  }
+}
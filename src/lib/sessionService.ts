@@ -0,0 +1,289 @@
+import crypto from 'crypto';
+import { User } from '@prisma/client';
+import prisma from './prisma';
+import { redisService } from './redis';
+import { auditLogger } from './auditLogger';
+import { generateTokenPair, getTokenExpiry, verifyRefreshToken, TokenPair } from './auth';
+
+export interface SessionContext {
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'token_reuse' | 'password_change';
+
+// Shape of the session state mirrored into Redis
+interface CachedSessionState {
+  userId: string;
+  tokenId: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+/**
+ * Server-side refresh token sessions.
+ *
+ * Each login starts a session (a refresh token family). Every refresh rotates the
+ * session's token ID, so only the most recently issued refresh token is valid.
+ * Presenting an older token from the same family is treated as theft and revokes
+ * the whole session. Postgres is the source of truth; session state is mirrored
+ * into Redis so lookups skip the database while Redis is available.
+ */
+export class SessionService {
+  /**
+   * Start a new session for a user and issue its first token pair
+   */
+  static async createSession(user: User, context: SessionContext = {}): Promise<TokenPair> {
+    const sessionId = crypto.randomUUID();
+    const tokenId = this.generateTokenId();
+
+    const tokens = generateTokenPair(user, { sessionId, tokenId });
+    const expiresAt = getTokenExpiry(tokens.refreshToken) || new Date();
+
+    await prisma.refreshSession.create({
+      data: {
+        id: sessionId,
+        userId: user.id,
+        tokenId,
+        deviceName: context.deviceName,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        expiresAt
+      }
+    });
+
+    await this.cacheSessionState(sessionId, {
+      userId: user.id,
+      tokenId,
+      expiresAt: expiresAt.toISOString(),
+      revokedAt: null
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, invalidating the presented token
+   */
+  static async rotateSession(refreshToken: string, context: SessionContext = {}): Promise<{ user: User; tokens: TokenPair }> {
+    const payload = verifyRefreshToken(refreshToken);
+
+    if (!payload.sessionId || !payload.tokenId) {
+      throw new Error('Refresh token is not bound to a session');
+    }
+
+    const state = await this.getSessionState(payload.sessionId);
+
+    if (!state || state.userId !== payload.userId) {
+      throw new Error('Session not found');
+    }
+
+    if (state.revokedAt) {
+      throw new Error('Session has been revoked');
+    }
+
+    if (new Date(state.expiresAt) <= new Date()) {
+      throw new Error('Session has expired');
+    }
+
+    if (state.tokenId !== payload.tokenId) {
+      await this.handleTokenReuse(payload.sessionId, payload.userId, context);
+      throw new Error('Refresh token has already been used');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const nextTokenId = this.generateTokenId();
+    const tokens = generateTokenPair(user, { sessionId: payload.sessionId, tokenId: nextTokenId });
+    const expiresAt = getTokenExpiry(tokens.refreshToken) || new Date(state.expiresAt);
+
+    // Compare-and-swap on the current token ID so two concurrent refreshes
+    // with the same token cannot both succeed
+    const rotated = await prisma.refreshSession.updateMany({
+      where: {
+        id: payload.sessionId,
+        tokenId: payload.tokenId,
+        revokedAt: null
+      },
+      data: {
+        tokenId: nextTokenId,
+        expiresAt,
+        lastUsedAt: new Date(),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        ...(context.userAgent && { userAgent: context.userAgent })
+      }
+    });
+
+    if (rotated.count === 0) {
+      await this.handleTokenReuse(payload.sessionId, payload.userId, context);
+      throw new Error('Refresh token has already been used');
+    }
+
+    await this.cacheSessionState(payload.sessionId, {
+      userId: user.id,
+      tokenId: nextTokenId,
+      expiresAt: expiresAt.toISOString(),
+      revokedAt: null
+    });
+
+    return { user, tokens };
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to. Returns the owning user ID, if any.
+   */
+  static async revokeByRefreshToken(refreshToken: string, reason: SessionRevokeReason = 'logout'): Promise<string | null> {
+    let payload;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch (error) {
+      return null;
+    }
+
+    if (!payload.sessionId) {
+      return null;
+    }
+
+    await this.revokeSession(payload.sessionId, reason, payload.userId);
+    return payload.userId;
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(sessionId: string, reason: SessionRevokeReason, userId?: string): Promise<boolean> {
+    const result = await prisma.refreshSession.updateMany({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+        ...(userId && { userId })
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason
+      }
+    });
+
+    await redisService.deleteSession(sessionId);
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke every active session for a user ("log out all devices")
+   */
+  static async revokeAllUserSessions(userId: string, reason: SessionRevokeReason = 'logout_all'): Promise<number> {
+    const sessions = await prisma.refreshSession.findMany({
+      where: { userId, revokedAt: null },
+      select: { id: true }
+    });
+
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.refreshSession.updateMany({
+      where: {
+        id: { in: sessions.map(session => session.id) },
+        revokedAt: null
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason
+      }
+    });
+
+    await Promise.all(sessions.map(session => redisService.deleteSession(session.id)));
+
+    return result.count;
+  }
+
+  /**
+   * List a user's active (non-revoked, unexpired) sessions
+   */
+  static async getActiveSessions(userId: string) {
+    return prisma.refreshSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { lastUsedAt: 'desc' },
+      select: {
+        id: true,
+        deviceName: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true
+      }
+    });
+  }
+
+  /**
+   * Revoke the whole token family after a rotated-out refresh token is presented again
+   */
+  private static async handleTokenReuse(sessionId: string, userId: string, context: SessionContext) {
+    await this.revokeSession(sessionId, 'token_reuse');
+
+    await auditLogger.logSecurityEvent({
+      userId,
+      action: 'REFRESH_TOKEN_REUSE',
+      resource: 'authentication',
+      reason: 'Rotated refresh token presented again; session revoked',
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: { sessionId }
+    });
+  }
+
+  /**
+   * Read session state from Redis, falling back to Postgres
+   */
+  private static async getSessionState(sessionId: string): Promise<CachedSessionState | null> {
+    const cached = await redisService.getSession<CachedSessionState>(sessionId);
+    if (cached) {
+      return cached;
+    }
+
+    const session = await prisma.refreshSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    const state: CachedSessionState = {
+      userId: session.userId,
+      tokenId: session.tokenId,
+      expiresAt: session.expiresAt.toISOString(),
+      revokedAt: session.revokedAt ? session.revokedAt.toISOString() : null
+    };
+
+    if (!state.revokedAt) {
+      await this.cacheSessionState(sessionId, state);
+    }
+
+    return state;
+  }
+
+  private static async cacheSessionState(sessionId: string, state: CachedSessionState) {
+    const ttlSeconds = Math.floor((new Date(state.expiresAt).getTime() - Date.now()) / 1000);
+    if (ttlSeconds > 0) {
+      await redisService.setSession(sessionId, state, ttlSeconds);
+    }
+  }
+
+  private static generateTokenId(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+}
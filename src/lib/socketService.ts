@@ -1,6 +1,10 @@
 import { Server, Socket } from 'socket.io';
 import { verifyAccessToken, JwtPayload } from './auth';
 import prisma from './prisma';
+import { CommunityLevel } from './levelService';
+import { MemberSanctionService } from './memberSanctionService';
+import { ReactionUpdate } from './reactionService';
+import { PollResults } from './pollService';
 
 export interface AuthenticatedSocket extends Socket {
   user?: {
@@ -189,6 +193,14 @@ export class SocketService {
         return false;
       }
 
+      // Banned users can't follow the community, even when it's public
+      if (userId) {
+        const { ban } = await MemberSanctionService.getActiveSanctions(communityId, userId);
+        if (ban) {
+          return false;
+        }
+      }
+
       // Public communities are accessible to everyone
       if (community.isPublic) {
         return true;
@@ -216,6 +228,7 @@ export class SocketService {
         title: post.title,
         content: post.content,
         postType: post.postType,
+        poll: post.poll,
         author: post.author,
         createdAt: post.createdAt,
         likeCount: post.likeCount,
@@ -241,6 +254,57 @@ export class SocketService {
     });
   }
 
+  /**
+   * Broadcast a moderator hiding, locking or pinning content
+   */
+  public broadcastContentModerated(communityId: string, update: {
+    contentType: 'post' | 'comment';
+    contentId: string;
+    postId: string;
+    isHidden?: boolean;
+    isLocked?: boolean;
+    isPinned?: boolean;
+  }): void {
+    this.io.to(`community-${communityId}`).emit('community:content_moderated', {
+      ...update,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Broadcast a reaction being added to or taken back from a post or comment
+   */
+  public broadcastReactionUpdated(communityId: string, update: ReactionUpdate): void {
+    this.io.to(`community-${communityId}`).emit('community:reaction_updated', {
+      ...update,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Broadcast new poll results after a vote changes
+   */
+  public broadcastPollUpdated(communityId: string, results: PollResults): void {
+    this.io.to(`community-${communityId}`).emit('community:poll_updated', {
+      ...results,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Remove a user's sockets from a community room, e.g. after a ban
+   */
+  public async removeUserFromCommunity(userId: string, communityId: string): Promise<void> {
+    const room = `community-${communityId}`;
+
+    for (const socket of this.io.sockets.sockets.values() as IterableIterator<AuthenticatedSocket>) {
+      if (socket.user?.id === userId && socket.rooms.has(room)) {
+        await socket.leave(room);
+        socket.emit('error', { message: 'Access denied to community' });
+      }
+    }
+  }
+
   /**
    * Broadcast member joined event
    */
@@ -309,6 +373,19 @@ export class SocketService {
     }
   }
 
+  /**
+   * Notify a user that they reached a new level in a community
+   */
+  public broadcastLevelUp(userId: string, communityId: string, level: CommunityLevel): void {
+    this.io.to(`user-${userId}`).emit('user:level_up', {
+      communityId,
+      level: level.level,
+      name: level.name,
+      pointsRequired: level.pointsRequired,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   /**
    * Broadcast lesson completion event
    */
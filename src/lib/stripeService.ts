@@ -1,5 +1,7 @@
 import Stripe from 'stripe';
 import prisma from './prisma';
+import { CouponService } from './couponService';
+import { CoursePurchaseService } from './coursePurchaseService';
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY environment variable is required');
@@ -14,6 +16,9 @@ export interface CreateSubscriptionParams {
   communityId: string;
   priceId: string;
   paymentMethodId?: string;
+  trialDays?: number;
+  couponId?: string;
+  tierId?: string;
 }
 
 export interface CreateCustomerParams {
@@ -76,6 +81,9 @@ export class StripeService {
     communityId,
     priceId,
     paymentMethodId,
+    trialDays,
+    couponId,
+    tierId,
   }: CreateSubscriptionParams): Promise<{
     subscription: Stripe.Subscription;
     clientSecret?: string;
@@ -91,6 +99,7 @@ export class StripeService {
       metadata: {
         userId,
         communityId,
+        ...(tierId && { tierId }),
       },
     };
 
@@ -98,7 +107,31 @@ export class StripeService {
       subscriptionParams.default_payment_method = paymentMethodId;
     }
 
-    const subscription = await stripe.subscriptions.create(subscriptionParams);
+    if (trialDays) {
+      subscriptionParams.trial_period_days = trialDays;
+    }
+
+    // Take the redemption up front so concurrent checkouts can't exceed the cap
+    if (couponId) {
+      await CouponService.redeem(couponId);
+    }
+
+    let subscription: Stripe.Subscription;
+
+    try {
+      if (couponId) {
+        subscriptionParams.discounts = [{ coupon: await this.getOrCreateStripeCoupon(couponId) }];
+        subscriptionParams.metadata = { ...subscriptionParams.metadata as Stripe.MetadataParam, couponId };
+      }
+
+      subscription = await stripe.subscriptions.create(subscriptionParams);
+    } catch (error) {
+      if (couponId) {
+        await CouponService.release(couponId);
+      }
+      throw error;
+    }
+
     const subscription_data = subscription as any;
 
     // Save subscription to database
@@ -110,6 +143,9 @@ export class StripeService {
         status: subscription.status,
         currentPeriodStart: new Date(subscription_data.current_period_start * 1000),
         currentPeriodEnd: new Date(subscription_data.current_period_end * 1000),
+        trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+        couponId: couponId ?? null,
+        tierId: tierId ?? null,
       },
     });
 
@@ -130,6 +166,87 @@ export class StripeService {
     return result;
   }
 
+  /**
+   * Stripe coupon for a community coupon, created on its first redemption
+   */
+  static async getOrCreateStripeCoupon(couponId: string): Promise<string> {
+    const coupon = await prisma.communityCoupon.findUniqueOrThrow({
+      where: { id: couponId },
+    });
+
+    if (coupon.stripeCouponId) {
+      return coupon.stripeCouponId;
+    }
+
+    // A fixed id makes a concurrent first redemption find the same Stripe coupon
+    const stripeCouponId = `community_coupon_${coupon.id}`;
+
+    try {
+      await stripe.coupons.create({
+        id: stripeCouponId,
+        name: coupon.code,
+        ...(coupon.discountType === 'percent'
+          ? { percent_off: coupon.percentOff! }
+          : { amount_off: Math.round(Number(coupon.amountOff) * 100), currency: coupon.currency }),
+        duration: coupon.duration as Stripe.CouponCreateParams.Duration,
+        ...(coupon.durationInMonths && { duration_in_months: coupon.durationInMonths }),
+        metadata: {
+          communityId: coupon.communityId,
+          couponId: coupon.id,
+        },
+      });
+    } catch (error: any) {
+      if (error?.code !== 'resource_already_exists') {
+        throw error;
+      }
+    }
+
+    await prisma.communityCoupon.update({
+      where: { id: coupon.id },
+      data: { stripeCouponId },
+    });
+
+    return stripeCouponId;
+  }
+
+  /**
+   * Start a one-time purchase of a course. Access is granted by the
+   * payment_intent.succeeded webhook, not here.
+   */
+  static async createCoursePaymentIntent(
+    userId: string,
+    course: { id: string; communityId: string; title: string; price: { toString(): string }; currency: string }
+  ): Promise<{ paymentIntent: Stripe.PaymentIntent; clientSecret: string | null }> {
+    const customer = await this.getOrCreateCustomer(userId);
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: Math.round(Number(course.price.toString()) * 100), // Convert to cents
+      currency: course.currency,
+      customer: customer.id,
+      automatic_payment_methods: { enabled: true },
+      description: `Course: ${course.title}`,
+      metadata: {
+        type: 'course_purchase',
+        userId,
+        courseId: course.id,
+        communityId: course.communityId,
+      },
+    });
+
+    await CoursePurchaseService.createPending(userId, course, paymentIntent);
+
+    return { paymentIntent, clientSecret: paymentIntent.client_secret };
+  }
+
+  /**
+   * Refund a course purchase in full. Access is revoked by the charge.refunded webhook.
+   */
+  static async refundCoursePurchase(paymentIntentId: string): Promise<Stripe.Refund> {
+    return stripe.refunds.create({
+      payment_intent: paymentIntentId,
+    });
+  }
+
   /**
    * Cancel a subscription
    */
@@ -206,12 +323,15 @@ export class StripeService {
     amount: number,
     currency: string = 'usd',
     interval: 'month' | 'year' = 'month',
-    productName: string
+    productName: string,
+    productId?: string
   ): Promise<Stripe.Price> {
-    // First create a product
-    const product = await stripe.products.create({
-      name: productName,
-    });
+    // First create a product, unless the price belongs to an existing one
+    const product = productId
+      ? { id: productId }
+      : await stripe.products.create({
+          name: productName,
+        });
 
     // Then create a price for the product
     return stripe.prices.create({
@@ -222,6 +342,49 @@ export class StripeService {
     });
   }
 
+  /**
+   * Create the Stripe product and any missing prices for a membership tier
+   */
+  static async syncTierPrices(tierId: string) {
+    const tier = await prisma.membershipTier.findUniqueOrThrow({
+      where: { id: tierId },
+      include: { community: { select: { name: true } } },
+    });
+
+    const productName = `${tier.community.name} - ${tier.name}`;
+    const data: {
+      stripeProductId?: string;
+      stripePriceMonthlyId?: string;
+      stripePriceYearlyId?: string;
+    } = {};
+
+    const needsMonthly = tier.priceMonthly !== null && !tier.stripePriceMonthlyId;
+    const needsYearly = tier.priceYearly !== null && !tier.stripePriceYearlyId;
+
+    if (!needsMonthly && !needsYearly) {
+      return tier;
+    }
+
+    const productId = tier.stripeProductId
+      ?? (await stripe.products.create({ name: productName, metadata: { tierId: tier.id } })).id;
+    data.stripeProductId = productId;
+
+    if (needsMonthly) {
+      const price = await this.createPrice(Number(tier.priceMonthly), tier.currency, 'month', productName, productId);
+      data.stripePriceMonthlyId = price.id;
+    }
+
+    if (needsYearly) {
+      const price = await this.createPrice(Number(tier.priceYearly), tier.currency, 'year', productName, productId);
+      data.stripePriceYearlyId = price.id;
+    }
+
+    return prisma.membershipTier.update({
+      where: { id: tier.id },
+      data,
+    });
+  }
+
   /**
    * Get subscription by ID
    */
@@ -392,7 +555,7 @@ export class StripeService {
   static async changeSubscriptionPlan(
     subscriptionId: string,
     newPriceId: string,
-    prorationBehavior: 'create_prorations' | 'none' = 'create_prorations'
+    prorationBehavior: 'create_prorations' | 'always_invoice' | 'none' = 'create_prorations'
   ): Promise<Stripe.Subscription> {
     const subscription = await stripe.subscriptions.retrieve(subscriptionId);
     
@@ -416,7 +579,7 @@ export class StripeService {
     customerId: string,
     subscriptionId?: string,
     newPriceId?: string
-  ): Promise<any> {
+  ): Promise<Stripe.Invoice> {
     try {
       const params: any = {
         customer: customerId,
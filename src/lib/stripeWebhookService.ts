@@ -0,0 +1,845 @@
+import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
+import { stripe, StripeService } from './stripeService';
+import prisma from './prisma';
+import { WebhookService } from './webhookService';
+import { notificationService, NotificationType } from './notificationService';
+import { TierService } from './tierService';
+import { CoursePurchaseService } from './coursePurchaseService';
+import { CouponService } from './couponService';
+import { PayoutService, LedgerEntrySource } from './payoutService';
+import { MemberSanctionService } from './memberSanctionService';
+import { paginate, CursorPageOptions } from './pagination';
+
+export type StripeEventStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+export interface StripeEventQueryOptions extends CursorPageOptions {
+  status?: StripeEventStatus;
+  type?: string;
+}
+
+// Delay before each retry: 1 min, 5 min, 30 min, 2 h, 12 h
+const RETRY_DELAYS_MS = [60, 300, 1800, 7200, 43200].map(seconds => seconds * 1000);
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+// How long a handler may run before another attempt treats it as crashed
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Inbound Stripe webhooks.
+ *
+ * Every verified event is stored by its Stripe event ID before it is handled, so a
+ * redelivery of an event that already succeeded is skipped. Claims are conditional
+ * updates that also take a lease, so the webhook route, the retry job and an admin
+ * replay never run the same event at once. Failed events are retried with backoff
+ * by the job queue; events that exhaust their attempts are marked `failed` and can
+ * be replayed.
+ */
+export class StripeWebhookService {
+  /**
+   * Store a verified event and process it unless it was already handled.
+   * Returns null for duplicates.
+   */
+  static async receive(event: Stripe.Event) {
+    const stored = await prisma.stripeEvent.upsert({
+      where: { stripeEventId: event.id },
+      create: {
+        stripeEventId: event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonValue
+      },
+      update: {}
+    });
+
+    return this.processEvent(stored.id);
+  }
+
+  /**
+   * Run the handler for a stored event if it is due and not already done. Returns
+   * the updated event, or null if it couldn't be claimed.
+   */
+  static async processEvent(id: string) {
+    const now = new Date();
+
+    const claimed = await prisma.stripeEvent.updateMany({
+      where: {
+        id,
+        status: { in: ['pending', 'processing', 'failed'] },
+        nextAttemptAt: { lte: now }
+      },
+      data: {
+        status: 'processing',
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(now.getTime() + PROCESSING_LEASE_MS)
+      }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const stored = await prisma.stripeEvent.findUniqueOrThrow({ where: { id } });
+
+    try {
+      await handleEvent(stored.payload as unknown as Stripe.Event);
+    } catch (error) {
+      console.error(`Error processing Stripe event ${stored.stripeEventId}:`, error);
+
+      const exhausted = stored.attempts >= MAX_ATTEMPTS;
+
+      return prisma.stripeEvent.update({
+        where: { id },
+        data: {
+          status: exhausted ? 'failed' : 'pending',
+          error: error instanceof Error ? error.message : 'Handler failed',
+          ...(!exhausted && {
+            nextAttemptAt: new Date(Date.now() + RETRY_DELAYS_MS[stored.attempts - 1])
+          })
+        }
+      });
+    }
+
+    return prisma.stripeEvent.update({
+      where: { id },
+      data: { status: 'succeeded', error: null, processedAt: new Date() }
+    });
+  }
+
+  /**
+   * Retry events whose next attempt is due. Run by the job queue.
+   */
+  static async processDueEvents(): Promise<{ attempted: number; succeeded: number }> {
+    const due = await prisma.stripeEvent.findMany({
+      where: {
+        status: { in: ['pending', 'processing'] },
+        nextAttemptAt: { lte: new Date() }
+      },
+      // Oldest first, so a subscription's events are applied in the order Stripe sent them
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+      select: { id: true }
+    });
+
+    let succeeded = 0;
+
+    for (const event of due) {
+      const result = await this.processEvent(event.id);
+
+      if (result?.status === 'succeeded') {
+        succeeded++;
+      }
+    }
+
+    return { attempted: due.length, succeeded };
+  }
+
+  /**
+   * Process an event again from its stored payload, whatever its status. Fails if
+   * another attempt currently holds it.
+   */
+  static async replayEvent(id: string) {
+    const event = await this.getEvent(id);
+
+    const reset = await prisma.stripeEvent.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: { not: 'processing' } },
+          { nextAttemptAt: { lte: new Date() } }
+        ]
+      },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date()
+      }
+    });
+
+    if (reset.count === 0) {
+      throw new Error('Stripe event is already being processed');
+    }
+
+    return (await this.processEvent(event.id)) ?? this.getEvent(event.id);
+  }
+
+  /**
+   * List stored events, newest first
+   */
+  static async getEvents(options: StripeEventQueryOptions = {}) {
+    const { status, type, cursor, limit } = options;
+
+    const where: Prisma.StripeEventWhereInput = {
+      ...(status && { status }),
+      ...(type && { type })
+    };
+
+    return paginate([{ field: 'createdAt', direction: 'desc' }], { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
+      prisma.stripeEvent.findMany({
+        where: { AND: [where, cursorWhere] },
+        orderBy,
+        take,
+        select: {
+          id: true,
+          stripeEventId: true,
+          type: true,
+          status: true,
+          attempts: true,
+          nextAttemptAt: true,
+          error: true,
+          processedAt: true,
+          createdAt: true
+        }
+      })
+    );
+  }
+
+  /**
+   * Get a single stored event with its payload
+   */
+  static async getEvent(id: string) {
+    const event = await prisma.stripeEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new Error('Stripe event not found');
+    }
+
+    return event;
+  }
+}
+
+/**
+ * Apply an event to our data
+ */
+async function handleEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'customer.subscription.created':
+      await handleSubscriptionCreated(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdated(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'invoice.payment_succeeded':
+      await handlePaymentSucceeded(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'invoice.payment_failed':
+      await handlePaymentFailed(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'customer.subscription.trial_will_end':
+      await handleTrialWillEnd(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'invoice.upcoming':
+      await handleUpcomingInvoice(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'customer.subscription.paused':
+      await handleSubscriptionPaused(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'customer.subscription.resumed':
+      await handleSubscriptionResumed(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'payment_intent.succeeded':
+      await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
+      break;
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+
+    case 'charge.dispute.created':
+      await handleDisputeCreated(event.data.object as Stripe.Dispute);
+      break;
+
+    case 'charge.dispute.closed':
+      await handleDisputeClosed(event.data.object as Stripe.Dispute);
+      break;
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Handle subscription created event
+ */
+async function handleSubscriptionCreated(subscription: Stripe.Subscription): Promise<void> {
+  console.log('Subscription created:', subscription.id);
+  const subscription_data = subscription as any;
+
+  await StripeService.updateSubscriptionStatus(
+    subscription.id,
+    subscription.status,
+    subscription_data.current_period_start,
+    subscription_data.current_period_end
+  );
+
+  // Trials get access straight away; only paid activation counts as a start
+  if (['active', 'trialing'].includes(subscription.status)) {
+    await grantCommunityAccess(subscription);
+  }
+
+  if (subscription.status === 'active') {
+    await dispatchSubscriptionWebhook(subscription.id, 'subscription.started');
+  }
+}
+
+/**
+ * Handle subscription updated event
+ */
+async function handleSubscriptionUpdated(subscription: Stripe.Subscription): Promise<void> {
+  console.log('Subscription updated:', subscription.id);
+  const subscription_data = subscription as any;
+  const previousStatus = await getStoredSubscriptionStatus(subscription.id);
+
+  await StripeService.updateSubscriptionStatus(
+    subscription.id,
+    subscription.status,
+    subscription_data.current_period_start,
+    subscription_data.current_period_end
+  );
+  await syncSubscriptionTier(subscription);
+
+  // Handle status changes
+  if (['active', 'trialing'].includes(subscription.status)) {
+    await grantCommunityAccess(subscription);
+  } else if (['canceled', 'unpaid', 'past_due'].includes(subscription.status)) {
+    await revokeCommunityAccess(subscription);
+  }
+
+  // Checkout was abandoned, so the coupon was never used
+  if (subscription.status === 'incomplete_expired' && previousStatus !== 'incomplete_expired') {
+    await releaseUnpaidCoupon(subscription.id);
+  }
+
+  // Only the first activation counts as a start; recovering from past_due does not
+  if (subscription.status === 'active' && ['incomplete', 'trialing'].includes(previousStatus || '')) {
+    await dispatchSubscriptionWebhook(subscription.id, 'subscription.started');
+  } else if (subscription.status === 'canceled' && previousStatus !== 'canceled') {
+    await dispatchSubscriptionWebhook(subscription.id, 'subscription.canceled');
+  }
+}
+
+/**
+ * Handle subscription deleted event
+ */
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
+  console.log('Subscription deleted:', subscription.id);
+  const previousStatus = await getStoredSubscriptionStatus(subscription.id);
+
+  await StripeService.updateSubscriptionStatus(subscription.id, 'canceled');
+  await revokeCommunityAccess(subscription);
+
+  // Deleted before the first payment went through
+  if (previousStatus === 'incomplete') {
+    await releaseUnpaidCoupon(subscription.id);
+  }
+
+  if (previousStatus !== 'canceled') {
+    await dispatchSubscriptionWebhook(subscription.id, 'subscription.canceled');
+  }
+}
+
+/**
+ * Handle successful payment
+ */
+async function handlePaymentSucceeded(invoice: Stripe.Invoice): Promise<void> {
+  console.log('Payment succeeded for invoice:', invoice.id);
+  const invoice_data = invoice as any;
+
+  if (invoice_data.subscription && typeof invoice_data.subscription === 'string') {
+    // Update subscription status to active if it was past_due
+    const subscription = await stripe.subscriptions.retrieve(invoice_data.subscription);
+    const subscription_data = subscription as any;
+    
+    await StripeService.updateSubscriptionStatus(
+      subscription.id,
+      subscription.status,
+      subscription_data.current_period_start,
+      subscription_data.current_period_end
+    );
+
+    // Grant access if payment succeeded
+    if (subscription.status === 'active') {
+      await grantCommunityAccess(subscription);
+    }
+
+    await recordSubscriptionEarning(invoice, subscription.id);
+  }
+}
+
+/**
+ * Handle failed payment
+ */
+async function handlePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+  console.log('Payment failed for invoice:', invoice.id);
+  const invoice_data = invoice as any;
+
+  if (invoice_data.subscription && typeof invoice_data.subscription === 'string') {
+    await StripeService.handleFailedPayment(invoice_data.subscription);
+    
+    // Optionally revoke access immediately or give grace period
+    const subscription = await stripe.subscriptions.retrieve(invoice_data.subscription);
+    if (subscription.status === 'unpaid') {
+      await revokeCommunityAccess(subscription);
+    }
+  }
+}
+
+/**
+ * Handle trial ending soon
+ */
+async function handleTrialWillEnd(subscription: Stripe.Subscription): Promise<void> {
+  console.log('Trial will end for subscription:', subscription.id);
+
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId: subscription.id },
+    include: { community: { select: { id: true, name: true } } },
+  });
+
+  if (!dbSubscription || !subscription.trial_end) {
+    return;
+  }
+
+  const trialEnd = new Date(subscription.trial_end * 1000);
+
+  await prisma.subscription.update({
+    where: { id: dbSubscription.id },
+    data: { trialEnd },
+  });
+
+  await notificationService.createNotification({
+    userId: dbSubscription.userId,
+    type: NotificationType.TRIAL_ENDING,
+    title: 'Your free trial is ending soon',
+    message: `Your free trial of ${dbSubscription.community.name} ends on ${trialEnd.toDateString()}. ` +
+      (subscription.cancel_at_period_end
+        ? 'Your subscription will not renew.'
+        : 'Your payment method will be charged then unless you cancel.'),
+    data: {
+      communityId: dbSubscription.communityId,
+      subscriptionId: dbSubscription.id,
+      trialEnd: trialEnd.toISOString(),
+    },
+  });
+}
+
+/**
+ * Handle upcoming invoice (renewal reminder)
+ */
+async function handleUpcomingInvoice(invoice: Stripe.Invoice): Promise<void> {
+  const invoice_data = invoice as any;
+  console.log('Upcoming invoice for subscription:', invoice_data.subscription);
+  
+  // Here you could send a notification to the user about upcoming renewal
+  // This would integrate with the notification system when implemented
+}
+
+/**
+ * Handle subscription paused
+ */
+async function handleSubscriptionPaused(subscription: Stripe.Subscription): Promise<void> {
+  console.log('Subscription paused:', subscription.id);
+  
+  await StripeService.updateSubscriptionStatus(subscription.id, 'paused');
+  
+  // Suspend community access
+  await revokeCommunityAccess(subscription);
+}
+
+/**
+ * Handle subscription resumed
+ */
+async function handleSubscriptionResumed(subscription: Stripe.Subscription): Promise<void> {
+  console.log('Subscription resumed:', subscription.id);
+  const subscription_data = subscription as any;
+  
+  await StripeService.updateSubscriptionStatus(
+    subscription.id,
+    subscription.status,
+    subscription_data.current_period_start,
+    subscription_data.current_period_end
+  );
+  
+  // Restore community access if subscription is active
+  if (subscription.status === 'active') {
+    await grantCommunityAccess(subscription);
+  }
+}
+
+/**
+ * Handle a successful one-time payment; course purchases get access here
+ */
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  if (paymentIntent.metadata?.type !== 'course_purchase') {
+    return;
+  }
+
+  console.log('Course purchase succeeded:', paymentIntent.id);
+  const purchase = await CoursePurchaseService.recordSucceeded(paymentIntent);
+
+  await PayoutService.recordEntry({
+    communityId: purchase.communityId,
+    type: 'earning',
+    source: 'course_purchase',
+    amount: paymentIntent.amount_received / 100,
+    currency: paymentIntent.currency,
+    stripeObjectId: paymentIntent.id,
+    description: `Course purchase ${purchase.courseId}`,
+    occurredAt: purchase.purchasedAt ?? undefined
+  });
+}
+
+/**
+ * Handle a failed one-time payment
+ */
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+  if (paymentIntent.metadata?.type !== 'course_purchase') {
+    return;
+  }
+
+  console.log('Course purchase failed:', paymentIntent.id);
+  await CoursePurchaseService.recordFailed(paymentIntent.id);
+}
+
+/**
+ * Handle a refund; a fully refunded course purchase loses its access. Stripe reports
+ * the charge's total refunded so far, so only the increase is booked to the ledger.
+ */
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id;
+
+  if (paymentIntentId) {
+    const purchase = await CoursePurchaseService.recordRefund(paymentIntentId, charge.amount_refunded);
+
+    if (purchase) {
+      console.log(`Course purchase ${purchase.id} refunded (${purchase.status})`);
+    }
+  }
+
+  const owner = await resolveChargeCommunity(charge);
+
+  if (!owner) {
+    return;
+  }
+
+  const alreadyBooked = await PayoutService.getRecordedAmount('refund', `${charge.id}:`);
+
+  await PayoutService.recordEntry({
+    communityId: owner.communityId,
+    type: 'refund',
+    source: owner.source,
+    amount: charge.amount_refunded / 100 - alreadyBooked,
+    currency: charge.currency,
+    stripeObjectId: `${charge.id}:${charge.amount_refunded}`,
+    description: `Refund of charge ${charge.id}`
+  });
+}
+
+/**
+ * Handle a chargeback: the disputed amount comes out of the creator's payout
+ */
+async function handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+  console.log('Dispute opened:', dispute.id);
+  const owner = await resolveDisputeCommunity(dispute);
+
+  if (!owner) {
+    return;
+  }
+
+  await PayoutService.recordEntry({
+    communityId: owner.communityId,
+    type: 'chargeback',
+    source: owner.source,
+    amount: dispute.amount / 100,
+    currency: dispute.currency,
+    stripeObjectId: dispute.id,
+    description: `Chargeback (${dispute.reason})`
+  });
+}
+
+/**
+ * Handle a closed dispute; a won dispute gives the chargeback back to the creator
+ */
+async function handleDisputeClosed(dispute: Stripe.Dispute): Promise<void> {
+  console.log(`Dispute ${dispute.id} closed (${dispute.status})`);
+
+  if (dispute.status !== 'won') {
+    return;
+  }
+
+  const owner = await resolveDisputeCommunity(dispute);
+
+  if (!owner) {
+    return;
+  }
+
+  await PayoutService.recordEntry({
+    communityId: owner.communityId,
+    type: 'chargeback_reversal',
+    source: owner.source,
+    amount: dispute.amount / 100,
+    currency: dispute.currency,
+    stripeObjectId: dispute.id,
+    description: 'Dispute won'
+  });
+}
+
+/**
+ * Book a paid subscription invoice as earnings for its community
+ */
+async function recordSubscriptionEarning(invoice: Stripe.Invoice, stripeSubscriptionId: string): Promise<void> {
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId },
+    select: { communityId: true }
+  });
+
+  if (!dbSubscription || !invoice.id) {
+    return;
+  }
+
+  const paidAt = invoice.status_transitions?.paid_at;
+
+  await PayoutService.recordEntry({
+    communityId: dbSubscription.communityId,
+    type: 'earning',
+    source: 'subscription',
+    amount: invoice.amount_paid / 100,
+    currency: invoice.currency,
+    stripeObjectId: invoice.id,
+    description: `Subscription invoice ${invoice.number ?? invoice.id}`,
+    occurredAt: paidAt ? new Date(paidAt * 1000) : undefined
+  });
+}
+
+/**
+ * Find which community a charge paid for: a course purchase by its PaymentIntent,
+ * otherwise the subscription invoice already booked in the ledger
+ */
+async function resolveChargeCommunity(
+  charge: Stripe.Charge
+): Promise<{ communityId: string; source: LedgerEntrySource } | null> {
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id;
+
+  if (paymentIntentId) {
+    const purchase = await prisma.coursePurchase.findUnique({
+      where: { stripePaymentIntentId: paymentIntentId },
+      select: { communityId: true }
+    });
+
+    if (purchase) {
+      return { communityId: purchase.communityId, source: 'course_purchase' };
+    }
+  }
+
+  const invoiceId = (charge as any).invoice;
+
+  if (typeof invoiceId === 'string') {
+    const communityId = await PayoutService.getEntryCommunityId('earning', invoiceId);
+
+    if (communityId) {
+      return { communityId, source: 'subscription' };
+    }
+  }
+
+  console.error('No community found for charge:', charge.id);
+  return null;
+}
+
+/**
+ * Find which community a disputed charge paid for
+ */
+async function resolveDisputeCommunity(
+  dispute: Stripe.Dispute
+): Promise<{ communityId: string; source: LedgerEntrySource } | null> {
+  const charge = typeof dispute.charge === 'string'
+    ? await stripe.charges.retrieve(dispute.charge)
+    : dispute.charge;
+
+  return resolveChargeCommunity(charge);
+}
+
+/**
+ * Get the status we last stored for a Stripe subscription
+ */
+async function getStoredSubscriptionStatus(stripeSubscriptionId: string): Promise<string | null> {
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId },
+    select: { status: true }
+  });
+
+  return dbSubscription?.status || null;
+}
+
+/**
+ * Give back the coupon redemption taken at checkout for a subscription that was never paid
+ */
+async function releaseUnpaidCoupon(stripeSubscriptionId: string): Promise<void> {
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId },
+    select: { couponId: true }
+  });
+
+  if (dbSubscription?.couponId) {
+    await CouponService.release(dbSubscription.couponId);
+  }
+}
+
+/**
+ * Keep the stored tier in line with the subscription's price, which can also change
+ * from the Stripe dashboard or customer portal. An upgrade whose payment hasn't gone
+ * through leaves the subscription past_due or incomplete, so only paid-up
+ * subscriptions move to a new tier.
+ */
+async function syncSubscriptionTier(subscription: Stripe.Subscription): Promise<void> {
+  const priceId = subscription.items?.data[0]?.price?.id;
+
+  if (!priceId || !['active', 'trialing'].includes(subscription.status)) {
+    return;
+  }
+
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId: subscription.id },
+    select: { id: true, communityId: true, tierId: true }
+  });
+
+  if (!dbSubscription) {
+    return;
+  }
+
+  const tier = await TierService.getTierByPrice(dbSubscription.communityId, priceId);
+
+  if (tier && tier.id !== dbSubscription.tierId) {
+    await prisma.subscription.update({
+      where: { id: dbSubscription.id },
+      data: { tierId: tier.id }
+    });
+  }
+}
+
+/**
+ * Notify the community's outbound webhooks about a subscription change
+ */
+async function dispatchSubscriptionWebhook(
+  stripeSubscriptionId: string,
+  event: 'subscription.started' | 'subscription.canceled'
+): Promise<void> {
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId }
+  });
+
+  if (!dbSubscription) {
+    return;
+  }
+
+  WebhookService.dispatch(dbSubscription.communityId, event, {
+    subscriptionId: dbSubscription.id,
+    userId: dbSubscription.userId,
+    status: dbSubscription.status,
+    currentPeriodEnd: dbSubscription.currentPeriodEnd
+  });
+}
+
+/**
+ * Grant community access to user
+ */
+async function grantCommunityAccess(subscription: Stripe.Subscription): Promise<void> {
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId: subscription.id },
+  });
+
+  if (!dbSubscription) {
+    console.error('Database subscription not found for Stripe subscription:', subscription.id);
+    return;
+  }
+
+  // A payment must not let a banned member back in
+  const { ban } = await MemberSanctionService.getActiveSanctions(dbSubscription.communityId, dbSubscription.userId);
+  if (ban) {
+    console.log('Skipping community access for banned member:', dbSubscription.userId);
+    return;
+  }
+
+  // Check if membership already exists
+  const existingMembership = await prisma.communityMembership.findFirst({
+    where: {
+      userId: dbSubscription.userId,
+      communityId: dbSubscription.communityId,
+    },
+  });
+
+  if (existingMembership) {
+    // Update existing membership to active
+    await prisma.communityMembership.update({
+      where: { id: existingMembership.id },
+      data: { status: 'active' },
+    });
+  } else {
+    // Create new membership
+    await prisma.communityMembership.create({
+      data: {
+        userId: dbSubscription.userId,
+        communityId: dbSubscription.communityId,
+        role: 'member',
+        status: 'active',
+      },
+    });
+
+    // Update community member count
+    await prisma.community.update({
+      where: { id: dbSubscription.communityId },
+      data: { memberCount: { increment: 1 } },
+    });
+  }
+}
+
+/**
+ * Revoke community access from user
+ */
+async function revokeCommunityAccess(subscription: Stripe.Subscription): Promise<void> {
+  const dbSubscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId: subscription.id },
+  });
+
+  if (!dbSubscription) {
+    console.error('Database subscription not found for Stripe subscription:', subscription.id);
+    return;
+  }
+
+  // Update membership status to suspended
+  const membership = await prisma.communityMembership.findFirst({
+    where: {
+      userId: dbSubscription.userId,
+      communityId: dbSubscription.communityId,
+    },
+  });
+
+  if (membership && membership.status === 'active') {
+    await prisma.communityMembership.update({
+      where: { id: membership.id },
+      data: { status: 'suspended' },
+    });
+
+    // Update community member count
+    await prisma.community.update({
+      where: { id: dbSubscription.communityId },
+      data: { memberCount: { decrement: 1 } },
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import { MembershipTier } from '@prisma/client';
+import prisma from './prisma';
+
+export interface MemberTier {
+  id: string;
+  name: string;
+  rank: number;
+}
+
+export interface CreateTierData {
+  name: string;
+  description?: string;
+  rank: number;
+  priceMonthly?: number | null;
+  priceYearly?: number | null;
+  currency?: string;
+}
+
+export interface UpdateTierData {
+  name?: string;
+  description?: string;
+  rank?: number;
+  priceMonthly?: number | null;
+  priceYearly?: number | null;
+  isActive?: boolean;
+}
+
+const memberTierSelect = {
+  id: true,
+  name: true,
+  rank: true
+};
+
+/**
+ * Membership tiers within a community. This service only keeps the database side;
+ * StripeService.syncTierPrices creates the matching Stripe prices.
+ */
+export class TierService {
+  /**
+   * List a community's tiers, lowest rank first
+   */
+  static async getCommunityTiers(communityId: string, includeInactive = false) {
+    return prisma.membershipTier.findMany({
+      where: { communityId, ...(!includeInactive && { isActive: true }) },
+      orderBy: { rank: 'asc' }
+    });
+  }
+
+  /**
+   * Create a tier
+   */
+  static async createTier(communityId: string, data: CreateTierData) {
+    await this.assertRankFree(communityId, data.rank);
+
+    return prisma.membershipTier.create({
+      data: {
+        communityId,
+        name: data.name,
+        description: data.description,
+        rank: data.rank,
+        priceMonthly: data.priceMonthly ?? null,
+        priceYearly: data.priceYearly ?? null,
+        currency: data.currency?.toLowerCase() ?? 'usd'
+      }
+    });
+  }
+
+  /**
+   * Update a tier. Stripe prices can't change amount, so a new price drops the
+   * stored price id and the next sync creates a replacement. Existing subscribers
+   * stay on the price they signed up with.
+   */
+  static async updateTier(communityId: string, tierId: string, data: UpdateTierData) {
+    const tier = await this.getTier(communityId, tierId);
+
+    if (data.rank !== undefined && data.rank !== tier.rank) {
+      await this.assertRankFree(communityId, data.rank);
+    }
+
+    return prisma.membershipTier.update({
+      where: { id: tier.id },
+      data: {
+        ...data,
+        ...(data.priceMonthly !== undefined && !this.samePrice(tier.priceMonthly, data.priceMonthly) && {
+          stripePriceMonthlyId: null
+        }),
+        ...(data.priceYearly !== undefined && !this.samePrice(tier.priceYearly, data.priceYearly) && {
+          stripePriceYearlyId: null
+        })
+      }
+    });
+  }
+
+  /**
+   * Delete a tier nobody is subscribed to and no course requires
+   */
+  static async deleteTier(communityId: string, tierId: string) {
+    const tier = await this.getTier(communityId, tierId);
+
+    const [subscriptions, courses] = await Promise.all([
+      prisma.subscription.count({
+        where: { tierId: tier.id, status: { in: ['active', 'trialing', 'past_due'] } }
+      }),
+      prisma.course.count({ where: { minTierId: tier.id } })
+    ]);
+
+    if (subscriptions > 0) {
+      throw new Error('Tier has active subscriptions');
+    }
+
+    if (courses > 0) {
+      throw new Error('Tier is required by courses');
+    }
+
+    await prisma.membershipTier.delete({ where: { id: tier.id } });
+  }
+
+  /**
+   * Find the tier a Stripe price belongs to
+   */
+  static async getTierByPrice(communityId: string, priceId: string) {
+    return prisma.membershipTier.findFirst({
+      where: {
+        communityId,
+        OR: [
+          { stripePriceMonthlyId: priceId },
+          { stripePriceYearlyId: priceId }
+        ]
+      }
+    });
+  }
+
+  /**
+   * Whether the community sells any tier; if so, checkout only accepts tier prices
+   */
+  static async hasPaidTiers(communityId: string): Promise<boolean> {
+    const count = await prisma.membershipTier.count({
+      where: {
+        communityId,
+        OR: [
+          { priceMonthly: { not: null } },
+          { priceYearly: { not: null } }
+        ]
+      }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * The member's current active or trialing subscription, with its tier
+   */
+  static async getActiveSubscription(communityId: string, userId: string) {
+    return prisma.subscription.findFirst({
+      where: {
+        userId,
+        communityId,
+        status: { in: ['active', 'trialing'] }
+      },
+      include: {
+        tier: { select: memberTierSelect }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * The tier an active member has: their subscription's tier, or else the
+   * community's free tier (also used for subscriptions to the flat community price)
+   */
+  static async getMemberTier(
+    communityId: string,
+    subscription: { tier: MemberTier | null } | null
+  ): Promise<MemberTier | null> {
+    if (subscription?.tier) {
+      return subscription.tier;
+    }
+
+    return prisma.membershipTier.findFirst({
+      where: { communityId, isActive: true, priceMonthly: null, priceYearly: null },
+      orderBy: { rank: 'desc' },
+      select: memberTierSelect
+    });
+  }
+
+  /**
+   * Whether `tier` is at or above `minTier`
+   */
+  static meetsMinTier(tier: MemberTier | null | undefined, minTier: { rank: number }): boolean {
+    return !!tier && tier.rank >= minTier.rank;
+  }
+
+  /**
+   * Throw unless the tier exists in the community
+   */
+  static async getTier(communityId: string, tierId: string): Promise<MembershipTier> {
+    const tier = await prisma.membershipTier.findFirst({
+      where: { id: tierId, communityId }
+    });
+
+    if (!tier) {
+      throw new Error('Tier not found');
+    }
+
+    return tier;
+  }
+
+  private static async assertRankFree(communityId: string, rank: number) {
+    const existing = await prisma.membershipTier.findUnique({
+      where: { communityId_rank: { communityId, rank } }
+    });
+
+    if (existing) {
+      throw new Error('Another tier already has this rank');
+    }
+  }
+
+  private static samePrice(current: { toString(): string } | null, next: number | null): boolean {
+    if (current === null || next === null) {
+      return current === next;
+    }
+
+    return Number(current.toString()) === next;
+  }
+}
@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { WEBHOOK_EVENTS } from './webhookService';
+import { CONTENT_FILTER_TYPES, CONTENT_FILTER_ACTIONS } from './contentFilterService';
+import { SEARCH_TYPES } from './searchService';
+import { COMMENT_SORTS, MAX_COMMENT_DEPTH } from './postService';
+import { MAX_REACTIONS } from './reactionService';
+import { MIN_POLL_OPTIONS, MAX_POLL_OPTIONS } from './pollService';
+import { COUPON_DISCOUNT_TYPES, COUPON_DURATIONS, MAX_TRIAL_DAYS } from './couponService';
 
 // User registration validation schema
 export const registerSchema = z.object({
@@ -30,6 +37,11 @@ export const registerSchema = z.object({
     .string()
     .min(1, 'Display name is required')
     .max(100, 'Display name must be less than 100 characters')
+    .optional(),
+
+  deviceName: z
+    .string()
+    .max(100, 'Device name must be less than 100 characters')
     .optional()
 });
 
@@ -42,7 +54,12 @@ export const loginSchema = z.object({
   
   password: z
     .string()
-    .min(1, 'Password is required')
+    .min(1, 'Password is required'),
+
+  deviceName: z
+    .string()
+    .max(100, 'Device name must be less than 100 characters')
+    .optional()
 });
 
 // Token refresh validation schema
@@ -52,6 +69,37 @@ export const refreshTokenSchema = z.object({
     .min(1, 'Refresh token is required')
 });
 
+// Logout validation schema (refresh token is optional for clients that never stored one)
+export const logoutSchema = z.object({
+  refreshToken: z
+    .string()
+    .min(1, 'Refresh token cannot be empty')
+    .optional()
+});
+
+// Email verification confirmation schema
+export const verifyEmailSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Token is required')
+});
+
+// Password reset request schema
+export const passwordResetRequestSchema = z.object({
+  email: z
+    .string()
+    .email('Invalid email format')
+    .max(255, 'Email must be less than 255 characters')
+});
+
+// Password reset confirmation schema (new password follows the registration rules)
+export const passwordResetConfirmSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Token is required'),
+  password: registerSchema.shape.password
+});
+
 // Profile update validation schema
 export const updateProfileSchema = z.object({
   displayName: z
@@ -182,6 +230,32 @@ export const updateCommunitySchema = z.object({
     .number()
     .min(0, 'Yearly price must be non-negative')
     .max(99999.99, 'Yearly price must be less than $100,000')
+    .optional(),
+
+  // Free trial for first-time subscribers; null turns trials off
+  trialDays: z
+    .number()
+    .int()
+    .min(1, 'Trial must be at least 1 day')
+    .max(MAX_TRIAL_DAYS, `Trial must be at most ${MAX_TRIAL_DAYS} days`)
+    .nullable()
+    .optional(),
+
+  // Every Nth active warning mutes the member for the given number of hours
+  warningEscalationThreshold: z
+    .number()
+    .int()
+    .min(1, 'Escalation threshold must be at least 1')
+    .max(100, 'Escalation threshold must be at most 100')
+    .nullable()
+    .optional(),
+
+  warningEscalationMuteHours: z
+    .number()
+    .int()
+    .min(1, 'Escalation mute must be at least 1 hour')
+    .max(8760, 'Escalation mute must be at most a year')
+    .nullable()
     .optional()
 });
 
@@ -195,13 +269,10 @@ export const communityQuerySchema = z.object({
     .optional()
     .or(z.number().min(1).max(50).optional()),
   
-  offset: z
+  cursor: z
     .string()
-    .regex(/^\d+$/, 'Offset must be a number')
-    .transform(Number)
-    .refine(val => val >= 0, 'Offset must be non-negative')
-    .optional()
-    .or(z.number().min(0).optional()),
+    .max(500, 'Invalid cursor')
+    .optional(),
   
   search: z
     .string()
@@ -233,6 +304,33 @@ export const communityQuerySchema = z.object({
     .default('newest')
 });
 
+// Cursor pagination query validation schema
+export const cursorQuerySchema = z.object({
+  limit: z
+    .string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(Number)
+    .refine(val => val > 0 && val <= 50, 'Limit must be between 1 and 50')
+    .optional()
+    .or(z.number().min(1).max(50).optional()),
+  
+  cursor: z
+    .string()
+    .max(500, 'Invalid cursor')
+    .optional()
+});
+
+// Community member query validation schema
+export const memberQuerySchema = cursorQuerySchema.extend({
+  role: z
+    .enum(['member', 'moderator', 'admin'])
+    .optional(),
+  
+  status: z
+    .enum(['pending', 'active', 'suspended'])
+    .optional()
+});
+
 // Community search validation schema
 export const communitySearchSchema = z.object({
   query: z
@@ -248,13 +346,10 @@ export const communitySearchSchema = z.object({
     .optional()
     .or(z.number().min(1).max(50).optional()),
   
-  offset: z
+  cursor: z
     .string()
-    .regex(/^\d+$/, 'Offset must be a number')
-    .transform(Number)
-    .refine(val => val >= 0, 'Offset must be non-negative')
-    .optional()
-    .or(z.number().min(0).optional()),
+    .max(500, 'Invalid cursor')
+    .optional(),
   
   category: z.string().optional(),
   priceRange: z.enum(['free', 'paid', 'under-50', '50-100', 'over-100']).optional(),
@@ -318,6 +413,27 @@ export const createCourseSchema = z.object({
   sortOrder: z
     .number()
     .min(0, 'Sort order must be non-negative')
+    .optional(),
+
+  minLevel: z
+    .number()
+    .int('Minimum level must be a whole number')
+    .min(1, 'Minimum level must be at least 1')
+    .nullable()
+    .optional(),
+
+  minTierId: z
+    .string()
+    .min(1, 'Tier ID cannot be empty')
+    .nullable()
+    .optional(),
+
+  // One-time price to buy the course on its own; null takes it off sale
+  price: z
+    .number()
+    .min(0.5, 'Course price must be at least $0.50')
+    .max(9999.99, 'Course price must be less than $10,000')
+    .nullable()
     .optional()
 });
 
@@ -341,6 +457,27 @@ export const updateCourseSchema = z.object({
   sortOrder: z
     .number()
     .min(0, 'Sort order must be non-negative')
+    .optional(),
+
+  minLevel: z
+    .number()
+    .int('Minimum level must be a whole number')
+    .min(1, 'Minimum level must be at least 1')
+    .nullable()
+    .optional(),
+
+  minTierId: z
+    .string()
+    .min(1, 'Tier ID cannot be empty')
+    .nullable()
+    .optional(),
+
+  // One-time price to buy the course on its own; null takes it off sale
+  price: z
+    .number()
+    .min(0.5, 'Course price must be at least $0.50')
+    .max(9999.99, 'Course price must be less than $10,000')
+    .nullable()
     .optional()
 });
 
@@ -383,6 +520,27 @@ export const createLessonSchema = z.object({
   sortOrder: z
     .number()
     .min(0, 'Sort order must be non-negative')
+    .optional(),
+
+  dripType: z
+    .enum(['days_after_join', 'fixed_date', 'after_previous'], {
+      errorMap: () => ({ message: 'Drip type must be days_after_join, fixed_date, or after_previous' })
+    })
+    .nullable()
+    .optional(),
+
+  dripDays: z
+    .number()
+    .int('Drip days must be a whole number')
+    .min(0, 'Drip days must be non-negative')
+    .max(3650, 'Drip days must be at most 3650')
+    .nullable()
+    .optional(),
+
+  dripDate: z
+    .coerce
+    .date({ errorMap: () => ({ message: 'Invalid drip date format' }) })
+    .nullable()
     .optional()
 });
 
@@ -424,6 +582,27 @@ export const updateLessonSchema = z.object({
   sortOrder: z
     .number()
     .min(0, 'Sort order must be non-negative')
+    .optional(),
+
+  dripType: z
+    .enum(['days_after_join', 'fixed_date', 'after_previous'], {
+      errorMap: () => ({ message: 'Drip type must be days_after_join, fixed_date, or after_previous' })
+    })
+    .nullable()
+    .optional(),
+
+  dripDays: z
+    .number()
+    .int('Drip days must be a whole number')
+    .min(0, 'Drip days must be non-negative')
+    .max(3650, 'Drip days must be at most 3650')
+    .nullable()
+    .optional(),
+
+  dripDate: z
+    .coerce
+    .date({ errorMap: () => ({ message: 'Invalid drip date format' }) })
+    .nullable()
     .optional()
 });
 
@@ -437,13 +616,10 @@ export const courseQuerySchema = z.object({
     .optional()
     .or(z.number().min(1).max(50).optional()),
   
-  offset: z
+  cursor: z
     .string()
-    .regex(/^\d+$/, 'Offset must be a number')
-    .transform(Number)
-    .refine(val => val >= 0, 'Offset must be non-negative')
-    .optional()
-    .or(z.number().min(0).optional()),
+    .max(500, 'Invalid cursor')
+    .optional(),
   
   includeUnpublished: z
     .string()
@@ -465,7 +641,13 @@ export const publishCourseSchema = z.object({
   isPublished: z
     .boolean({
       errorMap: () => ({ message: 'isPublished must be a boolean value' })
-    })
+    }),
+
+  publishAt: z
+    .coerce
+    .date({ errorMap: () => ({ message: 'Invalid publish date format' }) })
+    .nullable()
+    .optional()
 });
 
 // Bulk publish validation schema
@@ -495,11 +677,44 @@ export const createPostSchema = z.object({
     .max(5000, 'Post content must be less than 5000 characters'),
   
   postType: z
-    .enum(['discussion', 'announcement'], {
-      errorMap: () => ({ message: 'Post type must be discussion or announcement' })
+    .enum(['discussion', 'announcement', 'poll'], {
+      errorMap: () => ({ message: 'Post type must be discussion, announcement or poll' })
     })
     .optional()
-    .default('discussion')
+    .default('discussion'),
+
+  publishAt: z
+    .coerce
+    .date({ errorMap: () => ({ message: 'Invalid publish date format' }) })
+    .nullable()
+    .optional(),
+
+  poll: z
+    .object({
+      options: z
+        .array(z
+          .string()
+          .trim()
+          .min(1, 'Poll option cannot be empty')
+          .max(200, 'Poll option must be less than 200 characters'))
+        .min(MIN_POLL_OPTIONS, `A poll needs at least ${MIN_POLL_OPTIONS} options`)
+        .max(MAX_POLL_OPTIONS, `A poll can have at most ${MAX_POLL_OPTIONS} options`)
+        .refine(options => new Set(options.map(option => option.toLowerCase())).size === options.length, 'Poll options must be unique'),
+
+      multipleChoice: z.boolean().optional().default(false),
+
+      isAnonymous: z.boolean().optional().default(false),
+
+      closesAt: z
+        .coerce
+        .date({ errorMap: () => ({ message: 'Invalid close date format' }) })
+        .nullable()
+        .optional()
+    })
+    .optional()
+}).refine(data => (data.postType === 'poll') === Boolean(data.poll), {
+  message: 'Poll posts need poll options, and only poll posts can have them',
+  path: ['poll']
 });
 
 // Post update validation schema
@@ -520,6 +735,12 @@ export const updatePostSchema = z.object({
     .enum(['discussion', 'announcement'], {
       errorMap: () => ({ message: 'Post type must be discussion or announcement' })
     })
+    .optional(),
+
+  publishAt: z
+    .coerce
+    .date({ errorMap: () => ({ message: 'Invalid publish date format' }) })
+    .nullable()
     .optional()
 });
 
@@ -554,13 +775,10 @@ export const postQuerySchema = z.object({
     .optional()
     .or(z.number().min(1).max(50).optional()),
   
-  offset: z
+  cursor: z
     .string()
-    .regex(/^\d+$/, 'Offset must be a number')
-    .transform(Number)
-    .refine(val => val >= 0, 'Offset must be non-negative')
-    .optional()
-    .or(z.number().min(0).optional()),
+    .max(500, 'Invalid cursor')
+    .optional(),
   
   search: z
     .string()
@@ -568,7 +786,7 @@ export const postQuerySchema = z.object({
     .optional(),
   
   postType: z
-    .enum(['discussion', 'announcement'])
+    .enum(['discussion', 'announcement', 'poll'])
     .optional(),
   
   sortBy: z
@@ -577,6 +795,128 @@ export const postQuerySchema = z.object({
     .default('newest')
 });
 
+// Mention autocomplete query validation schema
+export const mentionSuggestionQuerySchema = z.object({
+  q: z
+    .string()
+    .min(1, 'Query is required')
+    .max(50, 'Query must be less than 50 characters'),
+
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be between 1 and 20')
+    .max(20, 'Limit must be between 1 and 20')
+    .optional()
+});
+
+// Comment thread query validation schema
+export const commentQuerySchema = z.object({
+  sort: z
+    .enum(COMMENT_SORTS)
+    .optional(),
+
+  depth: z.coerce
+    .number()
+    .int()
+    .min(1, `Depth must be between 1 and ${MAX_COMMENT_DEPTH}`)
+    .max(MAX_COMMENT_DEPTH, `Depth must be between 1 and ${MAX_COMMENT_DEPTH}`)
+    .optional(),
+
+  replyLimit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Reply limit must be between 1 and 20')
+    .max(20, 'Reply limit must be between 1 and 20')
+    .optional(),
+
+  cursor: z
+    .string()
+    .max(500, 'Invalid cursor')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be between 1 and 50')
+    .max(50, 'Limit must be between 1 and 50')
+    .optional()
+});
+
+const reactionKey = z
+  .string()
+  .min(1, 'Reaction is required')
+  .max(30, 'Reaction must be less than 30 characters')
+  .regex(/^[a-z0-9_-]+$/, 'Reaction can only contain lowercase letters, numbers, underscores, and hyphens');
+
+// Reaction toggle validation schema
+export const reactionSchema = z.object({
+  reaction: reactionKey
+});
+
+// "Who reacted" listing query validation schema
+export const reactionListQuerySchema = z.object({
+  reaction: reactionKey.optional(),
+
+  cursor: z
+    .string()
+    .max(500, 'Invalid cursor')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be between 1 and 50')
+    .max(50, 'Limit must be between 1 and 50')
+    .optional()
+});
+
+// Community reaction set validation schema
+export const communityReactionsSchema = z.object({
+  reactions: z
+    .array(z.object({
+      key: reactionKey,
+      emoji: z
+        .string()
+        .min(1, 'Emoji is required')
+        .max(16, 'Emoji must be less than 16 characters'),
+      label: z
+        .string()
+        .min(1, 'Label is required')
+        .max(30, 'Label must be less than 30 characters')
+    }))
+    .min(1, 'At least one reaction is required')
+    .max(MAX_REACTIONS, `At most ${MAX_REACTIONS} reactions are allowed`)
+});
+
+// Poll vote validation schema
+export const pollVoteSchema = z.object({
+  optionIds: z
+    .array(z.string().min(1, 'Option ID cannot be empty'))
+    .min(1, 'Choose at least one option')
+    .max(MAX_POLL_OPTIONS, `At most ${MAX_POLL_OPTIONS} options can be chosen`)
+});
+
+// Poll voter listing query validation schema
+export const pollVoterQuerySchema = z.object({
+  optionId: z
+    .string()
+    .min(1, 'Option ID cannot be empty')
+    .optional(),
+
+  cursor: z
+    .string()
+    .max(500, 'Invalid cursor')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be between 1 and 50')
+    .max(50, 'Limit must be between 1 and 50')
+    .optional()
+});
+
 // Content reporting validation schema
 export const reportContentSchema = z.object({
   reason: z
@@ -590,6 +930,119 @@ export const reportContentSchema = z.object({
     .optional()
 });
 
+// Moderation queue validation schemas
+export const moderationQueueQuerySchema = z.object({
+  status: z
+    .enum(['pending', 'reviewed', 'resolved', 'dismissed'], {
+      errorMap: () => ({ message: 'Status must be pending, reviewed, resolved, or dismissed' })
+    })
+    .optional(),
+
+  contentType: z
+    .enum(['post', 'comment'], {
+      errorMap: () => ({ message: 'Content type must be post or comment' })
+    })
+    .optional(),
+
+  reason: z
+    .enum(['spam', 'harassment', 'inappropriate', 'misinformation', 'other'], {
+      errorMap: () => ({ message: 'Reason must be spam, harassment, inappropriate, misinformation, or other' })
+    })
+    .optional(),
+
+  limit: z
+    .coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .optional(),
+
+  cursor: z
+    .string()
+    .max(500, 'Invalid cursor')
+    .optional()
+});
+
+export const resolveReportsSchema = z.object({
+  action: z
+    .enum(['none', 'hide', 'approve', 'delete', 'warn'], {
+      errorMap: () => ({ message: 'Action must be none, hide, approve, delete, or warn' })
+    }),
+
+  note: z
+    .string()
+    .max(1000, 'Note must be less than 1000 characters')
+    .optional()
+});
+
+export const dismissReportsSchema = z.object({
+  note: z
+    .string()
+    .max(1000, 'Note must be less than 1000 characters')
+    .optional()
+});
+
+export const postModerationStateSchema = z.object({
+  isHidden: z.boolean().optional(),
+  isLocked: z.boolean().optional(),
+  isPinned: z.boolean().optional(),
+
+  reason: z
+    .string()
+    .max(1000, 'Reason must be less than 1000 characters')
+    .optional()
+}).refine(
+  data => data.isHidden !== undefined || data.isLocked !== undefined || data.isPinned !== undefined,
+  { message: 'Provide at least one of isHidden, isLocked or isPinned' }
+);
+
+export const commentModerationStateSchema = z.object({
+  isHidden: z.boolean({
+    required_error: 'isHidden is required',
+    invalid_type_error: 'isHidden must be a boolean value'
+  }),
+
+  reason: z
+    .string()
+    .max(1000, 'Reason must be less than 1000 characters')
+    .optional()
+});
+
+// Member ban validation schema; omit expiresAt for a permanent ban
+export const banMemberSchema = z.object({
+  reason: z
+    .string()
+    .max(1000, 'Reason must be less than 1000 characters')
+    .optional(),
+
+  expiresAt: z.coerce
+    .date({ invalid_type_error: 'Expiry must be a valid date' })
+    .nullable()
+    .optional()
+});
+
+// Member mute validation schema
+export const muteMemberSchema = z.object({
+  reason: z
+    .string()
+    .max(1000, 'Reason must be less than 1000 characters')
+    .optional(),
+
+  expiresAt: z.coerce.date({
+    required_error: 'Expiry is required',
+    invalid_type_error: 'Expiry must be a valid date'
+  })
+});
+
+// Member warning validation schema
+export const warnMemberSchema = z.object({
+  reason: z
+    .string()
+    .max(1000, 'Reason must be less than 1000 characters')
+    .optional()
+});
+
 // Audit log query validation schema
 export const auditLogQuerySchema = z.object({
   limit: z
@@ -634,6 +1087,126 @@ export const auditLogQuerySchema = z.object({
     .optional()
 });
 
+// Webhook endpoint validation schemas
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS, {
+    errorMap: () => ({ message: `Event must be one of: ${WEBHOOK_EVENTS.join(', ')}` })
+  }))
+  .min(1, 'Subscribe to at least one event');
+
+export const createWebhookEndpointSchema = z.object({
+  url: z
+    .string()
+    .url('Invalid URL format')
+    .max(2000, 'URL must be less than 2000 characters'),
+
+  events: webhookEventsSchema,
+
+  description: z
+    .string()
+    .max(200, 'Description must be less than 200 characters')
+    .optional()
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  url: z
+    .string()
+    .url('Invalid URL format')
+    .max(2000, 'URL must be less than 2000 characters')
+    .optional(),
+
+  events: webhookEventsSchema.optional(),
+
+  description: z
+    .string()
+    .max(200, 'Description must be less than 200 characters')
+    .optional(),
+
+  isActive: z
+    .boolean()
+    .optional()
+});
+
+// Content filter rule validation schema
+const contentFilterActionSchema = z.enum(CONTENT_FILTER_ACTIONS, {
+  errorMap: () => ({ message: `Action must be one of: ${CONTENT_FILTER_ACTIONS.join(', ')}` })
+});
+
+export const contentFilterRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('banned_words'),
+    action: contentFilterActionSchema,
+    isActive: z.boolean().optional(),
+    config: z.object({
+      words: z
+        .array(z.string().trim().min(1, 'Words cannot be empty').max(100, 'Words must be less than 100 characters'))
+        .min(1, 'Add at least one word')
+        .max(500, 'At most 500 words per rule')
+    })
+  }),
+  z.object({
+    type: z.literal('link_limit'),
+    action: contentFilterActionSchema,
+    isActive: z.boolean().optional(),
+    config: z.object({
+      maxLinks: z.number().int().min(0, 'Link limit must be non-negative').max(100, 'Link limit must be at most 100'),
+      memberDays: z.number().int().min(1, 'Member days must be at least 1').max(365, 'Member days must be at most 365')
+    })
+  }),
+  z.object({
+    type: z.literal('duplicate_content'),
+    action: contentFilterActionSchema,
+    isActive: z.boolean().optional(),
+    config: z.object({
+      windowHours: z.number().int().min(1, 'Window must be at least 1 hour').max(720, 'Window must be at most 30 days')
+    })
+  }),
+  z.object({
+    type: z.literal('flood_limit'),
+    action: contentFilterActionSchema,
+    isActive: z.boolean().optional(),
+    config: z.object({
+      maxItems: z.number().int().min(1, 'Limit must be at least 1').max(1000, 'Limit must be at most 1000'),
+      windowMinutes: z.number().int().min(1, 'Window must be at least 1 minute').max(1440, 'Window must be at most a day')
+    })
+  })
+], {
+  errorMap: (issue, ctx) => issue.code === 'invalid_union_discriminator'
+    ? { message: `Type must be one of: ${CONTENT_FILTER_TYPES.join(', ')}` }
+    : { message: ctx.defaultError }
+});
+
+// Full-text search query validation schema
+export const searchQuerySchema = z.object({
+  q: z
+    .string({ required_error: 'Search query is required' })
+    .trim()
+    .min(2, 'Search query must be at least 2 characters')
+    .max(200, 'Search query must be less than 200 characters'),
+
+  type: z
+    .enum(SEARCH_TYPES, {
+      errorMap: () => ({ message: `Type must be one of: ${SEARCH_TYPES.join(', ')}` })
+    })
+    .optional(),
+
+  communityId: z
+    .string()
+    .min(1, 'Community ID cannot be empty')
+    .optional(),
+
+  cursor: z
+    .string()
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be between 1 and 50')
+    .max(50, 'Limit must be between 1 and 50')
+    .optional()
+});
+
 // Validation helper function
 export function validateRequest<T>(schema: z.ZodSchema<T>, data: unknown): {
   success: boolean;
@@ -663,4 +1236,129 @@ export function validateRequest<T>(schema: z.ZodSchema<T>, data: unknown): {
       errors: { general: ['Validation failed'] } 
     };
   }
-}
\ No newline at end of file
+}
+
+// Coupon creation validation schema
+export const createCouponSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3, 'Coupon code must be at least 3 characters')
+    .max(30, 'Coupon code must be less than 30 characters')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Coupon code can only contain letters, numbers, underscores, and hyphens'),
+
+  discountType: z.enum(COUPON_DISCOUNT_TYPES),
+
+  percentOff: z
+    .number()
+    .int()
+    .min(1, 'Percent off must be at least 1')
+    .max(100, 'Percent off must be at most 100')
+    .optional(),
+
+  amountOff: z
+    .number()
+    .min(0.01, 'Amount off must be positive')
+    .max(9999.99, 'Amount off must be less than $10,000')
+    .optional(),
+
+  currency: z
+    .string()
+    .length(3, 'Currency must be a 3-letter code')
+    .optional(),
+
+  duration: z.enum(COUPON_DURATIONS).optional(),
+
+  durationInMonths: z
+    .number()
+    .int()
+    .min(1, 'Duration must be at least 1 month')
+    .max(36, 'Duration must be at most 36 months')
+    .optional(),
+
+  maxRedemptions: z
+    .number()
+    .int()
+    .min(1, 'Redemption cap must be at least 1')
+    .nullable()
+    .optional(),
+
+  expiresAt: z
+    .coerce
+    .date({ errorMap: () => ({ message: 'Invalid expiry date format' }) })
+    .nullable()
+    .optional()
+}).refine(data => data.discountType === 'percent' ? data.percentOff !== undefined : data.amountOff !== undefined, {
+  message: 'Percent coupons need percentOff and fixed coupons need amountOff',
+  path: ['discountType']
+}).refine(data => (data.duration === 'repeating') === (data.durationInMonths !== undefined), {
+  message: 'durationInMonths is required for repeating coupons and only allowed for them',
+  path: ['durationInMonths']
+});
+
+// Coupon update validation schema
+export const updateCouponSchema = z.object({
+  maxRedemptions: z
+    .number()
+    .int()
+    .min(1, 'Redemption cap must be at least 1')
+    .nullable()
+    .optional(),
+
+  expiresAt: z
+    .coerce
+    .date({ errorMap: () => ({ message: 'Invalid expiry date format' }) })
+    .nullable()
+    .optional(),
+
+  isActive: z
+    .boolean()
+    .optional()
+});
+
+// Membership tier creation validation schema
+export const createTierSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Tier name is required')
+    .max(50, 'Tier name must be less than 50 characters'),
+
+  description: z
+    .string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+
+  rank: z
+    .number()
+    .int('Rank must be a whole number')
+    .min(0, 'Rank must be non-negative')
+    .max(100, 'Rank must be at most 100'),
+
+  priceMonthly: z
+    .number()
+    .min(0.5, 'Monthly price must be at least $0.50')
+    .max(9999.99, 'Monthly price must be less than $10,000')
+    .nullable()
+    .optional(),
+
+  priceYearly: z
+    .number()
+    .min(0.5, 'Yearly price must be at least $0.50')
+    .max(99999.99, 'Yearly price must be less than $100,000')
+    .nullable()
+    .optional(),
+
+  currency: z
+    .string()
+    .length(3, 'Currency must be a 3-letter code')
+    .optional()
+});
+
+// Membership tier update validation schema
+export const updateTierSchema = createTierSchema
+  .omit({ currency: true })
+  .partial()
+  .extend({
+    isActive: z.boolean().optional()
+  });
@@ -0,0 +1,407 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { paginate, CursorPageOptions } from './pagination';
+
+export const WEBHOOK_EVENTS = [
+  'member.joined',
+  'member.left',
+  'post.created',
+  'lesson.completed',
+  'subscription.started',
+  'subscription.canceled',
+  'achievement.earned',
+  'course.purchased'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookEndpointData {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+}
+
+export interface WebhookEndpointUpdateData {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface WebhookDeliveryQueryOptions extends CursorPageOptions {
+  status?: 'pending' | 'succeeded' | 'failed';
+}
+
+// Delay before each retry: 1 min, 5 min, 30 min, 2 h, 12 h
+const RETRY_DELAYS_MS = [60, 300, 1800, 7200, 43200].map(seconds => seconds * 1000);
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_STORED_RESPONSE_LENGTH = 1000;
+
+// Secrets are never returned after creation
+const endpointSelect = {
+  id: true,
+  communityId: true,
+  url: true,
+  events: true,
+  description: true,
+  isActive: true,
+  createdById: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.WebhookEndpointSelect;
+
+/**
+ * Outbound webhooks that let community creators push events to their own tools.
+ *
+ * Every event is stored as a delivery per subscribed endpoint and POSTed with an
+ * HMAC-SHA256 signature over `${timestamp}.${body}`. Failed deliveries are retried
+ * with backoff by the job queue, and every delivery stays in the log for replay.
+ */
+export class WebhookService {
+  /**
+   * Register a new endpoint. The response is the only time the secret is shown.
+   */
+  static async createEndpoint(communityId: string, userId: string, data: WebhookEndpointData) {
+    this.assertDeliverableUrl(data.url);
+
+    return prisma.webhookEndpoint.create({
+      data: {
+        communityId,
+        url: data.url,
+        events: data.events,
+        description: data.description,
+        secret: this.generateSecret(),
+        createdById: userId
+      }
+    });
+  }
+
+  /**
+   * List a community's endpoints
+   */
+  static async getEndpoints(communityId: string) {
+    return prisma.webhookEndpoint.findMany({
+      where: { communityId },
+      orderBy: { createdAt: 'asc' },
+      select: endpointSelect
+    });
+  }
+
+  /**
+   * Update an endpoint's URL, subscriptions or active state
+   */
+  static async updateEndpoint(communityId: string, endpointId: string, data: WebhookEndpointUpdateData) {
+    await this.findEndpoint(communityId, endpointId);
+
+    if (data.url) {
+      this.assertDeliverableUrl(data.url);
+    }
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data,
+      select: endpointSelect
+    });
+  }
+
+  /**
+   * Issue a new signing secret for an endpoint
+   */
+  static async rotateSecret(communityId: string, endpointId: string) {
+    await this.findEndpoint(communityId, endpointId);
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: { secret: this.generateSecret() }
+    });
+  }
+
+  /**
+   * Delete an endpoint along with its delivery log
+   */
+  static async deleteEndpoint(communityId: string, endpointId: string) {
+    await this.findEndpoint(communityId, endpointId);
+    await prisma.webhookEndpoint.delete({ where: { id: endpointId } });
+  }
+
+  /**
+   * Get the delivery log for an endpoint
+   */
+  static async getDeliveries(communityId: string, endpointId: string, options: WebhookDeliveryQueryOptions = {}) {
+    const { status, cursor, limit } = options;
+
+    await this.findEndpoint(communityId, endpointId);
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      endpointId,
+      ...(status && { status })
+    };
+
+    return paginate([{ field: 'createdAt', direction: 'desc' }], { cursor, limit }, ({ cursorWhere, orderBy, take }) =>
+      prisma.webhookDelivery.findMany({
+        where: { AND: [where, cursorWhere] },
+        orderBy,
+        take
+      })
+    );
+  }
+
+  /**
+   * Send a previous delivery's payload again as a new delivery
+   */
+  static async replayDelivery(communityId: string, deliveryId: string) {
+    const original = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: deliveryId,
+        endpoint: { communityId }
+      }
+    });
+
+    if (!original) {
+      throw new Error('Webhook delivery not found');
+    }
+
+    const replay = await prisma.webhookDelivery.create({
+      data: {
+        endpointId: original.endpointId,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+        replayOfId: original.id
+      }
+    });
+
+    await this.attemptDelivery(replay.id, replay.nextAttemptAt);
+
+    return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: replay.id } });
+  }
+
+  /**
+   * Queue an event for every active endpoint subscribed to it. Never throws, so
+   * callers can fire and forget alongside their socket broadcasts.
+   */
+  static async dispatch(communityId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: {
+          communityId,
+          isActive: true,
+          events: { has: event }
+        },
+        select: { id: true }
+      });
+
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      // The event ID stays the same across retries and replays so receivers can dedupe.
+      // Round-tripping through JSON stores dates exactly as receivers will see them.
+      const payload = JSON.parse(JSON.stringify({
+        id: crypto.randomUUID(),
+        event,
+        communityId,
+        createdAt: new Date().toISOString(),
+        data
+      })) as Prisma.InputJsonValue;
+
+      const deliveries = await Promise.all(endpoints.map(endpoint =>
+        prisma.webhookDelivery.create({
+          data: { endpointId: endpoint.id, event, payload }
+        })
+      ));
+
+      await Promise.all(deliveries.map(delivery =>
+        this.attemptDelivery(delivery.id, delivery.nextAttemptAt)
+      ));
+    } catch (error) {
+      console.error(`Failed to dispatch ${event} webhook:`, error);
+    }
+  }
+
+  /**
+   * Dispatch `post.created` for a post that just went live
+   */
+  static dispatchPostCreated(post: {
+    id: string;
+    communityId: string;
+    authorId: string;
+    title: string | null;
+    content: string;
+    postType: string;
+    createdAt: Date;
+  }): Promise<void> {
+    return this.dispatch(post.communityId, 'post.created', {
+      post: {
+        id: post.id,
+        authorId: post.authorId,
+        title: post.title,
+        content: post.content,
+        postType: post.postType,
+        createdAt: post.createdAt
+      }
+    });
+  }
+
+  /**
+   * Retry deliveries whose next attempt is due. Run by the job queue.
+   */
+  static async processDueDeliveries(): Promise<{ attempted: number }> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: new Date() }
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: 100,
+      select: { id: true, nextAttemptAt: true }
+    });
+
+    for (const delivery of due) {
+      await this.attemptDelivery(delivery.id, delivery.nextAttemptAt);
+    }
+
+    return { attempted: due.length };
+  }
+
+  /**
+   * Compute the signature header value for a payload
+   */
+  static signPayload(secret: string, timestamp: number, body: string): string {
+    const signature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  /**
+   * Make one delivery attempt. Pushing nextAttemptAt forward is both the claim and a
+   * lease: if this process dies mid-request the delivery becomes due again later.
+   */
+  private static async attemptDelivery(deliveryId: string, expectedNextAttemptAt: Date) {
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: 'pending', nextAttemptAt: expectedNextAttemptAt },
+      data: {
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(Date.now() + REQUEST_TIMEOUT_MS * 3)
+      }
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { endpoint: true }
+    });
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CommunityLearningPlatform-Webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Signature': this.signPayload(delivery.endpoint.secret, timestamp, body)
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_STORED_RESPONSE_LENGTH);
+
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Request failed';
+    }
+
+    if (!error) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'succeeded', responseStatus, responseBody, error: null, deliveredAt: new Date() }
+      });
+      return;
+    }
+
+    const exhausted = delivery.attempts >= MAX_ATTEMPTS;
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: exhausted ? 'failed' : 'pending',
+        responseStatus,
+        responseBody,
+        error,
+        ...(!exhausted && {
+          nextAttemptAt: new Date(Date.now() + RETRY_DELAYS_MS[delivery.attempts - 1])
+        })
+      }
+    });
+  }
+
+  private static async findEndpoint(communityId: string, endpointId: string) {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, communityId }
+    });
+
+    if (!endpoint) {
+      throw new Error('Webhook endpoint not found');
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * Reject URLs we shouldn't POST to: non-HTTPS in production and local or private hosts
+   */
+  private static assertDeliverableUrl(url: string) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error('Invalid webhook URL');
+    }
+
+    if (process.env.NODE_ENV === 'production' && parsed.protocol !== 'https:') {
+      throw new Error('Invalid webhook URL: HTTPS is required');
+    }
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      throw new Error('Invalid webhook URL: only HTTP(S) is supported');
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    const isPrivateHost =
+      host === 'localhost' ||
+      host.endsWith('.localhost') ||
+      host.endsWith('.internal') ||
+      /^(127|10|0)\./.test(host) ||
+      /^192\.168\./.test(host) ||
+      /^169\.254\./.test(host) ||
+      /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+      host === '[::1]';
+
+    if (process.env.NODE_ENV === 'production' && isPrivateHost) {
+      throw new Error('Invalid webhook URL: private addresses are not allowed');
+    }
+  }
+
+  private static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+}
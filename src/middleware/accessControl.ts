@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../lib/prisma';
 import { auditLogger } from '../lib/auditLogger';
+import { MemberSanctionService } from '../lib/memberSanctionService';
+import { TierService, MemberTier } from '../lib/tierService';
 
 // Extend Express Request interface to include access control context
 declare global {
@@ -16,6 +18,8 @@ declare global {
         hasAccess: boolean;
         hasPaidAccess: boolean;
         isCreator: boolean;
+        tier?: MemberTier | null;
+        mutedUntil?: Date;
       };
     }
   }
@@ -190,10 +194,25 @@ export function loadCommunityContext(communityIdParam: string = 'communityId') {
       let hasAccess = false;
       let hasPaidAccess = false;
       let isCreator = false;
+      let tier: MemberTier | null = null;
+      let mutedUntil: Date | undefined;
 
       if (req.user) {
         isCreator = community.creatorId === req.user.id;
 
+        const sanctions = isCreator
+          ? { ban: null, mute: null }
+          : await MemberSanctionService.getActiveSanctions(communityId, req.user.id);
+
+        // Banned users lose all access, even to public communities
+        if (sanctions.ban) {
+          req.accessContext = { communityId, hasAccess: false, hasPaidAccess: false, isCreator: false };
+          next();
+          return;
+        }
+
+        mutedUntil = sanctions.mute?.expiresAt ?? undefined;
+
         // Get user's membership
         membership = await prisma.communityMembership.findUnique({
           where: {
@@ -211,21 +230,18 @@ export function loadCommunityContext(communityIdParam: string = 'communityId') {
           hasAccess = true;
         }
 
-        // Determine paid access
+        // Determine paid access and the member's tier
+        const isPaidCommunity = !!community.priceMonthly || !!community.priceYearly ||
+          await TierService.hasPaidTiers(communityId);
+
         if (isCreator) {
           hasPaidAccess = true;
-        } else if (!community.priceMonthly && !community.priceYearly) {
-          hasPaidAccess = hasAccess; // Free community
         } else if (membership && membership.status === 'active') {
-          // Check for active subscription
-          const subscription = await prisma.subscription.findFirst({
-            where: {
-              userId: req.user.id,
-              communityId,
-              status: 'active'
-            }
-          });
-          hasPaidAccess = !!subscription;
+          const subscription = await TierService.getActiveSubscription(communityId, req.user.id);
+          tier = await TierService.getMemberTier(communityId, subscription);
+          hasPaidAccess = isPaidCommunity ? !!subscription : hasAccess;
+        } else if (!isPaidCommunity) {
+          hasPaidAccess = hasAccess; // Free community
         }
       } else {
         // Non-authenticated users
@@ -238,7 +254,9 @@ export function loadCommunityContext(communityIdParam: string = 'communityId') {
         membership: membership || undefined,
         hasAccess,
         hasPaidAccess,
-        isCreator
+        isCreator,
+        tier,
+        mutedUntil
       };
 
       next();
@@ -337,6 +355,25 @@ export function requirePermission(permission: Permission, options: {
         return;
       }
 
+      // Muted members can still read but not post or comment
+      if ((permission === 'post:write' || permission === 'comment:write') && req.accessContext.mutedUntil) {
+        auditLogger.logSecurityEvent({
+          userId: req.user.id,
+          action: 'ACCESS_DENIED',
+          resource: permission,
+          reason: 'Member is muted',
+          communityId: req.accessContext.communityId,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+
+        res.status(403).json({
+          error: 'Access denied',
+          message: `You are muted in this community until ${req.accessContext.mutedUntil.toISOString()}`
+        });
+        return;
+      }
+
       // Get user's effective role
       const effectiveRole = getEffectiveRole(req.accessContext.membership, req.accessContext.isCreator);
 
@@ -138,4 +138,36 @@ export function requireEmailVerification(
   }
 
   next();
-}
\ No newline at end of file
+}
+
+/**
+ * Middleware to restrict platform-wide operations to the addresses in PLATFORM_ADMIN_EMAILS
+ */
+export function requirePlatformAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.user) {
+    res.status(401).json({
+      error: 'Authentication required',
+      message: 'Please log in first'
+    });
+    return;
+  }
+
+  const adminEmails = (process.env.PLATFORM_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!adminEmails.includes(req.user.email.toLowerCase())) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'Platform administrator access required'
+    });
+    return;
+  }
+
+  next();
+}
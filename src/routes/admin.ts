@@ -1,10 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePlatformAdmin } from '../middleware/auth';
 import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
 import { auditLogger } from '../lib/auditLogger';
 import { AccessControlService } from '../lib/accessControlService';
 import { notificationService, NotificationType } from '../lib/notificationService';
 import JobScheduler from '../lib/jobScheduler';
+import { JobQueue, JobRunStatus } from '../lib/jobQueue';
+import { StripeWebhookService, StripeEventStatus } from '../lib/stripeWebhookService';
+import { PayoutService, PAYOUT_STATUSES } from '../lib/payoutService';
+import { PayoutStatus } from '../lib/revenueService';
 import prisma from '../lib/prisma';
 
 const router = Router();
@@ -23,7 +27,7 @@ router.get('/communities/:communityId/audit-logs',
       
       // Parse query parameters manually for better type safety
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+      const cursor = req.query.cursor as string | undefined;
       const action = req.query.action as string | undefined;
       const resource = req.query.resource as string | undefined;
       const userId = req.query.userId as string | undefined;
@@ -39,18 +43,10 @@ router.get('/communities/:communityId/audit-logs',
         return;
       }
 
-      if (isNaN(offset) || offset < 0) {
-        res.status(400).json({
-          error: 'Validation failed',
-          details: { offset: ['Offset must be non-negative'] }
-        });
-        return;
-      }
-      
       const result = await auditLogger.getAuditLogs({
         communityId,
         limit,
-        offset,
+        cursor,
         action,
         resource,
         userId,
@@ -64,6 +60,15 @@ router.get('/communities/:communityId/audit-logs',
       });
     } catch (error) {
       console.error('Get audit logs error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
+
       res.status(500).json({
         error: 'Internal server error',
         message: error instanceof Error ? error.message : 'Failed to fetch audit logs'
@@ -161,7 +166,7 @@ router.get('/communities/:communityId/access-report',
         success: true,
         data: {
           members: membersWithPermissions,
-          recentDenials: recentDenials.logs,
+          recentDenials: recentDenials.items,
           summary: {
             totalMembers: members.length,
             adminCount: members.filter(m => m.role === 'admin').length,
@@ -308,7 +313,7 @@ router.get('/users/:userId/access-summary',
         data: {
           userId,
           communities: accessSummary,
-          recentEvents: recentEvents.logs,
+          recentEvents: recentEvents.items,
           summary: {
             totalCommunities: memberships.length,
             activeMemberships: memberships.filter(m => m.status === 'active').length,
@@ -442,17 +447,18 @@ router.post('/communities/:communityId/broadcast',
 
 /**
  * POST /api/v1/admin/notifications/digest/send
- * Manually trigger weekly digest for all users (super admin only)
+ * Manually trigger weekly digest for all users (platform admin only)
  */
 router.post('/notifications/digest/send',
   authenticateToken,
+  requirePlatformAdmin,
   async (req: Request, res: Response): Promise<void> => {
     try {
-      // In a real system, check for super admin permissions
-      const result = await JobScheduler.runWeeklyDigestJob();
+      const run = await JobQueue.trigger('weeklyDigest', req.user!.id);
 
       res.json({
         success: true,
+        data: { runId: run.id },
         message: 'Weekly digest job triggered successfully'
       });
     } catch (error) {
@@ -507,4 +513,585 @@ router.post('/notifications/digest/test/:userId',
   }
 );
 
-export default router;
\ No newline at end of file
+const JOB_RUN_STATUSES: JobRunStatus[] = ['pending', 'running', 'succeeded', 'dead'];
+
+/**
+ * Parse run history query parameters
+ */
+function parseRunQuery(query: Request['query']) {
+  const limit = query.limit ? parseInt(query.limit as string) : 20;
+  const cursor = query.cursor as string | undefined;
+  const status = query.status as JobRunStatus | undefined;
+
+  const errors: Record<string, string[]> = {};
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    errors.limit = ['Limit must be between 1 and 100'];
+  }
+  if (status && !JOB_RUN_STATUSES.includes(status)) {
+    errors.status = [`Status must be one of: ${JOB_RUN_STATUSES.join(', ')}`];
+  }
+
+  return { options: { limit, cursor, status }, errors };
+}
+
+/**
+ * GET /api/v1/admin/jobs
+ * List background jobs with their schedule and latest run (platform admin only)
+ */
+router.get('/jobs',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const jobs = await JobQueue.listJobs();
+
+      res.json({
+        success: true,
+        data: jobs
+      });
+    } catch (error) {
+      console.error('List jobs error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to list jobs'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/jobs/dead-letter
+ * List job runs that exhausted their retries (platform admin only)
+ */
+router.get('/jobs/dead-letter',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { options, errors } = parseRunQuery(req.query);
+
+      if (Object.keys(errors).length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: errors
+        });
+        return;
+      }
+
+      const result = await JobQueue.getRuns(undefined, { ...options, status: 'dead' });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Get dead-letter jobs error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to get dead-letter jobs'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/jobs/runs/:runId
+ * Inspect a single job run (platform admin only)
+ */
+router.get('/jobs/runs/:runId',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const run = await JobQueue.getRun(req.params.runId);
+
+      res.json({
+        success: true,
+        data: run
+      });
+    } catch (error) {
+      console.error('Get job run error:', error);
+
+      if (error instanceof Error && error.message === 'Job run not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to get job run'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/jobs/runs/:runId/retry
+ * Requeue a dead job run (platform admin only)
+ */
+router.post('/jobs/runs/:runId/retry',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const run = await JobQueue.retryRun(req.params.runId, req.user!.id);
+
+      res.status(202).json({
+        success: true,
+        data: run,
+        message: 'Job run requeued'
+      });
+    } catch (error) {
+      console.error('Retry job run error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Job run not found') {
+          res.status(404).json({
+            error: 'Not found',
+            message: error.message
+          });
+          return;
+        }
+
+        if (error.message === 'Only dead job runs can be retried') {
+          res.status(409).json({
+            error: 'Conflict',
+            message: error.message
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to retry job run'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/jobs/:name/runs
+ * Get run history for a job (platform admin only)
+ */
+router.get('/jobs/:name/runs',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { options, errors } = parseRunQuery(req.query);
+
+      if (Object.keys(errors).length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: errors
+        });
+        return;
+      }
+
+      const result = await JobQueue.getRuns(req.params.name, options);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('Get job runs error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to get job runs'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/jobs/:name/trigger
+ * Run a job now (platform admin only)
+ */
+router.post('/jobs/:name/trigger',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const run = await JobQueue.trigger(req.params.name, req.user!.id);
+
+      res.status(202).json({
+        success: true,
+        data: run,
+        message: 'Job triggered'
+      });
+    } catch (error) {
+      console.error('Trigger job error:', error);
+
+      if (error instanceof Error && error.message === 'Job not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to trigger job'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/jobs/:name
+ * Pause or resume a job's schedule (platform admin only)
+ */
+router.put('/jobs/:name',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (typeof req.body.enabled !== 'boolean') {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: { enabled: ['enabled must be a boolean value'] }
+        });
+        return;
+      }
+
+      const job = await JobQueue.setEnabled(req.params.name, req.body.enabled);
+
+      res.json({
+        success: true,
+        data: job,
+        message: `Job ${job.enabled ? 'resumed' : 'paused'}`
+      });
+    } catch (error) {
+      console.error('Update job error:', error);
+
+      if (error instanceof Error && error.message === 'Job not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to update job'
+      });
+    }
+  }
+);
+
+const STRIPE_EVENT_STATUSES: StripeEventStatus[] = ['pending', 'processing', 'succeeded', 'failed'];
+
+/**
+ * Parse Stripe event list query parameters
+ */
+function parseStripeEventQuery(query: Request['query']) {
+  const { options: { limit, cursor }, errors } = parseRunQuery({ ...query, status: undefined });
+  const status = query.status as StripeEventStatus | undefined;
+  const type = query.type as string | undefined;
+
+  if (status && !STRIPE_EVENT_STATUSES.includes(status)) {
+    errors.status = [`Status must be one of: ${STRIPE_EVENT_STATUSES.join(', ')}`];
+  }
+
+  return { options: { limit, cursor, status, type }, errors };
+}
+
+/**
+ * GET /api/v1/admin/stripe-events
+ * List received Stripe webhook events (platform admin only)
+ */
+router.get('/stripe-events',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { options, errors } = parseStripeEventQuery(req.query);
+
+      if (Object.keys(errors).length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: errors
+        });
+        return;
+      }
+
+      const result = await StripeWebhookService.getEvents(options);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('List Stripe events error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to list Stripe events'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/stripe-events/:eventId
+ * Inspect a received Stripe event with its payload (platform admin only)
+ */
+router.get('/stripe-events/:eventId',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const event = await StripeWebhookService.getEvent(req.params.eventId);
+
+      res.json({
+        success: true,
+        data: event
+      });
+    } catch (error) {
+      console.error('Get Stripe event error:', error);
+
+      if (error instanceof Error && error.message === 'Stripe event not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to get Stripe event'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/stripe-events/:eventId/replay
+ * Process a received Stripe event again (platform admin only)
+ */
+router.post('/stripe-events/:eventId/replay',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const event = await StripeWebhookService.replayEvent(req.params.eventId);
+
+      res.json({
+        success: true,
+        data: event,
+        message: event.status === 'succeeded' ? 'Stripe event replayed' : 'Stripe event replay failed'
+      });
+    } catch (error) {
+      console.error('Replay Stripe event error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Stripe event not found') {
+          res.status(404).json({
+            error: 'Not found',
+            message: error.message
+          });
+          return;
+        }
+
+        if (error.message === 'Stripe event is already being processed') {
+          res.status(409).json({
+            error: 'Conflict',
+            message: error.message
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to replay Stripe event'
+      });
+    }
+  }
+);
+
+/**
+ * Parse payout period list query parameters
+ */
+function parsePayoutPeriodQuery(query: Request['query']) {
+  const { options: { limit, cursor }, errors } = parseRunQuery({ ...query, status: undefined });
+  const status = query.status as PayoutStatus | undefined;
+  const creatorId = query.creatorId as string | undefined;
+  const closed = query.closed === undefined ? undefined : query.closed === 'true';
+
+  if (status && !PAYOUT_STATUSES.includes(status)) {
+    errors.status = [`Status must be one of: ${PAYOUT_STATUSES.join(', ')}`];
+  }
+
+  return { options: { limit, cursor, status, creatorId, closed }, errors };
+}
+
+/**
+ * Map payout ledger errors to responses
+ */
+function handlePayoutError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error && error.message === 'Invalid cursor') {
+    res.status(400).json({
+      error: 'Invalid cursor',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof Error && error.message === 'Payout period not found') {
+    res.status(404).json({
+      error: 'Not found',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof Error && [
+    'Payout period is already closed',
+    'Payout period has not ended yet',
+    'Payout period is still open'
+  ].includes(error.message)) {
+    res.status(409).json({
+      error: 'Conflict',
+      message: error.message
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * GET /api/v1/admin/payouts/periods
+ * List creator payout periods across communities (platform admin only)
+ */
+router.get('/payouts/periods',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { options, errors } = parsePayoutPeriodQuery(req.query);
+
+      if (Object.keys(errors).length > 0) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: errors
+        });
+        return;
+      }
+
+      const result = await PayoutService.getPeriods(options);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      console.error('List payout periods error:', error);
+      handlePayoutError(res, error, 'Failed to list payout periods');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/payouts/periods/:periodId/close
+ * Freeze a finished payout period's totals (platform admin only)
+ */
+router.post('/payouts/periods/:periodId/close',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const period = await PayoutService.closePeriod(req.params.periodId);
+
+      res.json({
+        success: true,
+        data: period,
+        message: 'Payout period closed'
+      });
+    } catch (error) {
+      console.error('Close payout period error:', error);
+      handlePayoutError(res, error, 'Failed to close payout period');
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/payouts/periods/:periodId/status
+ * Mark a closed period's payout as pending, paid or held (platform admin only)
+ */
+router.put('/payouts/periods/:periodId/status',
+  authenticateToken,
+  requirePlatformAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, holdReason } = req.body;
+
+      if (!PAYOUT_STATUSES.includes(status)) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: { status: [`Status must be one of: ${PAYOUT_STATUSES.join(', ')}`] }
+        });
+        return;
+      }
+
+      if (holdReason !== undefined && typeof holdReason !== 'string') {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: { holdReason: ['holdReason must be a string'] }
+        });
+        return;
+      }
+
+      const period = await PayoutService.updateStatus(req.params.periodId, status, holdReason);
+
+      res.json({
+        success: true,
+        data: period,
+        message: `Payout marked ${status}`
+      });
+    } catch (error) {
+      console.error('Update payout status error:', error);
+      handlePayoutError(res, error, 'Failed to update payout status');
+    }
+  }
+);
+
+export default router;
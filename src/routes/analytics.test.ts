@@ -63,6 +63,8 @@ describe('Analytics Routes', () => {
         churnRate: 5.5,
         averageRevenuePerUser: 100,
         monthlyRecurringRevenue: 500,
+        grossRevenue: 1100,
+        totalDiscounts: 100,
       };
 
       mockRevenueService.getRevenueMetrics.mockResolvedValue(mockMetrics);
@@ -125,9 +127,16 @@ describe('Analytics Routes', () => {
         {
           creatorId: testUser.id,
           communityId: testCommunity.id,
+          periodId: 'payout_period_1',
+          currency: 'usd',
+          grossRevenue: 1000,
+          refunds: 0,
+          chargebacks: 0,
           totalRevenue: 1000,
           platformFee: 50,
           creatorEarnings: 950,
+          status: 'pending' as const,
+          closedAt: null,
           period: {
             start: new Date('2024-01-01'),
             end: new Date('2024-01-31'),
@@ -164,6 +173,10 @@ describe('Analytics Routes', () => {
         canceledSubscriptions: 3,
         netGrowth: 12,
         churnRate: 5.5,
+        discountedSubscriptions: 4,
+        trialsStarted: 6,
+        trialsConverted: 3,
+        trialConversionRate: 75,
         period: {
           start: new Date('2024-01-01'),
           end: new Date('2024-01-31'),
@@ -186,6 +199,7 @@ describe('Analytics Routes', () => {
       expect(response.body.canceledSubscriptions).toBe(3);
       expect(response.body.netGrowth).toBe(12);
       expect(response.body.churnRate).toBe(5.5);
+      expect(response.body.trialConversionRate).toBe(75);
       expect(mockRevenueService.getSubscriptionAnalytics).toHaveBeenCalledWith(
         new Date('2024-01-01'),
         new Date('2024-01-31'),
@@ -201,8 +215,10 @@ describe('Analytics Routes', () => {
           communityId: testCommunity.id,
           communityName: testCommunity.name,
           revenue: 1000,
+          subscriptionRevenue: 900,
+          oneTimeRevenue: 100,
           subscriptions: 10,
-          averageRevenuePerUser: 100,
+          averageRevenuePerUser: 90,
         },
       ];
 
@@ -268,15 +284,24 @@ describe('Analytics Routes', () => {
         churnRate: 5.5,
         averageRevenuePerUser: 100,
         monthlyRecurringRevenue: 500,
+        grossRevenue: 1100,
+        totalDiscounts: 100,
       };
 
       const mockPayouts = [
         {
           creatorId: testUser.id,
           communityId: testCommunity.id,
+          periodId: 'payout_period_1',
+          currency: 'usd',
+          grossRevenue: 1000,
+          refunds: 0,
+          chargebacks: 0,
           totalRevenue: 1000,
           platformFee: 50,
           creatorEarnings: 950,
+          status: 'pending' as const,
+          closedAt: null,
           period: {
             start: new Date(),
             end: new Date(),
@@ -289,8 +314,10 @@ describe('Analytics Routes', () => {
           communityId: testCommunity.id,
           communityName: testCommunity.name,
           revenue: 1000,
+          subscriptionRevenue: 900,
+          oneTimeRevenue: 100,
           subscriptions: 10,
-          averageRevenuePerUser: 100,
+          averageRevenuePerUser: 90,
         },
       ];
 
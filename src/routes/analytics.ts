@@ -1,6 +1,8 @@
 import express from 'express';
 import { z } from 'zod';
 import { RevenueService } from '../lib/revenueService';
+import { CouponService } from '../lib/couponService';
+import { PayoutService, STATEMENT_FORMATS } from '../lib/payoutService';
 import { authenticateToken } from '../middleware/auth';
 import prisma from '../lib/prisma';
 
@@ -13,12 +15,26 @@ const dateRangeSchema = z.object({
   communityId: z.string().optional(),
 });
 
+const couponUsageSchema = dateRangeSchema.extend({
+  communityId: z.string(),
+});
+
 const creatorPayoutSchema = z.object({
   startDate: z.string().transform(str => new Date(str)),
   endDate: z.string().transform(str => new Date(str)),
   creatorId: z.string().optional(),
 });
 
+const payoutPeriodsSchema = z.object({
+  communityId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().max(500, 'Invalid cursor').optional(),
+});
+
+const payoutStatementSchema = z.object({
+  format: z.enum(STATEMENT_FORMATS).default('csv'),
+});
+
 /**
  * Get revenue metrics for a specific period
  */
@@ -95,6 +111,78 @@ router.get('/revenue/payouts', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * Get the creator's payout ledger periods
+ */
+router.get('/payouts/periods', authenticateToken, async (req, res) => {
+  try {
+    const options = payoutPeriodsSchema.parse(req.query);
+
+    const result = await PayoutService.getPeriods({ ...options, creatorId: req.user!.id });
+
+    return res.json(result);
+  } catch (error) {
+    console.error('Error fetching payout periods:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request parameters', details: error.errors });
+    }
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to fetch payout periods' });
+  }
+});
+
+/**
+ * Get a payout period with its ledger entries
+ */
+router.get('/payouts/periods/:periodId', authenticateToken, async (req, res) => {
+  try {
+    const period = await PayoutService.getPeriod(req.params.periodId);
+
+    if (period.community.creatorId !== req.user!.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    return res.json({ period });
+  } catch (error) {
+    console.error('Error fetching payout period:', error);
+    if (error instanceof Error && error.message === 'Payout period not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to fetch payout period' });
+  }
+});
+
+/**
+ * Download a payout period statement as CSV or PDF
+ */
+router.get('/payouts/periods/:periodId/statement', authenticateToken, async (req, res) => {
+  try {
+    const { format } = payoutStatementSchema.parse(req.query);
+    const period = await PayoutService.getPeriod(req.params.periodId);
+
+    if (period.community.creatorId !== req.user!.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const statement = await PayoutService.getStatement(period.id, format);
+
+    res.setHeader('Content-Type', statement.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${statement.filename}"`);
+    return res.send(statement.body);
+  } catch (error) {
+    console.error('Error generating payout statement:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request parameters', details: error.errors });
+    }
+    if (error instanceof Error && error.message === 'Payout period not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to generate payout statement' });
+  }
+});
+
 /**
  * Get subscription analytics
  */
@@ -129,6 +217,43 @@ router.get('/subscriptions/analytics', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * Get redemptions per coupon code for a community
+ */
+router.get('/coupons', authenticateToken, async (req, res) => {
+  try {
+    const { startDate, endDate, communityId } = couponUsageSchema.parse(req.query);
+    const userId = req.user!.id;
+
+    const community = await prisma.community.findFirst({
+      where: {
+        id: communityId,
+        creatorId: userId,
+      },
+    });
+
+    if (!community) {
+      return res.status(403).json({ error: 'Access denied to this community' });
+    }
+
+    const coupons = await CouponService.getCouponUsage(communityId, startDate, endDate);
+
+    return res.json({
+      coupons,
+      period: {
+        start: startDate,
+        end: endDate,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching coupon usage:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request parameters', details: error.errors });
+    }
+    return res.status(500).json({ error: 'Failed to fetch coupon usage' });
+  }
+});
+
 /**
  * Get revenue breakdown by community
  */
@@ -227,6 +352,7 @@ router.get('/dashboard/summary', authenticateToken, async (req, res) => {
         totalSubscriptions,
         totalEarnings,
         monthlyRevenue: revenueMetrics.monthlyRevenue,
+        totalDiscounts: revenueMetrics.totalDiscounts,
         averageRevenuePerUser: revenueMetrics.averageRevenuePerUser,
         churnRate: revenueMetrics.churnRate,
       },
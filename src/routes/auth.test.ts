@@ -1,7 +1,7 @@
 import request from 'supertest';
 import app from '../index';
 import prisma from '../lib/prisma';
-import { hashPassword } from '../lib/auth';
+import { hashPassword, generateActionToken, ActionTokenPurpose } from '../lib/auth';
 
 describe('Authentication Routes', () => {
   // Clean up database before each test
@@ -9,6 +9,19 @@ describe('Authentication Routes', () => {
     await prisma.user.deleteMany();
   });
 
+  // Issue a single-use action token the same way the emailed links do
+  const issueActionToken = async (userId: string, purpose: ActionTokenPurpose, tokenId: string) => {
+    await prisma.authToken.create({
+      data: {
+        id: tokenId,
+        userId,
+        purpose,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+      }
+    });
+    return generateActionToken({ userId, purpose, tokenId }, '1h');
+  };
+
   // Clean up database after all tests
   afterAll(async () => {
     await prisma.user.deleteMany();
@@ -221,6 +234,42 @@ describe('Authentication Routes', () => {
       expect(response.body).toHaveProperty('error', 'Token refresh failed');
     });
 
+    it('should invalidate a refresh token once it has been rotated', async () => {
+      const first = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(first.body.tokens.refreshToken).not.toBe(refreshToken);
+
+      const reuse = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(reuse.body).toHaveProperty('message', 'Refresh token has already been used');
+    });
+
+    it('should revoke the whole session when an old refresh token is reused', async () => {
+      const rotated = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      // The newest token in the family is revoked as well
+      const response = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: rotated.body.tokens.refreshToken })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('message', 'Session has been revoked');
+    });
+
     it('should reject refresh with missing token', async () => {
       const response = await request(app)
         .post('/api/v1/auth/refresh')
@@ -240,5 +289,156 @@ describe('Authentication Routes', () => {
 
       expect(response.body).toHaveProperty('message', 'Logout successful');
     });
+
+    it('should revoke the refresh token on logout', async () => {
+      const registration = await request(app)
+        .post('/api/v1/auth/register')
+        .send({
+          email: 'test@example.com',
+          password: 'TestPassword123',
+          username: 'testuser'
+        });
+
+      const { refreshToken } = registration.body.tokens;
+
+      await request(app)
+        .post('/api/v1/auth/logout')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/logout-all', () => {
+    it('should revoke sessions on every device', async () => {
+      const registration = await request(app)
+        .post('/api/v1/auth/register')
+        .send({
+          email: 'test@example.com',
+          password: 'TestPassword123',
+          username: 'testuser'
+        });
+
+      const secondDevice = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'test@example.com', password: 'TestPassword123', deviceName: 'Phone' })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/v1/auth/logout-all')
+        .set('Authorization', `Bearer ${registration.body.tokens.accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveProperty('revokedSessions', 2);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: secondDevice.body.tokens.refreshToken })
+        .expect(401);
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .post('/api/v1/auth/logout-all')
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/verify-email/confirm', () => {
+    it('should verify the email and reject reuse of the token', async () => {
+      const registration = await request(app)
+        .post('/api/v1/auth/register')
+        .send({
+          email: 'test@example.com',
+          password: 'TestPassword123',
+          username: 'testuser'
+        })
+        .expect(201);
+
+      const token = await issueActionToken(registration.body.user.id, 'email_verification', 'verify-token-1');
+
+      const response = await request(app)
+        .post('/api/v1/auth/verify-email/confirm')
+        .send({ token })
+        .expect(200);
+
+      expect(response.body.user).toHaveProperty('emailVerified', true);
+
+      await request(app)
+        .post('/api/v1/auth/verify-email/confirm')
+        .send({ token })
+        .expect(400);
+    });
+
+    it('should reject a token issued for a different purpose', async () => {
+      const registration = await request(app)
+        .post('/api/v1/auth/register')
+        .send({
+          email: 'test@example.com',
+          password: 'TestPassword123',
+          username: 'testuser'
+        });
+
+      const token = await issueActionToken(registration.body.user.id, 'password_reset', 'reset-token-1');
+
+      await request(app)
+        .post('/api/v1/auth/verify-email/confirm')
+        .send({ token })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/v1/auth/password-reset', () => {
+    it('should not reveal whether an email is registered', async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/password-reset/request')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('message');
+    });
+
+    it('should reset the password and revoke existing sessions', async () => {
+      const registration = await request(app)
+        .post('/api/v1/auth/register')
+        .send({
+          email: 'test@example.com',
+          password: 'TestPassword123',
+          username: 'testuser'
+        });
+
+      const token = await issueActionToken(registration.body.user.id, 'password_reset', 'reset-token-2');
+
+      await request(app)
+        .post('/api/v1/auth/password-reset/confirm')
+        .send({ token, password: 'NewPassword456' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: registration.body.tokens.refreshToken })
+        .expect(401);
+
+      await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'test@example.com', password: 'NewPassword456' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/password-reset/confirm')
+        .send({ token, password: 'AnotherPassword789' })
+        .expect(400);
+    });
+
+    it('should enforce password rules on the new password', async () => {
+      await request(app)
+        .post('/api/v1/auth/password-reset/confirm')
+        .send({ token: 'anything', password: 'weak' })
+        .expect(400);
+    });
   });
-});
\ No newline at end of file
+});
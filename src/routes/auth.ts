@@ -3,19 +3,36 @@ import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import prisma from '../lib/prisma';
 import { 
   hashPassword, 
-  verifyPassword, 
-  generateTokenPair, 
-  verifyRefreshToken 
+  verifyPassword
 } from '../lib/auth';
+import { SessionService, SessionContext } from '../lib/sessionService';
+import { AccountService } from '../lib/accountService';
+import { auditLogger } from '../lib/auditLogger';
+import { authenticateToken } from '../middleware/auth';
 import { 
   registerSchema, 
   loginSchema, 
   refreshTokenSchema, 
+  logoutSchema,
+  verifyEmailSchema,
+  passwordResetRequestSchema,
+  passwordResetConfirmSchema,
   validateRequest 
 } from '../lib/validation';
 
 const router = Router();
 
+/**
+ * Describe the device a session is being issued to
+ */
+function getSessionContext(req: Request, deviceName?: string): SessionContext {
+  return {
+    deviceName,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  };
+}
+
 /**
  * POST /api/v1/auth/register
  * Register a new user account
@@ -32,7 +49,7 @@ router.post('/register', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const { email, password, username, displayName } = validation.data!;
+    const { email, password, username, displayName, deviceName } = validation.data!;
 
     // Hash the password
     const passwordHash = await hashPassword(password);
@@ -64,7 +81,14 @@ router.post('/register', async (req: Request, res: Response): Promise<void> => {
       totalPoints: 0,
       updatedAt: user.createdAt
     };
-    const tokens = generateTokenPair(completeUser);
+    const tokens = await SessionService.createSession(completeUser, getSessionContext(req, deviceName));
+
+    // Registration should not fail because the verification email could not be sent
+    try {
+      await AccountService.requestEmailVerification(user.id);
+    } catch (emailError) {
+      console.error('Failed to send verification email:', emailError);
+    }
 
     res.status(201).json({
       message: 'User registered successfully',
@@ -117,7 +141,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const { email, password } = validation.data!;
+    const { email, password, deviceName } = validation.data!;
 
     // Find user by email
     const user = await prisma.user.findUnique({
@@ -142,8 +166,8 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate JWT tokens
-    const tokens = generateTokenPair(user);
+    // Start a new refresh session for this device
+    const tokens = await SessionService.createSession(user, getSessionContext(req, deviceName));
 
     // Return user data (excluding password hash)
     const { passwordHash, ...userWithoutPassword } = user;
@@ -180,49 +204,251 @@ router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
 
     const { refreshToken } = validation.data!;
 
-    // Verify refresh token
-    const payload = verifyRefreshToken(refreshToken);
+    // Rotate the session: the presented token is invalidated and a new pair issued
+    const { tokens } = await SessionService.rotateSession(refreshToken, getSessionContext(req));
 
-    // Find user to ensure they still exist
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId }
+    res.status(200).json({
+      message: 'Tokens refreshed successfully',
+      tokens
+    });
+  } catch (error) {
+    res.status(401).json({
+      error: 'Token refresh failed',
+      message: error instanceof Error ? error.message : 'Invalid refresh token'
     });
+  }
+});
 
-    if (!user) {
-      res.status(401).json({
-        error: 'Token refresh failed',
-        message: 'User not found'
+/**
+ * POST /api/v1/auth/logout
+ * Logout user by revoking the session of the supplied refresh token
+ */
+router.post('/logout', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(logoutSchema, req.body || {});
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
       });
       return;
     }
 
-    // Generate new token pair
-    const tokens = generateTokenPair(user);
+    const { refreshToken } = validation.data!;
+
+    // Clients without a refresh token only need to drop their access token
+    if (refreshToken) {
+      const userId = await SessionService.revokeByRefreshToken(refreshToken, 'logout');
+      if (userId) {
+        await auditLogger.logAuthEvent(userId, 'LOGOUT');
+      }
+    }
 
     res.status(200).json({
-      message: 'Tokens refreshed successfully',
-      tokens
+      message: 'Logout successful'
     });
   } catch (error) {
-    res.status(401).json({
-      error: 'Token refresh failed',
-      message: error instanceof Error ? error.message : 'Invalid refresh token'
+    console.error('Logout error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to logout'
     });
   }
 });
 
 /**
- * POST /api/v1/auth/logout
- * Logout user (client-side token removal)
+ * POST /api/v1/auth/logout-all
+ * Revoke every refresh session of the authenticated user (log out all devices)
+ */
+router.post('/logout-all', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revokedSessions = await SessionService.revokeAllUserSessions(req.user!.id, 'logout_all');
+
+    await auditLogger.logAuthEvent(req.user!.id, 'LOGOUT_ALL', { revokedSessions });
+
+    res.status(200).json({
+      message: 'Logged out of all devices',
+      revokedSessions
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to logout of all devices'
+    });
+  }
+});
+
+/**
+ * GET /api/v1/auth/sessions
+ * List the authenticated user's active sessions
  */
-router.post('/logout', (req: Request, res: Response): void => {
-  // Since we're using stateless JWT tokens, logout is handled client-side
-  // by removing the tokens from storage. This endpoint exists for consistency
-  // and could be extended to maintain a token blacklist if needed.
-  
+router.get('/sessions', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await SessionService.getActiveSessions(req.user!.id);
+
+    res.status(200).json({
+      sessions
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to get sessions'
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/auth/sessions/:sessionId
+ * Revoke one of the authenticated user's sessions (log out a single device)
+ */
+router.delete('/sessions/:sessionId', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await SessionService.revokeSession(req.params.sessionId, 'logout', req.user!.id);
+
+    if (!revoked) {
+      res.status(404).json({
+        error: 'Not found',
+        message: 'Session not found'
+      });
+      return;
+    }
+
+    await auditLogger.logAuthEvent(req.user!.id, 'LOGOUT', { sessionId: req.params.sessionId });
+
+    res.status(200).json({
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to revoke session'
+    });
+  }
+});
+
+/**
+ * POST /api/v1/auth/verify-email/request
+ * Email the authenticated user a new verification link
+ */
+router.post('/verify-email/request', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { alreadyVerified } = await AccountService.requestEmailVerification(req.user!.id);
+
+    res.status(200).json({
+      message: alreadyVerified ? 'Email is already verified' : 'Verification email sent',
+      alreadyVerified
+    });
+  } catch (error) {
+    console.error('Request email verification error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to send verification email'
+    });
+  }
+});
+
+/**
+ * POST /api/v1/auth/verify-email/confirm
+ * Verify an email address with the token from the verification link
+ */
+router.post('/verify-email/confirm', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(verifyEmailSchema, req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const user = await AccountService.verifyEmail(validation.data!.token);
+
+    res.status(200).json({
+      message: 'Email verified successfully',
+      user
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid or expired token') {
+      res.status(400).json({
+        error: 'Verification failed',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to verify email'
+    });
+  }
+});
+
+/**
+ * POST /api/v1/auth/password-reset/request
+ * Email a password reset link. Always succeeds, so it can't reveal which emails have accounts.
+ */
+router.post('/password-reset/request', async (req: Request, res: Response): Promise<void> => {
+  const validation = validateRequest(passwordResetRequestSchema, req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Validation failed',
+      details: validation.errors
+    });
+    return;
+  }
+
+  try {
+    await AccountService.requestPasswordReset(validation.data!.email);
+  } catch (error) {
+    console.error('Request password reset error:', error);
+  }
+
   res.status(200).json({
-    message: 'Logout successful'
+    message: 'If an account exists for that email, a password reset link has been sent'
   });
 });
 
-export default router;
\ No newline at end of file
+/**
+ * POST /api/v1/auth/password-reset/confirm
+ * Set a new password with the token from the reset link
+ */
+router.post('/password-reset/confirm', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(passwordResetConfirmSchema, req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const { token, password } = validation.data!;
+    await AccountService.resetPassword(token, password);
+
+    res.status(200).json({
+      message: 'Password reset successfully'
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid or expired token') {
+      res.status(400).json({
+        error: 'Password reset failed',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to reset password'
+    });
+  }
+});
+
+export default router;
@@ -196,8 +196,8 @@ describe('Community Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities.length).toBeGreaterThanOrEqual(2); // At least 2 public communities
-      expect(response.body.data.communities.every((c: any) => c.isPublic)).toBe(true);
+      expect(response.body.data.items.length).toBeGreaterThanOrEqual(2); // At least 2 public communities
+      expect(response.body.data.items.every((c: any) => c.isPublic)).toBe(true);
     });
 
     it('should return all accessible communities for authenticated users', async () => {
@@ -207,7 +207,7 @@ describe('Community Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities.length).toBeGreaterThanOrEqual(2);
+      expect(response.body.data.items.length).toBeGreaterThanOrEqual(2);
     });
 
     it('should support search functionality', async () => {
@@ -216,18 +216,34 @@ describe('Community Routes', () => {
         .set('Authorization', `Bearer ${authToken1}`);
 
       expect(response.status).toBe(200);
-      expect(response.body.data.communities.length).toBeGreaterThanOrEqual(1);
-      expect(response.body.data.communities.some((c: any) => c.name.includes('Test'))).toBe(true);
+      expect(response.body.data.items.length).toBeGreaterThanOrEqual(1);
+      expect(response.body.data.items.some((c: any) => c.name.includes('Test'))).toBe(true);
     });
 
-    it('should support pagination', async () => {
+    it('should support cursor pagination', async () => {
       const response = await request(app)
-        .get('/api/v1/communities?limit=1&offset=0')
+        .get('/api/v1/communities?limit=1')
         .set('Authorization', `Bearer ${authToken1}`);
 
       expect(response.status).toBe(200);
-      expect(response.body.data.communities).toHaveLength(1);
-      expect(response.body.data.hasMore).toBeDefined();
+      expect(response.body.data.items).toHaveLength(1);
+      expect(response.body.data.hasMore).toBe(true);
+
+      const nextPage = await request(app)
+        .get(`/api/v1/communities?limit=1&cursor=${encodeURIComponent(response.body.data.nextCursor)}`)
+        .set('Authorization', `Bearer ${authToken1}`);
+
+      expect(nextPage.status).toBe(200);
+      expect(nextPage.body.data.items).toHaveLength(1);
+      expect(nextPage.body.data.items[0].id).not.toBe(response.body.data.items[0].id);
+    });
+
+    it('should reject an invalid cursor', async () => {
+      const response = await request(app)
+        .get('/api/v1/communities?cursor=not-a-cursor')
+        .set('Authorization', `Bearer ${authToken1}`);
+
+      expect(response.status).toBe(400);
     });
   });
 
@@ -442,7 +458,7 @@ describe('Community Routes', () => {
           .set('Authorization', `Bearer ${authToken1}`);
 
         expect(response.status).toBe(200);
-        expect(response.body.data.members.length).toBeGreaterThanOrEqual(2);
+        expect(response.body.data.items.length).toBeGreaterThanOrEqual(2);
       });
 
       it('should deny access to non-members', async () => {
@@ -459,8 +475,8 @@ describe('Community Routes', () => {
           .set('Authorization', `Bearer ${authToken1}`);
 
         expect(response.status).toBe(200);
-        expect(response.body.data.members).toHaveLength(1);
-        expect(response.body.data.members[0].role).toBe('admin');
+        expect(response.body.data.items).toHaveLength(1);
+        expect(response.body.data.items[0].role).toBe('admin');
       });
     });
 
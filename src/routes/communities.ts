@@ -5,12 +5,17 @@ import {
   createCommunitySchema, 
   updateCommunitySchema, 
   communityQuerySchema,
+  cursorQuerySchema,
+  memberQuerySchema,
+  mentionSuggestionQuerySchema,
   communitySearchSchema,
   communityDiscoverySchema,
   memberRoleUpdateSchema,
   memberStatusUpdateSchema
 } from '../lib/validation';
 import { CommunityService } from '../lib/communityService';
+import { MentionService } from '../lib/mentionService';
+import { WebhookService } from '../lib/webhookService';
 
 const router = Router();
 
@@ -20,7 +25,7 @@ const router = Router();
  */
 router.get('/bookmarks', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
-    const validation = validateRequest(communityQuerySchema, req.query);
+    const validation = validateRequest(cursorQuerySchema, req.query);
     
     if (!validation.success) {
       res.status(400).json({
@@ -40,6 +45,15 @@ router.get('/bookmarks', authenticateToken, async (req: Request, res: Response):
     });
   } catch (error) {
     console.error('Get bookmarks error:', error);
+
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Invalid cursor',
+        message: error.message
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Failed to fetch bookmarks'
@@ -71,6 +85,15 @@ router.get('/search', optionalAuth, async (req: Request, res: Response): Promise
     });
   } catch (error) {
     console.error('Search communities error:', error);
+
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Invalid cursor',
+        message: error.message
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Failed to search communities'
@@ -169,6 +192,15 @@ router.get('/', optionalAuth, async (req: Request, res: Response): Promise<void>
     });
   } catch (error) {
     console.error('Get communities error:', error);
+
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Invalid cursor',
+        message: error.message
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Failed to fetch communities'
@@ -358,6 +390,15 @@ router.post('/:id/join', authenticateToken, async (req: Request, res: Response):
           joinedAt: membership.joinedAt
         });
       }
+
+      WebhookService.dispatch(id, 'member.joined', {
+        user: {
+          id: membership.user.id,
+          username: membership.user.username,
+          displayName: membership.user.displayName
+        },
+        joinedAt: membership.joinedAt
+      });
     }
 
     const message = membership.status === 'pending' 
@@ -381,6 +422,14 @@ router.post('/:id/join', authenticateToken, async (req: Request, res: Response):
         return;
       }
       
+      if (error.message === 'Cannot join community - you are banned') {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: error.message
+        });
+        return;
+      }
+
       if (error.message.includes('Already a member') || 
           error.message.includes('already pending') || 
           error.message.includes('suspended')) {
@@ -419,6 +468,14 @@ router.delete('/:id/leave', authenticateToken, async (req: Request, res: Respons
       });
     }
 
+    WebhookService.dispatch(id, 'member.left', {
+      user: {
+        id: req.user!.id,
+        username: req.user!.username,
+        displayName: req.user!.displayName
+      }
+    });
+
     res.json({
       success: true,
       message: result.message
@@ -467,7 +524,7 @@ router.get('/:id/members', authenticateToken, async (req: Request, res: Response
   try {
     const { id } = req.params;
     
-    const validation = validateRequest(communityQuerySchema, req.query);
+    const validation = validateRequest(memberQuerySchema, req.query);
     
     if (!validation.success) {
       res.status(400).json({
@@ -496,6 +553,14 @@ router.get('/:id/members', authenticateToken, async (req: Request, res: Response
       return;
     }
 
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Invalid cursor',
+        message: error.message
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Failed to fetch community members'
@@ -503,6 +568,59 @@ router.get('/:id/members', authenticateToken, async (req: Request, res: Response
   }
 });
 
+/**
+ * GET /api/v1/communities/:id/mentions
+ * Suggest members to @mention as the user types
+ */
+router.get('/:id/mentions', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const validation = validateRequest(mentionSuggestionQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const { q, limit } = validation.data!;
+    const suggestions = await MentionService.suggest(id, req.user!.id, q, limit);
+
+    res.json({
+      success: true,
+      data: suggestions
+    });
+  } catch (error) {
+    console.error('Get mention suggestions error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Community not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied - not a member of this community') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to fetch mention suggestions'
+    });
+  }
+});
+
 /**
  * PUT /api/v1/communities/:id/members/:userId/role
  * Update member role
@@ -0,0 +1,163 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import request from 'supertest';
+import app from '../index';
+import prisma from '../lib/prisma';
+import { generateAccessToken } from '../lib/auth';
+import { WebhookService } from '../lib/webhookService';
+
+describe('Community Webhooks API', () => {
+  let owner: any;
+  let member: any;
+  let community: any;
+  let ownerToken: string;
+  let memberToken: string;
+
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  let receiverStatus: number;
+
+  beforeAll(async () => {
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(receiverStatus);
+        res.end('ok');
+      });
+    });
+
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    receiverStatus = 200;
+
+    owner = await prisma.user.create({
+      data: {
+        email: 'webhook-owner@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'webhookowner',
+        emailVerified: true
+      }
+    });
+
+    member = await prisma.user.create({
+      data: {
+        email: 'webhook-member@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'webhookmember',
+        emailVerified: true
+      }
+    });
+
+    community = await prisma.community.create({
+      data: {
+        name: 'Webhook Community',
+        slug: 'webhook-community',
+        creatorId: owner.id,
+        isPublic: true
+      }
+    });
+
+    await prisma.communityMembership.createMany({
+      data: [
+        { userId: owner.id, communityId: community.id, role: 'admin', status: 'active' },
+        { userId: member.id, communityId: community.id, role: 'member', status: 'active' }
+      ]
+    });
+
+    ownerToken = generateAccessToken({ userId: owner.id, email: owner.email, username: owner.username });
+    memberToken = generateAccessToken({ userId: member.id, email: member.email, username: member.username });
+  });
+
+  it('should create an endpoint and only reveal the secret once', async () => {
+    const response = await request(app)
+      .post(`/api/v1/communities/${community.id}/webhooks`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ url: receiverUrl, events: ['post.created'] })
+      .expect(201);
+
+    expect(response.body.data.secret).toMatch(/^whsec_/);
+
+    const list = await request(app)
+      .get(`/api/v1/communities/${community.id}/webhooks`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(list.body.data.endpoints).toHaveLength(1);
+    expect(list.body.data.endpoints[0].secret).toBeUndefined();
+  });
+
+  it('should reject unknown events and non-admins', async () => {
+    await request(app)
+      .post(`/api/v1/communities/${community.id}/webhooks`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ url: receiverUrl, events: ['everything'] })
+      .expect(400);
+
+    await request(app)
+      .get(`/api/v1/communities/${community.id}/webhooks`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(403);
+  });
+
+  it('should deliver signed payloads to subscribed endpoints', async () => {
+    const endpoint = await WebhookService.createEndpoint(community.id, owner.id, {
+      url: receiverUrl,
+      events: ['member.joined']
+    });
+
+    await WebhookService.dispatch(community.id, 'member.joined', { user: { id: member.id } });
+    await WebhookService.dispatch(community.id, 'post.created', { post: { id: 'ignored' } });
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-webhook-event']).toBe('member.joined');
+
+    const [timestampPart, signaturePart] = (headers['x-webhook-signature'] as string).split(',');
+    const timestamp = timestampPart.replace('t=', '');
+    const expected = crypto.createHmac('sha256', endpoint.secret).update(`${timestamp}.${body}`).digest('hex');
+    expect(signaturePart).toBe(`v1=${expected}`);
+
+    const delivery = await prisma.webhookDelivery.findFirstOrThrow({ where: { endpointId: endpoint.id } });
+    expect(delivery.status).toBe('succeeded');
+    expect(delivery.attempts).toBe(1);
+  });
+
+  it('should schedule a retry after a failed delivery and allow replay', async () => {
+    receiverStatus = 500;
+
+    const endpoint = await WebhookService.createEndpoint(community.id, owner.id, {
+      url: receiverUrl,
+      events: ['lesson.completed']
+    });
+
+    await WebhookService.dispatch(community.id, 'lesson.completed', { userId: member.id });
+
+    const failed = await prisma.webhookDelivery.findFirstOrThrow({ where: { endpointId: endpoint.id } });
+    expect(failed.status).toBe('pending');
+    expect(failed.responseStatus).toBe(500);
+    expect(failed.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    receiverStatus = 200;
+
+    const response = await request(app)
+      .post(`/api/v1/communities/${community.id}/webhooks/deliveries/${failed.id}/replay`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(response.body.data.status).toBe('succeeded');
+    expect(response.body.data.replayOfId).toBe(failed.id);
+    expect(JSON.parse(received[1].body).id).toBe((failed.payload as any).id);
+  });
+});
@@ -0,0 +1,225 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
+import {
+  validateRequest,
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema
+} from '../lib/validation';
+import { WebhookService, WebhookDeliveryQueryOptions, WEBHOOK_EVENTS } from '../lib/webhookService';
+
+// Mounted under /api/v1/communities/:communityId/webhooks
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken, loadCommunityContext(), requirePermission('community:admin'));
+
+/**
+ * Map webhook service errors to responses
+ */
+function handleWebhookError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error) {
+    if (error.message === 'Webhook endpoint not found' || error.message === 'Webhook delivery not found') {
+      res.status(404).json({
+        error: 'Not found',
+        message: error.message
+      });
+      return;
+    }
+
+    if (error.message.startsWith('Invalid webhook URL') || error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Bad request',
+        message: error.message
+      });
+      return;
+    }
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * GET /api/v1/communities/:communityId/webhooks
+ * List webhook endpoints and the events they can subscribe to (admin only)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const endpoints = await WebhookService.getEndpoints(req.params.communityId);
+
+    res.json({
+      success: true,
+      data: {
+        endpoints,
+        availableEvents: WEBHOOK_EVENTS
+      }
+    });
+  } catch (error) {
+    console.error('List webhook endpoints error:', error);
+    handleWebhookError(res, error, 'Failed to list webhook endpoints');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/webhooks
+ * Register a webhook endpoint; the signing secret is only returned here (admin only)
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(createWebhookEndpointSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const endpoint = await WebhookService.createEndpoint(req.params.communityId, req.user!.id, validation.data!);
+
+    res.status(201).json({
+      success: true,
+      data: endpoint,
+      message: 'Webhook endpoint created. Store the secret now, it will not be shown again.'
+    });
+  } catch (error) {
+    console.error('Create webhook endpoint error:', error);
+    handleWebhookError(res, error, 'Failed to create webhook endpoint');
+  }
+});
+
+/**
+ * PUT /api/v1/communities/:communityId/webhooks/:endpointId
+ * Update a webhook endpoint (admin only)
+ */
+router.put('/:endpointId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(updateWebhookEndpointSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const endpoint = await WebhookService.updateEndpoint(
+      req.params.communityId,
+      req.params.endpointId,
+      validation.data!
+    );
+
+    res.json({
+      success: true,
+      data: endpoint,
+      message: 'Webhook endpoint updated successfully'
+    });
+  } catch (error) {
+    console.error('Update webhook endpoint error:', error);
+    handleWebhookError(res, error, 'Failed to update webhook endpoint');
+  }
+});
+
+/**
+ * DELETE /api/v1/communities/:communityId/webhooks/:endpointId
+ * Delete a webhook endpoint and its delivery log (admin only)
+ */
+router.delete('/:endpointId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await WebhookService.deleteEndpoint(req.params.communityId, req.params.endpointId);
+
+    res.json({
+      success: true,
+      message: 'Webhook endpoint deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete webhook endpoint error:', error);
+    handleWebhookError(res, error, 'Failed to delete webhook endpoint');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/webhooks/:endpointId/rotate-secret
+ * Replace an endpoint's signing secret (admin only)
+ */
+router.post('/:endpointId/rotate-secret', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const endpoint = await WebhookService.rotateSecret(req.params.communityId, req.params.endpointId);
+
+    res.json({
+      success: true,
+      data: endpoint,
+      message: 'Webhook secret rotated. Store the new secret now, it will not be shown again.'
+    });
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    handleWebhookError(res, error, 'Failed to rotate webhook secret');
+  }
+});
+
+/**
+ * GET /api/v1/communities/:communityId/webhooks/:endpointId/deliveries
+ * Get an endpoint's delivery log (admin only)
+ */
+router.get('/:endpointId/deliveries', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const cursor = req.query.cursor as string | undefined;
+    const status = req.query.status as WebhookDeliveryQueryOptions['status'];
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: { limit: ['Limit must be between 1 and 100'] }
+      });
+      return;
+    }
+
+    if (status && !['pending', 'succeeded', 'failed'].includes(status)) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: { status: ['Status must be pending, succeeded or failed'] }
+      });
+      return;
+    }
+
+    const result = await WebhookService.getDeliveries(req.params.communityId, req.params.endpointId, {
+      limit,
+      cursor,
+      status
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    handleWebhookError(res, error, 'Failed to get webhook deliveries');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/webhooks/deliveries/:deliveryId/replay
+ * Send a delivery's payload again (admin only)
+ */
+router.post('/deliveries/:deliveryId/replay', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const delivery = await WebhookService.replayDelivery(req.params.communityId, req.params.deliveryId);
+
+    res.json({
+      success: true,
+      data: delivery,
+      message: delivery.status === 'succeeded' ? 'Delivery replayed successfully' : 'Delivery replay queued for retry'
+    });
+  } catch (error) {
+    console.error('Replay webhook delivery error:', error);
+    handleWebhookError(res, error, 'Failed to replay webhook delivery');
+  }
+});
+
+export default router;
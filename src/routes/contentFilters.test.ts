@@ -0,0 +1,196 @@
+import request from 'supertest';
+import app from '../index';
+import prisma from '../lib/prisma';
+import { generateAccessToken } from '../lib/auth';
+
+describe('Content Filters API', () => {
+  let owner: any;
+  let member: any;
+  let community: any;
+  let ownerToken: string;
+  let memberToken: string;
+
+  beforeEach(async () => {
+    owner = await prisma.user.create({
+      data: {
+        email: 'filter-owner@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'filterowner',
+        emailVerified: true
+      }
+    });
+
+    member = await prisma.user.create({
+      data: {
+        email: 'filter-member@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'filtermember',
+        emailVerified: true
+      }
+    });
+
+    community = await prisma.community.create({
+      data: {
+        name: 'Filter Community',
+        slug: 'filter-community',
+        creatorId: owner.id,
+        isPublic: true
+      }
+    });
+
+    await prisma.communityMembership.createMany({
+      data: [
+        { userId: owner.id, communityId: community.id, role: 'admin', status: 'active' },
+        { userId: member.id, communityId: community.id, role: 'member', status: 'active' }
+      ]
+    });
+
+    ownerToken = generateAccessToken({ userId: owner.id, email: owner.email, username: owner.username });
+    memberToken = generateAccessToken({ userId: member.id, email: member.email, username: member.username });
+  });
+
+  const addRule = (rule: object) =>
+    request(app)
+      .post(`/api/v1/communities/${community.id}/content-filters`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send(rule)
+      .expect(201);
+
+  it('should reject posts containing banned words', async () => {
+    await addRule({ type: 'banned_words', action: 'reject', config: { words: ['Casino'] } });
+
+    const response = await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ content: 'Best casino bonuses here' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Content rejected');
+    expect(await prisma.post.count()).toBe(0);
+
+    // Whole words only
+    await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ content: 'Casinos are not mentioned here' })
+      .expect(201);
+  });
+
+  it('should hold links from new members for review', async () => {
+    await addRule({ type: 'link_limit', action: 'hold', config: { maxLinks: 0, memberDays: 7 } });
+
+    const response = await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ content: 'Check out https://example.com' })
+      .expect(201);
+
+    expect(response.body.data.isHidden).toBe(true);
+
+    const queue = await request(app)
+      .get(`/api/v1/communities/${community.id}/moderation/queue`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(queue.body.data.items[0].contentId).toBe(response.body.data.id);
+    expect(queue.body.data.items[0].reports[0].reporterId).toBeNull();
+
+    await request(app)
+      .post(`/api/v1/communities/${community.id}/moderation/posts/${response.body.data.id}/resolve`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ action: 'approve' })
+      .expect(200);
+
+    const approved = await prisma.post.findUniqueOrThrow({ where: { id: response.body.data.id } });
+    expect(approved.isHidden).toBe(false);
+  });
+
+  it('should auto-report duplicate comments and enforce flood limits', async () => {
+    await addRule({ type: 'duplicate_content', action: 'report', config: { windowHours: 24 } });
+    await addRule({ type: 'flood_limit', action: 'reject', config: { maxItems: 3, windowMinutes: 10 } });
+
+    const post = await prisma.post.create({
+      data: { communityId: community.id, authorId: owner.id, content: 'Introduce yourself' }
+    });
+
+    for (const content of ['Hello everyone', 'hello   everyone']) {
+      await request(app)
+        .post(`/api/v1/posts/${post.id}/comments`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ content })
+        .expect(201);
+    }
+
+    const reports = await prisma.contentReport.findMany({ where: { postId: post.id } });
+    expect(reports).toHaveLength(1);
+    expect(reports[0].commentId).not.toBeNull();
+
+    await request(app)
+      .post(`/api/v1/posts/${post.id}/comments`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ content: 'A third comment' })
+      .expect(201);
+
+    await request(app)
+      .post(`/api/v1/posts/${post.id}/comments`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ content: 'One too many' })
+      .expect(400);
+  });
+
+  it('should catch duplicates that differ only in mentions or repeat a poll', async () => {
+    await addRule({ type: 'duplicate_content', action: 'hold', config: { windowHours: 24 } });
+
+    // The first copy is stored with its mention resolved to a token
+    for (const content of ['Welcome @filterowner', 'welcome @FilterOwner']) {
+      await request(app)
+        .post(`/api/v1/posts/community/${community.id}`)
+        .set('Authorization', `Bearer ${memberToken}`)
+        .send({ content })
+        .expect(201);
+    }
+
+    const poll = { content: 'Which day works best?', postType: 'poll', poll: { options: ['Monday', 'Friday'] } };
+    const first = await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send(poll)
+      .expect(201);
+    const repeat = await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send(poll)
+      .expect(201);
+
+    expect(first.body.data.isHidden).toBe(false);
+    expect(repeat.body.data.isHidden).toBe(true);
+
+    const held = await prisma.post.findMany({ where: { isHidden: true }, select: { content: true } });
+    expect(held.map(post => post.content)).toEqual(
+      expect.arrayContaining([`welcome @[filterowner](${owner.id})`, 'Which day works best?'])
+    );
+  });
+
+  it('should not filter moderators', async () => {
+    await addRule({ type: 'banned_words', action: 'reject', config: { words: ['casino'] } });
+
+    await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: 'Reminder: no casino spam' })
+      .expect(201);
+  });
+
+  it('should only let moderators manage rules', async () => {
+    await request(app)
+      .get(`/api/v1/communities/${community.id}/content-filters`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(403);
+
+    await request(app)
+      .post(`/api/v1/communities/${community.id}/content-filters`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ type: 'unknown', action: 'reject', config: {} })
+      .expect(400);
+  });
+});
@@ -0,0 +1,128 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
+import { validateRequest, contentFilterRuleSchema } from '../lib/validation';
+import { ContentFilterService, CONTENT_FILTER_TYPES, CONTENT_FILTER_ACTIONS } from '../lib/contentFilterService';
+
+// Mounted under /api/v1/communities/:communityId/content-filters
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken, loadCommunityContext(), requirePermission('post:moderate'));
+
+/**
+ * Map content filter service errors to responses
+ */
+function handleContentFilterError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error && error.message === 'Content filter rule not found') {
+    res.status(404).json({
+      error: 'Not found',
+      message: error.message
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * GET /api/v1/communities/:communityId/content-filters
+ * List filter rules and the available rule types and actions (moderators only)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rules = await ContentFilterService.getRules(req.params.communityId);
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+        availableTypes: CONTENT_FILTER_TYPES,
+        availableActions: CONTENT_FILTER_ACTIONS
+      }
+    });
+  } catch (error) {
+    console.error('List content filter rules error:', error);
+    handleContentFilterError(res, error, 'Failed to list content filter rules');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/content-filters
+ * Add a filter rule (moderators only)
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(contentFilterRuleSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const rule = await ContentFilterService.createRule(req.params.communityId, req.user!.id, validation.data!);
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+      message: 'Content filter rule created successfully'
+    });
+  } catch (error) {
+    console.error('Create content filter rule error:', error);
+    handleContentFilterError(res, error, 'Failed to create content filter rule');
+  }
+});
+
+/**
+ * PUT /api/v1/communities/:communityId/content-filters/:ruleId
+ * Replace a filter rule's type, action and settings (moderators only)
+ */
+router.put('/:ruleId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(contentFilterRuleSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const rule = await ContentFilterService.updateRule(req.params.communityId, req.params.ruleId, validation.data!);
+
+    res.json({
+      success: true,
+      data: rule,
+      message: 'Content filter rule updated successfully'
+    });
+  } catch (error) {
+    console.error('Update content filter rule error:', error);
+    handleContentFilterError(res, error, 'Failed to update content filter rule');
+  }
+});
+
+/**
+ * DELETE /api/v1/communities/:communityId/content-filters/:ruleId
+ * Delete a filter rule (moderators only)
+ */
+router.delete('/:ruleId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await ContentFilterService.deleteRule(req.params.communityId, req.params.ruleId);
+
+    res.json({
+      success: true,
+      message: 'Content filter rule deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete content filter rule error:', error);
+    handleContentFilterError(res, error, 'Failed to delete content filter rule');
+  }
+});
+
+export default router;
@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
+import { validateRequest, createCouponSchema, updateCouponSchema } from '../lib/validation';
+import { CouponService } from '../lib/couponService';
+
+// Mounted under /api/v1/communities/:communityId/coupons
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken, loadCommunityContext(), requirePermission('community:admin'));
+
+/**
+ * Map coupon service errors to responses
+ */
+function handleCouponError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error && error.message === 'Coupon not found') {
+    res.status(404).json({
+      error: 'Not found',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof Error && error.message === 'Coupon code already exists') {
+    res.status(409).json({
+      error: 'Conflict',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof Error && [
+    'Coupon expiry must be in the future',
+    'Redemption cap is below current redemptions'
+  ].includes(error.message)) {
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * GET /api/v1/communities/:communityId/coupons
+ * List the community's coupon codes (admins only)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const coupons = await CouponService.getCommunityCoupons(req.params.communityId);
+
+    res.json({
+      success: true,
+      data: coupons
+    });
+  } catch (error) {
+    console.error('List coupons error:', error);
+    handleCouponError(res, error, 'Failed to list coupons');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/coupons
+ * Create a coupon code (admins only)
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(createCouponSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const coupon = await CouponService.createCoupon(req.params.communityId, validation.data!);
+
+    res.status(201).json({
+      success: true,
+      data: coupon,
+      message: 'Coupon created successfully'
+    });
+  } catch (error) {
+    console.error('Create coupon error:', error);
+    handleCouponError(res, error, 'Failed to create coupon');
+  }
+});
+
+/**
+ * PUT /api/v1/communities/:communityId/coupons/:couponId
+ * Change a coupon's redemption cap, expiry or active flag (admins only)
+ */
+router.put('/:couponId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(updateCouponSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const coupon = await CouponService.updateCoupon(req.params.communityId, req.params.couponId, validation.data!);
+
+    res.json({
+      success: true,
+      data: coupon,
+      message: 'Coupon updated successfully'
+    });
+  } catch (error) {
+    console.error('Update coupon error:', error);
+    handleCouponError(res, error, 'Failed to update coupon');
+  }
+});
+
+/**
+ * DELETE /api/v1/communities/:communityId/coupons/:couponId
+ * Delete a coupon (admins only)
+ */
+router.delete('/:couponId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await CouponService.deleteCoupon(req.params.communityId, req.params.couponId);
+
+    res.json({
+      success: true,
+      message: 'Coupon deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete coupon error:', error);
+    handleCouponError(res, error, 'Failed to delete coupon');
+  }
+});
+
+export default router;
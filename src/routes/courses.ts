@@ -50,6 +50,14 @@ router.get('/community/:communityId', optionalAuth, async (req: Request, res: Re
       return;
     }
 
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Invalid cursor',
+        message: error.message
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Failed to fetch courses'
@@ -93,6 +101,14 @@ router.post('/community/:communityId', authenticateToken, async (req: Request, r
       return;
     }
 
+    if (error instanceof Error && error.message === 'Tier not found') {
+      res.status(400).json({
+        error: 'Validation failed',
+        message: error.message
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Failed to create course'
@@ -186,6 +202,14 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response): Promi
         });
         return;
       }
+
+      if (error.message === 'Tier not found') {
+        res.status(400).json({
+          error: 'Validation failed',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -281,6 +305,14 @@ router.post('/:id/lessons', authenticateToken, async (req: Request, res: Respons
         });
         return;
       }
+
+      if (error.message.startsWith('Invalid drip schedule')) {
+        res.status(400).json({
+          error: 'Validation failed',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -365,6 +397,14 @@ router.get('/lessons/:id', optionalAuth, async (req: Request, res: Response): Pr
         });
         return;
       }
+
+      if (error.message.startsWith('Access denied to lesson')) {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -418,6 +458,14 @@ router.put('/lessons/:id', authenticateToken, async (req: Request, res: Response
         });
         return;
       }
+
+      if (error.message.startsWith('Invalid drip schedule')) {
+        res.status(400).json({
+          error: 'Validation failed',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -471,7 +519,7 @@ router.delete('/lessons/:id', authenticateToken, async (req: Request, res: Respo
 
 /**
  * PUT /api/v1/courses/:id/publish
- * Publish or unpublish a course
+ * Publish, schedule or unpublish a course
  */
 router.put('/:id/publish', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -487,12 +535,19 @@ router.put('/:id/publish', authenticateToken, async (req: Request, res: Response
       return;
     }
 
-    const course = await CourseService.publishCourse(id, req.user!.id, validation.data!.isPublished);
+    const course = await CourseService.publishCourse(
+      id,
+      req.user!.id,
+      validation.data!.isPublished,
+      validation.data!.publishAt
+    );
+
+    const action = course.isPublished ? 'published' : course.publishAt ? 'scheduled' : 'unpublished';
 
     res.json({
       success: true,
       data: course,
-      message: `Course ${validation.data!.isPublished ? 'published' : 'unpublished'} successfully`
+      message: `Course ${action} successfully`
     });
   } catch (error) {
     console.error('Publish course error:', error);
@@ -0,0 +1,417 @@
+import request from 'supertest';
+import app from '../index';
+import prisma from '../lib/prisma';
+import { generateAccessToken } from '../lib/auth';
+import { StripeService } from '../lib/stripeService';
+
+describe('Moderation API', () => {
+  let moderator: any;
+  let author: any;
+  let reporters: any[];
+  let community: any;
+  let post: any;
+  let comment: any;
+  let moderatorToken: string;
+  let authorToken: string;
+
+  beforeEach(async () => {
+    moderator = await prisma.user.create({
+      data: {
+        email: 'moderation-mod@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'moderationmod',
+        emailVerified: true
+      }
+    });
+
+    author = await prisma.user.create({
+      data: {
+        email: 'moderation-author@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'moderationauthor',
+        emailVerified: true
+      }
+    });
+
+    reporters = await Promise.all([1, 2].map(index =>
+      prisma.user.create({
+        data: {
+          email: `moderation-reporter${index}@example.com`,
+          passwordHash: 'hashedpassword',
+          username: `moderationreporter${index}`,
+          emailVerified: true
+        }
+      })
+    ));
+
+    community = await prisma.community.create({
+      data: {
+        name: 'Moderation Community',
+        slug: 'moderation-community',
+        creatorId: moderator.id,
+        isPublic: true
+      }
+    });
+
+    await prisma.communityMembership.createMany({
+      data: [
+        { userId: moderator.id, communityId: community.id, role: 'moderator', status: 'active' },
+        { userId: author.id, communityId: community.id, role: 'member', status: 'active' },
+        ...reporters.map(reporter => ({ userId: reporter.id, communityId: community.id, role: 'member', status: 'active' }))
+      ]
+    });
+
+    post = await prisma.post.create({
+      data: {
+        communityId: community.id,
+        authorId: author.id,
+        title: 'Reported post',
+        content: 'Buy followers now'
+      }
+    });
+
+    comment = await prisma.comment.create({
+      data: {
+        postId: post.id,
+        authorId: author.id,
+        content: 'Reported comment'
+      }
+    });
+
+    await prisma.contentReport.createMany({
+      data: [
+        { reporterId: reporters[0].id, postId: post.id, reason: 'spam' },
+        { reporterId: reporters[1].id, postId: post.id, reason: 'spam' },
+        { reporterId: reporters[0].id, commentId: comment.id, reason: 'harassment' }
+      ]
+    });
+
+    moderatorToken = generateAccessToken({ userId: moderator.id, email: moderator.email, username: moderator.username });
+    authorToken = generateAccessToken({ userId: author.id, email: author.email, username: author.username });
+  });
+
+  it('should group open reports per piece of content, most reported first', async () => {
+    const response = await request(app)
+      .get(`/api/v1/communities/${community.id}/moderation/queue`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    const { items, hasMore } = response.body.data;
+    expect(items).toHaveLength(2);
+    expect(hasMore).toBe(false);
+    expect(items[0].contentType).toBe('post');
+    expect(items[0].contentId).toBe(post.id);
+    expect(items[0].reportCount).toBe(2);
+    expect(items[0].reasons).toEqual({ spam: 2 });
+    expect(items[1].contentType).toBe('comment');
+
+    const filtered = await request(app)
+      .get(`/api/v1/communities/${community.id}/moderation/queue?contentType=comment`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(filtered.body.data.items).toHaveLength(1);
+    expect(filtered.body.data.items[0].contentId).toBe(comment.id);
+  });
+
+  it('should page through the queue with a cursor', async () => {
+    const first = await request(app)
+      .get(`/api/v1/communities/${community.id}/moderation/queue?limit=1`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(first.body.data.items[0].contentId).toBe(post.id);
+    expect(first.body.data.hasMore).toBe(true);
+
+    const second = await request(app)
+      .get(`/api/v1/communities/${community.id}/moderation/queue?limit=1&cursor=${first.body.data.nextCursor}`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(200);
+
+    expect(second.body.data.items[0].contentId).toBe(comment.id);
+    expect(second.body.data.hasMore).toBe(false);
+
+    await request(app)
+      .get(`/api/v1/communities/${community.id}/moderation/queue?cursor=not-a-cursor`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .expect(400);
+  });
+
+  it('should only allow moderators to see the queue', async () => {
+    await request(app)
+      .get(`/api/v1/communities/${community.id}/moderation/queue`)
+      .set('Authorization', `Bearer ${authorToken}`)
+      .expect(403);
+  });
+
+  it('should hide a post when resolving and log the decision', async () => {
+    const response = await request(app)
+      .post(`/api/v1/communities/${community.id}/moderation/posts/${post.id}/resolve`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ action: 'hide', note: 'Spam' })
+      .expect(200);
+
+    expect(response.body.data.resolvedReports).toBe(2);
+
+    const hidden = await prisma.post.findUniqueOrThrow({ where: { id: post.id } });
+    expect(hidden.isHidden).toBe(true);
+
+    const reports = await prisma.contentReport.findMany({ where: { postId: post.id } });
+    expect(reports.every(report => report.status === 'resolved' && report.resolvedById === moderator.id)).toBe(true);
+
+    const auditLog = await prisma.auditLog.findFirst({
+      where: { action: 'MODERATION', resource: `post:${post.id}` }
+    });
+    expect(auditLog?.reason).toBe('CONTENT_HIDDEN: Spam');
+
+    await request(app)
+      .get(`/api/v1/posts/${post.id}`)
+      .set('Authorization', `Bearer ${authorToken}`)
+      .expect(404);
+
+    // Nothing left to decide
+    await request(app)
+      .post(`/api/v1/communities/${community.id}/moderation/posts/${post.id}/dismiss`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({})
+      .expect(404);
+  });
+
+  it('should warn the author when resolving with a warning', async () => {
+    await request(app)
+      .post(`/api/v1/communities/${community.id}/moderation/comments/${comment.id}/resolve`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ action: 'warn', note: 'Please keep it civil' })
+      .expect(200);
+
+    const notification = await prisma.notification.findFirst({
+      where: { userId: author.id, type: 'MODERATION_WARNING' }
+    });
+    expect(notification?.message).toContain('Please keep it civil');
+  });
+
+  it('should dismiss reports without touching the content', async () => {
+    await request(app)
+      .post(`/api/v1/communities/${community.id}/moderation/posts/${post.id}/dismiss`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ note: 'Not spam' })
+      .expect(200);
+
+    const reports = await prisma.contentReport.findMany({ where: { postId: post.id } });
+    expect(reports.every(report => report.status === 'dismissed')).toBe(true);
+
+    const unchanged = await prisma.post.findUniqueOrThrow({ where: { id: post.id } });
+    expect(unchanged.isHidden).toBe(false);
+  });
+
+  describe('Hide, lock and pin', () => {
+    it('should keep hidden posts visible to moderators only', async () => {
+      await request(app)
+        .put(`/api/v1/communities/${community.id}/moderation/posts/${post.id}`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ isHidden: true })
+        .expect(200);
+
+      const memberFeed = await request(app)
+        .get(`/api/v1/posts/community/${community.id}`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .expect(200);
+      expect(memberFeed.body.data.items).toHaveLength(0);
+
+      const moderatorView = await request(app)
+        .get(`/api/v1/posts/${post.id}`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .expect(200);
+      expect(moderatorView.body.data.isHidden).toBe(true);
+    });
+
+    it('should redact hidden comments without dropping their replies', async () => {
+      const reply = await prisma.comment.create({
+        data: { postId: post.id, authorId: reporters[0].id, parentId: comment.id, content: 'A reply' }
+      });
+
+      await request(app)
+        .put(`/api/v1/communities/${community.id}/moderation/comments/${comment.id}`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ isHidden: true, reason: 'Harassment' })
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/v1/posts/${post.id}/comments`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .expect(200);
+
+      expect(response.body.data.items[0].content).toBeNull();
+      expect(response.body.data.items[0].replies[0].id).toBe(reply.id);
+
+      const auditLog = await prisma.auditLog.findFirst({
+        where: { action: 'MODERATION', resource: `comment:${comment.id}` }
+      });
+      expect(auditLog?.reason).toBe('CONTENT_HIDDEN: Harassment');
+    });
+
+    it('should stop new comments on locked posts', async () => {
+      await request(app)
+        .put(`/api/v1/communities/${community.id}/moderation/posts/${post.id}`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ isLocked: true })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/v1/posts/${post.id}/comments`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .send({ content: 'Too late' })
+        .expect(403);
+    });
+
+    it('should sort pinned posts first', async () => {
+      const newer = await prisma.post.create({
+        data: { communityId: community.id, authorId: author.id, content: 'Newer post' }
+      });
+
+      await request(app)
+        .put(`/api/v1/communities/${community.id}/moderation/posts/${post.id}`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ isPinned: true })
+        .expect(200);
+
+      const feed = await request(app)
+        .get(`/api/v1/posts/community/${community.id}`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .expect(200);
+
+      expect(feed.body.data.items.map((p: any) => p.id)).toEqual([post.id, newer.id]);
+    });
+
+    it('should require a state change', async () => {
+      await request(app)
+        .put(`/api/v1/communities/${community.id}/moderation/posts/${post.id}`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ reason: 'Nothing to do' })
+        .expect(400);
+    });
+  });
+
+  describe('Member sanctions', () => {
+    it('should stop banned members from rejoining until unbanned', async () => {
+      await request(app)
+        .post(`/api/v1/communities/${community.id}/moderation/members/${author.id}/ban`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ reason: 'Repeated spam' })
+        .expect(201);
+
+      const membership = await prisma.communityMembership.findFirst({
+        where: { userId: author.id, communityId: community.id }
+      });
+      expect(membership).toBeNull();
+
+      await request(app)
+        .post(`/api/v1/communities/${community.id}/join`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .expect(403);
+
+      await request(app)
+        .delete(`/api/v1/communities/${community.id}/moderation/members/${author.id}/ban`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .expect(200);
+
+      await request(app)
+        .post(`/api/v1/communities/${community.id}/join`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .expect(201);
+    });
+
+    it('should cancel the subscription of a banned member', async () => {
+      const cancelSpy = jest.spyOn(StripeService, 'cancelSubscription').mockResolvedValue({} as any);
+      await prisma.subscription.create({
+        data: {
+          userId: author.id,
+          communityId: community.id,
+          stripeSubscriptionId: 'sub_banned_member',
+          status: 'active'
+        }
+      });
+
+      await request(app)
+        .post(`/api/v1/communities/${community.id}/moderation/members/${author.id}/ban`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ reason: 'Repeated spam' })
+        .expect(201);
+
+      expect(cancelSpy).toHaveBeenCalledWith('sub_banned_member');
+      cancelSpy.mockRestore();
+    });
+
+    it('should stop muted members from posting until the mute expires', async () => {
+      await request(app)
+        .post(`/api/v1/communities/${community.id}/moderation/members/${author.id}/mute`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ reason: 'Cool off', expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() })
+        .expect(201);
+
+      await request(app)
+        .post(`/api/v1/posts/community/${community.id}`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .send({ content: 'Still here' })
+        .expect(403);
+
+      // Expired mutes lift themselves
+      await prisma.memberSanction.updateMany({
+        where: { userId: author.id, type: 'mute' },
+        data: { expiresAt: new Date(Date.now() - 1000) }
+      });
+
+      await request(app)
+        .post(`/api/v1/posts/community/${community.id}`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .send({ content: 'Back again' })
+        .expect(201);
+    });
+
+    it('should mute automatically when the warning threshold is reached', async () => {
+      await prisma.community.update({
+        where: { id: community.id },
+        data: { warningEscalationThreshold: 3, warningEscalationMuteHours: 168 }
+      });
+
+      for (let i = 0; i < 2; i++) {
+        const response = await request(app)
+          .post(`/api/v1/communities/${community.id}/moderation/members/${author.id}/warnings`)
+          .set('Authorization', `Bearer ${moderatorToken}`)
+          .send({ reason: `Warning ${i + 1}` })
+          .expect(201);
+        expect(response.body.data.escalatedMute).toBeNull();
+      }
+
+      const third = await request(app)
+        .post(`/api/v1/communities/${community.id}/moderation/members/${author.id}/warnings`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .send({ reason: 'Warning 3' })
+        .expect(201);
+      expect(third.body.data.escalatedMute.type).toBe('mute');
+
+      const history = await request(app)
+        .get(`/api/v1/communities/${community.id}/moderation/members/${author.id}/sanctions`)
+        .set('Authorization', `Bearer ${moderatorToken}`)
+        .expect(200);
+      expect(history.body.data.activeWarnings).toBe(3);
+      expect(history.body.data.activeMute).not.toBeNull();
+    });
+
+    it('should not let moderators sanction the community creator', async () => {
+      await request(app)
+        .post(`/api/v1/communities/${community.id}/moderation/members/${moderator.id}/ban`)
+        .set('Authorization', `Bearer ${authorToken}`)
+        .send({})
+        .expect(403);
+    });
+  });
+
+  it('should reject unknown actions', async () => {
+    await request(app)
+      .post(`/api/v1/communities/${community.id}/moderation/posts/${post.id}/resolve`)
+      .set('Authorization', `Bearer ${moderatorToken}`)
+      .send({ action: 'ban' })
+      .expect(400);
+  });
+});
@@ -0,0 +1,447 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
+import {
+  validateRequest,
+  moderationQueueQuerySchema,
+  resolveReportsSchema,
+  dismissReportsSchema,
+  postModerationStateSchema,
+  commentModerationStateSchema,
+  banMemberSchema,
+  muteMemberSchema,
+  warnMemberSchema
+} from '../lib/validation';
+import { ModerationService, ModerationContentType } from '../lib/moderationService';
+import { MemberSanctionService } from '../lib/memberSanctionService';
+
+// Mounted under /api/v1/communities/:communityId/moderation
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken, loadCommunityContext());
+
+/**
+ * Map moderation service errors to responses
+ */
+function handleModerationError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error) {
+    if ([
+      'Post not found',
+      'Comment not found',
+      'No open reports for this content',
+      'Member not found',
+      'Warning not found',
+      'Member is not banned',
+      'Member is not muted'
+    ].includes(error.message)) {
+      res.status(404).json({
+        error: 'Not found',
+        message: error.message
+      });
+      return;
+    }
+
+    if ([
+      'You cannot sanction yourself',
+      'Cannot sanction the community creator',
+      'Moderators can only sanction regular members',
+      'Only the community creator can sanction admins'
+    ].includes(error.message)) {
+      res.status(403).json({
+        error: 'Access denied',
+        message: error.message
+      });
+      return;
+    }
+
+    if (error.message === 'Member is already banned') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: error.message
+      });
+      return;
+    }
+
+    if (error.message === 'Expiry must be in the future' || error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Bad request',
+        message: error.message
+      });
+      return;
+    }
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * Resolve or dismiss the open reports for a piece of content
+ */
+function handleDecision(contentType: ModerationContentType, decision: 'resolve' | 'dismiss') {
+  const idParam = contentType === 'post' ? 'postId' : 'commentId';
+
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (decision === 'resolve') {
+        const validation = validateRequest(resolveReportsSchema, req.body);
+
+        if (!validation.success) {
+          res.status(400).json({
+            error: 'Validation failed',
+            details: validation.errors
+          });
+          return;
+        }
+
+        const result = await ModerationService.resolveReports(
+          req.params.communityId,
+          req.user!.id,
+          contentType,
+          req.params[idParam],
+          validation.data!
+        );
+
+        res.json({
+          success: true,
+          data: result,
+          message: 'Reports resolved successfully'
+        });
+        return;
+      }
+
+      const validation = validateRequest(dismissReportsSchema, req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: validation.errors
+        });
+        return;
+      }
+
+      const result = await ModerationService.dismissReports(
+        req.params.communityId,
+        req.user!.id,
+        contentType,
+        req.params[idParam],
+        validation.data!.note
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Reports dismissed successfully'
+      });
+    } catch (error) {
+      console.error(`${decision === 'resolve' ? 'Resolve' : 'Dismiss'} ${contentType} reports error:`, error);
+      handleModerationError(res, error, `Failed to ${decision} reports`);
+    }
+  };
+}
+
+/**
+ * GET /api/v1/communities/:communityId/moderation/queue
+ * Get reported content grouped per post or comment (moderators only)
+ */
+router.get('/queue', requirePermission('post:moderate'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(moderationQueueQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const result = await ModerationService.getQueue(req.params.communityId, validation.data!);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Get moderation queue error:', error);
+    handleModerationError(res, error, 'Failed to get moderation queue');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/moderation/posts/:postId/resolve
+ * Resolve a post's reports and optionally hide, delete or warn (moderators only)
+ */
+router.post('/posts/:postId/resolve', requirePermission('post:moderate'), handleDecision('post', 'resolve'));
+
+/**
+ * POST /api/v1/communities/:communityId/moderation/posts/:postId/dismiss
+ * Dismiss a post's reports (moderators only)
+ */
+router.post('/posts/:postId/dismiss', requirePermission('post:moderate'), handleDecision('post', 'dismiss'));
+
+/**
+ * POST /api/v1/communities/:communityId/moderation/comments/:commentId/resolve
+ * Resolve a comment's reports and optionally hide, delete or warn (moderators only)
+ */
+router.post('/comments/:commentId/resolve', requirePermission('comment:moderate'), handleDecision('comment', 'resolve'));
+
+/**
+ * POST /api/v1/communities/:communityId/moderation/comments/:commentId/dismiss
+ * Dismiss a comment's reports (moderators only)
+ */
+router.post('/comments/:commentId/dismiss', requirePermission('comment:moderate'), handleDecision('comment', 'dismiss'));
+
+/**
+ * PUT /api/v1/communities/:communityId/moderation/posts/:postId
+ * Hide, lock or pin a post (moderators only)
+ */
+router.put('/posts/:postId', requirePermission('post:moderate'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(postModerationStateSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const post = await ModerationService.updatePostState(
+      req.params.communityId,
+      req.user!.id,
+      req.params.postId,
+      validation.data!
+    );
+
+    res.json({
+      success: true,
+      data: post,
+      message: 'Post moderation state updated successfully'
+    });
+  } catch (error) {
+    console.error('Update post moderation state error:', error);
+    handleModerationError(res, error, 'Failed to update post');
+  }
+});
+
+/**
+ * PUT /api/v1/communities/:communityId/moderation/comments/:commentId
+ * Hide or restore a comment (moderators only)
+ */
+router.put('/comments/:commentId', requirePermission('comment:moderate'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(commentModerationStateSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const comment = await ModerationService.updateCommentState(
+      req.params.communityId,
+      req.user!.id,
+      req.params.commentId,
+      validation.data!
+    );
+
+    res.json({
+      success: true,
+      data: comment,
+      message: 'Comment moderation state updated successfully'
+    });
+  } catch (error) {
+    console.error('Update comment moderation state error:', error);
+    handleModerationError(res, error, 'Failed to update comment');
+  }
+});
+
+/**
+ * GET /api/v1/communities/:communityId/moderation/members/:userId/sanctions
+ * Get a member's bans, mutes and warnings (moderators only)
+ */
+router.get('/members/:userId/sanctions', requirePermission('member:read'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await MemberSanctionService.getMemberSanctions(req.params.communityId, req.params.userId);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Get member sanctions error:', error);
+    handleModerationError(res, error, 'Failed to get member sanctions');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/moderation/members/:userId/ban
+ * Ban a member, permanently or until expiresAt (moderators only)
+ */
+router.post('/members/:userId/ban', requirePermission('member:write'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(banMemberSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const ban = await MemberSanctionService.banMember(
+      req.params.communityId,
+      req.user!.id,
+      req.params.userId,
+      validation.data!
+    );
+
+    res.status(201).json({
+      success: true,
+      data: ban,
+      message: 'Member banned successfully'
+    });
+  } catch (error) {
+    console.error('Ban member error:', error);
+    handleModerationError(res, error, 'Failed to ban member');
+  }
+});
+
+/**
+ * DELETE /api/v1/communities/:communityId/moderation/members/:userId/ban
+ * Lift a member's ban (moderators only)
+ */
+router.delete('/members/:userId/ban', requirePermission('member:write'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ban = await MemberSanctionService.unbanMember(req.params.communityId, req.user!.id, req.params.userId);
+
+    res.json({
+      success: true,
+      data: ban,
+      message: 'Member unbanned successfully'
+    });
+  } catch (error) {
+    console.error('Unban member error:', error);
+    handleModerationError(res, error, 'Failed to unban member');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/moderation/members/:userId/mute
+ * Stop a member from posting and commenting until expiresAt (moderators only)
+ */
+router.post('/members/:userId/mute', requirePermission('member:write'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(muteMemberSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const mute = await MemberSanctionService.muteMember(
+      req.params.communityId,
+      req.user!.id,
+      req.params.userId,
+      validation.data!
+    );
+
+    res.status(201).json({
+      success: true,
+      data: mute,
+      message: 'Member muted successfully'
+    });
+  } catch (error) {
+    console.error('Mute member error:', error);
+    handleModerationError(res, error, 'Failed to mute member');
+  }
+});
+
+/**
+ * DELETE /api/v1/communities/:communityId/moderation/members/:userId/mute
+ * Lift a member's mute early (moderators only)
+ */
+router.delete('/members/:userId/mute', requirePermission('member:write'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mute = await MemberSanctionService.unmuteMember(req.params.communityId, req.user!.id, req.params.userId);
+
+    res.json({
+      success: true,
+      data: mute,
+      message: 'Member unmuted successfully'
+    });
+  } catch (error) {
+    console.error('Unmute member error:', error);
+    handleModerationError(res, error, 'Failed to unmute member');
+  }
+});
+
+/**
+ * POST /api/v1/communities/:communityId/moderation/members/:userId/warnings
+ * Warn a member, escalating to a mute when the community threshold is reached (moderators only)
+ */
+router.post('/members/:userId/warnings', requirePermission('member:write'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(warnMemberSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const result = await MemberSanctionService.warnMember(
+      req.params.communityId,
+      req.user!.id,
+      req.params.userId,
+      validation.data!
+    );
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: result.escalatedMute ? 'Member warned and automatically muted' : 'Member warned successfully'
+    });
+  } catch (error) {
+    console.error('Warn member error:', error);
+    handleModerationError(res, error, 'Failed to warn member');
+  }
+});
+
+/**
+ * DELETE /api/v1/communities/:communityId/moderation/members/:userId/warnings/:warningId
+ * Revoke a warning (moderators only)
+ */
+router.delete('/members/:userId/warnings/:warningId', requirePermission('member:write'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const warning = await MemberSanctionService.revokeWarning(
+      req.params.communityId,
+      req.user!.id,
+      req.params.userId,
+      req.params.warningId
+    );
+
+    res.json({
+      success: true,
+      data: warning,
+      message: 'Warning revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke warning error:', error);
+    handleModerationError(res, error, 'Failed to revoke warning');
+  }
+});
+
+export default router;
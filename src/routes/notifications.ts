@@ -13,24 +13,29 @@ router.get('/', async (req, res) => {
   try {
     const userId = req.user!.id;
     const limit = parseInt(req.query.limit as string) || 20;
-    const offset = parseInt(req.query.offset as string) || 0;
+    const cursor = req.query.cursor as string | undefined;
     const unreadOnly = req.query.unreadOnly === 'true';
 
-    const notifications = await notificationService.getUserNotifications(userId, {
+    const page = await notificationService.getUserNotifications(userId, {
       limit,
-      offset,
+      cursor,
       unreadOnly,
     });
 
     const unreadCount = await notificationService.getUnreadCount(userId);
 
     res.json({
-      notifications,
+      ...page,
       unreadCount,
-      hasMore: notifications.length === limit,
     });
   } catch (error) {
     console.error('Failed to get notifications:', error);
+
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
     res.status(500).json({ error: 'Failed to get notifications' });
   }
 });
@@ -115,6 +120,7 @@ const updatePreferencesSchema = z.object({
   inAppEnabled: z.boolean().optional(),
   postLikes: z.boolean().optional(),
   commentReplies: z.boolean().optional(),
+  mentions: z.boolean().optional(),
   courseUpdates: z.boolean().optional(),
   communityAnnouncements: z.boolean().optional(),
   weeklyDigest: z.boolean().optional(),
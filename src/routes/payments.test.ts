@@ -102,6 +102,354 @@ describe('Payment Routes', () => {
     });
   });
 
+  describe('Trials and coupons', () => {
+    const mockSubscription = {
+      id: 'sub_promo_test',
+      status: 'trialing',
+      trial_end: 1643673600,
+    };
+
+    it('should let the creator manage coupon codes', async () => {
+      const created = await request(app)
+        .post(`/api/v1/communities/${testCommunity.id}/coupons`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: 'launch20', discountType: 'percent', percentOff: 20, maxRedemptions: 50 });
+
+      expect(created.status).toBe(201);
+      expect(created.body.data.code).toBe('LAUNCH20');
+
+      const duplicate = await request(app)
+        .post(`/api/v1/communities/${testCommunity.id}/coupons`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: 'LAUNCH20', discountType: 'fixed', amountOff: 5 });
+
+      expect(duplicate.status).toBe(409);
+
+      const missingAmount = await request(app)
+        .post(`/api/v1/communities/${testCommunity.id}/coupons`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: 'FIVEOFF', discountType: 'fixed' });
+
+      expect(missingAmount.status).toBe(400);
+
+      const updated = await request(app)
+        .put(`/api/v1/communities/${testCommunity.id}/coupons/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ isActive: false });
+
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.isActive).toBe(false);
+    });
+
+    it('should apply a valid coupon and the community trial at checkout', async () => {
+      await prisma.community.update({
+        where: { id: testCommunity.id },
+        data: { trialDays: 14 },
+      });
+      const coupon = await prisma.communityCoupon.create({
+        data: { communityId: testCommunity.id, code: 'WELCOME', discountType: 'percent', percentOff: 50 },
+      });
+
+      mockStripeService.createSubscription.mockResolvedValue({ subscription: mockSubscription as any });
+
+      const response = await request(app)
+        .post('/api/v1/payments/subscriptions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          communityId: testCommunity.id,
+          priceId: 'price_test123',
+          couponCode: 'welcome',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.trialEnd).toBe(1643673600);
+      expect(response.body.coupon.code).toBe('WELCOME');
+      expect(mockStripeService.createSubscription).toHaveBeenCalledWith({
+        userId: testUser.id,
+        communityId: testCommunity.id,
+        priceId: 'price_test123',
+        trialDays: 14,
+        couponId: coupon.id,
+      });
+    });
+
+    it('should not give a second trial to a returning subscriber', async () => {
+      await prisma.community.update({
+        where: { id: testCommunity.id },
+        data: { trialDays: 14 },
+      });
+      await prisma.subscription.create({
+        data: {
+          userId: testUser.id,
+          communityId: testCommunity.id,
+          stripeSubscriptionId: 'sub_previous_test',
+          status: 'canceled',
+        },
+      });
+
+      mockStripeService.createSubscription.mockResolvedValue({ subscription: mockSubscription as any });
+
+      await request(app)
+        .post('/api/v1/payments/subscriptions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ communityId: testCommunity.id, priceId: 'price_test123' })
+        .expect(200);
+
+      expect(mockStripeService.createSubscription).toHaveBeenCalledWith(
+        expect.not.objectContaining({ trialDays: expect.anything() })
+      );
+    });
+
+    it('should reject expired and used-up coupons', async () => {
+      await prisma.communityCoupon.createMany({
+        data: [
+          {
+            communityId: testCommunity.id,
+            code: 'EXPIRED',
+            discountType: 'percent',
+            percentOff: 10,
+            expiresAt: new Date(Date.now() - 60 * 1000),
+          },
+          {
+            communityId: testCommunity.id,
+            code: 'USEDUP',
+            discountType: 'fixed',
+            amountOff: 5,
+            maxRedemptions: 1,
+            redemptionCount: 1,
+          },
+        ],
+      });
+
+      const expired = await request(app)
+        .post('/api/v1/payments/subscriptions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ communityId: testCommunity.id, priceId: 'price_test123', couponCode: 'EXPIRED' });
+
+      expect(expired.status).toBe(400);
+      expect(expired.body.error).toBe('Coupon has expired');
+
+      const usedUp = await request(app)
+        .get(`/api/v1/payments/communities/${testCommunity.id}/coupons/usedup`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(usedUp.status).toBe(400);
+      expect(usedUp.body.error).toBe('Coupon has reached its redemption limit');
+      expect(mockStripeService.createSubscription).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Membership tiers', () => {
+    let proTier: any;
+    let vipTier: any;
+
+    beforeEach(async () => {
+      [proTier, vipTier] = await Promise.all([
+        prisma.membershipTier.create({
+          data: { communityId: testCommunity.id, name: 'Pro', rank: 1, priceMonthly: 19, stripePriceMonthlyId: 'price_pro_monthly' },
+        }),
+        prisma.membershipTier.create({
+          data: { communityId: testCommunity.id, name: 'VIP', rank: 2, priceMonthly: 49, stripePriceMonthlyId: 'price_vip_monthly' },
+        }),
+      ]);
+    });
+
+    it('should let the creator add a tier and sync its Stripe prices', async () => {
+      mockStripeService.syncTierPrices.mockImplementation(async (tierId: string) =>
+        prisma.membershipTier.update({ where: { id: tierId }, data: { stripePriceMonthlyId: 'price_basic_monthly' } }) as any
+      );
+
+      const response = await request(app)
+        .post(`/api/v1/communities/${testCommunity.id}/tiers`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Basic', rank: 0, priceMonthly: 5 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.stripePriceMonthlyId).toBe('price_basic_monthly');
+
+      const duplicateRank = await request(app)
+        .post(`/api/v1/communities/${testCommunity.id}/tiers`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Gold', rank: 2 });
+
+      expect(duplicateRank.status).toBe(409);
+    });
+
+    it('should subscribe to a tier price and reject prices outside the tiers', async () => {
+      mockStripeService.createSubscription.mockResolvedValue({
+        subscription: { id: 'sub_tier_test', status: 'active' } as any,
+      });
+
+      const response = await request(app)
+        .post('/api/v1/payments/subscriptions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ communityId: testCommunity.id, priceId: 'price_pro_monthly' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.tier.name).toBe('Pro');
+      expect(mockStripeService.createSubscription).toHaveBeenCalledWith(
+        expect.objectContaining({ tierId: proTier.id })
+      );
+
+      const rejected = await request(app)
+        .post('/api/v1/payments/subscriptions')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ communityId: testCommunity.id, priceId: 'price_elsewhere' });
+
+      expect(rejected.status).toBe(400);
+      expect(rejected.body.error).toBe('Price does not belong to a tier of this community');
+    });
+
+    it('should charge upgrades now and credit downgrades later', async () => {
+      const subscription = await prisma.subscription.create({
+        data: {
+          userId: testUser.id,
+          communityId: testCommunity.id,
+          stripeSubscriptionId: 'sub_tier_change',
+          status: 'active',
+          tierId: proTier.id,
+        },
+      });
+
+      mockStripeService.changeSubscriptionPlan.mockResolvedValue({ id: 'sub_tier_change', status: 'active' } as any);
+
+      const upgrade = await request(app)
+        .put('/api/v1/payments/subscriptions/sub_tier_change/plan')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newPriceId: 'price_vip_monthly' });
+
+      expect(upgrade.status).toBe(200);
+      expect(upgrade.body.change).toBe('upgrade');
+      expect(mockStripeService.changeSubscriptionPlan).toHaveBeenLastCalledWith(
+        'sub_tier_change',
+        'price_vip_monthly',
+        'always_invoice'
+      );
+      expect((await prisma.subscription.findUnique({ where: { id: subscription.id } }))!.tierId).toBe(vipTier.id);
+
+      const downgrade = await request(app)
+        .put('/api/v1/payments/subscriptions/sub_tier_change/plan')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newPriceId: 'price_pro_monthly' });
+
+      expect(downgrade.body.change).toBe('downgrade');
+      expect(mockStripeService.changeSubscriptionPlan).toHaveBeenLastCalledWith(
+        'sub_tier_change',
+        'price_pro_monthly',
+        'create_prorations'
+      );
+    });
+
+    it('should keep the current tier when the upgrade payment does not go through', async () => {
+      const subscription = await prisma.subscription.create({
+        data: {
+          userId: testUser.id,
+          communityId: testCommunity.id,
+          stripeSubscriptionId: 'sub_tier_unpaid',
+          status: 'active',
+          tierId: proTier.id,
+        },
+      });
+
+      mockStripeService.changeSubscriptionPlan.mockResolvedValue({ id: 'sub_tier_unpaid', status: 'past_due' } as any);
+
+      const upgrade = await request(app)
+        .put('/api/v1/payments/subscriptions/sub_tier_unpaid/plan')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newPriceId: 'price_vip_monthly' });
+
+      expect(upgrade.status).toBe(200);
+      expect(upgrade.body.status).toBe('past_due');
+      expect((await prisma.subscription.findUnique({ where: { id: subscription.id } }))!.tierId).toBe(proTier.id);
+    });
+  });
+
+  describe('Course purchases', () => {
+    let course: any;
+
+    beforeEach(async () => {
+      course = await prisma.course.create({
+        data: { communityId: testCommunity.id, title: 'Paid Course', isPublished: true, price: 49 },
+      });
+    });
+
+    it('should start a PaymentIntent for a course that is for sale', async () => {
+      mockStripeService.createCoursePaymentIntent.mockResolvedValue({
+        paymentIntent: { id: 'pi_course_test', amount: 4900, currency: 'usd' } as any,
+        clientSecret: 'pi_course_test_secret',
+      });
+
+      const response = await request(app)
+        .post(`/api/v1/payments/courses/${course.id}/purchase`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.clientSecret).toBe('pi_course_test_secret');
+      expect(response.body.amount).toBe(4900);
+    });
+
+    it('should reject courses that are not for sale or already owned', async () => {
+      const freeCourse = await prisma.course.create({
+        data: { communityId: testCommunity.id, title: 'Free Course', isPublished: true },
+      });
+
+      const notForSale = await request(app)
+        .post(`/api/v1/payments/courses/${freeCourse.id}/purchase`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(notForSale.status).toBe(400);
+      expect(notForSale.body.error).toBe('Course is not for sale');
+
+      await prisma.coursePurchase.create({
+        data: {
+          userId: testUser.id,
+          courseId: course.id,
+          communityId: testCommunity.id,
+          stripePaymentIntentId: 'pi_course_owned',
+          amount: 49,
+          status: 'succeeded',
+          purchasedAt: new Date(),
+        },
+      });
+
+      const alreadyOwned = await request(app)
+        .post(`/api/v1/payments/courses/${course.id}/purchase`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(alreadyOwned.status).toBe(400);
+      expect(alreadyOwned.body.error).toBe('Course already purchased');
+      expect(mockStripeService.createCoursePaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('should not sell courses in a community the buyer cannot access', async () => {
+      const owner = await prisma.user.create({
+        data: {
+          email: 'private-owner@example.com',
+          passwordHash: 'hashedpassword',
+          username: 'privateowner',
+        },
+      });
+      const privateCommunity = await prisma.community.create({
+        data: {
+          name: 'Private Course Community',
+          slug: 'private-course-community',
+          creatorId: owner.id,
+          isPublic: false,
+        },
+      });
+      const privateCourse = await prisma.course.create({
+        data: { communityId: privateCommunity.id, title: 'Private Course', isPublished: true, price: 49 },
+      });
+
+      const response = await request(app)
+        .post(`/api/v1/payments/courses/${privateCourse.id}/purchase`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(403);
+      expect(mockStripeService.createCoursePaymentIntent).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/v1/payments/subscriptions', () => {
     it('should return user subscriptions', async () => {
       // Create test subscription directly in database
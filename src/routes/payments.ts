@@ -1,6 +1,10 @@
 import express from 'express';
 import { z } from 'zod';
 import { StripeService } from '../lib/stripeService';
+import { CouponService } from '../lib/couponService';
+import { TierService } from '../lib/tierService';
+import { CoursePurchaseService } from '../lib/coursePurchaseService';
+import { AccessControlService } from '../lib/accessControlService';
 import prisma from '../lib/prisma';
 import { authenticateToken } from '../middleware/auth';
 
@@ -11,6 +15,18 @@ const createSubscriptionSchema = z.object({
   communityId: z.string(),
   priceId: z.string(),
   paymentMethodId: z.string().optional(),
+  couponCode: z.string().min(1).max(30).optional(),
+});
+
+const COUPON_CHECKOUT_ERRORS = [
+  'Coupon not found',
+  'Coupon has expired',
+  'Coupon has reached its redemption limit',
+];
+
+const changePlanSchema = z.object({
+  newPriceId: z.string().optional(),
+  prorationBehavior: z.enum(['create_prorations', 'always_invoice', 'none']).optional(),
 });
 
 const setupIntentSchema = z.object({
@@ -22,7 +38,7 @@ const setupIntentSchema = z.object({
  */
 router.post('/subscriptions', authenticateToken, async (req, res) => {
   try {
-    const { communityId, priceId, paymentMethodId } = createSubscriptionSchema.parse(req.body);
+    const { communityId, priceId, paymentMethodId, couponCode } = createSubscriptionSchema.parse(req.body);
     const userId = req.user!.id;
 
     // Check if community exists and requires payment
@@ -47,27 +63,165 @@ router.post('/subscriptions', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'User already has an active subscription to this community' });
     }
 
+    // Communities that sell tiers only take their tiers' prices
+    const tier = await TierService.getTierByPrice(communityId, priceId);
+
+    if (!tier && await TierService.hasPaidTiers(communityId)) {
+      return res.status(400).json({ error: 'Price does not belong to a tier of this community' });
+    }
+
+    if (tier && !tier.isActive) {
+      return res.status(400).json({ error: 'Tier is not available' });
+    }
+
+    const coupon = couponCode ? await CouponService.validateCoupon(communityId, couponCode) : null;
+
+    // Trials are for first-time subscribers only
+    const trialDays = community.trialDays && await prisma.subscription.count({ where: { userId, communityId } }) === 0
+      ? community.trialDays
+      : undefined;
+
     const result = await StripeService.createSubscription({
       userId,
       communityId,
       priceId,
       paymentMethodId,
+      ...(trialDays && { trialDays }),
+      ...(coupon && { couponId: coupon.id }),
+      ...(tier && { tierId: tier.id }),
     });
 
     return res.json({
       subscriptionId: result.subscription.id,
       clientSecret: result.clientSecret,
       status: result.subscription.status,
+      trialEnd: result.subscription.trial_end,
+      coupon: coupon ? CouponService.toPublicTerms(coupon) : null,
+      tier: tier ? { id: tier.id, name: tier.name, rank: tier.rank } : null,
     });
   } catch (error) {
     console.error('Error creating subscription:', error);
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid request data', details: error.errors });
     }
+    if (error instanceof Error && COUPON_CHECKOUT_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Failed to create subscription' });
   }
 });
 
+/**
+ * Check a coupon code before checkout
+ */
+router.get('/communities/:communityId/coupons/:code', authenticateToken, async (req, res) => {
+  try {
+    const coupon = await CouponService.validateCoupon(req.params.communityId, req.params.code);
+
+    return res.json({ coupon: CouponService.toPublicTerms(coupon) });
+  } catch (error) {
+    console.error('Error checking coupon:', error);
+    if (error instanceof Error && COUPON_CHECKOUT_ERRORS.includes(error.message)) {
+      return res.status(error.message === 'Coupon not found' ? 404 : 400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to check coupon' });
+  }
+});
+
+/**
+ * Start a one-time purchase of a course
+ */
+router.post('/courses/:courseId/purchase', authenticateToken, async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const userId = req.user!.id;
+
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+    });
+
+    if (!course || !course.isPublished) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    if (!course.price) {
+      return res.status(400).json({ error: 'Course is not for sale' });
+    }
+
+    const access = await AccessControlService.checkCommunityAccess(course.communityId, userId);
+
+    if (!access.hasAccess) {
+      return res.status(403).json({ error: 'Access denied to this community' });
+    }
+
+    if (await CoursePurchaseService.hasPurchased(userId, courseId)) {
+      return res.status(400).json({ error: 'Course already purchased' });
+    }
+
+    const result = await StripeService.createCoursePaymentIntent(userId, { ...course, price: course.price });
+
+    return res.json({
+      paymentIntentId: result.paymentIntent.id,
+      clientSecret: result.clientSecret,
+      amount: result.paymentIntent.amount,
+      currency: result.paymentIntent.currency,
+    });
+  } catch (error) {
+    console.error('Error creating course purchase:', error);
+    return res.status(500).json({ error: 'Failed to create course purchase' });
+  }
+});
+
+/**
+ * Get user's course purchases
+ */
+router.get('/courses/purchases', authenticateToken, async (req, res) => {
+  try {
+    const purchases = await CoursePurchaseService.getUserPurchases(req.user!.id);
+
+    return res.json({ purchases });
+  } catch (error) {
+    console.error('Error fetching course purchases:', error);
+    return res.status(500).json({ error: 'Failed to fetch course purchases' });
+  }
+});
+
+/**
+ * Refund a course purchase (community creator or admins only)
+ */
+router.post('/courses/purchases/:purchaseId/refund', authenticateToken, async (req, res) => {
+  try {
+    const purchase = await prisma.coursePurchase.findUnique({
+      where: { id: req.params.purchaseId },
+    });
+
+    if (!purchase) {
+      return res.status(404).json({ error: 'Purchase not found' });
+    }
+
+    const access = await AccessControlService.checkCommunityAccess(purchase.communityId, req.user!.id);
+
+    if (!access.isCreator && access.role !== 'admin') {
+      return res.status(403).json({ error: 'Only community admins can refund purchases' });
+    }
+
+    if (purchase.status !== 'succeeded') {
+      return res.status(400).json({ error: 'Only completed purchases can be refunded' });
+    }
+
+    const refund = await StripeService.refundCoursePurchase(purchase.stripePaymentIntentId);
+
+    return res.json({
+      refundId: refund.id,
+      status: refund.status,
+      message: 'Refund requested; course access is removed once Stripe confirms it',
+    });
+  } catch (error) {
+    console.error('Error refunding course purchase:', error);
+    return res.status(500).json({ error: 'Failed to refund course purchase' });
+  }
+});
+
 /**
  * Cancel a subscription
  */
@@ -458,12 +612,13 @@ router.put('/subscriptions/:subscriptionId/payment-method', authenticateToken, a
 });
 
 /**
- * Change subscription plan
+ * Change subscription plan. Between tiers, upgrades charge the prorated difference
+ * straight away and downgrades leave a credit for the next invoice.
  */
 router.put('/subscriptions/:subscriptionId/plan', authenticateToken, async (req, res) => {
   try {
     const { subscriptionId } = req.params;
-    const { newPriceId, prorationBehavior = 'create_prorations' } = req.body;
+    const { newPriceId, prorationBehavior } = changePlanSchema.parse(req.body);
     const userId = req.user!.id;
 
     if (!newPriceId) {
@@ -476,25 +631,61 @@ router.put('/subscriptions/:subscriptionId/plan', authenticateToken, async (req,
         stripeSubscriptionId: subscriptionId,
         userId,
       },
+      include: { tier: true },
     });
 
     if (!subscription) {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
+    const newTier = await TierService.getTierByPrice(subscription.communityId, newPriceId);
+
+    if (!newTier && await TierService.hasPaidTiers(subscription.communityId)) {
+      return res.status(400).json({ error: 'Price does not belong to a tier of this community' });
+    }
+
+    if (newTier && !newTier.isActive && newTier.id !== subscription.tierId) {
+      return res.status(400).json({ error: 'Tier is not available' });
+    }
+
+    let change: 'upgrade' | 'downgrade' | 'interval' | 'plan' = 'plan';
+    if (newTier && subscription.tier) {
+      if (newTier.rank > subscription.tier.rank) {
+        change = 'upgrade';
+      } else if (newTier.rank < subscription.tier.rank) {
+        change = 'downgrade';
+      } else {
+        change = 'interval';
+      }
+    }
+
     const updatedSubscription = await StripeService.changeSubscriptionPlan(
       subscriptionId,
       newPriceId,
-      prorationBehavior
+      prorationBehavior ?? (change === 'upgrade' ? 'always_invoice' : 'create_prorations')
     );
 
+    // An upgrade whose invoice didn't go through must not unlock the new tier; the
+    // subscription webhooks set the tier once Stripe reports the payment
+    if (newTier && ['active', 'trialing'].includes(updatedSubscription.status)) {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { tierId: newTier.id },
+      });
+    }
+
     return res.json({
       subscriptionId: updatedSubscription.id,
       status: updatedSubscription.status,
+      change,
+      tier: newTier ? { id: newTier.id, name: newTier.name, rank: newTier.rank } : null,
       message: 'Subscription plan updated successfully',
     });
   } catch (error) {
     console.error('Error changing subscription plan:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+    }
     return res.status(500).json({ error: 'Failed to change subscription plan' });
   }
 });
@@ -539,7 +730,7 @@ router.get('/subscriptions/:subscriptionId/invoices', authenticateToken, async (
 });
 
 /**
- * Get upcoming invoice preview for plan changes
+ * Get upcoming invoice preview, including any coupon discount, for renewals and plan changes
  */
 router.get('/subscriptions/:subscriptionId/upcoming-invoice', authenticateToken, async (req, res) => {
   try {
@@ -553,6 +744,7 @@ router.get('/subscriptions/:subscriptionId/upcoming-invoice', authenticateToken,
         stripeSubscriptionId: subscriptionId,
         userId,
       },
+      include: { coupon: true },
     });
 
     if (!subscription) {
@@ -568,17 +760,24 @@ router.get('/subscriptions/:subscriptionId/upcoming-invoice', authenticateToken,
       newPriceId as string
     );
 
+    const discounts = upcomingInvoice.total_discount_amounts || [];
+
     return res.json({
       amount: upcomingInvoice.amount_due,
+      subtotal: upcomingInvoice.subtotal,
+      discountAmount: discounts.reduce((sum, discount) => sum + discount.amount, 0),
+      coupon: subscription.coupon ? CouponService.toPublicTerms(subscription.coupon) : null,
+      trialEnd: subscription.trialEnd,
       currency: upcomingInvoice.currency,
       periodStart: upcomingInvoice.period_start,
       periodEnd: upcomingInvoice.period_end,
-      lines: upcomingInvoice.lines.data.map((line: any) => ({
+      lines: upcomingInvoice.lines.data.map(line => ({
         description: line.description,
         amount: line.amount,
+        discountAmount: (line.discount_amounts || []).reduce((sum, discount) => sum + discount.amount, 0),
         period: {
-          start: line.period?.start,
-          end: line.period?.end,
+          start: line.period.start,
+          end: line.period.end,
         },
       })),
     });
@@ -1,7 +1,9 @@
 import express from 'express';
 import { PointsService } from '../lib/pointsService';
 import { AchievementService } from '../lib/achievementService';
+import { LevelService } from '../lib/levelService';
 import { authenticateToken } from '../middleware/auth';
+import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
 import { z } from 'zod';
 
 const router = express.Router();
@@ -17,18 +19,86 @@ const awardPointsSchema = z.object({
 
 const pointsHistoryQuerySchema = z.object({
   limit: z.string().transform(Number).optional(),
-  offset: z.string().transform(Number).optional(),
+  cursor: z.string().optional(),
   communityId: z.string().optional(),
   startDate: z.string().transform(str => new Date(str)).optional(),
   endDate: z.string().transform(str => new Date(str)).optional()
 });
 
+const updatePointsRuleSchema = z.object({
+  points: z.number().int().min(0).max(10000).optional(),
+  enabled: z.boolean().optional()
+}).refine(data => data.points !== undefined || data.enabled !== undefined, {
+  message: 'Provide points or enabled'
+});
+
+const createAchievementSchema = z.object({
+  key: z.string().min(1).max(50).regex(/^[a-z0-9_-]+$/, 'Key can only contain lowercase letters, numbers, underscores, and hyphens'),
+  name: z.string().min(1).max(100),
+  description: z.string().min(1).max(500),
+  pointsRequired: z.number().int().min(1),
+  badgeIcon: z.string().min(1).max(50)
+});
+
+const updateAchievementSchema = createAchievementSchema.omit({ key: true }).partial();
+
+const setLevelsSchema = z.object({
+  levels: z.array(z.object({
+    level: z.number().int().min(1).max(100),
+    name: z.string().min(1).max(50),
+    pointsRequired: z.number().int().min(0)
+  })).min(1).max(100)
+});
+
 const leaderboardQuerySchema = z.object({
   communityId: z.string().optional(),
   timeframe: z.enum(['all', 'month', 'week', 'day']).optional(),
   limit: z.string().transform(Number).optional()
 });
 
+/**
+ * Map community points configuration errors to responses
+ */
+function handleConfigError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.errors
+    });
+  }
+
+  if (error instanceof Error && (
+    error.message.startsWith('Unknown action') ||
+    error.message === 'Level numbers must be unique' ||
+    error.message === 'Higher levels must require more points'
+  )) {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (error instanceof Error && error.message === 'Achievement not found') {
+    return res.status(404).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (error instanceof Error && error.message === 'Achievement key already exists') {
+    return res.status(409).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
 /**
  * POST /api/points/award
  * Award points to a user (admin/moderator only)
@@ -93,6 +163,13 @@ router.get('/history/:userId', authenticateToken, async (req, res) => {
         errors: error.errors
       });
     }
+
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
     
     return res.status(500).json({
       success: false,
@@ -219,6 +296,13 @@ router.post('/daily-bonus', authenticateToken, async (req, res) => {
       message: 'Daily bonus awarded successfully'
     });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Daily login bonus is disabled for this community') {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     return res.status(500).json({
       success: false,
       message: error instanceof Error ? error.message : 'Failed to award daily bonus'
@@ -248,6 +332,239 @@ router.get('/community/:communityId/stats', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/points/community/:communityId/rules
+ * Get a community's point rules, with overrides applied (admins only)
+ */
+router.get('/community/:communityId/rules',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const result = await PointsService.getCommunityPointRules(req.params.communityId);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to get point rules');
+    }
+  }
+);
+
+/**
+ * PUT /api/points/community/:communityId/rules/:action
+ * Override the points for an action or switch it on/off (admins only)
+ */
+router.put('/community/:communityId/rules/:action',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const data = updatePointsRuleSchema.parse(req.body);
+
+      const result = await PointsService.updateCommunityPointRule(req.params.communityId, req.params.action, data);
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Point rule updated successfully'
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to update point rule');
+    }
+  }
+);
+
+/**
+ * DELETE /api/points/community/:communityId/rules/:action
+ * Drop a community's override so the action uses the default rule (admins only)
+ */
+router.delete('/community/:communityId/rules/:action',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const result = await PointsService.resetCommunityPointRule(req.params.communityId, req.params.action);
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Point rule reset to default'
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to reset point rule');
+    }
+  }
+);
+
+/**
+ * GET /api/points/community/:communityId/achievements
+ * Get the achievements a community awards (admins only)
+ */
+router.get('/community/:communityId/achievements',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const result = await AchievementService.getCommunityAchievements(req.params.communityId);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to get community achievements');
+    }
+  }
+);
+
+/**
+ * POST /api/points/community/:communityId/achievements
+ * Define a new achievement for a community (admins only)
+ */
+router.post('/community/:communityId/achievements',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const data = createAchievementSchema.parse(req.body);
+
+      const result = await AchievementService.createCommunityAchievement(req.params.communityId, data);
+
+      return res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Achievement created successfully'
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to create achievement');
+    }
+  }
+);
+
+/**
+ * PUT /api/points/community/:communityId/achievements/:key
+ * Update one of a community's achievements (admins only)
+ */
+router.put('/community/:communityId/achievements/:key',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const data = updateAchievementSchema.parse(req.body);
+
+      const result = await AchievementService.updateCommunityAchievement(req.params.communityId, req.params.key, data);
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Achievement updated successfully'
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to update achievement');
+    }
+  }
+);
+
+/**
+ * DELETE /api/points/community/:communityId/achievements/:key
+ * Delete one of a community's achievements (admins only)
+ */
+router.delete('/community/:communityId/achievements/:key',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      await AchievementService.deleteCommunityAchievement(req.params.communityId, req.params.key);
+
+      return res.json({
+        success: true,
+        message: 'Achievement deleted successfully'
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to delete achievement');
+    }
+  }
+);
+
+/**
+ * GET /api/points/community/:communityId/levels
+ * Get a community's level ladder (admins only)
+ */
+router.get('/community/:communityId/levels',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const result = await LevelService.getCommunityLevels(req.params.communityId);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to get levels');
+    }
+  }
+);
+
+/**
+ * PUT /api/points/community/:communityId/levels
+ * Replace a community's level ladder (admins only)
+ */
+router.put('/community/:communityId/levels',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      const { levels } = setLevelsSchema.parse(req.body);
+
+      const result = await LevelService.setCommunityLevels(req.params.communityId, levels);
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Levels updated successfully'
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to update levels');
+    }
+  }
+);
+
+/**
+ * DELETE /api/points/community/:communityId/levels
+ * Restore the default level ladder (admins only)
+ */
+router.delete('/community/:communityId/levels',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('points:admin'),
+  async (req, res) => {
+    try {
+      await LevelService.resetCommunityLevels(req.params.communityId);
+
+      return res.json({
+        success: true,
+        message: 'Levels reset to default'
+      });
+    } catch (error) {
+      return handleConfigError(res, error, 'Failed to reset levels');
+    }
+  }
+);
+
 /**
  * GET /api/points/achievements/progress/:userId
  * Get user's achievement progress
@@ -255,8 +572,9 @@ router.get('/community/:communityId/stats', async (req, res) => {
 router.get('/achievements/progress/:userId', async (req, res) => {
   try {
     const { userId } = req.params;
+    const communityId = req.query.communityId as string | undefined;
     
-    const result = await AchievementService.getUserAchievementProgress(userId);
+    const result = await AchievementService.getUserAchievementProgress(userId, communityId);
     
     return res.json({
       success: true,
@@ -299,8 +617,9 @@ router.get('/achievements/leaderboard', async (req, res) => {
 router.get('/milestones/:userId', async (req, res) => {
   try {
     const { userId } = req.params;
+    const communityId = req.query.communityId as string | undefined;
     
-    const result = await AchievementService.getUserMilestones(userId);
+    const result = await AchievementService.getUserMilestones(userId, communityId);
     
     return res.json({
       success: true,
@@ -320,7 +639,9 @@ router.get('/milestones/:userId', async (req, res) => {
  */
 router.get('/achievements/stats', async (req, res) => {
   try {
-    const result = await AchievementService.getAchievementStats();
+    const communityId = req.query.communityId as string | undefined;
+
+    const result = await AchievementService.getAchievementStats(communityId);
     
     return res.json({
       success: true,
@@ -2,6 +2,7 @@ import request from 'supertest';
 import app from '../index';
 import prisma from '../lib/prisma';
 import jwt from 'jsonwebtoken';
+import { PublishingService } from '../lib/publishingService';
 
 describe('Posts API', () => {
   let authToken: string;
@@ -158,9 +159,41 @@ describe('Posts API', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.posts).toBeInstanceOf(Array);
-      expect(response.body.data.posts.length).toBeGreaterThan(0);
-      expect(response.body.data.pagination).toBeDefined();
+      expect(response.body.data.items).toBeInstanceOf(Array);
+      expect(response.body.data.items.length).toBeGreaterThan(0);
+      expect(response.body.data.hasMore).toBe(false);
+      expect(response.body.data.nextCursor).toBeNull();
+    });
+
+    it('should page through posts with a cursor', async () => {
+      await prisma.post.createMany({
+        data: ['Second post', 'Third post', 'Fourth post'].map(content => ({ communityId, authorId: userId, content }))
+      });
+
+      const first = await request(app)
+        .get(`/api/v1/posts/community/${communityId}?limit=2`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(first.body.data.items).toHaveLength(2);
+      expect(first.body.data.hasMore).toBe(true);
+
+      const second = await request(app)
+        .get(`/api/v1/posts/community/${communityId}?limit=2&cursor=${first.body.data.nextCursor}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const firstIds = first.body.data.items.map((post: any) => post.id);
+      expect(second.body.data.items.length).toBeGreaterThan(0);
+      expect(second.body.data.items.some((post: any) => firstIds.includes(post.id))).toBe(false);
+      expect(second.body.data.hasMore).toBe(false);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await request(app)
+        .get(`/api/v1/posts/community/${communityId}?cursor=not-a-cursor`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
     });
 
     it('should filter posts by type', async () => {
@@ -170,7 +203,7 @@ describe('Posts API', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      response.body.data.posts.forEach((post: any) => {
+      response.body.data.items.forEach((post: any) => {
         expect(post.postType).toBe('announcement');
       });
     });
@@ -182,7 +215,7 @@ describe('Posts API', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.posts).toBeInstanceOf(Array);
+      expect(response.body.data.items).toBeInstanceOf(Array);
     });
   });
 
@@ -317,12 +350,13 @@ describe('Posts API', () => {
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data).toBeInstanceOf(Array);
-      expect(response.body.data.length).toBeGreaterThan(0);
+      expect(response.body.data.items).toBeInstanceOf(Array);
+      expect(response.body.data.items.length).toBeGreaterThan(0);
       
       // Check that replies are included
-      const commentWithReplies = response.body.data.find((comment: any) => comment.replies.length > 0);
+      const commentWithReplies = response.body.data.items.find((comment: any) => comment.replies.length > 0);
       expect(commentWithReplies).toBeDefined();
+      expect(commentWithReplies.replyCount).toBe(commentWithReplies.replies.length);
     });
   });
 
@@ -377,6 +411,282 @@ describe('Posts API', () => {
     });
   });
 
+  describe('Comment threading', () => {
+    let threadPostId: string;
+    let rootId: string;
+    let childId: string;
+    let grandchildId: string;
+
+    beforeEach(async () => {
+      const post = await prisma.post.create({
+        data: { communityId, authorId: userId, content: 'Threaded post', commentCount: 4 }
+      });
+      threadPostId = post.id;
+
+      const root = await prisma.comment.create({ data: { postId: threadPostId, authorId: userId, content: 'Root' } });
+      const child = await prisma.comment.create({ data: { postId: threadPostId, authorId: userId, parentId: root.id, content: 'Child' } });
+      const grandchild = await prisma.comment.create({ data: { postId: threadPostId, authorId: userId, parentId: child.id, content: 'Grandchild' } });
+      await prisma.comment.create({ data: { postId: threadPostId, authorId: userId, content: 'Popular', likeCount: 5 } });
+
+      rootId = root.id;
+      childId = child.id;
+      grandchildId = grandchild.id;
+    });
+
+    it('should limit depth and lazy-load deeper replies', async () => {
+      const response = await request(app)
+        .get(`/api/v1/posts/${threadPostId}/comments?depth=2`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const root = response.body.data.items.find((comment: any) => comment.id === rootId);
+      expect(root.replyCount).toBe(1);
+      expect(root.replies[0].id).toBe(childId);
+      expect(root.replies[0].replies).toHaveLength(0);
+      expect(root.replies[0].hasMoreReplies).toBe(true);
+
+      const replies = await request(app)
+        .get(`/api/v1/posts/comments/${childId}/replies`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(replies.body.data.items.map((reply: any) => reply.id)).toEqual([grandchildId]);
+    });
+
+    it('should sort by top, newest or oldest', async () => {
+      const top = await request(app)
+        .get(`/api/v1/posts/${threadPostId}/comments?sort=top`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(top.body.data.items[0].content).toBe('Popular');
+
+      const oldest = await request(app)
+        .get(`/api/v1/posts/${threadPostId}/comments?sort=oldest`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(oldest.body.data.items[0].id).toBe(rootId);
+    });
+
+    it('should leave a placeholder when a comment with replies is deleted', async () => {
+      await request(app)
+        .post(`/api/v1/posts/comments/${childId}/like`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/v1/posts/comments/${childId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/v1/posts/${threadPostId}/comments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const placeholder = response.body.data.items.find((comment: any) => comment.id === rootId).replies[0];
+      expect(placeholder.isDeleted).toBe(true);
+      expect(placeholder.content).toBeNull();
+      expect(placeholder.author).toBeNull();
+      expect(placeholder.likeCount).toBe(0);
+      expect(placeholder._count.likes).toBe(0);
+      expect(placeholder.isLiked).toBe(false);
+      expect(placeholder.reactionCounts).toEqual({});
+      expect(placeholder.replies[0].id).toBe(grandchildId);
+
+      // Removing the last reply clears the placeholder too
+      await request(app)
+        .delete(`/api/v1/posts/comments/${grandchildId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(await prisma.comment.findUnique({ where: { id: childId } })).toBeNull();
+
+      const post = await prisma.post.findUniqueOrThrow({ where: { id: threadPostId } });
+      expect(post.commentCount).toBe(2);
+    });
+  });
+
+  describe('Reactions', () => {
+    let reactionPostId: string;
+
+    beforeEach(async () => {
+      const post = await prisma.post.create({
+        data: { communityId, authorId: userId, content: 'React to me' }
+      });
+      reactionPostId = post.id;
+    });
+
+    it('should count each reaction and keep likeCount for the like reaction', async () => {
+      for (const reaction of ['like', 'celebrate']) {
+        const response = await request(app)
+          .post(`/api/v1/posts/${reactionPostId}/reactions`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ reaction })
+          .expect(200);
+
+        expect(response.body.data.reacted).toBe(true);
+      }
+
+      const response = await request(app)
+        .get(`/api/v1/posts/${reactionPostId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.reactionCounts).toEqual({ like: 1, celebrate: 1 });
+      expect(response.body.data.userReactions.sort()).toEqual(['celebrate', 'like']);
+      expect(response.body.data.isLiked).toBe(true);
+      expect(response.body.data.likeCount).toBe(1);
+
+      const reactors = await request(app)
+        .get(`/api/v1/posts/${reactionPostId}/reactions?reaction=celebrate`)
+        .expect(200);
+
+      expect(reactors.body.data.items).toHaveLength(1);
+      expect(reactors.body.data.items[0].user.id).toBe(userId);
+    });
+
+    it('should only accept reactions from the community set', async () => {
+      await request(app)
+        .put(`/api/v1/communities/${communityId}/reactions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reactions: [{ key: 'love', emoji: '❤️', label: 'Love' }] })
+        .expect(400);
+
+      await request(app)
+        .put(`/api/v1/communities/${communityId}/reactions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reactions: [{ key: 'like', emoji: '👍', label: 'Like' }, { key: 'fire', emoji: '🔥', label: 'Fire' }] })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/v1/posts/${reactionPostId}/reactions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reaction: 'fire' })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/v1/posts/${reactionPostId}/reactions`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reaction: 'celebrate' })
+        .expect(400);
+
+      const post = await prisma.post.findUniqueOrThrow({ where: { id: reactionPostId } });
+      expect(post.likeCount).toBe(0);
+    });
+  });
+
+  describe('Polls', () => {
+    const createPoll = (poll: object) =>
+      request(app)
+        .post(`/api/v1/posts/community/${communityId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ content: 'Which day works best?', postType: 'poll', poll });
+
+    it('should require options for poll posts', async () => {
+      await request(app)
+        .post(`/api/v1/posts/community/${communityId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ content: 'Missing options', postType: 'poll' })
+        .expect(400);
+
+      await createPoll({ options: ['Only one'] }).expect(400);
+    });
+
+    it('should record, switch and remove a single-choice vote', async () => {
+      const created = await createPoll({ options: ['Monday', 'Friday'] }).expect(201);
+      const pollPostId = created.body.data.id;
+      const [monday, friday] = created.body.data.poll.options;
+
+      await request(app)
+        .post(`/api/v1/posts/${pollPostId}/poll/votes`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ optionIds: [monday.id, friday.id] })
+        .expect(400);
+
+      await request(app)
+        .post(`/api/v1/posts/${pollPostId}/poll/votes`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ optionIds: [monday.id] })
+        .expect(200);
+
+      const switched = await request(app)
+        .post(`/api/v1/posts/${pollPostId}/poll/votes`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ optionIds: [friday.id] })
+        .expect(200);
+
+      expect(switched.body.data.options).toEqual([
+        { id: monday.id, voteCount: 0 },
+        { id: friday.id, voteCount: 1 }
+      ]);
+      expect(switched.body.data.voterCount).toBe(1);
+      expect(switched.body.data.userVotes).toEqual([friday.id]);
+
+      const removed = await request(app)
+        .delete(`/api/v1/posts/${pollPostId}/poll/votes`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(removed.body.data.totalVotes).toBe(0);
+      expect(removed.body.data.voterCount).toBe(0);
+
+      // Voting again after unvoting doesn't earn points twice
+      await request(app)
+        .post(`/api/v1/posts/${pollPostId}/poll/votes`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ optionIds: [monday.id] })
+        .expect(200);
+
+      const poll = await prisma.poll.findUniqueOrThrow({ where: { postId: pollPostId } });
+      expect(await prisma.pointsTransaction.count({ where: { userId, referenceId: poll.id } })).toBe(1);
+    });
+
+    it('should count a member once when their votes arrive at the same time', async () => {
+      const created = await createPoll({ options: ['Monday', 'Friday'] }).expect(201);
+      const pollPostId = created.body.data.id;
+      const [monday, friday] = created.body.data.poll.options;
+
+      await Promise.all([monday, friday].map(option =>
+        request(app)
+          .post(`/api/v1/posts/${pollPostId}/poll/votes`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ optionIds: [option.id] })
+          .expect(200)
+      ));
+
+      const poll = await prisma.poll.findUniqueOrThrow({
+        where: { postId: pollPostId },
+        include: { options: true, votes: true }
+      });
+      expect(poll.voterCount).toBe(1);
+      expect(poll.votes).toHaveLength(1);
+      expect(poll.options.reduce((total, option) => total + option.voteCount, 0)).toBe(1);
+    });
+
+    it('should hide voters of anonymous polls and reject votes once closed', async () => {
+      const created = await createPoll({ options: ['Yes', 'No'], isAnonymous: true }).expect(201);
+      const pollPostId = created.body.data.id;
+
+      await request(app)
+        .get(`/api/v1/posts/${pollPostId}/poll/votes`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403);
+
+      await prisma.poll.update({
+        where: { postId: pollPostId },
+        data: { closesAt: new Date(Date.now() - 1000) }
+      });
+
+      await request(app)
+        .post(`/api/v1/posts/${pollPostId}/poll/votes`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ optionIds: [created.body.data.poll.options[0].id] })
+        .expect(400);
+    });
+  });
+
   describe('POST /api/v1/posts/:id/report', () => {
     it('should report a post successfully', async () => {
       // First create a post to report
@@ -448,6 +758,60 @@ describe('Posts API', () => {
     });
   });
 
+  describe('Scheduled posts', () => {
+    let scheduledPostId: string;
+
+    it('should schedule a post and hide it from other readers', async () => {
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+
+      const response = await request(app)
+        .post(`/api/v1/posts/community/${communityId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ title: 'Scheduled Post', content: 'Going live later', publishAt: publishAt.toISOString() })
+        .expect(201);
+
+      expect(response.body.data.isPublished).toBe(false);
+      expect(response.body.message).toBe('Post scheduled successfully');
+      scheduledPostId = response.body.data.id;
+
+      const feed = await request(app)
+        .get(`/api/v1/posts/community/${communityId}`)
+        .expect(200);
+
+      expect(feed.body.data.items.some((post: any) => post.id === scheduledPostId)).toBe(false);
+
+      await request(app)
+        .get(`/api/v1/posts/${scheduledPostId}`)
+        .expect(404);
+    });
+
+    it('should reject a publish time in the past', async () => {
+      const response = await request(app)
+        .post(`/api/v1/posts/community/${communityId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ content: 'Too late', publishAt: new Date(Date.now() - 60 * 1000).toISOString() })
+        .expect(400);
+
+      expect(response.body.message).toBe('Publish time must be in the future');
+    });
+
+    it('should publish the post once its time has passed', async () => {
+      await prisma.post.update({
+        where: { id: scheduledPostId },
+        data: { publishAt: new Date(Date.now() - 1000) }
+      });
+
+      const result = await PublishingService.publishDueContent();
+      expect(result.posts).toBe(1);
+
+      const feed = await request(app)
+        .get(`/api/v1/posts/community/${communityId}`)
+        .expect(200);
+
+      expect(feed.body.data.items.some((post: any) => post.id === scheduledPostId)).toBe(true);
+    });
+  });
+
   describe('DELETE /api/v1/posts/:id', () => {
     it('should delete post successfully', async () => {
       const response = await request(app)
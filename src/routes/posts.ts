@@ -7,9 +7,15 @@ import {
   createCommentSchema,
   updateCommentSchema,
   postQuerySchema,
-  reportContentSchema
+  commentQuerySchema,
+  reportContentSchema,
+  reactionSchema,
+  reactionListQuerySchema,
+  pollVoteSchema,
+  pollVoterQuerySchema
 } from '../lib/validation';
 import { PostService, PostQueryOptions } from '../lib/postService';
+import { WebhookService } from '../lib/webhookService';
 
 const router = Router();
 
@@ -56,6 +62,14 @@ router.get('/community/:communityId', optionalAuth, async (req: Request, res: Re
         });
         return;
       }
+
+      if (error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -85,21 +99,37 @@ router.post('/community/:communityId', authenticateToken, async (req: Request, r
 
     const post = await PostService.createPost(communityId, req.user!.id, validation.data!);
 
-    // Emit real-time event for new post using SocketService
+    // Emit real-time event for new post using SocketService; scheduled posts are broadcast when they go live
+    // and posts held by a content filter once a moderator approves them
+    const isLive = post.isPublished && !post.isHidden;
     const socketService = req.app.get('socketService');
-    if (socketService) {
+    if (socketService && isLive) {
       socketService.broadcastNewPost(communityId, post);
     }
 
+    if (isLive) {
+      WebhookService.dispatchPostCreated(post);
+    }
+
     res.status(201).json({
       success: true,
       data: post,
-      message: 'Post created successfully'
+      message: post.isHidden
+        ? 'Post submitted and held for moderator review'
+        : post.isPublished ? 'Post created successfully' : 'Post scheduled successfully'
     });
   } catch (error) {
     console.error('Create post error:', error);
     
     if (error instanceof Error) {
+      if (error.message.startsWith('Content rejected')) {
+        res.status(400).json({
+          error: 'Content rejected',
+          message: error.message
+        });
+        return;
+      }
+
       if (error.message === 'Access denied - not a member of this community') {
         res.status(403).json({
           error: 'Access denied',
@@ -108,6 +138,14 @@ router.post('/community/:communityId', authenticateToken, async (req: Request, r
         return;
       }
       
+      if (error.message === 'You are banned from this community' || error.message.startsWith('You are muted')) {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+
       if (error.message === 'Insufficient permissions to create announcements') {
         res.status(403).json({
           error: 'Access denied',
@@ -115,6 +153,16 @@ router.post('/community/:communityId', authenticateToken, async (req: Request, r
         });
         return;
       }
+
+      if (error.message === 'Publish time must be in the future' ||
+          error.message === 'Poll close time must be in the future' ||
+          error.message === 'Poll posts need poll options, and only poll posts can have them') {
+        res.status(400).json({
+          error: 'Bad request',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -186,6 +234,13 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response): Promi
 
     const post = await PostService.updatePost(id, req.user!.id, validation.data!);
 
+    // Clearing a post's schedule publishes it immediately
+    const socketService = req.app.get('socketService');
+    if (validation.data!.publishAt === null && !post.isHidden) {
+      socketService?.broadcastNewPost(post.communityId, post);
+      WebhookService.dispatchPostCreated(post);
+    }
+
     res.json({
       success: true,
       data: post,
@@ -195,6 +250,14 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response): Promi
     console.error('Update post error:', error);
     
     if (error instanceof Error) {
+      if (error.message.startsWith('Content rejected')) {
+        res.status(400).json({
+          error: 'Content rejected',
+          message: error.message
+        });
+        return;
+      }
+
       if (error.message === 'Post not found') {
         res.status(404).json({
           error: 'Not found',
@@ -211,6 +274,16 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response): Promi
         });
         return;
       }
+
+      if (error.message === 'Post is already published' ||
+          error.message === 'Publish time must be in the future' ||
+          error.message === 'Poll posts cannot change type') {
+        res.status(400).json({
+          error: 'Bad request',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -305,15 +378,262 @@ router.post('/:id/like', authenticateToken, async (req: Request, res: Response):
   }
 });
 
+/**
+ * POST /api/v1/posts/:id/reactions
+ * Toggle one of the caller's reactions on a post
+ */
+router.post('/:id/reactions', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const validation = validateRequest(reactionSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const result = await PostService.togglePostReaction(id, req.user!.id, validation.data!.reaction);
+
+    res.json({
+      success: true,
+      data: result,
+      message: result.reacted ? 'Reaction added successfully' : 'Reaction removed successfully'
+    });
+  } catch (error) {
+    console.error('Toggle post reaction error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Post not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to private community') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Reaction not available in this community') {
+        res.status(400).json({
+          error: 'Invalid reaction',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to toggle post reaction'
+    });
+  }
+});
+
+/**
+ * GET /api/v1/posts/:id/reactions
+ * List who reacted to a post, newest first, optionally for one reaction
+ */
+router.get('/:id/reactions', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const validation = validateRequest(reactionListQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const reactions = await PostService.getPostReactions(id, req.user?.id, validation.data);
+
+    res.json({
+      success: true,
+      data: reactions
+    });
+  } catch (error) {
+    console.error('Get post reactions error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Post not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to private community') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to fetch post reactions'
+    });
+  }
+});
+
+/**
+ * Map poll voting errors to responses
+ */
+function handlePollError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error) {
+    if (error.message === 'Post not found') {
+      res.status(404).json({
+        error: 'Not found',
+        message: error.message
+      });
+      return;
+    }
+
+    if (error.message === 'Access denied to private community' ||
+        error.message === 'You are banned from this community' ||
+        error.message.startsWith('You are muted') ||
+        error.message === 'Poll is anonymous') {
+      res.status(403).json({
+        error: 'Access denied',
+        message: error.message
+      });
+      return;
+    }
+
+    if (['Post is not a poll', 'Post is locked', 'Poll is not open yet', 'Poll is closed',
+      'This poll allows only one choice', 'Invalid poll option', 'Invalid cursor'].includes(error.message)) {
+      res.status(400).json({
+        error: 'Bad request',
+        message: error.message
+      });
+      return;
+    }
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * POST /api/v1/posts/:id/poll/votes
+ * Vote in a poll, replacing the caller's earlier choices
+ */
+router.post('/:id/poll/votes', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(pollVoteSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const results = await PostService.votePoll(req.params.id, req.user!.id, validation.data!.optionIds);
+
+    res.json({
+      success: true,
+      data: results,
+      message: 'Vote recorded successfully'
+    });
+  } catch (error) {
+    console.error('Poll vote error:', error);
+    handlePollError(res, error, 'Failed to record vote');
+  }
+});
+
+/**
+ * DELETE /api/v1/posts/:id/poll/votes
+ * Take back the caller's votes in a poll
+ */
+router.delete('/:id/poll/votes', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const results = await PostService.removePollVote(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      data: results,
+      message: 'Vote removed successfully'
+    });
+  } catch (error) {
+    console.error('Poll unvote error:', error);
+    handlePollError(res, error, 'Failed to remove vote');
+  }
+});
+
+/**
+ * GET /api/v1/posts/:id/poll/votes
+ * List who voted in a poll, newest first (not available for anonymous polls)
+ */
+router.get('/:id/poll/votes', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(pollVoterQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const voters = await PostService.getPollVoters(req.params.id, req.user?.id, validation.data);
+
+    res.json({
+      success: true,
+      data: voters
+    });
+  } catch (error) {
+    console.error('Get poll voters error:', error);
+    handlePollError(res, error, 'Failed to fetch poll voters');
+  }
+});
+
 /**
  * GET /api/v1/posts/:id/comments
- * Get comments for a post
+ * Get a page of threaded comments for a post
  */
 router.get('/:id/comments', optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
+
+    const validation = validateRequest(commentQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
     
-    const comments = await PostService.getPostComments(id, req.user?.id);
+    const comments = await PostService.getPostComments(id, req.user?.id, validation.data);
 
     res.json({
       success: true,
@@ -338,6 +658,14 @@ router.get('/:id/comments', optionalAuth, async (req: Request, res: Response): P
         });
         return;
       }
+
+      if (error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
     }
 
     res.status(500).json({
@@ -369,7 +697,7 @@ router.post('/:id/comments', authenticateToken, async (req: Request, res: Respon
 
     // Emit real-time event for new comment using SocketService
     const socketService = req.app.get('socketService');
-    if (socketService) {
+    if (socketService && !comment.isHidden) {
       // Get the post to find the community ID
       const post = await PostService.getPost(id, req.user!.id);
       socketService.broadcastNewComment(post.communityId, id, comment);
@@ -378,12 +706,20 @@ router.post('/:id/comments', authenticateToken, async (req: Request, res: Respon
     res.status(201).json({
       success: true,
       data: comment,
-      message: 'Comment created successfully'
+      message: comment.isHidden ? 'Comment submitted and held for moderator review' : 'Comment created successfully'
     });
   } catch (error) {
     console.error('Create comment error:', error);
     
     if (error instanceof Error) {
+      if (error.message.startsWith('Content rejected')) {
+        res.status(400).json({
+          error: 'Content rejected',
+          message: error.message
+        });
+        return;
+      }
+
       if (error.message === 'Post not found') {
         res.status(404).json({
           error: 'Not found',
@@ -392,6 +728,22 @@ router.post('/:id/comments', authenticateToken, async (req: Request, res: Respon
         return;
       }
       
+      if (error.message === 'You are banned from this community' || error.message.startsWith('You are muted')) {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Post is locked') {
+        res.status(403).json({
+          error: 'Post locked',
+          message: 'This post is locked and no longer accepts comments'
+        });
+        return;
+      }
+      
       if (error.message === 'Parent comment not found or does not belong to this post') {
         res.status(400).json({
           error: 'Bad request',
@@ -416,6 +768,66 @@ router.post('/:id/comments', authenticateToken, async (req: Request, res: Respon
   }
 });
 
+/**
+ * GET /api/v1/posts/comments/:commentId/replies
+ * Load more replies for one comment
+ */
+router.get('/comments/:commentId/replies', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+
+    const validation = validateRequest(commentQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+    
+    const replies = await PostService.getCommentReplies(commentId, req.user?.id, validation.data);
+
+    res.json({
+      success: true,
+      data: replies
+    });
+  } catch (error) {
+    console.error('Get comment replies error:', error);
+    
+    if (error instanceof Error) {
+      if (error.message === 'Post not found' || error.message === 'Comment not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+      
+      if (error.message === 'Access denied to private community') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to fetch replies'
+    });
+  }
+});
+
 /**
  * PUT /api/v1/posts/comments/:commentId
  * Update a comment
@@ -445,6 +857,14 @@ router.put('/comments/:commentId', authenticateToken, async (req: Request, res:
     console.error('Update comment error:', error);
     
     if (error instanceof Error) {
+      if (error.message.startsWith('Content rejected')) {
+        res.status(400).json({
+          error: 'Content rejected',
+          message: error.message
+        });
+        return;
+      }
+
       if (error.message === 'Comment not found') {
         res.status(404).json({
           error: 'Not found',
@@ -554,6 +974,127 @@ router.post('/comments/:commentId/like', authenticateToken, async (req: Request,
   }
 });
 
+/**
+ * POST /api/v1/posts/comments/:commentId/reactions
+ * Toggle one of the caller's reactions on a comment
+ */
+router.post('/comments/:commentId/reactions', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+
+    const validation = validateRequest(reactionSchema, req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const result = await PostService.toggleCommentReaction(commentId, req.user!.id, validation.data!.reaction);
+
+    res.json({
+      success: true,
+      data: result,
+      message: result.reacted ? 'Reaction added successfully' : 'Reaction removed successfully'
+    });
+  } catch (error) {
+    console.error('Toggle comment reaction error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Comment not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to private community') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Reaction not available in this community') {
+        res.status(400).json({
+          error: 'Invalid reaction',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to toggle comment reaction'
+    });
+  }
+});
+
+/**
+ * GET /api/v1/posts/comments/:commentId/reactions
+ * List who reacted to a comment, newest first, optionally for one reaction
+ */
+router.get('/comments/:commentId/reactions', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+
+    const validation = validateRequest(reactionListQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const reactions = await PostService.getCommentReactions(commentId, req.user?.id, validation.data);
+
+    res.json({
+      success: true,
+      data: reactions
+    });
+  } catch (error) {
+    console.error('Get comment reactions error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Comment not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to private community') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Invalid cursor') {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to fetch comment reactions'
+    });
+  }
+});
+
 /**
  * POST /api/v1/posts/:id/report
  * Report a post for inappropriate content
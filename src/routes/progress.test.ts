@@ -161,8 +161,8 @@ describe('Progress Tracking API', () => {
       expect(response.body.data).toHaveProperty('completedLessons');
       expect(response.body.data).toHaveProperty('totalTimeSpent');
       expect(response.body.data).toHaveProperty('averageTimePerLesson');
-      expect(response.body.data).toHaveProperty('recentActivity');
-      expect(Array.isArray(response.body.data.recentActivity)).toBe(true);
+      expect(response.body.data).toHaveProperty('items');
+      expect(Array.isArray(response.body.data.items)).toBe(true);
     });
 
     it('should support filtering by course', async () => {
@@ -185,7 +185,7 @@ describe('Progress Tracking API', () => {
 
     it('should support pagination', async () => {
       const response = await request(app)
-        .get('/api/v1/progress/analytics?limit=5&offset=0')
+        .get('/api/v1/progress/analytics?limit=5')
         .set('Authorization', `Bearer ${authToken}`);
 
       expect(response.status).toBe(200);
@@ -29,13 +29,10 @@ const progressQuerySchema = z.object({
     .optional()
     .or(z.number().min(1).max(100).optional()),
   
-  offset: z
+  cursor: z
     .string()
-    .regex(/^\d+$/, 'Offset must be a number')
-    .transform(Number)
-    .refine(val => val >= 0, 'Offset must be non-negative')
+    .max(500, 'Invalid cursor')
     .optional()
-    .or(z.number().min(0).optional())
 });
 
 /**
@@ -80,7 +77,8 @@ router.put('/lessons/:lessonId', authenticateToken, async (req: Request, res: Re
       }
       
       if (error.message === 'Access denied to lesson' || 
-          error.message === 'Premium lesson requires active subscription') {
+          error.message === 'Premium lesson requires active subscription' ||
+          error.message === 'Lesson is locked') {
         res.status(403).json({
           error: 'Access denied',
           message: error.message
@@ -96,6 +94,48 @@ router.put('/lessons/:lessonId', authenticateToken, async (req: Request, res: Re
   }
 });
 
+/**
+ * GET /api/v1/progress/lessons/:lessonId
+ * Get user's progress for a specific lesson
+ */
+router.get('/lessons/:lessonId', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { lessonId } = req.params;
+
+    const progress = await ProgressService.getLessonProgress(lessonId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: progress
+    });
+  } catch (error) {
+    console.error('Get lesson progress error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Lesson not found') {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to lesson') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to get lesson progress'
+    });
+  }
+});
+
 /**
  * GET /api/v1/progress/courses/:courseId
  * Get user's progress for a specific course
@@ -207,6 +247,14 @@ router.get('/analytics', authenticateToken, async (req: Request, res: Response):
   } catch (error) {
     console.error('Get progress analytics error:', error);
 
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Invalid cursor',
+        message: error.message
+      });
+      return;
+    }
+
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Failed to get progress analytics'
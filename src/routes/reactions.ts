@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, optionalAuth } from '../middleware/auth';
+import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
+import { validateRequest, communityReactionsSchema } from '../lib/validation';
+import { ReactionService } from '../lib/reactionService';
+
+// Mounted under /api/v1/communities/:communityId/reactions
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/v1/communities/:communityId/reactions
+ * Get the community's reaction set
+ */
+router.get('/',
+  optionalAuth,
+  loadCommunityContext(),
+  requirePermission('community:read', { allowPublicRead: true }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const reactions = await ReactionService.getCommunityReactions(req.params.communityId);
+
+      res.json({
+        success: true,
+        data: reactions
+      });
+    } catch (error) {
+      console.error('Get community reactions error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to fetch reactions'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/communities/:communityId/reactions
+ * Replace the community's reaction set (admins only)
+ */
+router.put('/',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('community:admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateRequest(communityReactionsSchema, req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: validation.errors
+        });
+        return;
+      }
+
+      const reactions = await ReactionService.setCommunityReactions(req.params.communityId, validation.data!.reactions);
+
+      res.json({
+        success: true,
+        data: reactions,
+        message: 'Reactions updated successfully'
+      });
+    } catch (error) {
+      console.error('Set community reactions error:', error);
+
+      if (error instanceof Error && [
+        'Reaction keys must be unique',
+        'Reaction set must include the like reaction'
+      ].includes(error.message)) {
+        res.status(400).json({
+          error: 'Validation failed',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to update reactions'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/communities/:communityId/reactions
+ * Go back to the default reaction set (admins only)
+ */
+router.delete('/',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('community:admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await ReactionService.resetCommunityReactions(req.params.communityId);
+
+      res.json({
+        success: true,
+        message: 'Reactions reset to defaults'
+      });
+    } catch (error) {
+      console.error('Reset community reactions error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to reset reactions'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,192 @@
+import request from 'supertest';
+import app from '../index';
+import prisma from '../lib/prisma';
+import { generateAccessToken } from '../lib/auth';
+
+describe('Search API', () => {
+  let creator: any;
+  let member: any;
+  let publicCommunity: any;
+  let privateCommunity: any;
+  let post: any;
+  let memberToken: string;
+
+  beforeEach(async () => {
+    creator = await prisma.user.create({
+      data: {
+        email: 'search-creator@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'searchcreator',
+        emailVerified: true
+      }
+    });
+
+    member = await prisma.user.create({
+      data: {
+        email: 'search-member@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'searchmember',
+        emailVerified: true
+      }
+    });
+
+    publicCommunity = await prisma.community.create({
+      data: {
+        name: 'Sourdough Bakers',
+        slug: 'sourdough-bakers',
+        description: 'Baking bread together',
+        creatorId: creator.id,
+        isPublic: true,
+        priceMonthly: 9.99
+      }
+    });
+
+    privateCommunity = await prisma.community.create({
+      data: {
+        name: 'Secret Bakers',
+        slug: 'secret-bakers',
+        creatorId: creator.id,
+        isPublic: false
+      }
+    });
+
+    await prisma.communityMembership.create({
+      data: { userId: member.id, communityId: publicCommunity.id, role: 'member', status: 'active' }
+    });
+
+    post = await prisma.post.create({
+      data: {
+        communityId: publicCommunity.id,
+        authorId: creator.id,
+        title: 'Sourdough starter guide',
+        content: 'Feed your starter twice a day for a lively sourdough.'
+      }
+    });
+
+    await prisma.post.create({
+      data: {
+        communityId: publicCommunity.id,
+        authorId: creator.id,
+        title: 'Weekly check-in',
+        content: 'Anyone tried a rye starter yet?'
+      }
+    });
+
+    await prisma.comment.create({
+      data: { postId: post.id, authorId: member.id, content: 'My starter smells like vinegar' }
+    });
+
+    await prisma.post.create({
+      data: {
+        communityId: privateCommunity.id,
+        authorId: creator.id,
+        content: 'Private starter recipe'
+      }
+    });
+
+    const course = await prisma.course.create({
+      data: { communityId: publicCommunity.id, title: 'Bread basics', isPublished: true }
+    });
+
+    await prisma.lesson.createMany({
+      data: [
+        { courseId: course.id, title: 'Free starter lesson', content: 'Mixing flour and water', isFree: true },
+        { courseId: course.id, title: 'Premium starter masterclass', content: 'Advanced starter techniques', isFree: false }
+      ]
+    });
+
+    memberToken = generateAccessToken({ userId: member.id, email: member.email, username: member.username });
+  });
+
+  it('should rank and highlight matches the caller can access', async () => {
+    const response = await request(app)
+      .get('/api/v1/search?q=starter')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const results = response.body.data.items;
+    const titles = results.map((result: any) => result.title);
+
+    // Title matches outrank body-only matches
+    expect(titles.indexOf('Sourdough starter guide')).toBeLessThan(titles.indexOf('Weekly check-in'));
+    expect(titles).toContain('Free starter lesson');
+    expect(results.find((result: any) => result.id === post.id).snippet).toContain('<mark>starter</mark>');
+    expect(results.some((result: any) => result.type === 'comment')).toBe(true);
+
+    // No private community content and no paid lessons without a subscription
+    expect(titles).not.toContain('Premium starter masterclass');
+    expect(results.some((result: any) => result.community.id === privateCommunity.id)).toBe(false);
+  });
+
+  it('should filter by type and community', async () => {
+    const response = await request(app)
+      .get(`/api/v1/search?q=starter&type=post&communityId=${publicCommunity.id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    expect(response.body.data.items).toHaveLength(2);
+    expect(response.body.data.items.every((result: any) => result.type === 'post')).toBe(true);
+  });
+
+  it('should page through results with a cursor', async () => {
+    const first = await request(app)
+      .get('/api/v1/search?q=starter&limit=2')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    expect(first.body.data.items).toHaveLength(2);
+    expect(first.body.data.hasMore).toBe(true);
+
+    const second = await request(app)
+      .get(`/api/v1/search?q=starter&limit=2&cursor=${first.body.data.nextCursor}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const firstIds = first.body.data.items.map((result: any) => result.id);
+    expect(second.body.data.items.some((result: any) => firstIds.includes(result.id))).toBe(false);
+  });
+
+  it('should hide lessons that have not dripped yet', async () => {
+    const course = await prisma.course.findFirstOrThrow({ where: { communityId: publicCommunity.id } });
+    await prisma.lesson.create({
+      data: {
+        courseId: course.id,
+        title: 'Scheduled starter lesson',
+        content: 'Shaping the starter loaf',
+        isFree: true,
+        dripType: 'fixed_date',
+        dripDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+      }
+    });
+
+    const response = await request(app)
+      .get('/api/v1/search?q=starter&type=lesson')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const titles = response.body.data.items.map((result: any) => result.title);
+    expect(titles).toContain('Free starter lesson');
+    expect(titles).not.toContain('Scheduled starter lesson');
+  });
+
+  it('should show mentions as names in snippets', async () => {
+    await prisma.comment.create({
+      data: { postId: post.id, authorId: member.id, content: `Thanks @[searchcreator](${creator.id}) for the starter tips` }
+    });
+
+    const response = await request(app)
+      .get('/api/v1/search?q=tips&type=comment')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const [result] = response.body.data.items;
+    expect(result.snippet).toContain('@searchcreator');
+    expect(result.snippet).not.toContain(creator.id);
+  });
+
+  it('should reject malformed cursors', async () => {
+    await request(app)
+      .get('/api/v1/search?q=starter&cursor=not-a-cursor')
+      .expect(400);
+  });
+});
@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import { optionalAuth } from '../middleware/auth';
+import { validateRequest, searchQuerySchema } from '../lib/validation';
+import { SearchService } from '../lib/searchService';
+
+const router = Router();
+
+/**
+ * GET /api/v1/search
+ * Ranked full-text search across communities, posts, comments and lessons the caller can access
+ */
+router.get('/', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateRequest(searchQuerySchema, req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validation.errors
+      });
+      return;
+    }
+
+    const result = await SearchService.search(validation.data!, req.user?.id);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      res.status(400).json({
+        error: 'Bad request',
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to search'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, optionalAuth } from '../middleware/auth';
+import { loadCommunityContext, requirePermission } from '../middleware/accessControl';
+import { validateRequest, createTierSchema, updateTierSchema } from '../lib/validation';
+import { TierService } from '../lib/tierService';
+import { StripeService } from '../lib/stripeService';
+
+// Mounted under /api/v1/communities/:communityId/tiers
+const router = Router({ mergeParams: true });
+
+/**
+ * Map tier service errors to responses
+ */
+function handleTierError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error && error.message === 'Tier not found') {
+    res.status(404).json({
+      error: 'Not found',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof Error && [
+    'Another tier already has this rank',
+    'Tier has active subscriptions',
+    'Tier is required by courses'
+  ].includes(error.message)) {
+    res.status(409).json({
+      error: 'Conflict',
+      message: error.message
+    });
+    return;
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * GET /api/v1/communities/:communityId/tiers
+ * List the community's membership tiers with their Stripe prices
+ */
+router.get('/',
+  optionalAuth,
+  loadCommunityContext(),
+  requirePermission('community:read', { allowPublicRead: true }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tiers = await TierService.getCommunityTiers(req.params.communityId);
+
+      res.json({
+        success: true,
+        data: tiers
+      });
+    } catch (error) {
+      console.error('List tiers error:', error);
+      handleTierError(res, error, 'Failed to list tiers');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/communities/:communityId/tiers
+ * Create a tier and its Stripe prices (admins only)
+ */
+router.post('/',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('community:admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateRequest(createTierSchema, req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: validation.errors
+        });
+        return;
+      }
+
+      const tier = await TierService.createTier(req.params.communityId, validation.data!);
+
+      res.status(201).json({
+        success: true,
+        data: await StripeService.syncTierPrices(tier.id),
+        message: 'Tier created successfully'
+      });
+    } catch (error) {
+      console.error('Create tier error:', error);
+      handleTierError(res, error, 'Failed to create tier');
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/communities/:communityId/tiers/:tierId
+ * Update a tier; changed prices get new Stripe prices (admins only)
+ */
+router.put('/:tierId',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('community:admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateRequest(updateTierSchema, req.body);
+
+      if (!validation.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: validation.errors
+        });
+        return;
+      }
+
+      const tier = await TierService.updateTier(req.params.communityId, req.params.tierId, validation.data!);
+
+      res.json({
+        success: true,
+        data: await StripeService.syncTierPrices(tier.id),
+        message: 'Tier updated successfully'
+      });
+    } catch (error) {
+      console.error('Update tier error:', error);
+      handleTierError(res, error, 'Failed to update tier');
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/communities/:communityId/tiers/:tierId
+ * Delete a tier with no subscribers or gated courses (admins only)
+ */
+router.delete('/:tierId',
+  authenticateToken,
+  loadCommunityContext(),
+  requirePermission('community:admin'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await TierService.deleteTier(req.params.communityId, req.params.tierId);
+
+      res.json({
+        success: true,
+        message: 'Tier deleted successfully'
+      });
+    } catch (error) {
+      console.error('Delete tier error:', error);
+      handleTierError(res, error, 'Failed to delete tier');
+    }
+  }
+);
+
+export default router;
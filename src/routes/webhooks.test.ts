@@ -0,0 +1,237 @@
+import request from 'supertest';
+import app from '../index';
+import prisma from '../lib/prisma';
+import { generateAccessToken } from '../lib/auth';
+import { stripe, StripeService } from '../lib/stripeService';
+import { StripeWebhookService } from '../lib/stripeWebhookService';
+
+const WEBHOOK_SECRET = 'whsec_test_fixture_secret';
+
+/**
+ * A customer.subscription.updated event as Stripe would send it
+ */
+function subscriptionUpdatedEvent(eventId: string, status: string, priceId?: string) {
+  return {
+    id: eventId,
+    object: 'event',
+    type: 'customer.subscription.updated',
+    created: Math.floor(Date.now() / 1000),
+    data: {
+      object: {
+        id: 'sub_webhook_fixture',
+        object: 'subscription',
+        status,
+        items: { object: 'list', data: priceId ? [{ price: { id: priceId } }] : [] },
+        current_period_start: Math.floor(Date.now() / 1000),
+        current_period_end: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60
+      }
+    }
+  };
+}
+
+/**
+ * POST a fixture to the webhook route with a valid Stripe signature
+ */
+function sendSigned(event: object) {
+  const payload = JSON.stringify(event);
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+  return request(app)
+    .post('/webhooks/stripe')
+    .set('Content-Type', 'application/json')
+    .set('stripe-signature', signature)
+    .send(payload);
+}
+
+describe('Stripe Webhooks', () => {
+  let user: any;
+  let community: any;
+  let previousSecret: string | undefined;
+  let previousAdmins: string | undefined;
+
+  beforeAll(() => {
+    previousSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    previousAdmins = process.env.PLATFORM_ADMIN_EMAILS;
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    process.env.PLATFORM_ADMIN_EMAILS = 'stripe-admin@example.com';
+  });
+
+  afterAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = previousSecret;
+    process.env.PLATFORM_ADMIN_EMAILS = previousAdmins;
+  });
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    await prisma.stripeEvent.deleteMany();
+
+    user = await prisma.user.create({
+      data: {
+        email: 'stripe-admin@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'stripeadmin',
+        emailVerified: true
+      }
+    });
+
+    community = await prisma.community.create({
+      data: {
+        name: 'Webhook Community',
+        slug: 'webhook-community',
+        creatorId: user.id,
+        priceMonthly: 10
+      }
+    });
+
+    await prisma.subscription.create({
+      data: {
+        userId: user.id,
+        communityId: community.id,
+        stripeSubscriptionId: 'sub_webhook_fixture',
+        status: 'incomplete'
+      }
+    });
+  });
+
+  it('should reject payloads without a valid signature', async () => {
+    const response = await request(app)
+      .post('/webhooks/stripe')
+      .set('Content-Type', 'application/json')
+      .set('stripe-signature', 't=1,v1=invalid')
+      .send(JSON.stringify(subscriptionUpdatedEvent('evt_unsigned', 'active')));
+
+    expect(response.status).toBe(400);
+    expect(await prisma.stripeEvent.count()).toBe(0);
+  });
+
+  it('should process an event once and skip redeliveries', async () => {
+    const statusSpy = jest.spyOn(StripeService, 'updateSubscriptionStatus');
+    const event = subscriptionUpdatedEvent('evt_fixture_once', 'active');
+
+    const first = await sendSigned(event);
+    const redelivery = await sendSigned(event);
+
+    expect(first.status).toBe(200);
+    expect(first.body).toEqual({ received: true });
+    expect(redelivery.status).toBe(200);
+    expect(redelivery.body.duplicate).toBe(true);
+    expect(statusSpy).toHaveBeenCalledTimes(1);
+
+    const stored = await prisma.stripeEvent.findUnique({ where: { stripeEventId: 'evt_fixture_once' } });
+    expect(stored).toMatchObject({ status: 'succeeded', attempts: 1 });
+
+    const subscription = await prisma.subscription.findFirst({ where: { stripeSubscriptionId: 'sub_webhook_fixture' } });
+    expect(subscription!.status).toBe('active');
+  });
+
+  it('should keep a failed event for retry and succeed on the next run', async () => {
+    jest.spyOn(StripeService, 'updateSubscriptionStatus').mockRejectedValueOnce(new Error('Database unavailable'));
+
+    const response = await sendSigned(subscriptionUpdatedEvent('evt_fixture_retry', 'active'));
+
+    expect(response.status).toBe(500);
+
+    const failed = await prisma.stripeEvent.findUniqueOrThrow({ where: { stripeEventId: 'evt_fixture_retry' } });
+    expect(failed).toMatchObject({ status: 'pending', attempts: 1, error: 'Database unavailable' });
+    expect(failed.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    await prisma.stripeEvent.update({
+      where: { id: failed.id },
+      data: { nextAttemptAt: new Date(Date.now() - 1000) }
+    });
+
+    const result = await StripeWebhookService.processDueEvents();
+
+    expect(result).toEqual({ attempted: 1, succeeded: 1 });
+    expect(await prisma.stripeEvent.findUnique({ where: { id: failed.id } })).toMatchObject({
+      status: 'succeeded',
+      attempts: 2,
+      error: null
+    });
+  });
+
+  it('should not let a payment restore access for a banned member', async () => {
+    await prisma.memberSanction.create({
+      data: { communityId: community.id, userId: user.id, type: 'ban', reason: 'Chargeback fraud' }
+    });
+
+    await sendSigned(subscriptionUpdatedEvent('evt_fixture_banned', 'active')).expect(200);
+
+    const membership = await prisma.communityMembership.findFirst({
+      where: { userId: user.id, communityId: community.id }
+    });
+    expect(membership).toBeNull();
+  });
+
+  it('should only move paid-up subscriptions to a new tier', async () => {
+    const tier = await prisma.membershipTier.create({
+      data: {
+        communityId: community.id,
+        name: 'Pro',
+        rank: 1,
+        priceMonthly: 20,
+        stripePriceMonthlyId: 'price_webhook_pro'
+      }
+    });
+
+    await sendSigned(subscriptionUpdatedEvent('evt_fixture_unpaid_upgrade', 'past_due', 'price_webhook_pro')).expect(200);
+    let subscription = await prisma.subscription.findFirstOrThrow({ where: { stripeSubscriptionId: 'sub_webhook_fixture' } });
+    expect(subscription.tierId).toBeNull();
+
+    await sendSigned(subscriptionUpdatedEvent('evt_fixture_paid_upgrade', 'active', 'price_webhook_pro')).expect(200);
+    subscription = await prisma.subscription.findFirstOrThrow({ where: { stripeSubscriptionId: 'sub_webhook_fixture' } });
+    expect(subscription.tierId).toBe(tier.id);
+  });
+
+  it('should give back the coupon redemption when checkout expires unpaid', async () => {
+    const coupon = await prisma.communityCoupon.create({
+      data: {
+        communityId: community.id,
+        code: 'WELCOME',
+        discountType: 'percent',
+        percentOff: 20,
+        maxRedemptions: 5,
+        redemptionCount: 2
+      }
+    });
+    await prisma.subscription.updateMany({
+      where: { stripeSubscriptionId: 'sub_webhook_fixture' },
+      data: { couponId: coupon.id }
+    });
+
+    await sendSigned(subscriptionUpdatedEvent('evt_fixture_expired', 'incomplete_expired')).expect(200);
+    // A later update with the same status must not release it twice
+    await sendSigned(subscriptionUpdatedEvent('evt_fixture_expired_again', 'incomplete_expired')).expect(200);
+
+    const released = await prisma.communityCoupon.findUniqueOrThrow({ where: { id: coupon.id } });
+    expect(released.redemptionCount).toBe(1);
+  });
+
+  it('should let platform admins list and replay events', async () => {
+    jest.spyOn(StripeService, 'updateSubscriptionStatus').mockRejectedValueOnce(new Error('Database unavailable'));
+    await sendSigned(subscriptionUpdatedEvent('evt_fixture_replay', 'active'));
+
+    const token = generateAccessToken({ userId: user.id, email: user.email, username: user.username });
+
+    const list = await request(app)
+      .get('/api/v1/admin/stripe-events?status=pending')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(list.status).toBe(200);
+    expect(list.body.data.items).toHaveLength(1);
+    expect(list.body.data.items[0].stripeEventId).toBe('evt_fixture_replay');
+
+    const replay = await request(app)
+      .post(`/api/v1/admin/stripe-events/${list.body.data.items[0].id}/replay`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(replay.status).toBe(200);
+    expect(replay.body.data.status).toBe('succeeded');
+
+    const missing = await request(app)
+      .post('/api/v1/admin/stripe-events/nonexistent/replay')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,112 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Achievement Backfill Script
+ *
+ * Replays existing points history to record the achievements users earned before
+ * achievements were persisted. Each achievement is dated to the transaction that
+ * pushed the user's community points past its threshold. Safe to run repeatedly:
+ * already recorded achievements are skipped, and no notifications are sent.
+ *
+ * Usage:
+ * - Run manually: npx ts-node src/scripts/backfill-achievements.ts
+ */
+
+import dotenv from 'dotenv';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AchievementService } from '../lib/achievementService';
+
+// Load environment variables
+dotenv.config();
+
+async function main() {
+  try {
+    console.log('Starting achievement backfill...');
+    console.log(`Environment: ${process.env.NODE_ENV}`);
+    console.log(`Time: ${new Date().toISOString()}`);
+
+    // Every (user, community) pair with points history
+    const pairs = await prisma.pointsTransaction.groupBy({
+      by: ['userId', 'communityId']
+    });
+
+    console.log(`Found ${pairs.length} user/community pairs with points history`);
+
+    let recorded = 0;
+
+    for (const { userId, communityId } of pairs) {
+      const achievements = await AchievementService.getCommunityAchievements(communityId);
+
+      const transactions = await prisma.pointsTransaction.findMany({
+        where: { userId, communityId },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, points: true, createdAt: true }
+      });
+
+      let runningTotal = 0;
+      const earned: Prisma.UserAchievementCreateManyInput[] = [];
+
+      for (const transaction of transactions) {
+        runningTotal += transaction.points;
+
+        for (const achievement of achievements) {
+          if (runningTotal >= achievement.pointsRequired && !earned.some(e => e.achievementId === achievement.id)) {
+            earned.push({
+              userId,
+              communityId,
+              achievementId: achievement.id,
+              name: achievement.name,
+              description: achievement.description,
+              pointsRequired: achievement.pointsRequired,
+              badgeIcon: achievement.badgeIcon,
+              transactionId: transaction.id,
+              earnedAt: transaction.createdAt
+            });
+          }
+        }
+      }
+
+      if (earned.length > 0) {
+        const result = await prisma.userAchievement.createMany({
+          data: earned,
+          skipDuplicates: true
+        });
+        recorded += result.count;
+      }
+    }
+
+    console.log(`Achievement backfill completed:`);
+    console.log(`- Achievements recorded: ${recorded}`);
+    console.log(`- Pairs processed: ${pairs.length}`);
+
+  } catch (error) {
+    console.error('Achievement backfill failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Handle graceful shutdown
+process.on('SIGINT', async () => {
+  console.log('\nReceived SIGINT, shutting down gracefully...');
+  await prisma.$disconnect();
+  process.exit(0);
+});
+
+process.on('SIGTERM', async () => {
+  console.log('\nReceived SIGTERM, shutting down gracefully...');
+  await prisma.$disconnect();
+  process.exit(0);
+});
+
+// Run the script
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export { main as backfillAchievements };
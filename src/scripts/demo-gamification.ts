@@ -110,7 +110,7 @@ async function demoGamificationSystem() {
     console.log('\n📊 Recent Points History:');
     const history = await PointsService.getUserPointsHistory(user.id, { limit: 5 });
     
-    history.transactions.forEach(transaction => {
+    history.items.forEach(transaction => {
       console.log(`+${transaction.points} - ${transaction.reason} (${transaction.createdAt.toLocaleDateString()})`);
     });
 
@@ -342,8 +342,8 @@ describe('Property-Based Testing: Access Control Enforcement', () => {
               limit: 1
             });
 
-            expect(logs.logs).toHaveLength(1);
-            const log = logs.logs[0];
+            expect(logs.items).toHaveLength(1);
+            const log = logs.items[0];
             
             expect(log.action).toBe(action);
             expect(log.resource).toBe(permission);
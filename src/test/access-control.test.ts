@@ -5,6 +5,7 @@ import prisma from '../lib/prisma';
 import { generateTokenPair } from '../lib/auth';
 import { AccessControlService } from '../lib/accessControlService';
 import { auditLogger } from '../lib/auditLogger';
+import { PointsService } from '../lib/pointsService';
 
 describe('Access Control System', () => {
   let testUser: any;
@@ -234,6 +235,90 @@ describe('Access Control System', () => {
       expect(access.canView).toBe(true);
       expect(access.role).toBe('moderator');
     });
+
+    it('should enforce the minimum community level of a course', async () => {
+      await prisma.lesson.update({
+        where: { id: testLesson.id },
+        data: { isFree: true }
+      });
+
+      // Level 2 in the default ladder requires 50 points
+      await prisma.course.update({
+        where: { id: testCourse.id },
+        data: { minLevel: 2 }
+      });
+
+      await prisma.communityMembership.create({
+        data: {
+          userId: testUser.id,
+          communityId: testCommunity.id,
+          role: 'member',
+          status: 'active'
+        }
+      });
+
+      const before = await AccessControlService.checkContentAccess('lesson', testLesson.id, testUser.id);
+      expect(before.canView).toBe(false);
+      expect(before.reason).toBe('Requires level 2');
+
+      await PointsService.awardPoints({
+        userId: testUser.id,
+        communityId: testCommunity.id,
+        points: 60,
+        reason: 'Test points'
+      });
+
+      const after = await AccessControlService.checkContentAccess('lesson', testLesson.id, testUser.id);
+      expect(after.canView).toBe(true);
+    });
+
+    it('should resolve the member tier from their subscription and enforce course tiers', async () => {
+      const [free, pro, vip] = await Promise.all([
+        prisma.membershipTier.create({ data: { communityId: testCommunity.id, name: 'Free', rank: 0 } }),
+        prisma.membershipTier.create({
+          data: { communityId: testCommunity.id, name: 'Pro', rank: 1, priceMonthly: 19, stripePriceMonthlyId: 'price_pro' }
+        }),
+        prisma.membershipTier.create({
+          data: { communityId: testCommunity.id, name: 'VIP', rank: 2, priceMonthly: 49, stripePriceMonthlyId: 'price_vip' }
+        })
+      ]);
+
+      await prisma.course.update({
+        where: { id: testCourse.id },
+        data: { minTierId: vip.id }
+      });
+
+      await prisma.communityMembership.create({
+        data: {
+          userId: testUser.id,
+          communityId: testCommunity.id,
+          role: 'member',
+          status: 'active'
+        }
+      });
+
+      const unsubscribed = await AccessControlService.checkCommunityAccess(testCommunity.id, testUser.id);
+      expect(unsubscribed.tier?.id).toBe(free.id);
+      expect(unsubscribed.hasPaidAccess).toBe(false);
+
+      const subscription = await prisma.subscription.create({
+        data: { userId: testUser.id, communityId: testCommunity.id, status: 'active', tierId: pro.id }
+      });
+
+      const onPro = await AccessControlService.checkContentAccess('lesson', testLesson.id, testUser.id);
+      expect(onPro.tier?.id).toBe(pro.id);
+      expect(onPro.hasPaidAccess).toBe(true);
+      expect(onPro.canView).toBe(false);
+      expect(onPro.reason).toBe('Requires VIP tier');
+
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { tierId: vip.id }
+      });
+
+      const onVip = await AccessControlService.checkContentAccess('lesson', testLesson.id, testUser.id);
+      expect(onVip.canView).toBe(true);
+    });
   });
 
   describe('Permission Validation', () => {
@@ -310,10 +395,10 @@ describe('Access Control System', () => {
         limit: 10
       });
 
-      expect(logs.logs).toHaveLength(1);
-      expect(logs.logs[0].action).toBe('ACCESS_DENIED');
-      expect(logs.logs[0].resource).toBe('course:write');
-      expect(logs.logs[0].userId).toBe(testUser.id);
+      expect(logs.items).toHaveLength(1);
+      expect(logs.items[0].action).toBe('ACCESS_DENIED');
+      expect(logs.items[0].resource).toBe('course:write');
+      expect(logs.items[0].userId).toBe(testUser.id);
     });
 
     it('should generate security summary', async () => {
@@ -636,8 +721,8 @@ describe('Access Control System', () => {
         limit: 1
       });
 
-      expect(logs.logs).toHaveLength(1);
-      const log = logs.logs[0];
+      expect(logs.items).toHaveLength(1);
+      const log = logs.items[0];
       
       expect(log.userId).toBe(testUser.id);
       expect(log.action).toBe('ACCESS_DENIED');
@@ -667,8 +752,8 @@ describe('Access Control System', () => {
         limit: 1
       });
 
-      expect(logs.logs).toHaveLength(1);
-      const log = logs.logs[0];
+      expect(logs.items).toHaveLength(1);
+      const log = logs.items[0];
       
       expect(log.userId).toBe(adminUser.id);
       expect(log.action).toBe('PERMISSION_CHANGE');
@@ -707,8 +792,8 @@ describe('Access Control System', () => {
         limit: 1
       });
 
-      expect(logs.logs).toHaveLength(1);
-      const log = logs.logs[0];
+      expect(logs.items).toHaveLength(1);
+      const log = logs.items[0];
       
       expect(log.userId).toBe(adminUser.id);
       expect(log.action).toBe('MODERATION');
@@ -740,8 +825,8 @@ describe('Access Control System', () => {
         limit: 1
       });
 
-      expect(logs.logs).toHaveLength(1);
-      const log = logs.logs[0];
+      expect(logs.items).toHaveLength(1);
+      const log = logs.items[0];
       
       expect(log.userId).toBe(testUser.id);
       expect(log.action).toBe('PAYMENT');
@@ -825,7 +910,7 @@ describe('Access Control System', () => {
         limit: 1
       });
 
-      expect(recentLogs.logs).toHaveLength(1);
+      expect(recentLogs.items).toHaveLength(1);
 
       // Verify old event was deleted
       const oldLogs = await auditLogger.getAuditLogs({
@@ -833,7 +918,7 @@ describe('Access Control System', () => {
         limit: 1
       });
 
-      expect(oldLogs.logs).toHaveLength(0);
+      expect(oldLogs.items).toHaveLength(0);
     });
 
     it('should maintain audit log integrity under concurrent access', async () => {
@@ -861,10 +946,10 @@ describe('Access Control System', () => {
         limit: 20
       });
 
-      expect(logs.logs).toHaveLength(10);
+      expect(logs.items).toHaveLength(10);
       
       // Verify each resource was logged exactly once
-      const resources = logs.logs.map(log => log.resource);
+      const resources = logs.items.map(log => log.resource);
       const uniqueResources = [...new Set(resources)];
       expect(uniqueResources).toHaveLength(10);
     });
@@ -135,12 +135,12 @@ describe('Content Search and Discovery Properties', () => {
 
             expect(searchResponse.status).toBe(200);
             expect(searchResponse.body).toHaveProperty('data');
-            expect(searchResponse.body.data).toHaveProperty('communities');
-            expect(searchResponse.body.data).toHaveProperty('total');
+            expect(searchResponse.body.data).toHaveProperty('items');
+            expect(searchResponse.body.data).toHaveProperty('hasMore');
             expect(searchResponse.body.data).toHaveProperty('query', searchQuery);
-            expect(Array.isArray(searchResponse.body.data.communities)).toBe(true);
+            expect(Array.isArray(searchResponse.body.data.items)).toBe(true);
 
-            const results = searchResponse.body.data.communities;
+            const results = searchResponse.body.data.items;
 
             // Property 1: All search results should be relevant to the query
             for (const result of results) {
@@ -293,10 +293,10 @@ describe('Content Search and Discovery Properties', () => {
 
             expect(searchResponse.status).toBe(200);
             expect(searchResponse.body).toHaveProperty('data');
-            expect(searchResponse.body.data).toHaveProperty('posts');
-            expect(Array.isArray(searchResponse.body.data.posts)).toBe(true);
+            expect(searchResponse.body.data).toHaveProperty('items');
+            expect(Array.isArray(searchResponse.body.data.items)).toBe(true);
 
-            const results = searchResponse.body.data.posts;
+            const results = searchResponse.body.data.items;
 
             // Property 1: All search results should be relevant to the query
             for (const result of results) {
@@ -544,9 +544,9 @@ describe('Content Search and Discovery Properties', () => {
 
               expect(bookmarksResponse.status).toBe(200);
               expect(bookmarksResponse.body).toHaveProperty('data');
-              expect(bookmarksResponse.body.data).toHaveProperty('bookmarks');
+              expect(bookmarksResponse.body.data).toHaveProperty('items');
               
-              const bookmarkedIds = bookmarksResponse.body.data.bookmarks.map((b: any) => b.id);
+              const bookmarkedIds = bookmarksResponse.body.data.items.map((b: any) => b.id);
               expect(bookmarkedIds).toContain(community.id);
             }
 
@@ -575,7 +575,7 @@ describe('Content Search and Discovery Properties', () => {
                 .get('/api/v1/communities/bookmarks')
                 .set('Authorization', `Bearer ${accessToken}`);
 
-              const bookmarkedIds = bookmarksResponse.body.data.bookmarks.map((b: any) => b.id);
+              const bookmarkedIds = bookmarksResponse.body.data.items.map((b: any) => b.id);
               expect(bookmarkedIds).not.toContain(community.id);
             }
             
@@ -122,7 +122,7 @@ describe('Discussion Thread Integrity Properties', () => {
               return true; // Skip if feed retrieval fails
             }
 
-            const feedPosts = feedResponse.body.data.posts;
+            const feedPosts = feedResponse.body.data.items;
 
             // Verify all created posts appear in feed with correct properties
             const postsInFeed = createdPosts.every(expectedPost => {
@@ -250,7 +250,7 @@ describe('Discussion Thread Integrity Properties', () => {
               return true; // Skip if comments retrieval fails
             }
 
-            const comments = commentsResponse.body.data;
+            const comments = commentsResponse.body.data.items;
 
             // Verify top-level comments exist
             const topLevelComments = comments.filter((c: any) => !c.parentId);
@@ -501,7 +501,7 @@ describe('Discussion Thread Integrity Properties', () => {
               return true; // Skip if feed retrieval fails
             }
 
-            const feedPosts = feedResponse.body.data.posts;
+            const feedPosts = feedResponse.body.data.items;
 
             // Verify correct number of posts
             if (feedPosts.length !== createdPosts.length) {
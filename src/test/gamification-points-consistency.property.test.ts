@@ -75,6 +75,8 @@ describe('Gamification Points Consistency Properties', () => {
               action
             );
 
+            if (!result) return false;
+
             // Verify points transaction was created with correct values
             const transactionCorrect = 
               result.transaction.points === expectedPoints &&
@@ -189,6 +191,8 @@ describe('Gamification Points Consistency Properties', () => {
               customPoints
             );
 
+            if (!result) return false;
+
             // Verify custom points were awarded correctly
             const customPointsCorrect = 
               result.transaction.points === customPoints &&
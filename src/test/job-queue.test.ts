@@ -0,0 +1,183 @@
+import { JobQueue } from '../lib/jobQueue';
+import { getNextCronTime, parseCron } from '../lib/cron';
+import prisma from '../lib/prisma';
+
+describe('Job Queue', () => {
+  describe('Cron expressions', () => {
+    const from = new Date('2026-10-19T10:17:30Z'); // a Monday
+
+    it('should find the next matching time', () => {
+      expect(getNextCronTime('* * * * *', from).toISOString()).toBe('2026-10-19T10:18:00.000Z');
+      expect(getNextCronTime('*/15 * * * *', from).toISOString()).toBe('2026-10-19T10:30:00.000Z');
+      expect(getNextCronTime('0 3 * * *', from).toISOString()).toBe('2026-10-20T03:00:00.000Z');
+      expect(getNextCronTime('0 9 * * 0', from).toISOString()).toBe('2026-10-25T09:00:00.000Z');
+      expect(getNextCronTime('30 8 * * 1-5', from).toISOString()).toBe('2026-10-20T08:30:00.000Z');
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow('Invalid cron expression');
+      expect(() => parseCron('61 * * * *')).toThrow('Invalid cron expression');
+      expect(() => getNextCronTime('0 0 31 2 *', from)).toThrow('never matches');
+    });
+  });
+
+  describe('Runs', () => {
+    let calls = 0;
+    let shouldFail = false;
+    let releaseSlowJob: () => void = () => {};
+    const slowJobGate = new Promise<void>(resolve => {
+      releaseSlowJob = resolve;
+    });
+
+    beforeAll(() => {
+      JobQueue.register({
+        name: 'testJob',
+        cron: '0 0 * * *',
+        maxAttempts: 2,
+        handler: async () => {
+          calls++;
+          if (shouldFail) {
+            throw new Error('Handler exploded');
+          }
+          return { calls };
+        }
+      });
+
+      JobQueue.register({
+        name: 'slowJob',
+        cron: '0 0 * * *',
+        handler: async () => {
+          await slowJobGate;
+          return { released: true };
+        }
+      });
+
+      JobQueue.register({
+        name: 'reclaimedJob',
+        cron: '0 0 * * *',
+        handler: async () => {
+          // Another instance takes over the run while this handler is still going
+          await prisma.jobRun.updateMany({
+            where: { jobName: 'reclaimedJob', status: 'running' },
+            data: { lockedBy: 'other-instance' }
+          });
+          return { stale: true };
+        }
+      });
+    });
+
+    beforeEach(() => {
+      calls = 0;
+      shouldFail = false;
+    });
+
+    it('should record a successful manual run', async () => {
+      const run = await JobQueue.trigger('testJob');
+      await JobQueue.tick();
+
+      const finished = await JobQueue.getRun(run.id);
+      expect(finished.status).toBe('succeeded');
+      expect(finished.result).toEqual({ calls: 1 });
+      expect(calls).toBe(1);
+    });
+
+    it('should retry with backoff and dead-letter after the last attempt', async () => {
+      shouldFail = true;
+
+      const run = await JobQueue.trigger('testJob');
+      await JobQueue.tick();
+
+      let current = await JobQueue.getRun(run.id);
+      expect(current.status).toBe('pending');
+      expect(current.attempt).toBe(2);
+      expect(current.runAt.getTime()).toBeGreaterThan(Date.now());
+      expect(current.error).toBe('Handler exploded');
+
+      // Skip the backoff delay
+      await prisma.jobRun.update({ where: { id: run.id }, data: { runAt: new Date() } });
+      await JobQueue.tick();
+
+      current = await JobQueue.getRun(run.id);
+      expect(current.status).toBe('dead');
+      expect(calls).toBe(2);
+
+      const deadLetters = await JobQueue.getRuns(undefined, { status: 'dead' });
+      expect(deadLetters.items.map(r => r.id)).toContain(run.id);
+
+      const retry = await JobQueue.retryRun(current.id);
+      expect(retry.trigger).toBe('retry');
+      await JobQueue.tick();
+    });
+
+    it('should enqueue a due scheduled run and advance the schedule', async () => {
+      await JobQueue.trigger('testJob');
+      await JobQueue.tick();
+      await prisma.jobRun.deleteMany();
+
+      await prisma.scheduledJob.update({
+        where: { name: 'testJob' },
+        data: { nextRunAt: new Date(Date.now() - 1000) }
+      });
+
+      await JobQueue.tick();
+      await JobQueue.tick();
+
+      const runs = await prisma.jobRun.findMany({ where: { jobName: 'testJob', trigger: 'schedule' } });
+      expect(runs).toHaveLength(1);
+
+      const job = await prisma.scheduledJob.findUnique({ where: { name: 'testJob' } });
+      expect(job!.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not hold up other jobs while one is still running', async () => {
+      const slowRun = await JobQueue.trigger('slowJob');
+      const slowTick = JobQueue.tick();
+      const run = await JobQueue.trigger('testJob');
+
+      let finished = await JobQueue.getRun(run.id);
+      for (let i = 0; i < 50 && finished.status !== 'succeeded'; i++) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        JobQueue.tick();
+        finished = await JobQueue.getRun(run.id);
+      }
+
+      expect(finished.status).toBe('succeeded');
+      expect((await JobQueue.getRun(slowRun.id)).status).toBe('running');
+
+      releaseSlowJob();
+      await slowTick;
+
+      expect((await JobQueue.getRun(slowRun.id)).status).toBe('succeeded');
+    });
+
+    it('should not record results for a run whose lock was taken over', async () => {
+      const run = await JobQueue.trigger('reclaimedJob');
+      await JobQueue.tick();
+
+      const current = await JobQueue.getRun(run.id);
+      expect(current.status).toBe('running');
+      expect(current.lockedBy).toBe('other-instance');
+      expect(current.result).toBeNull();
+    });
+
+    it('should prune old succeeded runs and keep dead ones', async () => {
+      const longAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const [oldRun, recentRun, deadRun] = await Promise.all([
+        prisma.jobRun.create({ data: { jobName: 'testJob', status: 'succeeded', finishedAt: longAgo } }),
+        prisma.jobRun.create({ data: { jobName: 'testJob', status: 'succeeded', finishedAt: new Date() } }),
+        prisma.jobRun.create({ data: { jobName: 'testJob', status: 'dead', finishedAt: longAgo } })
+      ]);
+
+      const deleted = await JobQueue.pruneRuns(7);
+
+      expect(deleted).toBe(1);
+      await expect(JobQueue.getRun(oldRun.id)).rejects.toThrow('Job run not found');
+      expect((await JobQueue.getRun(recentRun.id)).status).toBe('succeeded');
+      expect((await JobQueue.getRun(deadRun.id)).status).toBe('dead');
+    });
+
+    it('should reject unknown jobs', async () => {
+      await expect(JobQueue.trigger('missingJob')).rejects.toThrow('Job not found');
+    });
+  });
+});
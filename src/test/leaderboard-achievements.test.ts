@@ -502,6 +502,52 @@ describe('Leaderboard Calculations and Achievement Badge Awarding', () => {
       expect(contributorStats?.usersEarned).toBe(2); // 2 users have 100+ points
     });
 
+    it('should track milestones and statistics against community achievements', async () => {
+      await AchievementService.createCommunityAchievement(testCommunity.id, {
+        key: 'first_steps',
+        name: 'First Steps',
+        description: 'Earned 20 points',
+        pointsRequired: 20,
+        badgeIcon: '👣'
+      });
+      await AchievementService.createCommunityAchievement(testCommunity.id, {
+        key: 'regular',
+        name: 'Regular',
+        description: 'Earned 200 points',
+        pointsRequired: 200,
+        badgeIcon: '🎯'
+      });
+
+      await PointsService.awardPoints({
+        userId: testUsers[0].id,
+        communityId: testCommunity.id,
+        points: 50,
+        reason: 'Test points'
+      });
+
+      // Raising the bar later doesn't take back a recorded achievement
+      await AchievementService.updateCommunityAchievement(testCommunity.id, 'first_steps', { pointsRequired: 100 });
+
+      const milestones = await AchievementService.getUserMilestones(testUsers[0].id, testCommunity.id);
+
+      expect(milestones.currentPoints).toBe(50);
+      expect(milestones.earnedAchievements.map(a => a.id)).toEqual(['first_steps']);
+      expect(milestones.nextAchievement?.id).toBe('regular');
+      expect(milestones.pointsToNext).toBe(150);
+      expect(milestones.progressToNext).toBe(0.25);
+
+      const stats = await AchievementService.getAchievementStats(testCommunity.id);
+
+      expect(stats.totalAchievements).toBe(2);
+      expect(stats.achievementStats.find(s => s.achievement.id === 'first_steps')?.usersEarned).toBe(1);
+      expect(stats.achievementStats.find(s => s.achievement.id === 'regular')?.usersEarned).toBe(0);
+
+      const globalStats = await AchievementService.getAchievementStats();
+      expect(globalStats.achievementStats.map(s => s.achievement.id)).toEqual(
+        expect.arrayContaining(['newcomer', 'first_steps', 'regular'])
+      );
+    });
+
     it('should handle recent achievement earners correctly', async () => {
       await PointsService.awardPoints({
         userId: testUsers[0].id,
@@ -522,6 +568,36 @@ describe('Leaderboard Calculations and Achievement Badge Awarding', () => {
       expect(earner.achievement.id).toBe('contributor');
     });
 
+    it('should record each achievement once with its triggering transaction', async () => {
+      const first = await PointsService.awardPoints({
+        userId: testUsers[0].id,
+        communityId: testCommunity.id,
+        points: 15,
+        reason: 'Test points'
+      });
+
+      await PointsService.awardPoints({
+        userId: testUsers[0].id,
+        communityId: testCommunity.id,
+        points: 20,
+        reason: 'Test points'
+      });
+
+      await AchievementService.checkAndAwardAchievements(testUsers[0].id, testCommunity.id);
+
+      const records = await prisma.userAchievement.findMany({
+        where: { userId: testUsers[0].id, achievementId: 'newcomer' }
+      });
+      expect(records).toHaveLength(1);
+      expect(records[0].communityId).toBe(testCommunity.id);
+      expect(records[0].transactionId).toBe(first.transaction.id);
+
+      const notifications = await prisma.notification.count({
+        where: { userId: testUsers[0].id, type: 'ACHIEVEMENT_EARNED' }
+      });
+      expect(notifications).toBe(1);
+    });
+
     it('should throw error for invalid achievement ID', async () => {
       await expect(
         AchievementService.getRecentAchievementEarners('invalid_achievement', 10)
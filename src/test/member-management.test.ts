@@ -489,9 +489,9 @@ describe('Member Management Unit Tests', () => {
         testUser1.id
       );
 
-      expect(result.members.length).toBeGreaterThanOrEqual(3);
-      expect(result.total).toBeGreaterThanOrEqual(3);
+      expect(result.items.length).toBeGreaterThanOrEqual(3);
       expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeNull();
     });
 
     it('should deny access to non-members', async () => {
@@ -517,8 +517,8 @@ describe('Member Management Unit Tests', () => {
         { role: 'moderator' }
       );
 
-      expect(result.members).toHaveLength(1);
-      expect(result.members[0].role).toBe('moderator');
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].role).toBe('moderator');
     });
 
     it('should filter members by status', async () => {
@@ -528,19 +528,35 @@ describe('Member Management Unit Tests', () => {
         { status: 'suspended' }
       );
 
-      expect(result.members).toHaveLength(1);
-      expect(result.members[0].status).toBe('suspended');
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].status).toBe('suspended');
     });
 
-    it('should support pagination', async () => {
-      const result = await CommunityService.getCommunityMembers(
+    it('should support cursor pagination', async () => {
+      const first = await CommunityService.getCommunityMembers(
         testCommunity.id,
         testUser1.id,
-        { limit: 2, offset: 0 }
+        { limit: 2 }
       );
 
-      expect(result.members.length).toBeLessThanOrEqual(2);
-      expect(result.hasMore).toBe(result.total > 2);
+      expect(first.items).toHaveLength(2);
+      expect(first.hasMore).toBe(true);
+
+      const second = await CommunityService.getCommunityMembers(
+        testCommunity.id,
+        testUser1.id,
+        { limit: 2, cursor: first.nextCursor! }
+      );
+
+      const firstIds = first.items.map(member => member.id);
+      expect(second.items.length).toBeGreaterThan(0);
+      expect(second.items.some(member => firstIds.includes(member.id))).toBe(false);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(
+        CommunityService.getCommunityMembers(testCommunity.id, testUser1.id, { cursor: 'not-a-cursor' })
+      ).rejects.toThrow('Invalid cursor');
     });
   });
 
@@ -0,0 +1,87 @@
+import request from 'supertest';
+import app from '../index';
+import prisma from '../lib/prisma';
+import { generateAccessToken } from '../lib/auth';
+import { NotificationType } from '../lib/notificationService';
+
+describe('Mentions', () => {
+  let author: any;
+  let member: any;
+  let outsider: any;
+  let community: any;
+  let authorToken: string;
+
+  beforeEach(async () => {
+    [author, member, outsider] = await Promise.all(
+      ['mentionauthor', 'mentionmember', 'mentionoutsider'].map(username =>
+        prisma.user.create({
+          data: { email: `${username}@example.com`, passwordHash: 'hashedpassword', username, emailVerified: true }
+        })
+      )
+    );
+
+    community = await prisma.community.create({
+      data: { name: 'Mention Community', slug: 'mention-community', creatorId: author.id, isPublic: true }
+    });
+
+    await prisma.communityMembership.createMany({
+      data: [
+        { userId: author.id, communityId: community.id, role: 'admin', status: 'active' },
+        { userId: member.id, communityId: community.id, role: 'member', status: 'active' }
+      ]
+    });
+
+    authorToken = generateAccessToken({ userId: author.id, email: author.email, username: author.username });
+  });
+
+  it('should store member mentions as tokens and notify them', async () => {
+    const response = await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${authorToken}`)
+      .send({ content: 'Welcome @MentionMember and @mentionoutsider!' })
+      .expect(201);
+
+    expect(response.body.data.content).toBe(
+      `Welcome @[mentionmember](${member.id}) and @mentionoutsider!`
+    );
+
+    const notifications = await prisma.notification.findMany({ where: { type: NotificationType.MENTION } });
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].userId).toBe(member.id);
+  });
+
+  it('should keep links across renames and only notify new mentions on edit', async () => {
+    const created = await request(app)
+      .post(`/api/v1/posts/community/${community.id}`)
+      .set('Authorization', `Bearer ${authorToken}`)
+      .send({ content: 'Thanks @mentionmember' })
+      .expect(201);
+
+    await prisma.user.update({ where: { id: member.id }, data: { username: 'renamedmember' } });
+
+    const updated = await request(app)
+      .put(`/api/v1/posts/${created.body.data.id}`)
+      .set('Authorization', `Bearer ${authorToken}`)
+      .send({ content: `${created.body.data.content}, great work` })
+      .expect(200);
+
+    expect(updated.body.data.content).toBe(`Thanks @[renamedmember](${member.id}), great work`);
+    expect(await prisma.notification.count({ where: { type: NotificationType.MENTION } })).toBe(1);
+  });
+
+  it('should suggest community members only', async () => {
+    const response = await request(app)
+      .get(`/api/v1/communities/${community.id}/mentions?q=mention`)
+      .set('Authorization', `Bearer ${authorToken}`)
+      .expect(200);
+
+    const usernames = response.body.data.map((user: any) => user.username);
+    expect(usernames).toEqual(['mentionauthor', 'mentionmember']);
+
+    const outsiderToken = generateAccessToken({ userId: outsider.id, email: outsider.email, username: outsider.username });
+    await request(app)
+      .get(`/api/v1/communities/${community.id}/mentions?q=mention`)
+      .set('Authorization', `Bearer ${outsiderToken}`)
+      .expect(403);
+  });
+});
@@ -41,7 +41,7 @@ describe('Notification System', () => {
         sendEmail: false
       });
 
-      const notifications = await notificationService.getUserNotifications(testUser.id);
+      const { items: notifications } = await notificationService.getUserNotifications(testUser.id);
       
       expect(notifications).toHaveLength(1);
       expect(notifications[0].title).toBe('Test Comment');
@@ -60,7 +60,7 @@ describe('Notification System', () => {
       const success = await notificationService.markAsRead(notificationId, testUser.id);
       expect(success).toBe(true);
 
-      const notifications = await notificationService.getUserNotifications(testUser.id);
+      const { items: notifications } = await notificationService.getUserNotifications(testUser.id);
       expect(notifications[0].isRead).toBe(true);
       expect(notifications[0].readAt).toBeTruthy();
     });
@@ -155,7 +155,7 @@ describe('Notification System', () => {
       expect(notificationCount).toBe(1); // Only user2 should get notification (not creator)
 
       // Check that user2 received the notification
-      const user2Notifications = await notificationService.getUserNotifications(user2.id);
+      const { items: user2Notifications } = await notificationService.getUserNotifications(user2.id);
       expect(user2Notifications).toHaveLength(1);
       expect(user2Notifications[0].type).toBe(NotificationType.COMMUNITY_ANNOUNCEMENT);
     });
@@ -175,6 +175,20 @@ describe('Notification System', () => {
       expect(html).toContain('Community Learning Platform');
     });
 
+    it('should escape user-supplied text in action emails', () => {
+      const html = emailService.generateActionEmail(
+        'Verify your email address',
+        'Hi <img src=x onerror=alert(1)>, please confirm your email.',
+        'Verify Email',
+        'https://example.com/verify-email?token=abc',
+        'If you did not create an account, you can safely ignore this email.'
+      );
+
+      expect(html).not.toContain('<img');
+      expect(html).toContain('Hi &lt;img src=x onerror=alert(1)&gt;, please confirm your email.');
+      expect(html).toContain('href="https://example.com/verify-email?token=abc"');
+    });
+
     it('should generate digest email HTML', () => {
       const notifications = [
         {
@@ -0,0 +1,191 @@
+import { PayoutService } from '../lib/payoutService';
+import { RevenueService } from '../lib/revenueService';
+import prisma from '../lib/prisma';
+
+describe('Payout Ledger', () => {
+  let creator: any;
+  let community: any;
+  const lastMonth = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth() - 1, 15));
+
+  beforeEach(async () => {
+    creator = await prisma.user.create({
+      data: {
+        email: 'payout-creator@example.com',
+        passwordHash: 'hashedpassword',
+        username: 'payoutcreator',
+        emailVerified: true
+      }
+    });
+
+    community = await prisma.community.create({
+      data: {
+        name: 'Payout Community',
+        slug: 'payout-community',
+        creatorId: creator.id
+      }
+    });
+  });
+
+  async function recordLastMonth() {
+    await PayoutService.recordEntry({
+      communityId: community.id,
+      type: 'earning',
+      source: 'subscription',
+      amount: 100,
+      currency: 'usd',
+      stripeObjectId: 'in_ledger_1',
+      occurredAt: lastMonth
+    });
+    await PayoutService.recordEntry({
+      communityId: community.id,
+      type: 'refund',
+      source: 'subscription',
+      amount: 20,
+      currency: 'usd',
+      stripeObjectId: 'ch_ledger_1:2000',
+      occurredAt: lastMonth
+    });
+    await PayoutService.recordEntry({
+      communityId: community.id,
+      type: 'chargeback',
+      source: 'course_purchase',
+      amount: 30,
+      currency: 'usd',
+      stripeObjectId: 'du_ledger_1',
+      occurredAt: lastMonth
+    });
+  }
+
+  it('should book entries once and take the fee from revenue net of refunds and chargebacks', async () => {
+    await recordLastMonth();
+    await PayoutService.recordEntry({
+      communityId: community.id,
+      type: 'earning',
+      source: 'subscription',
+      amount: 100,
+      currency: 'usd',
+      stripeObjectId: 'in_ledger_1',
+      occurredAt: lastMonth
+    });
+
+    const [payout] = await RevenueService.calculateCreatorPayouts(lastMonth, lastMonth, creator.id);
+
+    expect(payout).toMatchObject({
+      communityId: community.id,
+      grossRevenue: 100,
+      refunds: 20,
+      chargebacks: 30,
+      totalRevenue: 50,
+      platformFee: 2.5,
+      creatorEarnings: 47.5,
+      status: 'pending',
+      closedAt: null
+    });
+  });
+
+  it('should freeze a closed period and book late activity into the current one', async () => {
+    await recordLastMonth();
+    const [open] = await RevenueService.calculateCreatorPayouts(lastMonth, lastMonth, creator.id);
+
+    const closed = await PayoutService.closePeriod(open.periodId);
+    expect(Number(closed.netPayout)).toBe(47.5);
+    await expect(PayoutService.closePeriod(open.periodId)).rejects.toThrow('Payout period is already closed');
+
+    await PayoutService.recordEntry({
+      communityId: community.id,
+      type: 'refund',
+      source: 'subscription',
+      amount: 10,
+      currency: 'usd',
+      stripeObjectId: 'ch_ledger_1:3000',
+      occurredAt: lastMonth
+    });
+
+    const [frozen] = await RevenueService.calculateCreatorPayouts(lastMonth, lastMonth, creator.id);
+    expect(frozen.creatorEarnings).toBe(47.5);
+    expect(frozen.refunds).toBe(20);
+
+    const [current] = await RevenueService.calculateCreatorPayouts(new Date(), new Date(), creator.id);
+    expect(current.refunds).toBe(10);
+    await expect(PayoutService.closePeriod(current.periodId)).rejects.toThrow('Payout period has not ended yet');
+  });
+
+  it('should keep a separate period for each currency', async () => {
+    await recordLastMonth();
+    await PayoutService.recordEntry({
+      communityId: community.id,
+      type: 'earning',
+      source: 'course_purchase',
+      amount: 40,
+      currency: 'EUR',
+      stripeObjectId: 'pi_ledger_eur',
+      occurredAt: lastMonth
+    });
+
+    const payouts = await RevenueService.calculateCreatorPayouts(lastMonth, lastMonth, creator.id);
+
+    expect(payouts).toHaveLength(2);
+    expect(payouts.find(payout => payout.currency === 'usd')!.grossRevenue).toBe(100);
+    expect(payouts.find(payout => payout.currency === 'eur')!.grossRevenue).toBe(40);
+  });
+
+  it('should never freeze totals that miss an entry booked while closing', async () => {
+    await recordLastMonth();
+    const [open] = await RevenueService.calculateCreatorPayouts(lastMonth, lastMonth, creator.id);
+
+    await Promise.all([
+      PayoutService.closePeriod(open.periodId),
+      PayoutService.recordEntry({
+        communityId: community.id,
+        type: 'earning',
+        source: 'subscription',
+        amount: 60,
+        currency: 'usd',
+        stripeObjectId: 'in_ledger_race',
+        occurredAt: lastMonth
+      })
+    ]);
+
+    const closed = await PayoutService.getPeriod(open.periodId);
+    const booked = closed.entries
+      .filter(entry => entry.type === 'earning')
+      .reduce((sum, entry) => sum + Number(entry.amount), 0);
+
+    expect(Number(closed.grossRevenue)).toBe(booked);
+  });
+
+  it('should only change payout status on closed periods', async () => {
+    await recordLastMonth();
+    const [payout] = await RevenueService.calculateCreatorPayouts(lastMonth, lastMonth, creator.id);
+
+    await expect(PayoutService.updateStatus(payout.periodId, 'paid')).rejects.toThrow('Payout period is still open');
+
+    await PayoutService.closePeriod(payout.periodId);
+    const held = await PayoutService.updateStatus(payout.periodId, 'held', 'Chargeback under review');
+    expect(held).toMatchObject({ status: 'held', holdReason: 'Chargeback under review', paidAt: null });
+
+    const paid = await PayoutService.updateStatus(payout.periodId, 'paid');
+    expect(paid.status).toBe('paid');
+    expect(paid.holdReason).toBeNull();
+    expect(paid.paidAt).toBeInstanceOf(Date);
+  });
+
+  it('should render CSV and PDF statements', async () => {
+    await recordLastMonth();
+    const [payout] = await RevenueService.calculateCreatorPayouts(lastMonth, lastMonth, creator.id);
+
+    const csv = await PayoutService.getStatement(payout.periodId, 'csv');
+    const csvText = csv.body.toString();
+    expect(csv.contentType).toBe('text/csv');
+    expect(csvText).toContain('Payout Community');
+    expect(csvText).toContain('in_ledger_1');
+    expect(csvText).toContain('Net payout,47.50');
+
+    const pdf = await PayoutService.getStatement(payout.periodId, 'pdf');
+    const pdfText = pdf.body.toString('latin1');
+    expect(pdf.contentType).toBe('application/pdf');
+    expect(pdfText.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdfText.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdfText).toContain('Net payout: 47.50 USD');
+  });
+});
@@ -131,8 +131,8 @@ describe('Posts Integration Test', () => {
       .expect(200);
 
     expect(getCommentsResponse.body.success).toBe(true);
-    expect(getCommentsResponse.body.data).toBeInstanceOf(Array);
-    expect(getCommentsResponse.body.data.length).toBeGreaterThan(0);
+    expect(getCommentsResponse.body.data.items).toBeInstanceOf(Array);
+    expect(getCommentsResponse.body.data.items.length).toBeGreaterThan(0);
 
     // 5. Like the post
     const likePostResponse = await request(app)
@@ -174,8 +174,8 @@ describe('Posts Integration Test', () => {
       .expect(200);
 
     expect(searchResponse.body.success).toBe(true);
-    expect(searchResponse.body.data.posts).toBeInstanceOf(Array);
-    expect(searchResponse.body.data.posts.length).toBeGreaterThan(0);
+    expect(searchResponse.body.data.items).toBeInstanceOf(Array);
+    expect(searchResponse.body.data.items.length).toBeGreaterThan(0);
 
     console.log('✅ All post functionality working correctly!');
   });
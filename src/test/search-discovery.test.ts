@@ -96,8 +96,8 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities).toHaveLength(1);
-      expect(response.body.data.communities[0].name).toBe('JavaScript Mastery');
+      expect(response.body.data.items).toHaveLength(1);
+      expect(response.body.data.items[0].name).toBe('JavaScript Mastery');
     });
 
     it('should search communities by category', async () => {
@@ -110,7 +110,7 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities.length).toBeGreaterThan(0);
+      expect(response.body.data.items.length).toBeGreaterThan(0);
     });
 
     it('should filter by price range', async () => {
@@ -123,7 +123,7 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities).toHaveLength(1);
+      expect(response.body.data.items).toHaveLength(1);
     });
 
     it('should filter by member count', async () => {
@@ -136,7 +136,7 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities).toHaveLength(1);
+      expect(response.body.data.items).toHaveLength(1);
     });
 
     it('should require search query', async () => {
@@ -220,8 +220,8 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.bookmarks).toHaveLength(1);
-      expect(response.body.data.bookmarks[0].id).toBe(testCommunity2.id);
+      expect(response.body.data.items).toHaveLength(1);
+      expect(response.body.data.items[0].id).toBe(testCommunity2.id);
     });
 
     it('should remove bookmark', async () => {
@@ -309,7 +309,7 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities.length).toBeGreaterThan(0);
+      expect(response.body.data.items.length).toBeGreaterThan(0);
     });
 
     it('should support sorting by members', async () => {
@@ -319,7 +319,7 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities).toBeDefined();
+      expect(response.body.data.items).toBeDefined();
     });
 
     it('should support price range filtering', async () => {
@@ -329,7 +329,7 @@ describe('Search and Discovery Features', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data.communities).toBeDefined();
+      expect(response.body.data.items).toBeDefined();
     });
   });
 });
\ No newline at end of file
@@ -136,7 +136,9 @@ export async function cleanupTestData() {
   await prisma.commentLike.deleteMany();
   await prisma.postLike.deleteMany();
   await prisma.contentReport.deleteMany();
+  await prisma.memberSanction.deleteMany();
   await prisma.subscription.deleteMany();
+  await prisma.userAchievement.deleteMany();
   await prisma.pointsTransaction.deleteMany();
   await prisma.userProgress.deleteMany();
   await prisma.comment.deleteMany();
@@ -150,6 +152,10 @@ export async function cleanupTestData() {
   await prisma.userBookmark.deleteMany();
   await prisma.userInterest.deleteMany();
   await prisma.auditLog.deleteMany();
+  await prisma.stripeEvent.deleteMany();
+  await prisma.payoutPeriod.deleteMany();
+  await prisma.jobRun.deleteMany();
+  await prisma.scheduledJob.deleteMany();
   await prisma.user.deleteMany();
 }
 
@@ -136,7 +136,9 @@ export class DatabaseTestUtils {
     await this.prisma.commentLike.deleteMany();
     await this.prisma.postLike.deleteMany();
     await this.prisma.contentReport.deleteMany();
+    await this.prisma.memberSanction.deleteMany();
     await this.prisma.subscription.deleteMany();
+    await this.prisma.userAchievement.deleteMany();
     await this.prisma.pointsTransaction.deleteMany();
     await this.prisma.userProgress.deleteMany();
     await this.prisma.comment.deleteMany();
@@ -150,6 +152,8 @@ export class DatabaseTestUtils {
     await this.prisma.userBookmark.deleteMany();
     await this.prisma.userInterest.deleteMany();
     await this.prisma.auditLog.deleteMany();
+    await this.prisma.jobRun.deleteMany();
+    await this.prisma.scheduledJob.deleteMany();
     await this.prisma.user.deleteMany();
   }
 }